@@ -318,7 +318,7 @@ function App() {
                   <tr>
                     <td className="px-6 py-4 font-mono text-sm text-blue-600">dataUrl</td>
                     <td className="px-6 py-4 font-mono text-sm text-gray-600">string</td>
-                    <td className="px-6 py-4 text-sm text-gray-600">URL to fetch timeline JSON data</td>
+                    <td className="px-6 py-4 text-sm text-gray-600">URL to fetch timeline JSON or Simile XML data</td>
                   </tr>
                   <tr>
                     <td className="px-6 py-4 font-mono text-sm text-blue-600">height</td>
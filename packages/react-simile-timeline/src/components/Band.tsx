@@ -1,12 +1,28 @@
 import { useRef, useEffect, useCallback, useMemo } from 'react';
-import type { BandConfig } from '../types';
+import type { AnimateOptions, BandConfig } from '../types';
 import { useTimelineContext } from './TimelineProvider';
 import { usePan } from '../hooks/usePan';
-import { TIME_UNITS, type TimeUnit, getVisibleRange } from '../utils/dateUtils';
+import { useLayoutTracks } from '../hooks/useLayoutTracks';
+import { useLabelMeasure } from '../hooks/useLabelMeasure';
+import {
+  TIME_UNITS,
+  type TimeUnit,
+  getVisibleRange,
+  pixelToDate,
+  prepareHotZones,
+  tryParseDate,
+} from '../utils/dateUtils';
+import { getBandKey, getPrimaryBandIndex } from '../utils/bandSync';
+import { createGroupTrackOf, fixedTrackOf } from '../utils/layoutEngine';
+import type { EventStore } from '../utils/eventStore';
 import { TimeScale } from './TimeScale';
 import { EventTrack } from './EventTrack';
+import { BandLanes } from './BandLanes';
 import { OverviewMarkers } from './OverviewMarkers';
+import { OverviewDensity } from './OverviewDensity';
+import { OverviewViewport } from './OverviewViewport';
 import { HotZones } from './HotZones';
+import { CanvasEventLayer } from './CanvasEventLayer';
 
 export interface BandProps {
   /** Band configuration */
@@ -25,13 +41,50 @@ function calculatePixelsPerMs(config: BandConfig): number {
   return intervalPixels / unitMs;
 }
 
+/**
+ * Zoom per pixel of ctrl+wheel delta, the way browsers report a trackpad pinch
+ */
+const PINCH_ZOOM_SPEED = 0.01;
+
+/** Zoom that follows the input as it happens (wheel and touch), not animated */
+const IMMEDIATE: AnimateOptions = { duration: 0 };
+
+/** Gesture zoom that moves a stepped band by one step, the size of a wheel notch */
+const ZOOM_STEP_GESTURE = 1.15;
+
+/** Tracks a clustering band stacks events on when it sets no `maxTracks` */
+const DEFAULT_CLUSTER_TRACKS = 4;
+
+/** Pixels a press on the overview may move and still count as a click */
+const CLICK_SLOP = 4;
+
+/**
+ * Date of the event marker focused inside a band, if any: a point event's
+ * start or a duration event's midpoint, as scrollToEvent centers them
+ */
+function getFocusedEventDate(container: HTMLElement, eventStore: EventStore): Date | undefined {
+  const marker = document.activeElement?.closest<HTMLElement>('.timeline-event');
+  if (!marker || !container.contains(marker)) return undefined;
+
+  const event = marker.dataset.eventId ? eventStore.byId.get(marker.dataset.eventId)?.event : undefined;
+  const start = event ? tryParseDate(event.start) : null;
+  if (!event || !start) return undefined;
+  const end = event.end ? tryParseDate(event.end) : null;
+  return end ? new Date((start.getTime() + end.getTime()) / 2) : start;
+}
+
 /**
  * Single timeline band component
  * Handles pan interaction and renders time scale + events
  */
 export function Band({ config, isPrimary = false }: BandProps) {
   const containerRef = useRef<HTMLDivElement>(null);
-  const { state, actions, events, hotZones } = useTimelineContext();
+  const { state, actions, events, eventStore, layoutPipeline, bands, hotZones } = useTimelineContext();
+
+  // This band's own center: bands scroll independently or through the sync
+  // graph, so only a locked band sits exactly on the primary center.
+  const bandKey = getBandKey(config, bands.indexOf(config));
+  const centerDate = state.bandCenters[bandKey] ?? state.centerDate;
 
   // Calculate this band's pixels per ms (may differ from primary), adjusted by zoom level
   const bandPixelsPerMs = useMemo(
@@ -39,16 +92,184 @@ export function Band({ config, isPrimary = false }: BandProps) {
     [config, state.zoomLevel]
   );
 
+  // Magnified hot zones stretch the detail axis. The overview stays linear:
+  // it is the undistorted map the detail band's zones are read against.
+  const zones = useMemo(
+    () => (config.overview ? [] : prepareHotZones(hotZones)),
+    [config.overview, hotZones]
+  );
+
+  // Tracks pinned per event, by `trackNum` or a track per value of a field,
+  // hold as the view moves; greedy layout packs events per viewport instead
+  const trackOf = useMemo(() => {
+    if (config.overview) return undefined;
+    if (config.layout === 'fixed') return fixedTrackOf;
+    if (config.layout === 'grouped' && config.groupBy) return createGroupTrackOf(events, config.groupBy);
+    return undefined;
+  }, [config.overview, config.layout, config.groupBy, events]);
+
+  // A detail band can draw its events on a canvas instead of the DOM
+  const canvas = config.renderer === 'canvas' && !config.overview;
+
+  // Clustering merges what does not fit the tracks into badges
+  const cluster = config.cluster && !trackOf && !canvas
+    ? (config.cluster === true ? {} : config.cluster)
+    : undefined;
+  const maxTracks = config.maxTracks || (cluster ? DEFAULT_CLUSTER_TRACKS : 0);
+
+  // An overview band can summarize its events as density instead of ticks
+  const density = config.overview && config.density
+    ? (config.density === true ? {} : config.density)
+    : undefined;
+
+  // Labels are packed onto tracks by their width in the band's font
+  const { font: labelFont, measureText } = useLabelMeasure(containerRef);
+
+  // A detail band drawn with the DOM can split its events into swimlanes
+  const lanes = !config.overview && !canvas && config.lanes?.length
+    ? config.lanes
+    : undefined;
+
+  // The canvas draws neither lanes nor clusters; say so rather than drop them
+  const canvasIgnores = canvas
+    ? [config.lanes?.length && 'lanes', config.cluster && 'cluster'].filter(Boolean).join(' and ')
+    : '';
+  useEffect(() => {
+    if (!canvasIgnores) return;
+    console.warn(
+      `Timeline band "${config.id}": the canvas renderer ignores ${canvasIgnores}; use renderer: 'dom' for them.`
+    );
+  }, [config.id, canvasIgnores]);
+
+  // Tracks over the whole dataset from the layout worker, when offloaded.
+  // The overview band does not stack events on tracks, a clustering band
+  // assigns them per viewport, pinned tracks need no assigning, and lanes
+  // stack each lane's events on tracks of its own. Tracks are packed on the
+  // band's magnified axis, so events spread by a zone share tracks as drawn.
+  const showLabels = config.showEventLabels !== false;
+  const tracks = useLayoutTracks(
+    config.overview || cluster || trackOf || lanes ? null : layoutPipeline,
+    bandPixelsPerMs,
+    showLabels,
+    maxTracks,
+    labelFont,
+    zones
+  );
+
   // Calculate visible range for this band
   const visibleRange = useMemo(
-    () => getVisibleRange(state.centerDate, state.viewportWidth, bandPixelsPerMs),
-    [state.centerDate, state.viewportWidth, bandPixelsPerMs]
+    () => getVisibleRange(centerDate, state.viewportWidth, bandPixelsPerMs, zones),
+    [centerDate, state.viewportWidth, bandPixelsPerMs, zones]
   );
 
-  // Handle pan
+  // The detail band an overview band maps: the one it syncs with, else the
+  // primary band. Its visible range is drawn as a window on the overview.
+  const viewportTarget = useMemo(() => {
+    if (!config.overview || config.showViewport === false) return undefined;
+    const target = bands.find(b => b.id === config.syncWith) ?? bands[getPrimaryBandIndex(bands)];
+    return target && !target.overview ? target : undefined;
+  }, [config, bands]);
+  const targetKey = viewportTarget && getBandKey(viewportTarget, bands.indexOf(viewportTarget));
+  const targetCenter = targetKey ? state.bandCenters[targetKey] ?? state.centerDate : undefined;
+  const targetRange = useMemo(
+    () => viewportTarget && targetCenter
+      ? getVisibleRange(
+          targetCenter,
+          state.viewportWidth,
+          calculatePixelsPerMs(viewportTarget) * state.zoomLevel,
+          prepareHotZones(hotZones)
+        )
+      : undefined,
+    [viewportTarget, targetCenter, state.viewportWidth, state.zoomLevel, hotZones]
+  );
+
+  // Dragging the window pans the detail band; it stops at the pan bounds,
+  // as there is no release to spring back from them
+  const handleViewportPan = useCallback((deltaMs: number) => {
+    actions.pan(deltaMs, targetKey);
+  }, [actions, targetKey]);
+
+  // A resized window zooms the detail band to the new range, holding the
+  // edge that was not dragged
+  const handleViewportResize = useCallback((start: Date, end: Date) => {
+    if (!targetRange) return;
+    const fromStart = targetRange.start.getTime();
+    const fromEnd = targetRange.end.getTime();
+    const anchor = Math.abs(start.getTime() - fromStart) < Math.abs(end.getTime() - fromEnd)
+      ? targetRange.start
+      : targetRange.end;
+    actions.zoom((fromEnd - fromStart) / (end.getTime() - start.getTime()), anchor, targetKey);
+  }, [actions, targetKey, targetRange]);
+
+  // Handle pan - starts on this band and carries to the bands synced with it.
+  // Elastic: usePan holds keyboard pans at the bounds and rubber-bands drags.
   const handlePan = useCallback((deltaMs: number) => {
-    actions.pan(deltaMs);
-  }, [actions]);
+    actions.pan(deltaMs, bandKey, true);
+  }, [actions, bandKey]);
+
+  // Arrow keys glide, as the +/- keys zoom; the provider skips to the end
+  // of the glide when the user prefers reduced motion
+  const handleKeyPan = useCallback((deltaMs: number) => {
+    actions.pan(deltaMs, bandKey, false, {});
+  }, [actions, bandKey]);
+
+  // Drag distance to time along this band's (possibly magnified) axis
+  const pixelsToMs = useCallback(
+    (deltaPx: number) =>
+      pixelToDate(deltaPx, centerDate, bandPixelsPerMs, zones).getTime() -
+      centerDate.getTime(),
+    [centerDate, bandPixelsPerMs, zones]
+  );
+
+  // Latest axis, read by the native wheel and key listeners to find the date
+  // a zoom should hold in place
+  const axisRef = useRef({ centerDate, bandPixelsPerMs, zones, viewportWidth: state.viewportWidth, eventStore });
+  useEffect(() => {
+    axisRef.current = { centerDate, bandPixelsPerMs, zones, viewportWidth: state.viewportWidth, eventStore };
+  }, [centerDate, bandPixelsPerMs, zones, state.viewportWidth, eventStore]);
+
+  // Room left before the pan bounds, as last rendered
+  const panLimits = state.bandPanLimits[bandKey];
+  const panLimitsRef = useRef(panLimits);
+  useEffect(() => {
+    panLimitsRef.current = panLimits;
+  }, [panLimits]);
+  const getPanLimits = useCallback(() => panLimitsRef.current ?? null, []);
+
+  // Date at an x position within the band, on the axis as last rendered
+  const dateAtX = useCallback((x: number) => {
+    const { centerDate, bandPixelsPerMs, zones, viewportWidth } = axisRef.current;
+    return pixelToDate(x - viewportWidth / 2, centerDate, bandPixelsPerMs, zones);
+  }, []);
+
+  // Zoom held still at a date. A stepped band moves a whole step per call,
+  // so the small factors of a continuous gesture (a pinch) are gathered until
+  // they add up to a wheel notch. Pointer zooms apply at once; key presses
+  // animate.
+  const hasZoomSteps = (config.zoomSteps?.length ?? 0) > 0;
+  const pendingZoomRef = useRef(1);
+  const zoomAt = useCallback((
+    factor: number,
+    anchorDate: Date | undefined,
+    continuous = false,
+    animated = false
+  ) => {
+    if (continuous && hasZoomSteps) {
+      const pending = pendingZoomRef.current * factor;
+      if (pending < ZOOM_STEP_GESTURE && pending > 1 / ZOOM_STEP_GESTURE) {
+        pendingZoomRef.current = pending;
+        return;
+      }
+      pendingZoomRef.current = 1;
+      factor = pending;
+    }
+    actions.zoom(factor, anchorDate, bandKey, animated ? undefined : IMMEDIATE);
+  }, [actions, bandKey, hasZoomSteps]);
+
+  // Touch zoom (pinch or double tap), held still at the gesture's position
+  const handleGestureZoom = useCallback((factor: number, anchorX: number) => {
+    zoomAt(factor, dateAtX(anchorX), true);
+  }, [zoomAt, dateAtX]);
 
   // Calculate keyboard pan amount based on viewport - pan by ~10% of visible range
   const keyboardPanAmount = useMemo(() => {
@@ -61,9 +282,13 @@ export function Band({ config, isPrimary = false }: BandProps) {
   const { panProps } = usePan({
     onPan: handlePan,
     pixelsPerMs: bandPixelsPerMs,
+    pixelsToMs: zones.length > 0 ? pixelsToMs : undefined,
+    getPanLimits,
+    onZoom: handleGestureZoom,
     onPanStart: () => actions.setIsPanning(true),
     onPanEnd: () => actions.setIsPanning(false),
     enableKeyboard: isPrimary, // Only primary band handles keyboard
+    onKeyPan: handleKeyPan,
     scopeRef: containerRef, // Scope arrow-key panning to the focused band
     keyboardPanAmount,
   });
@@ -83,9 +308,15 @@ export function Band({ config, isPrimary = false }: BandProps) {
     // to allow preventDefault() to stop page scrolling while zooming
     const handleWheel = (e: WheelEvent) => {
       e.preventDefault();
-      // Scrolling up (negative deltaY) = zoom in, scrolling down = zoom out
-      const zoomFactor = e.deltaY < 0 ? 1.15 : 0.87;
-      actions.zoom(zoomFactor);
+      // A trackpad pinch arrives as a ctrl+wheel with small, continuous
+      // deltas, so it zooms in proportion. A mouse wheel steps: scrolling up
+      // (negative deltaY) zooms in, scrolling down zooms out.
+      const zoomFactor = e.ctrlKey
+        ? Math.exp(-e.deltaY * PINCH_ZOOM_SPEED)
+        : e.deltaY < 0 ? 1.15 : 0.87;
+      // Hold the date under the pointer in place
+      const pointerX = e.clientX - container.getBoundingClientRect().left;
+      zoomAt(zoomFactor, dateAtX(pointerX), e.ctrlKey);
     };
 
     // Initial measurement
@@ -102,7 +333,7 @@ export function Band({ config, isPrimary = false }: BandProps) {
       resizeObserver.disconnect();
       container.removeEventListener('wheel', handleWheel);
     };
-  }, [isPrimary, actions]);
+  }, [isPrimary, actions, zoomAt, dateAtX]);
 
   // Keyboard zoom controls (+ / - keys) - only on primary band
   useEffect(() => {
@@ -121,17 +352,21 @@ export function Band({ config, isPrimary = false }: BandProps) {
         return;
       }
 
+      // With an event marker focused, zoom on that event so it stays put;
+      // with the band itself focused, zoom about the center.
+      const anchorDate = getFocusedEventDate(container, axisRef.current.eventStore);
+
       switch (e.key) {
         case '+':
         case '=':
           // Zoom in
-          actions.zoom(1.15);
+          zoomAt(1.15, anchorDate, false, true);
           e.preventDefault();
           break;
         case '-':
         case '_':
           // Zoom out
-          actions.zoom(0.87);
+          zoomAt(0.87, anchorDate, false, true);
           e.preventDefault();
           break;
       }
@@ -139,7 +374,27 @@ export function Band({ config, isPrimary = false }: BandProps) {
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [isPrimary, actions]);
+  }, [isPrimary, zoomAt]);
+
+  // A click on the overview, rather than a drag, moves the detail band there
+  const pressXRef = useRef(0);
+  const handlePointerDown = useCallback((e: React.PointerEvent) => {
+    pressXRef.current = e.clientX;
+    panProps.onPointerDown(e);
+  }, [panProps]);
+  const handleOverviewClick = useCallback((e: React.MouseEvent) => {
+    const target = e.target as HTMLElement;
+    const container = containerRef.current;
+    if (
+      !container ||
+      target.closest('.timeline-overview-viewport, .timeline-cluster') ||
+      Math.abs(e.clientX - pressXRef.current) > CLICK_SLOP
+    ) {
+      return;
+    }
+    const x = e.clientX - container.getBoundingClientRect().left;
+    actions.jumpToDate(dateAtX(x), targetKey);
+  }, [actions, dateAtX, targetKey]);
 
   // Parse height from config
   const height = config.height || (config.overview ? '30%' : '70%');
@@ -156,7 +411,8 @@ export function Band({ config, isPrimary = false }: BandProps) {
         borderBottom: '1px solid var(--band-border, #e0e0e0)',
         ...panProps.style,
       }}
-      onPointerDown={panProps.onPointerDown}
+      onPointerDown={targetRange ? handlePointerDown : panProps.onPointerDown}
+      onClick={targetRange ? handleOverviewClick : undefined}
       data-band-id={config.id}
       // The primary band is the keyboard entry point: it takes a tab stop and
       // exposes its pan/zoom shortcuts. Secondary bands stay non-focusable and
@@ -171,51 +427,126 @@ export function Band({ config, isPrimary = false }: BandProps) {
           }
         : {})}
     >
-      {/* Hot zones layer - renders behind events */}
-      {hotZones.length > 0 && (
-        <HotZones
+      {canvas ? (
+        // Canvas layer - hot zones and events drawn on one canvas
+        <CanvasEventLayer
+          events={events}
+          prepared={eventStore.prepared}
           hotZones={hotZones}
           visibleRange={visibleRange}
           pixelsPerMs={bandPixelsPerMs}
           viewportWidth={state.viewportWidth}
-          centerDate={state.centerDate}
+          centerDate={centerDate}
+          trackHeight={config.trackHeight || 24}
+          trackGap={config.trackGap || 4}
+          showLabels={showLabels}
+          maxTracks={maxTracks}
+          zones={zones}
+          tracks={tracks}
+          measureText={measureText}
+          trackOf={trackOf}
         />
-      )}
+      ) : (
+        <>
+          {/* Hot zones layer - renders behind events */}
+          {hotZones.length > 0 && (
+            <HotZones
+              hotZones={hotZones}
+              visibleRange={visibleRange}
+              pixelsPerMs={bandPixelsPerMs}
+              viewportWidth={state.viewportWidth}
+              centerDate={centerDate}
+              zones={zones}
+            />
+          )}
 
-      {/* Event layer - pointer-events:none allows drag on band, events re-enable on markers */}
-      <div
-        className="timeline-band__events"
-        style={{
-          position: 'absolute',
-          top: 0,
-          left: 0,
-          right: 0,
-          bottom: 48, // Leave space for time scale (24px) + padding (24px) to prevent label clipping
-          overflow: 'hidden',
-          pointerEvents: 'none',
-        }}
-      >
-        {config.overview ? (
-          <OverviewMarkers
-            events={events}
-            visibleRange={visibleRange}
-            pixelsPerMs={bandPixelsPerMs}
-            viewportWidth={state.viewportWidth}
-            centerDate={state.centerDate}
-          />
-        ) : (
-          <EventTrack
-            events={events}
-            visibleRange={visibleRange}
-            pixelsPerMs={bandPixelsPerMs}
-            viewportWidth={state.viewportWidth}
-            centerDate={state.centerDate}
-            trackHeight={config.trackHeight || 24}
-            trackGap={config.trackGap || 4}
-            showLabels={config.showEventLabels !== false}
-          />
-        )}
-      </div>
+          {/* Detail band's range - beneath the events so overview badges stay clickable */}
+          {targetRange && (
+            <OverviewViewport
+              range={targetRange}
+              pixelsPerMs={bandPixelsPerMs}
+              viewportWidth={state.viewportWidth}
+              centerDate={centerDate}
+              onPan={handleViewportPan}
+              onResize={handleViewportResize}
+              onDragStart={() => actions.setIsPanning(true)}
+              onDragEnd={() => actions.setIsPanning(false)}
+            />
+          )}
+
+          {/* Event layer - pointer-events:none allows drag on band, events re-enable on markers */}
+          <div
+            className="timeline-band__events"
+            style={{
+              position: 'absolute',
+              top: 0,
+              left: 0,
+              right: 0,
+              bottom: 48, // Leave space for time scale (24px) + padding (24px) to prevent label clipping
+              overflow: 'hidden',
+              pointerEvents: 'none',
+            }}
+          >
+            {density ? (
+              <OverviewDensity
+                events={events}
+                prepared={eventStore.prepared}
+                visibleRange={visibleRange}
+                pixelsPerMs={bandPixelsPerMs}
+                viewportWidth={state.viewportWidth}
+                centerDate={centerDate}
+                density={density}
+              />
+            ) : config.overview ? (
+              <OverviewMarkers
+                events={events}
+                prepared={eventStore.prepared}
+                visibleRange={visibleRange}
+                pixelsPerMs={bandPixelsPerMs}
+                viewportWidth={state.viewportWidth}
+                centerDate={centerDate}
+                cluster={cluster}
+              />
+            ) : lanes ? (
+              <BandLanes
+                lanes={lanes}
+                events={events}
+                prepared={eventStore.prepared}
+                visibleRange={visibleRange}
+                pixelsPerMs={bandPixelsPerMs}
+                viewportWidth={state.viewportWidth}
+                centerDate={centerDate}
+                trackHeight={config.trackHeight || 24}
+                trackGap={config.trackGap || 4}
+                showLabels={showLabels}
+                maxTracks={maxTracks}
+                zones={zones}
+                measureText={measureText}
+                trackOf={trackOf}
+                cluster={cluster}
+              />
+            ) : (
+              <EventTrack
+                events={events}
+                prepared={eventStore.prepared}
+                visibleRange={visibleRange}
+                pixelsPerMs={bandPixelsPerMs}
+                viewportWidth={state.viewportWidth}
+                centerDate={centerDate}
+                trackHeight={config.trackHeight || 24}
+                trackGap={config.trackGap || 4}
+                showLabels={showLabels}
+                maxTracks={maxTracks}
+                zones={zones}
+                tracks={tracks}
+                measureText={measureText}
+                trackOf={trackOf}
+                cluster={cluster}
+              />
+            )}
+          </div>
+        </>
+      )}
 
       {/* Time scale at bottom */}
       <div
@@ -234,8 +565,9 @@ export function Band({ config, isPrimary = false }: BandProps) {
           visibleRange={visibleRange}
           pixelsPerMs={bandPixelsPerMs}
           viewportWidth={state.viewportWidth}
-          centerDate={state.centerDate}
+          centerDate={centerDate}
           timeUnit={config.timeUnit}
+          zones={zones}
         />
       </div>
     </div>
@@ -0,0 +1,127 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { LaneConfig } from '../types';
+import { partitionPrepared, prepareEvents, type PreparedEvents } from '../utils/layoutEngine';
+import { EventTrack, type EventTrackProps } from './EventTrack';
+
+export interface BandLanesProps extends Omit<EventTrackProps, 'prepared' | 'color' | 'label'> {
+  /** The band's swimlanes, top to bottom */
+  lanes: LaneConfig[];
+  /** The events already prepared (see prepareEvents); prepared here if absent */
+  prepared?: PreparedEvents;
+  /** Width of the row headers in pixels */
+  headerWidth?: number;
+}
+
+/** Width of the row headers in pixels */
+const DEFAULT_HEADER_WIDTH = 120;
+
+/**
+ * A band's events split into swimlanes: a row per lane, stacked top to
+ * bottom, each with its own tracks and a header naming it. The headers stay
+ * at the left edge as the band pans, over the events passing beneath them;
+ * events keep the band's time axis, so every lane lines up with the scale.
+ * Each lane gets an equal share of the height and stacks no more tracks than
+ * fit in it, so every row stays in view.
+ */
+export function BandLanes({
+  lanes,
+  prepared: preparedProp,
+  events,
+  headerWidth = DEFAULT_HEADER_WIDTH,
+  trackHeight = 24,
+  trackGap = 4,
+  maxTracks = 0,
+  ...trackProps
+}: BandLanesProps) {
+  const lanesRef = useRef<HTMLDivElement>(null);
+  const [height, setHeight] = useState(0);
+
+  // Track the height the lanes share
+  useEffect(() => {
+    const container = lanesRef.current;
+    if (!container) return;
+    const updateHeight = () => setHeight(container.clientHeight);
+    updateHeight();
+    const resizeObserver = new ResizeObserver(updateHeight);
+    resizeObserver.observe(container);
+    return () => resizeObserver.disconnect();
+  }, []);
+
+  const prepared = useMemo(
+    () => preparedProp ?? prepareEvents(events),
+    [preparedProp, events]
+  );
+
+  // Each lane's events, split once per data or lane change
+  const laneEvents = useMemo(
+    () => partitionPrepared(prepared, lanes.map(lane => lane.filter)),
+    [prepared, lanes]
+  );
+
+  // Tracks that fit a lane's share, less its border and, with clustering,
+  // the badge row below them; unmeasured, the band's own limit holds
+  const laneTracks = height > 0
+    ? Math.max(1, Math.floor((height / lanes.length - 1) / (trackHeight + trackGap)) - (trackProps.cluster ? 1 : 0))
+    : 0;
+  const laneMaxTracks = laneTracks && maxTracks ? Math.min(laneTracks, maxTracks) : laneTracks || maxTracks;
+
+  return (
+    <div
+      ref={lanesRef}
+      className="timeline-lanes"
+      style={{ display: 'flex', flexDirection: 'column', height: '100%' }}
+    >
+      {lanes.map((lane, i) => (
+        <div
+          key={lane.id}
+          className="timeline-lane"
+          data-lane-id={lane.id}
+          style={{
+            position: 'relative',
+            flex: 'none',
+            // An empty lane keeps a track's height, so its header still shows
+            minHeight: trackHeight + 2 * trackGap,
+            borderBottom: '1px solid var(--lane-border, #e0e0e0)',
+          }}
+        >
+          <EventTrack
+            {...trackProps}
+            events={events}
+            prepared={laneEvents[i]}
+            trackHeight={trackHeight}
+            trackGap={trackGap}
+            maxTracks={laneMaxTracks}
+            color={lane.color}
+            label={lane.label}
+          />
+          {/* The track's group label names the lane for screen readers */}
+          <div
+            className="timeline-lane__header"
+            aria-hidden="true"
+            title={lane.label}
+            style={{
+              position: 'absolute',
+              top: 0,
+              bottom: 0,
+              left: 0,
+              width: headerWidth,
+              boxSizing: 'border-box',
+              padding: `${trackGap}px 8px`,
+              overflow: 'hidden',
+              whiteSpace: 'nowrap',
+              textOverflow: 'ellipsis',
+              fontSize: 'var(--lane-header-font-size, 12px)',
+              fontWeight: 600,
+              color: 'var(--lane-header-text-color, #333)',
+              backgroundColor: 'var(--lane-header-bg, rgba(250, 250, 250, 0.92))',
+              borderLeft: `4px solid ${lane.color ?? 'var(--event-default-color, #4a90d9)'}`,
+              borderRight: '1px solid var(--lane-border, #e0e0e0)',
+            }}
+          >
+            {lane.label}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import { fireEvent, render, screen } from '@testing-library/react';
+import { Timeline } from './Timeline';
+import type { BandConfig, TimelineData } from '../types';
+
+const data: TimelineData = {
+  events: [
+    { id: 'launch', start: '2023-03-15', title: 'Launch' },
+    { id: 'beta', start: '2023-02-01', end: '2023-03-01', title: 'Beta' },
+  ],
+};
+
+const bands: BandConfig[] = [
+  { id: 'detail', timeUnit: 'month', intervalPixels: 100, renderer: 'canvas' },
+];
+
+const centerDate = new Date('2023-03-15T00:00:00Z');
+
+/** Text drawn on the canvas since the last reset */
+let drawnText: string[] = [];
+
+describe('CanvasEventLayer', () => {
+  // jsdom has no PointerEvent, so fireEvent would drop the pointer's
+  // coordinates; a MouseEvent carrying a pointer id stands in for it
+  const hadPointerEvent = 'PointerEvent' in window;
+  beforeAll(() => {
+    if (hadPointerEvent) return;
+    class PointerEventStub extends MouseEvent {
+      pointerId: number;
+      pointerType: string;
+      constructor(type: string, init: PointerEventInit = {}) {
+        super(type, init);
+        this.pointerId = init.pointerId ?? 1;
+        this.pointerType = init.pointerType ?? 'mouse';
+      }
+    }
+    Object.assign(window, { PointerEvent: PointerEventStub });
+  });
+
+  afterAll(() => {
+    if (!hadPointerEvent) delete (window as Partial<Window & typeof globalThis>).PointerEvent;
+  });
+
+  beforeEach(() => {
+    drawnText = [];
+    vi.spyOn(HTMLElement.prototype, 'clientWidth', 'get').mockReturnValue(800);
+    vi.spyOn(HTMLElement.prototype, 'clientHeight', 'get').mockReturnValue(200);
+    // jsdom has no 2D context; record the labels drawn and ignore the rest
+    const ctx = new Proxy({} as Record<string, unknown>, {
+      get: (target, key: string) => {
+        if (key === 'fillText') return (text: string) => drawnText.push(text);
+        if (key === 'measureText') return (text: string) => ({ width: text.length * 7 });
+        return (target[key] ??= () => {});
+      },
+    });
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue(
+      ctx as unknown as CanvasRenderingContext2D
+    );
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function renderCanvas(props: Partial<React.ComponentProps<typeof Timeline>> = {}) {
+    render(<Timeline data={data} bands={bands} centerDate={centerDate} {...props} />);
+    return screen.getByTestId('timeline-container').querySelector('canvas')!;
+  }
+
+  it('warns that a canvas band ignores lanes and clusters', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    renderCanvas({
+      bands: [{ ...bands[0], cluster: true, lanes: [{ id: 'all', label: 'All', filter: () => true }] }],
+    });
+    expect(warn).toHaveBeenCalledWith(
+      'Timeline band "detail": the canvas renderer ignores lanes and cluster; use renderer: \'dom\' for them.'
+    );
+    expect(drawnText).toContain('Launch');
+  });
+
+  it('draws events on a canvas instead of marker nodes', () => {
+    const canvas = renderCanvas();
+    expect(canvas).toBeInTheDocument();
+    expect(drawnText).toContain('Launch');
+    expect(drawnText).toContain('Beta');
+    expect(document.querySelector('.timeline-event__dot')).toBeNull();
+  });
+
+  it('lists the visible events for screen readers and the keyboard', () => {
+    renderCanvas();
+    expect(screen.getByRole('group', { name: 'Timeline events, 2 in view' })).toBeInTheDocument();
+
+    const launch = screen.getByRole('button', { name: /^Launch, Mar 15, 2023/ });
+    expect(launch).toHaveAttribute('data-event-id', 'launch');
+    fireEvent.click(launch);
+    expect(launch).toHaveAttribute('aria-pressed', 'true');
+    expect(screen.getByRole('dialog')).toHaveTextContent('Launch');
+  });
+
+  it('lists a window of events that follows the focus', () => {
+    const day = 24 * 60 * 60 * 1000;
+    const many: TimelineData = {
+      events: Array.from({ length: 100 }, (_, i) => ({
+        id: `e${i}`,
+        start: new Date(Date.UTC(2023, 1, 1) + i * day).toISOString(),
+        title: `Event ${i}`,
+      })),
+    };
+    renderCanvas({ data: many });
+    const list = screen.getByRole('group', { name: 'Timeline events, 100 in view' });
+    const buttons = () => Array.from(list.querySelectorAll('button'));
+    expect(buttons()).toHaveLength(30);
+
+    const last = buttons()[29];
+    const lastId = last.getAttribute('data-event-id');
+    fireEvent.focus(last);
+    expect(buttons()).toHaveLength(30);
+    expect(buttons()[15].getAttribute('data-event-id')).toBe(lastId);
+  });
+
+  it('selects the event under a click on the canvas', () => {
+    const onEventClick = vi.fn();
+    const canvas = renderCanvas({ onEventClick });
+
+    // Launch sits at the viewport center on the first track
+    fireEvent.click(canvas, { clientX: 403, clientY: 12 });
+    expect(onEventClick).toHaveBeenCalledWith(data.events[0]);
+    expect(screen.getByRole('dialog')).toHaveTextContent('Launch');
+
+    onEventClick.mockClear();
+    fireEvent.click(canvas, { clientX: 700, clientY: 150 });
+    expect(onEventClick).not.toHaveBeenCalled();
+  });
+
+  it('reports the event under the pointer as hovered', () => {
+    const onEventHover = vi.fn();
+    const canvas = renderCanvas({ onEventHover });
+
+    fireEvent.pointerMove(canvas, { clientX: 403, clientY: 12 });
+    expect(onEventHover).toHaveBeenLastCalledWith(data.events[0]);
+    expect(canvas.style.cursor).toBe('pointer');
+
+    fireEvent.pointerLeave(canvas);
+    expect(onEventHover).toHaveBeenLastCalledWith(null);
+  });
+
+  it('pans from empty space but not from a press on an event', () => {
+    const onScroll = vi.fn();
+    const canvas = renderCanvas({ onScroll });
+    const drag = (clientY: number) => {
+      fireEvent.pointerDown(canvas, { clientX: 403, clientY, button: 0, pointerId: 1 });
+      fireEvent.pointerMove(document, { clientX: 300, clientY, pointerId: 1 });
+      fireEvent.pointerUp(document, { clientX: 300, clientY, pointerId: 1 });
+    };
+
+    drag(12);
+    expect(onScroll).not.toHaveBeenCalled();
+    drag(150);
+    expect(onScroll).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,301 @@
+import React, { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import type { HotZone, TimelineEvent } from '../types';
+import { useTimelineContext } from './TimelineProvider';
+import { getEventAriaLabel } from './EventMarker';
+import {
+  calculateLayoutPrepared,
+  prepareEvents,
+  type PreparedEvents,
+  type TrackOf,
+} from '../utils/layoutEngine';
+import { createTimeToPixel, positionHotZones, type MagnifiedZone } from '../utils/dateUtils';
+import type { MeasureText } from '../utils/labelMeasure';
+import {
+  drawTimelineCanvas,
+  getEventHitBoxes,
+  hitTestEvents,
+  orderHitBoxes,
+  readCanvasTheme,
+  type EventHitBox,
+} from '../utils/canvasRenderer';
+
+export interface CanvasEventLayerProps {
+  /** All timeline events */
+  events: TimelineEvent[];
+  /** The events already prepared (see prepareEvents); prepared here if absent */
+  prepared?: PreparedEvents;
+  /** Hot zones drawn behind the events */
+  hotZones?: HotZone[];
+  /** Visible date range */
+  visibleRange: { start: Date; end: Date };
+  /** Pixels per millisecond */
+  pixelsPerMs: number;
+  /** Viewport width in pixels */
+  viewportWidth: number;
+  /** Center date of the viewport */
+  centerDate: Date;
+  /** Height per track in pixels */
+  trackHeight?: number;
+  /** Gap between tracks in pixels */
+  trackGap?: number;
+  /** Whether to show event labels */
+  showLabels?: boolean;
+  /** Maximum number of tracks (0 = unlimited) */
+  maxTracks?: number;
+  /** Magnified zones of this band's axis */
+  zones?: MagnifiedZone[];
+  /** Tracks assigned over the whole dataset (see useLayoutTracks); assigned per frame if absent */
+  tracks?: Int32Array;
+  /** Label width in the rendered font (see useLabelMeasure); estimated if absent */
+  measureText?: MeasureText;
+  /** Track pinned per event (see BandConfig.layout); packed per frame if absent */
+  trackOf?: TrackOf;
+}
+
+/**
+ * Space kept clear above the layer's bottom edge, so labels stop short of the
+ * time scale as they do in the DOM event layer
+ */
+const SCALE_CLEARANCE = 24;
+
+/**
+ * Most events the hidden list holds at once: a window around the event last
+ * focused or, until one is, the event nearest the viewport center. Tabbing
+ * moves the window with the focus.
+ */
+const MAX_LISTED_EVENTS = 30;
+
+/** Hidden from sight but kept in the accessibility tree and focus order */
+const VISUALLY_HIDDEN: React.CSSProperties = {
+  position: 'absolute',
+  width: 1,
+  height: 1,
+  padding: 0,
+  margin: -1,
+  overflow: 'hidden',
+  clip: 'rect(0, 0, 0, 0)',
+  whiteSpace: 'nowrap',
+  border: 0,
+};
+
+/**
+ * Canvas event layer - draws hot zones and events on one canvas instead of a
+ * DOM node per marker, for bands with thousands of events in view. Pointer
+ * input is hit-tested against the layout; screen readers and the keyboard
+ * get a visually hidden list of the visible events in their place, a window
+ * of at most MAX_LISTED_EVENTS.
+ */
+export function CanvasEventLayer({
+  events,
+  prepared: preparedProp,
+  hotZones = [],
+  visibleRange,
+  pixelsPerMs,
+  viewportWidth,
+  centerDate,
+  trackHeight = 24,
+  trackGap = 4,
+  showLabels = true,
+  maxTracks = 0,
+  zones,
+  tracks,
+  measureText,
+  trackOf,
+}: CanvasEventLayerProps) {
+  const { state, actions } = useTimelineContext();
+  const layerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [height, setHeight] = useState(0);
+  const [focusedId, setFocusedId] = useState<string | null>(null);
+  // Kept after blur, so the window stays put while focus moves between buttons
+  const [listAnchorId, setListAnchorId] = useState<string | null>(null);
+  const hoveredIdRef = useRef<string | null>(null);
+
+  // Same layout pass as EventTrack, so both renderers place events alike
+  const prepared = useMemo(
+    () => preparedProp ?? prepareEvents(events),
+    [preparedProp, events]
+  );
+  const layoutEvents = useMemo(
+    () => calculateLayoutPrepared(
+      prepared,
+      visibleRange,
+      pixelsPerMs,
+      centerDate,
+      viewportWidth,
+      showLabels,
+      maxTracks,
+      { zones, tracks, measureText, trackOf }
+    ),
+    [prepared, visibleRange, pixelsPerMs, centerDate, viewportWidth, showLabels, maxTracks, zones, tracks, measureText, trackOf]
+  );
+
+  // Boxes in layout order for the hidden list, and in drawing order, the
+  // reverse of hit-testing order, for the canvas
+  const selectedId = state.selectedEventId;
+  const layoutBoxes = useMemo(
+    () => getEventHitBoxes(layoutEvents, trackHeight, trackGap),
+    [layoutEvents, trackHeight, trackGap]
+  );
+  const boxes = useMemo(() => orderHitBoxes(layoutBoxes, selectedId), [layoutBoxes, selectedId]);
+  const listedBoxes = useMemo(() => {
+    if (layoutBoxes.length <= MAX_LISTED_EVENTS) return layoutBoxes;
+    let anchor = layoutBoxes.findIndex(box => box.layout.id === listAnchorId);
+    if (anchor < 0) {
+      const center = viewportWidth / 2;
+      const distance = (box: EventHitBox) => Math.abs((box.left + box.right) / 2 - center);
+      anchor = layoutBoxes.reduce((best, box, i) => (distance(box) < distance(layoutBoxes[best]) ? i : best), 0);
+    }
+    const start = Math.max(0, Math.min(anchor - (MAX_LISTED_EVENTS >> 1), layoutBoxes.length - MAX_LISTED_EVENTS));
+    return layoutBoxes.slice(start, start + MAX_LISTED_EVENTS);
+  }, [layoutBoxes, listAnchorId, viewportWidth]);
+
+  const positionedHotZones = useMemo(() => {
+    const toPixel = createTimeToPixel(centerDate, viewportWidth, pixelsPerMs, zones);
+    return positionHotZones(hotZones, visibleRange, toPixel);
+  }, [hotZones, visibleRange, centerDate, viewportWidth, pixelsPerMs, zones]);
+
+  // Track the layer's height; its width is the viewport's
+  useEffect(() => {
+    const layer = layerRef.current;
+    if (!layer) return;
+    const updateHeight = () => setHeight(layer.clientHeight);
+    updateHeight();
+    const resizeObserver = new ResizeObserver(updateHeight);
+    resizeObserver.observe(layer);
+    return () => resizeObserver.disconnect();
+  }, []);
+
+  // Draw before paint, so a pan frame never shows the previous frame's events
+  useLayoutEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = Math.round(viewportWidth * ratio);
+    canvas.height = Math.round(height * ratio);
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    drawTimelineCanvas(ctx, {
+      width: viewportWidth,
+      height,
+      eventAreaHeight: height - SCALE_CLEARANCE,
+      hotZones: positionedHotZones,
+      boxes,
+      showLabels,
+      selectedId,
+      focusedId,
+    }, readCanvasTheme(canvas));
+  }, [viewportWidth, height, positionedHotZones, boxes, showLabels, selectedId, focusedId]);
+
+  // Event under a pointer, in the layer's coordinates
+  const hitTest = useCallback((e: React.PointerEvent | React.MouseEvent) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return hitTestEvents(boxes, e.clientX - rect.left, e.clientY - rect.top);
+  }, [boxes]);
+
+  const openPopup = useCallback((box: EventHitBox, position: { x: number; y: number }) => {
+    const { event, id } = box.layout;
+    actions.setSelectedEvent(id === selectedId ? null : event, position);
+  }, [actions, selectedId]);
+
+  // A press on an event is a click, not the start of a pan
+  const handlePointerDown = useCallback((e: React.PointerEvent) => {
+    if (hitTest(e)) e.stopPropagation();
+  }, [hitTest]);
+
+  const handleClick = useCallback((e: React.MouseEvent) => {
+    const box = hitTest(e);
+    if (!box) return;
+    // Keep the popup's outside-click listener from closing what this opens
+    e.stopPropagation();
+    openPopup(box, { x: e.clientX, y: e.clientY });
+  }, [hitTest, openPopup]);
+
+  const setHovered = useCallback((box: EventHitBox | null) => {
+    const id = box?.layout.id ?? null;
+    if (id === hoveredIdRef.current) return;
+    hoveredIdRef.current = id;
+    if (canvasRef.current) canvasRef.current.style.cursor = box ? 'pointer' : '';
+    actions.setHoveredEvent(box?.layout.event ?? null);
+  }, [actions]);
+
+  const handlePointerMove = useCallback((e: React.PointerEvent) => {
+    setHovered(state.isPanning ? null : hitTest(e));
+  }, [setHovered, hitTest, state.isPanning]);
+
+  // The hidden list is reached by keyboard, so its popups open at the drawn
+  // event rather than at a pointer position
+  const handleListClick = useCallback((e: React.MouseEvent, box: EventHitBox) => {
+    e.stopPropagation();
+    const rect = canvasRef.current?.getBoundingClientRect();
+    const left = rect?.left ?? 0;
+    const top = rect?.top ?? 0;
+    openPopup(box, {
+      x: left + (box.left + box.right) / 2,
+      y: top + (box.top + box.bottom) / 2,
+    });
+  }, [openPopup]);
+
+  return (
+    <div
+      ref={layerRef}
+      className="timeline-canvas-layer"
+      style={{
+        position: 'absolute',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: SCALE_CLEARANCE,
+      }}
+    >
+      <canvas
+        ref={canvasRef}
+        className="timeline-canvas"
+        aria-hidden="true"
+        style={{ display: 'block', width: '100%', height: '100%' }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerLeave={() => setHovered(null)}
+        onClick={handleClick}
+      />
+
+      {/* Annotated hot zones are named periods; the rest are decoration */}
+      {positionedHotZones
+        .filter(({ zone }) => zone.annotation)
+        .map(({ zone }) => (
+          <div
+            key={`hotzone-${zone.start}-${zone.end}`}
+            role="note"
+            aria-label={`${zone.annotation} period`}
+            style={VISUALLY_HIDDEN}
+          />
+        ))}
+
+      {/* Stand-ins for the drawn markers: the same names, keys and event ids */}
+      <div
+        className="timeline-event-track"
+        role="group"
+        aria-label={`Timeline events, ${layoutEvents.length} in view`}
+        style={VISUALLY_HIDDEN}
+      >
+        {listedBoxes.map((box) => (
+          <button
+            key={box.layout.id}
+            type="button"
+            className="timeline-event"
+            data-event-id={box.layout.id}
+            aria-label={getEventAriaLabel(box.layout.event)}
+            aria-pressed={box.layout.id === selectedId}
+            onClick={(e) => handleListClick(e, box)}
+            onFocus={() => {
+              setFocusedId(box.layout.id);
+              setListAnchorId(box.layout.id);
+            }}
+            onBlur={() => setFocusedId(null)}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import { Timeline } from './Timeline';
+import type { BandConfig, TimelineData } from '../types';
+
+// Six events on one day: two fit the tracks, the other four cluster
+const data: TimelineData = {
+  events: ['Alpha', 'Bravo', 'Charlie', 'Delta', 'Echo', 'Foxtrot'].map(title => ({
+    start: '2023-03-15',
+    title,
+  })),
+};
+
+const centerDate = new Date('2023-03-15T00:00:00Z');
+
+function renderClustered(band: Partial<BandConfig> = {}, props: Partial<React.ComponentProps<typeof Timeline>> = {}) {
+  const bands: BandConfig[] = [
+    { id: 'detail', timeUnit: 'month', intervalPixels: 100, maxTracks: 2, cluster: true, ...band },
+  ];
+  render(<Timeline data={data} bands={bands} centerDate={centerDate} animationDuration={0} {...props} />);
+}
+
+describe('Event clusters', () => {
+  beforeEach(() => {
+    vi.spyOn(HTMLElement.prototype, 'clientWidth', 'get').mockReturnValue(800);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('merges the events that do not fit the tracks into one badge', () => {
+    renderClustered();
+    expect(screen.getAllByRole('button', { name: /, Mar 15, 2023$/ })).toHaveLength(2);
+    const badge = screen.getByRole('button', { name: '4 more events on Mar 15, 2023. List them' });
+    expect(badge).toHaveTextContent('+4 events');
+    expect(screen.getByRole('group', { name: 'Timeline events, 6 in view' })).toBeInTheDocument();
+  });
+
+  it('overlaps events on the tracks as before without clustering', () => {
+    renderClustered({ cluster: undefined });
+    expect(screen.getAllByRole('button', { name: /, Mar 15, 2023$/ })).toHaveLength(6);
+    expect(document.querySelector('.timeline-cluster')).toBeNull();
+  });
+
+  it('lists the clustered events, and opens the one picked', () => {
+    vi.useFakeTimers();
+    const onEventClick = vi.fn();
+    renderClustered({}, { onEventClick });
+
+    fireEvent.click(screen.getByRole('button', { name: /^4 more events/ }));
+    const list = screen.getByRole('dialog', { name: '4 events' });
+    expect(list).toHaveTextContent('Charlie');
+    expect(list).toHaveTextContent('Foxtrot');
+
+    fireEvent.click(screen.getByRole('button', { name: /^Delta/ }));
+    expect(onEventClick).toHaveBeenCalledWith(data.events[3]);
+    expect(screen.queryByRole('dialog', { name: '4 events' })).toBeNull();
+    expect(screen.getByRole('dialog', { name: 'Delta' })).toBeInTheDocument();
+  });
+
+  it('closes the list on Escape and returns focus to the badge', () => {
+    vi.useFakeTimers();
+    renderClustered();
+    const badge = screen.getByRole('button', { name: /^4 more events/ });
+    badge.focus();
+    fireEvent.keyDown(badge, { key: 'Enter' });
+    act(() => {
+      vi.runOnlyPendingTimers();
+    });
+    expect(screen.getByRole('dialog', { name: '4 events' })).toContainElement(document.activeElement as HTMLElement);
+
+    fireEvent.keyDown(document, { key: 'Escape' });
+    expect(screen.queryByRole('dialog')).toBeNull();
+    expect(document.activeElement).toBe(badge);
+  });
+
+  it('zooms to fit the cluster when set to', () => {
+    const onZoom = vi.fn();
+    const spread: TimelineData = {
+      events: ['2023-03-13', '2023-03-14', '2023-03-15', '2023-03-17'].map((start, i) => ({
+        start,
+        title: `Event ${i}`,
+      })),
+    };
+    render(
+      <Timeline
+        data={spread}
+        bands={[{ id: 'detail', timeUnit: 'month', intervalPixels: 100, maxTracks: 1, cluster: { onClick: 'zoom' } }]}
+        centerDate={centerDate}
+        animationDuration={0}
+        minZoom={{ unit: 'day' }}
+        onZoom={onZoom}
+      />
+    );
+    fireEvent.click(
+      screen.getByRole('button', { name: '3 more events from Mar 14, 2023 to Mar 17, 2023. Zoom in to show them' })
+    );
+    expect(screen.queryByRole('dialog')).toBeNull();
+    // Three days and a margin across the viewport, from a month per 100px
+    expect(onZoom).toHaveBeenCalledTimes(1);
+    expect(onZoom.mock.calls[0][0]).toBeGreaterThan(50);
+  });
+
+  it('holds back badges for fewer events than the threshold', () => {
+    renderClustered({ cluster: { minEvents: 5 } });
+    expect(document.querySelector('.timeline-cluster')).toBeNull();
+    expect(screen.getAllByRole('button', { name: /, Mar 15, 2023$/ })).toHaveLength(6);
+  });
+
+  it('counts crowded overview ticks in one badge', () => {
+    render(
+      <Timeline
+        data={data}
+        centerDate={centerDate}
+        bands={[
+          { id: 'detail', timeUnit: 'month', intervalPixels: 100 },
+          { id: 'overview', timeUnit: 'year', overview: true, syncWith: 'detail', cluster: true },
+        ]}
+      />
+    );
+    const overview = document.querySelector('.timeline-overview-markers')!;
+    expect(overview.querySelector('.timeline-cluster')).toHaveTextContent('+6');
+    expect(overview.querySelectorAll('.timeline-overview-marker')).toHaveLength(0);
+  });
+});
@@ -0,0 +1,108 @@
+import React, { useCallback } from 'react';
+import type { ClusterOptions } from '../types';
+import { useTimelineContext, type ClickPosition, type ExpandedCluster } from './TimelineProvider';
+import { getClusterFitRange } from './ClusterPopup';
+import { formatDate } from '../utils/dateUtils';
+
+export interface ClusterBadgeProps {
+  /** The cluster: its id, events and time span */
+  cluster: Omit<ExpandedCluster, 'clickPosition'>;
+  /** X position in pixels */
+  x: number;
+  /** Y position in pixels (based on track); omit to sit at the band's foot */
+  y?: number;
+  /** What a click does (default `'list'`) */
+  onClick?: ClusterOptions['onClick'];
+  /**
+   * Small count-only badge for the overview band, which is hidden from
+   * screen readers, so it stays out of the tab order too
+   */
+  compact?: boolean;
+}
+
+/** Height of a full badge, as tall as a duration tape */
+const BADGE_HEIGHT = 18;
+
+/**
+ * Accessible name of a cluster: how many events, over what dates, and what
+ * pressing it does
+ */
+function getClusterAriaLabel(
+  count: number,
+  startMs: number,
+  endMs: number,
+  onClick: ClusterOptions['onClick']
+): string {
+  const start = formatDate(new Date(startMs), 'MMM d, yyyy');
+  const end = formatDate(new Date(endMs), 'MMM d, yyyy');
+  const span = start === end ? `on ${start}` : `from ${start} to ${end}`;
+  return `${count} more events ${span}. ${onClick === 'zoom' ? 'Zoom in to show them' : 'List them'}`;
+}
+
+/**
+ * "+N events" badge standing in for events that do not fit a band's tracks
+ * (see assignTracksClustered). Clicking it lists them in a popup, or zooms
+ * to fit them.
+ */
+export function ClusterBadge({ cluster, x, y, onClick = 'list', compact = false }: ClusterBadgeProps) {
+  const { actions } = useTimelineContext();
+  const count = cluster.events.length;
+
+  const activate = useCallback((position: ClickPosition) => {
+    if (onClick === 'zoom') {
+      const { start, end } = getClusterFitRange(cluster.startMs, cluster.endMs);
+      actions.zoomToFit(start, end);
+    } else {
+      const { id, events, startMs, endMs } = cluster;
+      actions.setExpandedCluster({ id, events, startMs, endMs, clickPosition: position });
+    }
+  }, [actions, cluster, onClick]);
+
+  const handleClick = useCallback((e: React.MouseEvent) => {
+    e.stopPropagation();
+    activate({ x: e.clientX, y: e.clientY });
+  }, [activate]);
+
+  // Keyboard activation anchors the list to the badge, as markers do
+  const handleKeyActivate = useCallback((e: React.KeyboardEvent) => {
+    if (e.key !== 'Enter' && e.key !== ' ') return;
+    e.preventDefault();
+    e.stopPropagation();
+    const rect = (e.currentTarget as HTMLElement).getBoundingClientRect();
+    activate({ x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 });
+  }, [activate]);
+
+  return (
+    <div
+      className={`timeline-cluster ${compact ? 'timeline-cluster--compact' : ''}`}
+      style={{
+        position: 'absolute',
+        left: x,
+        ...(y === undefined ? { bottom: 4 } : { top: y }),
+        height: compact ? 14 : BADGE_HEIGHT,
+        padding: compact ? '0 4px' : '0 8px',
+        display: 'flex',
+        alignItems: 'center',
+        borderRadius: BADGE_HEIGHT / 2,
+        backgroundColor: 'var(--cluster-bg, #4a4a4a)',
+        color: 'var(--cluster-text-color, #ffffff)',
+        fontSize: compact ? 10 : 'var(--event-font-size, 12px)',
+        fontFamily: 'var(--timeline-font-family, system-ui, sans-serif)',
+        whiteSpace: 'nowrap',
+        cursor: 'pointer',
+        zIndex: 2,
+        pointerEvents: 'auto',
+        transform: compact ? 'translateX(-50%)' : undefined,
+      }}
+      onClick={handleClick}
+      data-cluster-id={cluster.id}
+      role="button"
+      tabIndex={compact ? -1 : 0}
+      aria-label={getClusterAriaLabel(count, cluster.startMs, cluster.endMs, onClick)}
+      aria-haspopup={onClick === 'zoom' ? undefined : 'dialog'}
+      onKeyDown={handleKeyActivate}
+    >
+      {compact ? `+${count}` : `+${count} events`}
+    </div>
+  );
+}
@@ -0,0 +1,194 @@
+import { useEffect, useCallback, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import type { TimelineEvent } from '../types';
+import { useTimelineContext } from './TimelineProvider';
+import { useModalDialog } from '../hooks/useModalDialog';
+import { calculatePopupPosition, getPopupStyle } from './EventPopup';
+import { formatDate, tryParseDate } from '../utils/dateUtils';
+
+export interface ClusterPopupProps {
+  /** The timeline's resolved `data-theme` value (e.g. 'classic', 'dark', or a custom theme name) */
+  themeAttr?: string;
+  /** Inline CSS-variable overrides for a custom (object) theme */
+  themeStyles?: React.CSSProperties;
+}
+
+/** Share of the cluster's span added on each side when zooming to fit it */
+const FIT_PADDING = 0.1;
+
+/**
+ * Date (or range) of an event as listed, or its raw start if it does not parse
+ */
+function formatEventDates(event: TimelineEvent): string {
+  const start = tryParseDate(event.start);
+  if (!start) return event.start;
+  const end = event.end ? tryParseDate(event.end) : null;
+  const startLabel = formatDate(start, 'MMM d, yyyy');
+  return end ? `${startLabel} - ${formatDate(end, 'MMM d, yyyy')}` : startLabel;
+}
+
+/**
+ * Range a cluster zooms to: its span with a margin each side, so its events
+ * have room to spread onto tracks
+ */
+export function getClusterFitRange(startMs: number, endMs: number): { start: Date; end: Date } {
+  const padding = (endMs - startMs) * FIT_PADDING;
+  return { start: new Date(startMs - padding), end: new Date(endMs + padding) };
+}
+
+/**
+ * List of the events in an expanded cluster (see ClusterBadge). Picking one
+ * selects it, opening its details popup; the list can also zoom to fit them.
+ * Renders as a portal, themed like EventPopup.
+ */
+export function ClusterPopup({ themeAttr, themeStyles }: ClusterPopupProps) {
+  const { state, actions } = useTimelineContext();
+  const popupRef = useRef<HTMLDivElement>(null);
+  const { expandedCluster } = state;
+  const [position, setPosition] = useState<{ top: number; left: number } | null>(null);
+
+  const handleClose = useCallback(() => {
+    actions.setExpandedCluster(null);
+  }, [actions]);
+
+  // Outside click, Escape and modal focus, with a click on a badge left to
+  // the badge
+  useModalDialog(expandedCluster, popupRef, handleClose, '.timeline-cluster');
+
+  // Calculate popup position after render
+  useEffect(() => {
+    const clickPosition = expandedCluster?.clickPosition;
+    if (!clickPosition || !popupRef.current) {
+      setPosition(null);
+      return;
+    }
+    const rect = popupRef.current.getBoundingClientRect();
+    setPosition(calculatePopupPosition(clickPosition.x, clickPosition.y, rect.width, rect.height));
+  }, [expandedCluster]);
+
+  if (!expandedCluster) return null;
+
+  const { events, clickPosition } = expandedCluster;
+
+  const handleSelect = (event: TimelineEvent) => {
+    actions.setExpandedCluster(null);
+    actions.setSelectedEvent(event, clickPosition ?? undefined);
+  };
+
+  const handleZoom = () => {
+    actions.setExpandedCluster(null);
+    const { start, end } = getClusterFitRange(expandedCluster.startMs, expandedCluster.endMs);
+    actions.zoomToFit(start, end);
+  };
+
+  const popupContent = (
+    <div
+      ref={popupRef}
+      className="timeline-popup timeline-cluster-popup"
+      style={{ ...getPopupStyle(position, clickPosition !== null), maxHeight: '60vh', overflowY: 'auto' }}
+      role="dialog"
+      aria-modal="true"
+      tabIndex={-1}
+      aria-labelledby="cluster-popup-title"
+    >
+      <button
+        onClick={handleClose}
+        className="timeline-popup__close"
+        style={{
+          position: 'absolute',
+          top: 8,
+          right: 8,
+          background: 'none',
+          border: 'none',
+          fontSize: 20,
+          cursor: 'pointer',
+          color: 'var(--popup-close-color, #666)',
+          padding: 4,
+          lineHeight: 1,
+        }}
+        aria-label="Close popup"
+      >
+        &times;
+      </button>
+
+      <h3
+        id="cluster-popup-title"
+        className="timeline-popup__title"
+        style={{
+          margin: '0 0 8px 0',
+          fontSize: 16,
+          fontWeight: 600,
+          color: 'var(--popup-title-color, #1a1a1a)',
+          paddingRight: 24, // Space for close button
+        }}
+      >
+        {events.length} events
+      </h3>
+
+      <ul className="timeline-cluster-popup__list" style={{ listStyle: 'none', margin: 0, padding: 0 }}>
+        {events.map(({ id, event }) => (
+          <li key={id}>
+            <button
+              type="button"
+              className="timeline-cluster-popup__event"
+              onClick={() => handleSelect(event)}
+              style={{
+                display: 'block',
+                width: '100%',
+                textAlign: 'left',
+                background: 'none',
+                border: 'none',
+                borderLeft: `3px solid ${event.color || 'var(--event-default-color, #4a90d9)'}`,
+                margin: '4px 0',
+                padding: '4px 8px',
+                cursor: 'pointer',
+                font: 'inherit',
+                fontSize: 14,
+                color: 'var(--popup-text-color, #333)',
+              }}
+            >
+              {event.title}
+              <span
+                className="timeline-popup__date"
+                style={{ display: 'block', fontSize: 12, color: 'var(--popup-date-color, #595959)' }}
+              >
+                {formatEventDates(event)}
+              </span>
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <button
+        type="button"
+        className="timeline-cluster-popup__zoom"
+        onClick={handleZoom}
+        style={{
+          marginTop: 12,
+          background: 'none',
+          border: 'none',
+          padding: 0,
+          cursor: 'pointer',
+          font: 'inherit',
+          fontSize: 13,
+          color: 'var(--popup-link-color, #0066cc)',
+        }}
+      >
+        Zoom to these events
+      </button>
+    </div>
+  );
+
+  // Portal to body, in a boxless `.timeline-root` carrying the theme, as
+  // EventPopup does (#74)
+  return createPortal(
+    <div
+      className="timeline-root"
+      data-theme={themeAttr}
+      style={{ display: 'contents', ...themeStyles }}
+    >
+      {popupContent}
+    </div>,
+    document.body
+  );
+}
@@ -2,10 +2,13 @@ import React, { useCallback } from 'react';
 import type { TimelineEvent } from '../types';
 import { useTimelineContext } from './TimelineProvider';
 import { formatDate, parseDate } from '../utils/dateUtils';
+import { generateEventId } from '../utils/layoutEngine';
 
 export interface EventMarkerProps {
   /** The event to render */
   event: TimelineEvent;
+  /** The event's id (see getEventIds); default: its own or generated id */
+  id?: string;
   /** X position in pixels */
   x: number;
   /** Y position in pixels (based on track) */
@@ -20,6 +23,8 @@ export interface EventMarkerProps {
   isSticky?: boolean;
   /** X position for sticky label */
   stickyX?: number;
+  /** Color when the event sets none, as a swimlane's; default by kind */
+  defaultColor?: string;
 }
 
 /** Default event color */
@@ -30,11 +35,34 @@ const DEFAULT_TAPE_COLOR = '#6ba3d6';
 /** Height of duration tape */
 const TAPE_HEIGHT = 18;
 
+/**
+ * Accessible name of an event: title, then the date (or range) so a screen
+ * reader announces *when* the event is, then a trimmed description. The date
+ * is what a sighted user reads from the marker's horizontal position, so it
+ * belongs in the name for a non-visual reader.
+ */
+export function getEventAriaLabel(event: TimelineEvent): string {
+  let dateLabel = event.start;
+  try {
+    dateLabel = formatDate(parseDate(event.start), 'MMM d, yyyy');
+    if (event.end) {
+      dateLabel += ` to ${formatDate(parseDate(event.end), 'MMM d, yyyy')}`;
+    }
+  } catch {
+    // Fall back to the raw start string for unparseable dates.
+  }
+  const descriptionPart = event.description
+    ? `: ${event.description.substring(0, 100)}${event.description.length > 100 ? '...' : ''}`
+    : '';
+  return `${event.title}, ${dateLabel}${descriptionPart}`;
+}
+
 /**
  * Event marker component - renders point events as dots and duration events as tapes
  */
 export function EventMarker({
   event,
+  id,
   x,
   y,
   showLabel = true,
@@ -42,10 +70,12 @@ export function EventMarker({
   durationWidth,
   isSticky = false,
   stickyX,
+  defaultColor,
 }: EventMarkerProps) {
   const { state, actions } = useTimelineContext();
 
-  const isSelected = state.selectedEvent === event;
+  const eventId = id ?? event.id ?? generateEventId(event);
+  const isSelected = state.selectedEventId === eventId;
 
   const openPopup = useCallback((position: { x: number; y: number }) => {
     actions.setSelectedEvent(isSelected ? null : event, position);
@@ -68,26 +98,10 @@ export function EventMarker({
     openPopup({ x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 });
   }, [openPopup]);
 
-  const color = event.color || (isDuration ? DEFAULT_TAPE_COLOR : DEFAULT_COLOR);
+  const color = event.color || defaultColor || (isDuration ? DEFAULT_TAPE_COLOR : DEFAULT_COLOR);
   const textColor = event.textColor || 'var(--event-text-color, #333)';
 
-  // Construct the accessible name: title, then the date (or range) so a screen
-  // reader announces *when* the event is, then a trimmed description. The date
-  // is what a sighted user reads from the marker's horizontal position, so it
-  // belongs in the name for a non-visual reader.
-  let dateLabel = event.start;
-  try {
-    dateLabel = formatDate(parseDate(event.start), 'MMM d, yyyy');
-    if (event.end) {
-      dateLabel += ` to ${formatDate(parseDate(event.end), 'MMM d, yyyy')}`;
-    }
-  } catch {
-    // Fall back to the raw start string for unparseable dates.
-  }
-  const descriptionPart = event.description
-    ? `: ${event.description.substring(0, 100)}${event.description.length > 100 ? '...' : ''}`
-    : '';
-  const ariaLabel = `${event.title}, ${dateLabel}${descriptionPart}`;
+  const ariaLabel = getEventAriaLabel(event);
 
   // Render duration event as a tape/bar
   if (isDuration && durationWidth) {
@@ -110,7 +124,7 @@ export function EventMarker({
           pointerEvents: 'auto',
         }}
         onClick={handleClick}
-        data-event-id={event.title}
+        data-event-id={eventId}
         role="button"
         tabIndex={0}
         aria-label={ariaLabel}
@@ -185,7 +199,7 @@ export function EventMarker({
         pointerEvents: 'auto',
       }}
       onClick={handleClick}
-      data-event-id={event.title}
+      data-event-id={eventId}
       role="button"
       tabIndex={0}
       aria-label={ariaLabel}
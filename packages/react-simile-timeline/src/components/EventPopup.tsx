@@ -1,6 +1,7 @@
 import { useEffect, useCallback, useRef, useState } from 'react';
 import { createPortal } from 'react-dom';
 import { useTimelineContext } from './TimelineProvider';
+import { useModalDialog } from '../hooks/useModalDialog';
 import { formatDate, parseDate } from '../utils/dateUtils';
 
 export interface EventPopupProps {
@@ -15,7 +16,7 @@ export interface EventPopupProps {
 /**
  * Calculate popup position to keep it visible within viewport
  */
-function calculatePopupPosition(
+export function calculatePopupPosition(
   clickX: number,
   clickY: number,
   popupWidth: number,
@@ -51,6 +52,39 @@ function calculatePopupPosition(
   return { top, left };
 }
 
+/**
+ * Style of a timeline popup: at its calculated position, or centered. A popup
+ * anchored to a click is hidden until its position is calculated; one opened
+ * without a click (a controlled `selectedEvent`) has nothing to anchor to and
+ * stays centered.
+ */
+export function getPopupStyle(
+  position: { top: number; left: number } | null,
+  anchored: boolean
+): React.CSSProperties {
+  const surface: React.CSSProperties = {
+    position: 'fixed',
+    backgroundColor: 'var(--popup-bg, #ffffff)',
+    border: '1px solid var(--popup-border, #cccccc)',
+    borderRadius: 8,
+    boxShadow: 'var(--popup-shadow, 0 4px 16px rgba(0,0,0,0.15))',
+    padding: 16,
+    maxWidth: 400,
+    minWidth: 280,
+    zIndex: 1000,
+    fontFamily: 'var(--timeline-font-family, system-ui, sans-serif)',
+  };
+  return position
+    ? { ...surface, top: position.top, left: position.left }
+    : {
+        ...surface,
+        top: '50%',
+        left: '50%',
+        transform: 'translate(-50%, -50%)',
+        visibility: anchored ? 'hidden' : undefined,
+      };
+}
+
 /**
  * Event details popup component
  * Renders as a portal for proper z-index handling
@@ -61,101 +95,13 @@ export function EventPopup({ themeAttr, themeStyles }: EventPopupProps) {
   const { selectedEvent, clickPosition } = state;
   const [position, setPosition] = useState<{ top: number; left: number } | null>(null);
 
-  // Close on outside click
-  useEffect(() => {
-    if (!selectedEvent) return;
-
-    const handleClickOutside = (e: MouseEvent) => {
-      if (popupRef.current && !popupRef.current.contains(e.target as Node)) {
-        // Check if click was on an event marker
-        const target = e.target as HTMLElement;
-        if (target.closest('.timeline-event')) {
-          return; // Let the event marker handle it
-        }
-        actions.setSelectedEvent(null);
-      }
-    };
-
-    // Use setTimeout to avoid catching the click that opened the popup
-    const timeoutId = setTimeout(() => {
-      document.addEventListener('click', handleClickOutside);
-    }, 0);
-
-    return () => {
-      clearTimeout(timeoutId);
-      document.removeEventListener('click', handleClickOutside);
-    };
-  }, [selectedEvent, actions]);
-
-  // Modal focus management: the popup is a `role="dialog" aria-modal="true"`,
-  // so keyboard focus must move into it on open, stay trapped inside while it is
-  // open (Tab/Shift+Tab wrap at the ends), and return to the element that opened
-  // it on close. Without this a keyboard user tabs into the page behind the
-  // dialog and the arrow/+/- timeline shortcuts keep firing under the modal.
-  useEffect(() => {
-    if (!selectedEvent) return;
-
-    // Remember what had focus (the triggering marker) so it can be restored.
-    const previouslyFocused = document.activeElement as HTMLElement | null;
-
-    // All tabbable elements currently inside the popup, in DOM order.
-    const getFocusable = (): HTMLElement[] => {
-      const root = popupRef.current;
-      if (!root) return [];
-      return Array.from(
-        root.querySelectorAll<HTMLElement>(
-          'a[href], button:not([disabled]), [tabindex]:not([tabindex="-1"]), input:not([disabled]), select:not([disabled]), textarea:not([disabled])'
-        )
-      );
-    };
-
-    // Move focus into the dialog once it has rendered. Prefer the first
-    // interactive control (the close button); fall back to the dialog itself.
-    const focusTimer = setTimeout(() => {
-      const focusable = getFocusable();
-      (focusable[0] ?? popupRef.current)?.focus();
-    }, 0);
-
-    const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.key === 'Escape') {
-        actions.setSelectedEvent(null);
-        return;
-      }
-      if (e.key !== 'Tab') return;
-
-      // Trap Tab inside the dialog.
-      const focusable = getFocusable();
-      if (focusable.length === 0) {
-        // Nothing tabbable but the dialog — keep focus on it.
-        e.preventDefault();
-        popupRef.current?.focus();
-        return;
-      }
-      const first = focusable[0];
-      const last = focusable[focusable.length - 1];
-      const active = document.activeElement;
-
-      if (e.shiftKey) {
-        if (active === first || !popupRef.current?.contains(active)) {
-          e.preventDefault();
-          last.focus();
-        }
-      } else if (active === last || !popupRef.current?.contains(active)) {
-        e.preventDefault();
-        first.focus();
-      }
-    };
+  const handleClose = useCallback(() => {
+    actions.setSelectedEvent(null);
+  }, [actions]);
 
-    document.addEventListener('keydown', handleKeyDown);
-    return () => {
-      clearTimeout(focusTimer);
-      document.removeEventListener('keydown', handleKeyDown);
-      // Restore focus to the opener, if it is still in the document.
-      if (previouslyFocused && document.contains(previouslyFocused)) {
-        previouslyFocused.focus();
-      }
-    };
-  }, [selectedEvent, actions]);
+  // Outside click, Escape and modal focus, with a click on an event marker
+  // left to the marker
+  useModalDialog(selectedEvent, popupRef, handleClose, '.timeline-event');
 
   // Calculate popup position after render
   useEffect(() => {
@@ -176,10 +122,6 @@ export function EventPopup({ themeAttr, themeStyles }: EventPopupProps) {
     setPosition(newPosition);
   }, [selectedEvent, clickPosition]);
 
-  const handleClose = useCallback(() => {
-    actions.setSelectedEvent(null);
-  }, [actions]);
-
   if (!selectedEvent) return null;
 
   // Format dates. Declared without an initial value — both the try and the
@@ -198,38 +140,7 @@ export function EventPopup({ themeAttr, themeStyles }: EventPopupProps) {
     dateDisplay = selectedEvent.start;
   }
 
-  // Use calculated position or fallback to center
-  const popupStyle: React.CSSProperties = position
-    ? {
-        position: 'fixed',
-        top: position.top,
-        left: position.left,
-        backgroundColor: 'var(--popup-bg, #ffffff)',
-        border: '1px solid var(--popup-border, #cccccc)',
-        borderRadius: 8,
-        boxShadow: 'var(--popup-shadow, 0 4px 16px rgba(0,0,0,0.15))',
-        padding: 16,
-        maxWidth: 400,
-        minWidth: 280,
-        zIndex: 1000,
-        fontFamily: 'var(--timeline-font-family, system-ui, sans-serif)',
-      }
-    : {
-        position: 'fixed',
-        top: '50%',
-        left: '50%',
-        transform: 'translate(-50%, -50%)',
-        backgroundColor: 'var(--popup-bg, #ffffff)',
-        border: '1px solid var(--popup-border, #cccccc)',
-        borderRadius: 8,
-        boxShadow: 'var(--popup-shadow, 0 4px 16px rgba(0,0,0,0.15))',
-        padding: 16,
-        maxWidth: 400,
-        minWidth: 280,
-        zIndex: 1000,
-        fontFamily: 'var(--timeline-font-family, system-ui, sans-serif)',
-        visibility: 'hidden', // Hide during initial position calculation
-      };
+  const popupStyle = getPopupStyle(position, clickPosition !== null);
 
   const popupContent = (
     <div
@@ -1,11 +1,24 @@
 import { useMemo } from 'react';
-import type { TimelineEvent } from '../types';
-import { calculateLayoutPrepared, getTrackCount, prepareEvents } from '../utils/layoutEngine';
+import type { ClusterOptions, TimelineEvent } from '../types';
+import {
+  calculateClusteredLayoutPrepared,
+  calculateLayoutPrepared,
+  getTrackCount,
+  prepareEvents,
+  type ClusteredLayout,
+  type PreparedEvents,
+  type TrackOf,
+} from '../utils/layoutEngine';
+import type { MagnifiedZone } from '../utils/dateUtils';
+import type { MeasureText } from '../utils/labelMeasure';
 import { EventMarker } from './EventMarker';
+import { ClusterBadge } from './ClusterBadge';
 
 export interface EventTrackProps {
   /** All timeline events */
   events: TimelineEvent[];
+  /** The events already prepared (see prepareEvents); prepared here if absent */
+  prepared?: PreparedEvents;
   /** Visible date range */
   visibleRange: { start: Date; end: Date };
   /** Pixels per millisecond */
@@ -22,6 +35,20 @@ export interface EventTrackProps {
   showLabels?: boolean;
   /** Maximum number of tracks (0 = unlimited) */
   maxTracks?: number;
+  /** Magnified zones of this band's axis */
+  zones?: MagnifiedZone[];
+  /** Tracks assigned over the whole dataset (see useLayoutTracks); assigned per frame if absent */
+  tracks?: Int32Array;
+  /** Merge events that do not fit `maxTracks` tracks into badges (needs `maxTracks`) */
+  cluster?: ClusterOptions;
+  /** Label width in the rendered font (see useLabelMeasure); estimated if absent */
+  measureText?: MeasureText;
+  /** Track pinned per event (see BandConfig.layout); packed per frame if absent */
+  trackOf?: TrackOf;
+  /** Color of events that set none (see LaneConfig.color) */
+  color?: string;
+  /** Name of the events announced for the group, as a swimlane's label (default "Timeline") */
+  label?: string;
 }
 
 /**
@@ -29,6 +56,7 @@ export interface EventTrackProps {
  */
 export function EventTrack({
   events,
+  prepared: preparedProp,
   visibleRange,
   pixelsPerMs,
   viewportWidth,
@@ -37,29 +65,63 @@ export function EventTrack({
   trackGap = 4,
   showLabels = true,
   maxTracks = 0,
+  zones,
+  tracks,
+  cluster,
+  measureText,
+  trackOf,
+  color,
+  label = 'Timeline',
 }: EventTrackProps) {
   // Parse and sort events once per data change, not per frame. Pan and zoom
   // change the viewport props below but not this, so dates are parsed once
-  // rather than on every layout pass (#36).
-  const prepared = useMemo(() => prepareEvents(events), [events]);
+  // rather than on every layout pass (#36). Inside a timeline the provider's
+  // store supplies them, shared by every band and patched by incremental
+  // updates.
+  const prepared = useMemo(
+    () => preparedProp ?? prepareEvents(events),
+    [preparedProp, events]
+  );
 
-  // Calculate layout for all visible events from the pre-parsed set.
-  const layoutEvents = useMemo(
-    () => calculateLayoutPrepared(
-      prepared,
-      visibleRange,
-      pixelsPerMs,
-      centerDate,
-      viewportWidth,
-      showLabels,
-      maxTracks
-    ),
-    [prepared, visibleRange, pixelsPerMs, centerDate, viewportWidth, showLabels, maxTracks]
+  // Calculate layout for all visible events from the pre-parsed set. A
+  // clustering band puts what does not fit its tracks into badges.
+  const clusterMinEvents = cluster && maxTracks > 0 ? Math.max(2, cluster.minEvents ?? 2) : 0;
+  const { events: layoutEvents, clusters }: ClusteredLayout = useMemo(
+    () => clusterMinEvents > 0
+      ? calculateClusteredLayoutPrepared(
+          prepared,
+          visibleRange,
+          pixelsPerMs,
+          centerDate,
+          viewportWidth,
+          showLabels,
+          maxTracks,
+          clusterMinEvents,
+          { zones, measureText }
+        )
+      : {
+          events: calculateLayoutPrepared(
+            prepared,
+            visibleRange,
+            pixelsPerMs,
+            centerDate,
+            viewportWidth,
+            showLabels,
+            maxTracks,
+            { zones, tracks, measureText, trackOf }
+          ),
+          clusters: [],
+        },
+    [prepared, visibleRange, pixelsPerMs, centerDate, viewportWidth, showLabels, maxTracks, clusterMinEvents, zones, tracks, measureText, trackOf]
   );
 
-  // Calculate total height needed
-  const trackCount = useMemo(() => getTrackCount(layoutEvents), [layoutEvents]);
+  // Calculate total height needed, with the badge row below the tracks
+  const trackCount = useMemo(
+    () => clusters.length > 0 ? Math.max(getTrackCount(layoutEvents), maxTracks + 1) : getTrackCount(layoutEvents),
+    [layoutEvents, clusters, maxTracks]
+  );
   const totalHeight = trackCount * (trackHeight + trackGap);
+  const inViewCount = clusters.reduce((count, c) => count + c.events.length, layoutEvents.length);
 
   return (
     <div
@@ -68,7 +130,7 @@ export function EventTrack({
       // grouping (and, via the live count, how many are in view) before the
       // reader steps through the individual event buttons.
       role="group"
-      aria-label={`Timeline events, ${layoutEvents.length} in view`}
+      aria-label={`${label} events, ${inViewCount} in view`}
       style={{
         position: 'relative',
         width: '100%',
@@ -82,8 +144,9 @@ export function EventTrack({
 
         return (
           <EventMarker
-            key={`${layoutEvent.event.title}-${layoutEvent.event.start}-${layoutEvent.event.end ?? ''}`}
+            key={layoutEvent.id}
             event={layoutEvent.event}
+            id={layoutEvent.id}
             x={layoutEvent.x}
             y={y}
             showLabel={showLabels}
@@ -91,9 +154,19 @@ export function EventTrack({
             durationWidth={layoutEvent.durationWidth}
             isSticky={layoutEvent.isSticky}
             stickyX={layoutEvent.stickyX}
+            defaultColor={color}
           />
         );
       })}
+      {clusters.map((eventCluster) => (
+        <ClusterBadge
+          key={eventCluster.id}
+          cluster={eventCluster}
+          x={eventCluster.x}
+          y={eventCluster.track * (trackHeight + trackGap) + trackGap}
+          onClick={cluster?.onClick}
+        />
+      ))}
     </div>
   );
 }
@@ -1,6 +1,6 @@
 import { useMemo } from 'react';
 import type { HotZone } from '../types';
-import { parseDate, dateToPixel } from '../utils/dateUtils';
+import { createTimeToPixel, positionHotZones, type MagnifiedZone } from '../utils/dateUtils';
 
 export interface HotZonesProps {
   /** Array of hot zone configurations */
@@ -13,6 +13,8 @@ export interface HotZonesProps {
   viewportWidth: number;
   /** Center date of the viewport */
   centerDate: Date;
+  /** Magnified zones of this band's axis (see prepareHotZones) */
+  zones?: MagnifiedZone[];
 }
 
 /** Default hot zone color */
@@ -27,46 +29,23 @@ export function HotZones({
   pixelsPerMs,
   viewportWidth,
   centerDate,
+  zones,
 }: HotZonesProps) {
   // Filter and calculate positions for visible hot zones
   const visibleHotZones = useMemo(() => {
-    // Viewport left edge in time. Constructed inside the memo so it is not a
-    // fresh Date reference on every render, which would defeat memoization -
-    // this mirrors OverviewMarkers and the layout engine.
-    const viewportLeftMs = centerDate.getTime() - (viewportWidth / 2) / pixelsPerMs;
-    const viewportLeftDate = new Date(viewportLeftMs);
-    return hotZones
-      .map(zone => {
-        try {
-          const startDate = parseDate(zone.start);
-          const endDate = parseDate(zone.end);
-          const startTime = startDate.getTime();
-          const endTime = endDate.getTime();
-
-          // Check if zone overlaps with visible range
-          if (endTime < visibleRange.start.getTime() || startTime > visibleRange.end.getTime()) {
-            return null;
-          }
-
-          // Calculate pixel positions
-          const x = dateToPixel(startDate, viewportLeftDate, pixelsPerMs);
-          const endX = dateToPixel(endDate, viewportLeftDate, pixelsPerMs);
-          const width = endX - x;
-
-          return {
-            zone,
-            x,
-            width,
-            color: zone.color || DEFAULT_HOT_ZONE_COLOR,
-            annotation: zone.annotation,
-          };
-        } catch {
-          // Skip zones with invalid dates
-          return null;
-        }
-      })
-      .filter((z): z is NonNullable<typeof z> => z !== null);
-  }, [hotZones, visibleRange, centerDate, viewportWidth, pixelsPerMs]);
+    // Projection to viewport x. Built inside the memo so it is not a fresh
+    // function on every render, which would defeat memoization - this mirrors
+    // OverviewMarkers and the layout engine. A magnified zone comes out wider
+    // than its linear span, because the axis itself is stretched there.
+    const toPixel = createTimeToPixel(centerDate, viewportWidth, pixelsPerMs, zones);
+    return positionHotZones(hotZones, visibleRange, toPixel).map(({ zone, x, width }) => ({
+      zone,
+      x,
+      width,
+      color: zone.color || DEFAULT_HOT_ZONE_COLOR,
+      annotation: zone.annotation,
+    }));
+  }, [hotZones, visibleRange, centerDate, viewportWidth, pixelsPerMs, zones]);
 
   if (visibleHotZones.length === 0) {
     return null;
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { render } from '@testing-library/react';
+import { OverviewDensity } from './OverviewDensity';
+import { Timeline } from './Timeline';
+import type { TimelineEvent } from '../types';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Eight events on Mar 15 and one on Mar 20
+const events: TimelineEvent[] = [
+  ...Array.from({ length: 8 }, (_, i) => ({ start: `2023-03-15T0${i}:00:00Z`, title: `Busy ${i}`, color: 'red' })),
+  { start: '2023-03-20', title: 'Quiet' },
+];
+
+const centerDate = new Date('2023-03-17T00:00:00Z');
+
+function renderDensity(props: Partial<React.ComponentProps<typeof OverviewDensity>> = {}) {
+  // One day per 4px bucket, 100 days across
+  const pixelsPerMs = 4 / DAY;
+  return render(
+    <OverviewDensity
+      events={events}
+      visibleRange={{ start: new Date(centerDate.getTime() - 50 * DAY), end: new Date(centerDate.getTime() + 50 * DAY) }}
+      pixelsPerMs={pixelsPerMs}
+      viewportWidth={400}
+      centerDate={centerDate}
+      {...props}
+    />
+  );
+}
+
+describe('OverviewDensity', () => {
+  it('draws a bar per occupied bucket, taller where events are denser', () => {
+    const { container } = renderDensity();
+    const bins = container.querySelectorAll<HTMLElement>('.timeline-overview-density__bin');
+    expect(bins).toHaveLength(2);
+    expect(bins[0]).toHaveAttribute('title', '8 events');
+    expect(bins[0].style.height).toContain('(100% - 8px)');
+    expect(bins[0].style.height).not.toBe(bins[1].style.height);
+    expect(bins[1]).toHaveAttribute('title', '1 event');
+    // Mar 15 is two days left of center: 200px - 2 days * 4px
+    expect(bins[0].style.left).toBe('192px');
+    expect(container.firstChild).toHaveAttribute('aria-hidden', 'true');
+  });
+
+  it('shades a heatmap strip by count instead', () => {
+    const { container } = renderDensity({ density: { style: 'heatmap' } });
+    const [busy, quiet] = container.querySelectorAll<HTMLElement>('.timeline-overview-density__bin');
+    expect(container.firstChild).toHaveClass('timeline-overview-density--heatmap');
+    expect(Number(busy.style.opacity)).toBe(1);
+    expect(Number(quiet.style.opacity)).toBeLessThan(0.5);
+  });
+
+  it('colors buckets by their events when asked', () => {
+    const { container } = renderDensity({ density: { color: 'event' } });
+    const [busy, quiet] = container.querySelectorAll<HTMLElement>('.timeline-overview-density__bin');
+    expect(busy.style.backgroundColor).toBe('red');
+    expect(quiet.style.backgroundColor).toBe('var(--overview-density-color, #4a90d9)');
+  });
+
+  it('replaces the overview ticks when a band sets density', () => {
+    const { container } = render(
+      <Timeline
+        data={{ events }}
+        centerDate={centerDate}
+        bands={[
+          { id: 'detail', timeUnit: 'month', intervalPixels: 100 },
+          { id: 'overview', timeUnit: 'year', overview: true, syncWith: 'detail', density: true },
+        ]}
+      />
+    );
+    expect(container.querySelector('.timeline-overview-density--histogram')).not.toBeNull();
+    expect(container.querySelector('.timeline-overview-markers')).toBeNull();
+  });
+});
@@ -0,0 +1,109 @@
+import { useMemo } from 'react';
+import type { DensityOptions, TimelineEvent } from '../types';
+import { prepareEvents, type PreparedEvents } from '../utils/layoutEngine';
+import { binEventDensity } from '../utils/eventDensity';
+
+export interface OverviewDensityProps {
+  /** All timeline events */
+  events: TimelineEvent[];
+  /** The events already prepared (see prepareEvents); prepared here if absent */
+  prepared?: PreparedEvents;
+  /** Visible date range */
+  visibleRange: { start: Date; end: Date };
+  /** Pixels per millisecond */
+  pixelsPerMs: number;
+  /** Viewport width in pixels */
+  viewportWidth: number;
+  /** Center date of the viewport */
+  centerDate: Date;
+  /** Style, bucket width and coloring */
+  density?: DensityOptions;
+}
+
+/** Default bucket width in pixels */
+const DEFAULT_BIN_WIDTH = 4;
+
+/** Default density color */
+const DEFAULT_COLOR = '#4a90d9';
+
+/** Opacity of the faintest heatmap bucket, so a single event still shows */
+const MIN_HEAT = 0.15;
+
+/**
+ * Overview band density - events counted into pixel buckets and drawn as a
+ * histogram or heatmap strip, for data too dense for a tick per event.
+ * Counts are scaled logarithmically against the busiest bucket in view, so
+ * sparse buckets stay visible beside a spike.
+ */
+export function OverviewDensity({
+  events,
+  prepared: preparedProp,
+  visibleRange,
+  pixelsPerMs,
+  viewportWidth,
+  centerDate,
+  density = {},
+}: OverviewDensityProps) {
+  const { style = 'histogram', binWidth = DEFAULT_BIN_WIDTH, color = 'count' } = density;
+
+  // Parse and sort events once per data change, not per frame (#36), unless
+  // the provider's store supplies them.
+  const prepared = useMemo(
+    () => preparedProp ?? prepareEvents(events),
+    [preparedProp, events]
+  );
+
+  // Bins are aligned to time, not the viewport: a pan re-counts the few
+  // bins at each edge by binary search, and only a zoom rebins.
+  const bins = useMemo(() => {
+    const binMs = binWidth / pixelsPerMs;
+    return binEventDensity(
+      prepared,
+      visibleRange.start.getTime() - binMs,
+      visibleRange.end.getTime() + binMs,
+      binMs,
+      color === 'event'
+    );
+  }, [prepared, visibleRange, pixelsPerMs, binWidth, color]);
+
+  const maxCount = useMemo(() => bins.reduce((max, bin) => Math.max(max, bin.count), 0), [bins]);
+  const viewportLeftMs = centerDate.getTime() - (viewportWidth / 2) / pixelsPerMs;
+
+  return (
+    <div
+      className={`timeline-overview-density timeline-overview-density--${style}`}
+      // A visual summary of the events the detail band lists, hidden from
+      // the accessibility tree like the overview's ticks
+      aria-hidden="true"
+      style={{
+        position: 'relative',
+        width: '100%',
+        height: '100%',
+      }}
+    >
+      {bins.map((bin) => {
+        if (bin.count === 0) return null;
+        const intensity = Math.log1p(bin.count) / Math.log1p(maxCount);
+        const fill = bin.color ?? `var(--overview-density-color, ${DEFAULT_COLOR})`;
+        return (
+          <div
+            key={bin.startMs}
+            className="timeline-overview-density__bin"
+            style={{
+              position: 'absolute',
+              left: (bin.startMs - viewportLeftMs) * pixelsPerMs,
+              bottom: 4,
+              width: binWidth,
+              height: style === 'heatmap'
+                ? 'var(--overview-marker-height, 12px)'
+                : `calc((100% - 8px) * ${intensity})`,
+              backgroundColor: fill,
+              opacity: style === 'heatmap' ? MIN_HEAT + (1 - MIN_HEAT) * intensity : 0.85,
+            }}
+            title={`${bin.count} event${bin.count === 1 ? '' : 's'}`}
+          />
+        );
+      })}
+    </div>
+  );
+}
@@ -1,10 +1,13 @@
 import { useMemo } from 'react';
-import type { TimelineEvent } from '../types';
-import { filterVisiblePrepared, prepareEvents } from '../utils/layoutEngine';
+import type { ClusterOptions, TimelineEvent } from '../types';
+import { filterVisiblePrepared, groupOverlapping, prepareEvents, type PreparedEvents } from '../utils/layoutEngine';
+import { ClusterBadge } from './ClusterBadge';
 
 export interface OverviewMarkersProps {
   /** All timeline events */
   events: TimelineEvent[];
+  /** The events already prepared (see prepareEvents); prepared here if absent */
+  prepared?: PreparedEvents;
   /** Visible date range */
   visibleRange: { start: Date; end: Date };
   /** Pixels per millisecond */
@@ -13,23 +16,34 @@ export interface OverviewMarkersProps {
   viewportWidth: number;
   /** Center date of the viewport */
   centerDate: Date;
+  /** Merge ticks that crowd together into count badges */
+  cluster?: ClusterOptions;
 }
 
 /** Default marker color */
 const DEFAULT_COLOR = '#666';
 
+/** Default distance in pixels under which clustering ticks merge */
+const DEFAULT_CLUSTER_GAP = 4;
+
 /**
  * Overview band markers - simplified tick marks for events
  */
 export function OverviewMarkers({
   events,
+  prepared: preparedProp,
   visibleRange,
   pixelsPerMs,
   viewportWidth,
   centerDate,
+  cluster,
 }: OverviewMarkersProps) {
-  // Parse and sort events once per data change, not per frame (#36).
-  const prepared = useMemo(() => prepareEvents(events), [events]);
+  // Parse and sort events once per data change, not per frame (#36), unless
+  // the provider's store supplies them.
+  const prepared = useMemo(
+    () => preparedProp ?? prepareEvents(events),
+    [preparedProp, events]
+  );
 
   // Calculate marker positions from the pre-parsed set.
   const markers = useMemo(() => {
@@ -40,16 +54,41 @@ export function OverviewMarkers({
     const bufferMs = 7 * 24 * 60 * 60 * 1000; // 1 week buffer
     const visibleEvents = filterVisiblePrepared(prepared, visibleRange, bufferMs);
 
-    return visibleEvents.map(({ event, startMs }) => {
+    return visibleEvents.map(({ event, id, startMs, endMs }) => {
       const x = (startMs - viewportLeftMs) * pixelsPerMs;
       return {
         event,
+        id,
         x,
+        startMs,
+        endMs: endMs ?? startMs,
         color: event.color || DEFAULT_COLOR,
       };
     });
   }, [prepared, visibleRange, pixelsPerMs, viewportWidth, centerDate]);
 
+  // Ticks closer than the cluster gap merge into one badge when there are
+  // enough of them; the rest stay ticks
+  const clusterGap = cluster?.gap ?? DEFAULT_CLUSTER_GAP;
+  const clusterMinEvents = cluster ? Math.max(2, cluster.minEvents ?? 2) : 0;
+  const { ticks, clusters } = useMemo(() => {
+    if (clusterMinEvents === 0) return { ticks: markers, clusters: [] };
+    const sorted = [...markers].sort((a, b) => a.x - b.x);
+    const groups = groupOverlapping(sorted, m => ({ start: m.x, end: m.x }), clusterGap);
+    return {
+      ticks: groups.filter(g => g.length < clusterMinEvents).flat(),
+      clusters: groups
+        .filter(g => g.length >= clusterMinEvents)
+        .map(group => ({
+          id: `cluster:${group[0].id}`,
+          events: group,
+          startMs: Math.min(...group.map(m => m.startMs)),
+          endMs: Math.max(...group.map(m => m.endMs)),
+          x: (group[0].x + group[group.length - 1].x) / 2,
+        })),
+    };
+  }, [markers, clusterMinEvents, clusterGap]);
+
   return (
     <div
       className="timeline-overview-markers"
@@ -66,9 +105,9 @@ export function OverviewMarkers({
         paddingBottom: 4,
       }}
     >
-      {markers.map((marker) => (
+      {ticks.map((marker) => (
         <div
-          key={`${marker.event.title}-${marker.event.start}-${marker.event.end ?? ''}`}
+          key={marker.id}
           className="timeline-overview-marker"
           style={{
             position: 'absolute',
@@ -82,6 +121,15 @@ export function OverviewMarkers({
           title={marker.event.title}
         />
       ))}
+      {clusters.map((markerCluster) => (
+        <ClusterBadge
+          key={markerCluster.id}
+          cluster={markerCluster}
+          x={markerCluster.x}
+          onClick={cluster?.onClick}
+          compact
+        />
+      ))}
     </div>
   );
 }
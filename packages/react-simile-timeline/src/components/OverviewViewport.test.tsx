@@ -0,0 +1,122 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { fireEvent, render } from '@testing-library/react';
+import { Timeline } from './Timeline';
+import type { BandConfig } from '../types';
+
+const YEAR = 365 * 24 * 60 * 60 * 1000;
+const centerDate = new Date('2023-03-15T00:00:00Z');
+
+// 800px wide: the detail band shows 8 months, the overview 8 years, so the
+// window is 8 months (~67px) wide in the middle of the overview
+function renderOverview(overview: Partial<BandConfig> = {}, props: Partial<React.ComponentProps<typeof Timeline>> = {}) {
+  const result = render(
+    <Timeline
+      data={{ events: [{ start: '2023-03-15', title: 'Launch' }] }}
+      bands={[
+        { id: 'detail', timeUnit: 'month', intervalPixels: 100 },
+        { id: 'overview', timeUnit: 'year', intervalPixels: 100, overview: true, syncWith: 'detail', ...overview },
+      ]}
+      centerDate={centerDate}
+      animationDuration={0}
+      {...props}
+    />
+  );
+  const band = result.container.querySelector<HTMLElement>('.timeline-band--overview')!;
+  return { band, viewport: band.querySelector<HTMLElement>('.timeline-overview-viewport') };
+}
+
+// jsdom has no PointerEvent; a MouseEvent with a pointer id stands in
+class PointerEventShim extends MouseEvent {
+  pointerId: number;
+  pointerType: string;
+  constructor(type: string, init: PointerEventInit = {}) {
+    super(type, init);
+    this.pointerId = init.pointerId ?? 1;
+    this.pointerType = init.pointerType ?? 'mouse';
+  }
+}
+
+describe('Overview viewport', () => {
+  beforeEach(() => {
+    vi.stubGlobal('PointerEvent', PointerEventShim);
+    vi.spyOn(HTMLElement.prototype, 'clientWidth', 'get').mockReturnValue(800);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('draws the detail band\'s range on the overview', () => {
+    const { viewport } = renderOverview();
+    expect(viewport).not.toBeNull();
+    expect(viewport).toHaveAttribute('aria-hidden', 'true');
+    const left = parseFloat(viewport!.style.left);
+    const width = parseFloat(viewport!.style.width);
+    expect(width).toBeCloseTo(800 * 30 / 365, 5);
+    expect(left + width / 2).toBeCloseTo(400, 0);
+  });
+
+  it('pans the detail band as the window is dragged', () => {
+    const onScroll = vi.fn();
+    const { band, viewport } = renderOverview({}, { onScroll });
+    fireEvent.pointerDown(viewport!, { clientX: 400, button: 0, pointerId: 1 });
+    fireEvent.pointerMove(document, { clientX: 450, pointerId: 1 });
+    fireEvent.pointerUp(document, { clientX: 450, pointerId: 1 });
+
+    // 50px of the overview is half a year, forward for a drag to the right
+    const moved = onScroll.mock.lastCall![0].getTime() - centerDate.getTime();
+    expect(moved / YEAR).toBeCloseTo(0.5, 1);
+    // The overview band's own pan, which moves the other way, did not start
+    expect(band.style.cursor).toBe('grab');
+  });
+
+  it('zooms to the range an edge is dragged to', () => {
+    const onZoom = vi.fn();
+    const { viewport } = renderOverview({}, { onZoom });
+    const handle = viewport!.querySelector('.timeline-overview-viewport__handle--end')!;
+    const width = parseFloat(viewport!.style.width);
+
+    fireEvent.pointerDown(handle, { clientX: 433, button: 0, pointerId: 1 });
+    fireEvent.pointerMove(document, { clientX: 433 + width, pointerId: 1 });
+    // The window previews the new range until release
+    expect(parseFloat(viewport!.style.width)).toBeCloseTo(2 * width, 5);
+    expect(onZoom).not.toHaveBeenCalled();
+    fireEvent.pointerUp(document, { clientX: 433 + width, pointerId: 1 });
+
+    expect(onZoom).toHaveBeenCalledTimes(1);
+    expect(onZoom.mock.calls[0][0]).toBeCloseTo(0.5, 5);
+  });
+
+  it('jumps the detail band to a click beside the window', () => {
+    const onScroll = vi.fn();
+    const { band } = renderOverview({}, { onScroll });
+    fireEvent.pointerDown(band, { clientX: 600, button: 0, pointerId: 1 });
+    fireEvent.pointerUp(document, { clientX: 600, pointerId: 1 });
+    fireEvent.click(band, { clientX: 600 });
+
+    // 200px right of the overview's center is two years on
+    const moved = onScroll.mock.lastCall![0].getTime() - centerDate.getTime();
+    expect(moved / YEAR).toBeCloseTo(2, 1);
+  });
+
+  it('does not jump after a drag of the overview', () => {
+    const onScroll = vi.fn();
+    const { band } = renderOverview({}, { onScroll });
+    fireEvent.pointerDown(band, { clientX: 600, button: 0, pointerId: 1 });
+    fireEvent.pointerMove(document, { clientX: 700, pointerId: 1 });
+    fireEvent.pointerUp(document, { clientX: 700, pointerId: 1 });
+    fireEvent.click(band, { clientX: 700 });
+
+    // Dragged 100px right: a year back (and on with any momentum), never the
+    // three years on that a jump to the click would be
+    const moves = onScroll.mock.calls.map(([date]) => (date.getTime() - centerDate.getTime()) / YEAR);
+    expect(moves[0]).toBeCloseTo(-1, 1);
+    expect(moves.every(moved => moved < 0)).toBe(true);
+  });
+
+  it('can be turned off', () => {
+    const { viewport } = renderOverview({ showViewport: false });
+    expect(viewport).toBeNull();
+  });
+});
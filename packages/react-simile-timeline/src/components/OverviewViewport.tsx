@@ -0,0 +1,174 @@
+import { useEffect, useRef, useState } from 'react';
+
+export interface OverviewViewportProps {
+  /** Date range the detail band shows */
+  range: { start: Date; end: Date };
+  /** Overview pixels per millisecond */
+  pixelsPerMs: number;
+  /** Viewport width in pixels */
+  viewportWidth: number;
+  /** Center date of the overview */
+  centerDate: Date;
+  /** Dragging the window: pan the detail band by milliseconds */
+  onPan: (deltaMs: number) => void;
+  /** An edge dropped after a resize: the range the detail band should show */
+  onResize: (start: Date, end: Date) => void;
+  /** Called when a drag starts */
+  onDragStart?: () => void;
+  /** Called when a drag ends */
+  onDragEnd?: () => void;
+}
+
+/** What a drag on the window moves: the whole window or one edge */
+type DragMode = 'move' | 'start' | 'end';
+
+/** A drag in progress, measured on the overview as it was when it began */
+interface Drag {
+  mode: DragMode;
+  pointerId: number;
+  startX: number;
+  left: number;
+  width: number;
+}
+
+/** Width of the grab area over each edge, in pixels */
+const HANDLE_WIDTH = 8;
+
+/** Narrowest a resize may make the window, in pixels */
+const MIN_WIDTH = 8;
+
+/**
+ * The slice of time the detail band shows, drawn over the overview band.
+ * Dragging the window pans the detail band as it moves. Dragging an edge
+ * previews the new range and zooms to it on release, the opposite edge held
+ * still. Every band shares one zoom level, so the window keeps its width in
+ * the overview at any zoom; only the overview's scale changes.
+ *
+ * Keyboard users pan and zoom on the detail band itself, so the window is
+ * hidden from the accessibility tree like the rest of the overview.
+ */
+export function OverviewViewport({
+  range,
+  pixelsPerMs,
+  viewportWidth,
+  centerDate,
+  onPan,
+  onResize,
+  onDragStart,
+  onDragEnd,
+}: OverviewViewportProps) {
+  const [drag, setDrag] = useState<Drag | null>(null);
+  const [preview, setPreview] = useState<{ left: number; width: number } | null>(null);
+
+  const viewportLeftMs = centerDate.getTime() - (viewportWidth / 2) / pixelsPerMs;
+  const left = (range.start.getTime() - viewportLeftMs) * pixelsPerMs;
+  const width = (range.end.getTime() - range.start.getTime()) * pixelsPerMs;
+
+  // Latest callbacks and axis, read by the document listeners of a drag
+  const latestRef = useRef({ onPan, onResize, onDragEnd, pixelsPerMs, viewportLeftMs });
+  useEffect(() => {
+    latestRef.current = { onPan, onResize, onDragEnd, pixelsPerMs, viewportLeftMs };
+  }, [onPan, onResize, onDragEnd, pixelsPerMs, viewportLeftMs]);
+
+  // Follow the pointer over the whole document while a drag lasts
+  useEffect(() => {
+    if (!drag) return;
+    let lastX = drag.startX;
+
+    const resize = (clientX: number) => {
+      const dx = clientX - drag.startX;
+      return drag.mode === 'start'
+        ? {
+            left: drag.left + Math.min(dx, drag.width - MIN_WIDTH),
+            width: Math.max(drag.width - dx, MIN_WIDTH),
+          }
+        : { left: drag.left, width: Math.max(drag.width + dx, MIN_WIDTH) };
+    };
+
+    const handleMove = (e: PointerEvent) => {
+      if (e.pointerId !== drag.pointerId) return;
+      if (drag.mode === 'move') {
+        const deltaX = e.clientX - lastX;
+        lastX = e.clientX;
+        if (deltaX !== 0) latestRef.current.onPan(deltaX / latestRef.current.pixelsPerMs);
+      } else {
+        setPreview(resize(e.clientX));
+      }
+    };
+
+    const handleUp = (e: PointerEvent) => {
+      if (e.pointerId !== drag.pointerId) return;
+      const { onResize, onDragEnd, pixelsPerMs, viewportLeftMs } = latestRef.current;
+      if (drag.mode !== 'move' && e.clientX !== drag.startX) {
+        const next = resize(e.clientX);
+        onResize(
+          new Date(viewportLeftMs + next.left / pixelsPerMs),
+          new Date(viewportLeftMs + (next.left + next.width) / pixelsPerMs)
+        );
+      }
+      setDrag(null);
+      setPreview(null);
+      onDragEnd?.();
+    };
+
+    document.addEventListener('pointermove', handleMove);
+    document.addEventListener('pointerup', handleUp);
+    document.addEventListener('pointercancel', handleUp);
+    return () => {
+      document.removeEventListener('pointermove', handleMove);
+      document.removeEventListener('pointerup', handleUp);
+      document.removeEventListener('pointercancel', handleUp);
+    };
+  }, [drag]);
+
+  // A press on the window or an edge starts a drag here instead of panning
+  // the overview band underneath
+  const beginDrag = (mode: DragMode) => (e: React.PointerEvent) => {
+    if (e.button !== 0 && e.pointerType !== 'touch') return;
+    e.stopPropagation();
+    e.preventDefault();
+    setDrag({ mode, pointerId: e.pointerId, startX: e.clientX, left, width });
+    onDragStart?.();
+  };
+
+  const shown = preview ?? { left, width };
+  const handleStyle: React.CSSProperties = {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    width: HANDLE_WIDTH,
+    cursor: 'ew-resize',
+  };
+
+  return (
+    <div
+      className={`timeline-overview-viewport${drag ? ' timeline-overview-viewport--dragging' : ''}`}
+      aria-hidden="true"
+      onPointerDown={beginDrag('move')}
+      style={{
+        position: 'absolute',
+        top: 0,
+        bottom: 0,
+        left: shown.left,
+        width: shown.width,
+        boxSizing: 'border-box',
+        backgroundColor: 'var(--overview-viewport-bg, rgba(74, 144, 217, 0.15))',
+        borderLeft: '1px solid var(--overview-viewport-border, #4a90d9)',
+        borderRight: '1px solid var(--overview-viewport-border, #4a90d9)',
+        cursor: drag?.mode === 'move' ? 'grabbing' : 'grab',
+        touchAction: 'none',
+      }}
+    >
+      <div
+        className="timeline-overview-viewport__handle timeline-overview-viewport__handle--start"
+        onPointerDown={beginDrag('start')}
+        style={{ ...handleStyle, left: -HANDLE_WIDTH / 2 }}
+      />
+      <div
+        className="timeline-overview-viewport__handle timeline-overview-viewport__handle--end"
+        onPointerDown={beginDrag('end')}
+        style={{ ...handleStyle, right: -HANDLE_WIDTH / 2 }}
+      />
+    </div>
+  );
+}
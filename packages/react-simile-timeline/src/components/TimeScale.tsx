@@ -1,6 +1,6 @@
 import { useMemo } from 'react';
 import { getScaleConfig, generateTicks, type ScaleTick } from '../utils/scaleUtils';
-import type { TimeUnit } from '../utils/dateUtils';
+import type { TimeUnit, MagnifiedZone } from '../utils/dateUtils';
 
 export interface TimeScaleProps {
   /** Visible date range */
@@ -13,6 +13,8 @@ export interface TimeScaleProps {
   centerDate: Date;
   /** Optional preferred time unit */
   timeUnit?: TimeUnit | string;
+  /** Magnified zones, labelled at their own tick unit */
+  zones?: MagnifiedZone[];
 }
 
 /**
@@ -30,6 +32,7 @@ export function TimeScale({
   pixelsPerMs,
   viewportWidth,
   centerDate,
+  zones,
 }: TimeScaleProps) {
   // Get appropriate scale configuration for current zoom level
   const scaleConfig = useMemo(
@@ -39,8 +42,8 @@ export function TimeScale({
 
   // Generate tick marks
   const ticks = useMemo(
-    () => generateTicks(visibleRange, scaleConfig, pixelsPerMs, centerDate, viewportWidth),
-    [visibleRange, scaleConfig, pixelsPerMs, centerDate, viewportWidth]
+    () => generateTicks(visibleRange, scaleConfig, pixelsPerMs, centerDate, viewportWidth, zones),
+    [visibleRange, scaleConfig, pixelsPerMs, centerDate, viewportWidth, zones]
   );
 
   return (
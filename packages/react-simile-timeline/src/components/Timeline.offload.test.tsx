@@ -0,0 +1,132 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { act, render, screen } from '@testing-library/react';
+import { Timeline } from './Timeline';
+import { handleLayoutRequest, type LayoutWorkerRequest, type LayoutWorkerState } from '../utils/layoutWorker';
+import type { TimelineData } from '../types';
+
+// jsdom runs no workers. This stands one in that answers in-process on a
+// later task, and counts the requests it is sent.
+const worker = vi.hoisted(() => ({ enabled: true, requests: [] as string[], fail: false }));
+
+vi.mock('../workers/createLayoutWorker', () => ({
+  canUseLayoutWorker: () => worker.enabled,
+  createLayoutWorker: () => {
+    const listeners: Record<string, ((e: unknown) => void)[]> = {};
+    const state: LayoutWorkerState = { prepared: null };
+    return {
+      addEventListener: (type: string, listener: (e: unknown) => void) => {
+        (listeners[type] ??= []).push(listener);
+      },
+      postMessage: (request: LayoutWorkerRequest) => {
+        worker.requests.push(request.type);
+        setTimeout(() => {
+          if (worker.fail) {
+            listeners.error?.forEach(l => l({ message: 'blocked', preventDefault: () => {} }));
+            return;
+          }
+          const { response } = handleLayoutRequest(state, request);
+          listeners.message?.forEach(l => l({ data: response }));
+        });
+      },
+      terminate: () => {},
+    };
+  },
+}));
+
+const data: TimelineData = {
+  events: [
+    { start: '2023-03-14', title: 'Kickoff' },
+    { start: '2023-03-15', title: 'Launch' },
+  ],
+};
+
+const centerDate = new Date('2023-03-15T00:00:00Z');
+
+describe('Timeline offloaded layout', () => {
+  afterEach(() => {
+    worker.enabled = true;
+    worker.fail = false;
+    worker.requests = [];
+    vi.useRealTimers();
+  });
+
+  it('draws events once the worker has prepared them, then takes its tracks', async () => {
+    vi.useFakeTimers();
+    render(<Timeline data={data} centerDate={centerDate} offloadLayout />);
+    expect(screen.queryByRole('button', { name: /^Launch/ })).toBeNull();
+
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(0);
+    });
+    expect(screen.getByRole('button', { name: /^Launch/ })).toBeInTheDocument();
+    expect(worker.requests).toEqual(['prepare']);
+
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(200);
+    });
+    expect(worker.requests).toEqual(['prepare', 'tracks']);
+    expect(screen.getByRole('button', { name: /^Kickoff/ })).toBeInTheDocument();
+  });
+
+  it('keeps drawing the previous events until changed data is prepared', async () => {
+    vi.useFakeTimers();
+    const { rerender } = render(<Timeline data={data} centerDate={centerDate} offloadLayout />);
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(0);
+    });
+
+    const changed: TimelineData = { events: [...data.events, { start: '2023-03-16', title: 'Review' }] };
+    rerender(<Timeline data={changed} centerDate={centerDate} offloadLayout />);
+    expect(screen.getByRole('button', { name: /^Launch/ })).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: /^Review/ })).toBeNull();
+
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(0);
+    });
+    expect(screen.getByRole('button', { name: /^Review/ })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /^Launch/ })).toBeInTheDocument();
+  });
+
+  it('takes tracks packed on the magnified axis of a band with hot zones', async () => {
+    vi.useFakeTimers();
+    // A day apart, the labels overlap at 100px a day, but not in a zone
+    // that stretches the axis fourfold
+    const close: TimelineData = {
+      events: [
+        { start: '2023-03-14', title: 'First long label' },
+        { start: '2023-03-15', title: 'Second long label' },
+      ],
+    };
+    render(
+      <Timeline
+        data={close}
+        bands={[{ id: 'detail', timeUnit: 'day', intervalPixels: 100 }]}
+        hotZones={[{ start: '2023-03-10', end: '2023-03-20', magnify: 4 }]}
+        centerDate={centerDate}
+        offloadLayout
+      />
+    );
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(0);
+    });
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(200);
+    });
+    expect(worker.requests).toEqual(['prepare', 'tracks']);
+    const topOf = (title: string) => screen.getByRole('button', { name: new RegExp(`^${title}`) }).style.top;
+    expect(topOf('Second long label')).toBe(topOf('First long label'));
+  });
+
+  it('prepares on the main thread when the worker fails', async () => {
+    worker.fail = true;
+    render(<Timeline data={data} centerDate={centerDate} offloadLayout />);
+    expect(await screen.findByRole('button', { name: /^Launch/ })).toBeInTheDocument();
+  });
+
+  it('keeps layout synchronous where workers do not run', () => {
+    worker.enabled = false;
+    render(<Timeline data={data} centerDate={centerDate} offloadLayout />);
+    expect(screen.getByRole('button', { name: /^Launch/ })).toBeInTheDocument();
+    expect(worker.requests).toEqual([]);
+  });
+});
@@ -1,7 +1,8 @@
-import { describe, it, expect, vi } from 'vitest';
-import { render, screen } from '@testing-library/react';
+import { createRef } from 'react';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { act, fireEvent, render, screen, within } from '@testing-library/react';
 import { Timeline } from './Timeline';
-import type { TimelineData } from '../types';
+import type { TimelineData, TimelineEvent, TimelineHandle } from '../types';
 
 const sampleData: TimelineData = {
   dateTimeFormat: 'iso8601',
@@ -20,6 +21,10 @@ const sampleData: TimelineData = {
 };
 
 describe('Timeline', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
   it('renders without crashing', () => {
     render(<Timeline data={sampleData} />);
     expect(screen.getByTestId('timeline-container')).toBeInTheDocument();
@@ -56,6 +61,36 @@ describe('Timeline', () => {
     expect(screen.getByText(/failed to fetch/i)).toBeInTheDocument();
   });
 
+  it('loads a Simile XML event source from dataUrl', async () => {
+    global.fetch = vi.fn(() =>
+      Promise.resolve(new Response(
+        '<data><event start="2023-01-01" title="From XML">Archived</event></data>',
+        { headers: { 'Content-Type': 'text/xml' } }
+      ))
+    );
+
+    render(<Timeline dataUrl="/archive/events" centerDate={new Date('2023-01-01')} />);
+    expect(await screen.findByRole('button', { name: /^From XML/ })).toBeInTheDocument();
+  });
+
+  it('shows the parse error of a malformed data source', async () => {
+    global.fetch = vi.fn(() => Promise.resolve(new Response('<data><event start="2023"></data>')));
+
+    render(<Timeline dataUrl="/archive/events.xml" />);
+    expect(await screen.findByText(/invalid simile xml/i)).toBeInTheDocument();
+  });
+
+  it('loads an iCalendar file from dataUrl', async () => {
+    global.fetch = vi.fn(() =>
+      Promise.resolve(new Response(
+        'BEGIN:VCALENDAR\r\nBEGIN:VEVENT\r\nDTSTART;VALUE=DATE:20230101\r\nSUMMARY:From ICS\r\nEND:VEVENT\r\nEND:VCALENDAR\r\n'
+      ))
+    );
+
+    render(<Timeline dataUrl="/calendars/team.ics" centerDate={new Date('2023-01-01')} />);
+    expect(await screen.findByRole('button', { name: /^From ICS/ })).toBeInTheDocument();
+  });
+
   it('shows empty state when no events', () => {
     render(<Timeline data={{ events: [] }} />);
     expect(screen.getByText(/no timeline data/i)).toBeInTheDocument();
@@ -78,10 +113,519 @@ describe('Timeline', () => {
     expect(container).toHaveStyle({ width: '800px' });
   });
 
+  it('opens the popup for a controlled selectedEvent', () => {
+    const onSelect = vi.fn();
+    render(
+      <Timeline data={sampleData} selectedEvent={sampleData.events[1]} onSelect={onSelect} controlled />
+    );
+    expect(screen.getByRole('dialog')).toHaveTextContent('Test Event 2');
+  });
+
+  it('keeps a centerDate passed with onScroll as the initial center unless controlled', () => {
+    vi.spyOn(HTMLElement.prototype, 'clientWidth', 'get').mockReturnValue(800);
+    const onScroll = vi.fn();
+    const centerDate = new Date(2023, 2, 1);
+    const target = new Date(2023, 5, 1);
+    const midpoint = (ref: { current: TimelineHandle | null }) => {
+      const { start, end } = ref.current!.getVisibleRange();
+      return (start.getTime() + end.getTime()) / 2;
+    };
+
+    const uncontrolled = createRef<TimelineHandle>();
+    const { unmount } = render(
+      <Timeline ref={uncontrolled} data={sampleData} centerDate={centerDate} onScroll={onScroll} animationDuration={0} />
+    );
+    act(() => uncontrolled.current!.jumpToDate(target));
+    expect(onScroll).toHaveBeenLastCalledWith(target);
+    expect(midpoint(uncontrolled)).toBeCloseTo(target.getTime(), -3);
+    unmount();
+
+    const controlledRef = createRef<TimelineHandle>();
+    render(
+      <Timeline ref={controlledRef} data={sampleData} centerDate={centerDate} onScroll={onScroll} animationDuration={0} controlled />
+    );
+    act(() => controlledRef.current!.jumpToDate(target));
+    expect(onScroll).toHaveBeenLastCalledWith(target);
+    expect(midpoint(controlledRef)).toBeCloseTo(centerDate.getTime(), -3);
+  });
+
+  it('zooms on the date under the pointer', () => {
+    vi.spyOn(HTMLElement.prototype, 'clientWidth', 'get').mockReturnValue(800);
+    const onZoom = vi.fn();
+    const onScroll = vi.fn();
+    const centerDate = new Date(2023, 2, 1);
+    render(
+      <Timeline data={sampleData} centerDate={centerDate} onZoom={onZoom} onScroll={onScroll} />
+    );
+    const band = screen.getByTestId('timeline-container').querySelector('.timeline-band--detail')!;
+
+    // Zooming in right of center pulls the center toward the pointer
+    fireEvent.wheel(band, { deltaY: -100, clientX: 600 });
+    expect(onZoom).toHaveBeenCalledWith(1.15);
+    expect(onScroll.mock.lastCall![0].getTime()).toBeGreaterThan(centerDate.getTime());
+  });
+
   it('exports Timeline component', async () => {
     // Test that the component is properly exported from the package
     const { Timeline: ImportedTimeline } = await import('../index');
     expect(ImportedTimeline).toBeDefined();
-    expect(typeof ImportedTimeline).toBe('function');
+    expect(ImportedTimeline.$$typeof).toBe(Symbol.for('react.forward_ref'));
+  });
+});
+
+describe('Timeline event identity', () => {
+  it('renders and selects duplicate events separately', () => {
+    const twin = { start: '2023-03-15', title: 'Twin' };
+    render(<Timeline data={{ events: [twin, { ...twin }] }} />);
+
+    const markers = screen.getAllByRole('button', { name: /^Twin/ });
+    expect(markers).toHaveLength(2);
+    fireEvent.click(markers[1]);
+    expect(markers[0]).toHaveAttribute('aria-pressed', 'false');
+    expect(markers[1]).toHaveAttribute('aria-pressed', 'true');
+  });
+
+  it('finds events by id through the ref handle', () => {
+    const ref = createRef<TimelineHandle>();
+    const data = { events: [{ id: 'launch', start: '2023-03-15', title: 'Launch' }] };
+    render(<Timeline ref={ref} data={data} />);
+
+    act(() => {
+      ref.current!.selectEvent('launch');
+    });
+    expect(screen.getByRole('dialog')).toHaveTextContent('Launch');
+  });
+});
+
+describe('Timeline incremental updates', () => {
+  const data = { events: [{ id: 'first', start: '2023-03-15', title: 'First' }] };
+
+  it('adds, updates and removes events through the ref handle', () => {
+    const ref = createRef<TimelineHandle>();
+    render(<Timeline ref={ref} data={data} />);
+
+    let ids: string[] = [];
+    act(() => {
+      ids = ref.current!.addEvents([{ start: '2023-03-16', title: 'Second' }]);
+    });
+    expect(ids).toEqual(['Second|2023-03-16|']);
+    expect(screen.getByRole('button', { name: /^Second/ })).toBeInTheDocument();
+
+    act(() => {
+      ref.current!.updateEvent(ids[0], { title: 'Renamed' });
+    });
+    expect(screen.getByRole('button', { name: /^Renamed/ })).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: /^Second/ })).not.toBeInTheDocument();
+
+    let removed = false;
+    act(() => {
+      removed = ref.current!.removeEvent('first');
+    });
+    expect(removed).toBe(true);
+    expect(screen.queryByRole('button', { name: /^First/ })).not.toBeInTheDocument();
+    expect(ref.current!.removeEvent('first')).toBe(false);
+  });
+
+  it('closes the popup of a removed event', () => {
+    const ref = createRef<TimelineHandle>();
+    render(<Timeline ref={ref} data={data} />);
+    act(() => {
+      ref.current!.selectEvent('first');
+    });
+    expect(screen.getByRole('dialog')).toBeInTheDocument();
+    act(() => {
+      ref.current!.removeEvent('first');
+    });
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+  });
+
+  it('starts over from new data', () => {
+    const ref = createRef<TimelineHandle>();
+    const { rerender } = render(<Timeline ref={ref} data={data} />);
+    act(() => {
+      ref.current!.addEvents([{ start: '2023-03-16', title: 'Live' }]);
+    });
+    rerender(<Timeline ref={ref} data={{ events: [{ start: '2023-03-15', title: 'Reloaded' }] }} />);
+    expect(screen.getByRole('button', { name: /^Reloaded/ })).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: /^Live/ })).not.toBeInTheDocument();
+  });
+});
+
+describe('Timeline ref handle', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  const midpoint = (range: { start: Date; end: Date }) =>
+    (range.start.getTime() + range.end.getTime()) / 2;
+
+  it('jumps to a date', () => {
+    const ref = createRef<TimelineHandle>();
+    render(<Timeline ref={ref} data={sampleData} animationDuration={0} />);
+
+    act(() => ref.current!.jumpToDate(new Date(2023, 2, 1)));
+    expect(midpoint(ref.current!.getVisibleRange())).toBe(new Date(2023, 2, 1).getTime());
+  });
+
+  it('sets an absolute zoom level', () => {
+    const ref = createRef<TimelineHandle>();
+    const onZoom = vi.fn();
+    render(<Timeline ref={ref} data={sampleData} onZoom={onZoom} animationDuration={0} />);
+
+    act(() => ref.current!.zoomTo(2));
+    expect(onZoom).toHaveBeenLastCalledWith(2);
+  });
+
+  it('zooms to fit a range', () => {
+    vi.spyOn(HTMLElement.prototype, 'clientWidth', 'get').mockReturnValue(800);
+    const ref = createRef<TimelineHandle>();
+    render(<Timeline ref={ref} data={sampleData} animationDuration={0} />);
+    const start = new Date(2023, 0, 1);
+    const end = new Date(2023, 0, 11);
+
+    act(() => ref.current!.zoomToFit({ start, end }));
+    const range = ref.current!.getVisibleRange();
+    expect(midpoint(range)).toBe((start.getTime() + end.getTime()) / 2);
+    expect(range.end.getTime() - range.start.getTime()).toBeCloseTo(end.getTime() - start.getTime(), -3);
+  });
+
+  it('scrolls to an event by id and reports unknown ids', () => {
+    const ref = createRef<TimelineHandle>();
+    render(<Timeline ref={ref} data={sampleData} animationDuration={0} />);
+
+    let found = false;
+    act(() => {
+      found = ref.current!.scrollToEvent('Test Event 2');
+    });
+    expect(found).toBe(true);
+    expect(midpoint(ref.current!.getVisibleRange())).toBe(new Date(2023, 5, 15).getTime());
+    expect(ref.current!.scrollToEvent('No such event')).toBe(false);
+  });
+
+  it('leaves the view as it is for dates that do not parse', () => {
+    vi.spyOn(HTMLElement.prototype, 'clientWidth', 'get').mockReturnValue(800);
+    const ref = createRef<TimelineHandle>();
+    const onScroll = vi.fn();
+    const onZoom = vi.fn();
+    render(<Timeline ref={ref} data={sampleData} animationDuration={0} onScroll={onScroll} onZoom={onZoom} />);
+
+    expect(ref.current!.scrollToEvent({ start: 'someday', title: 'Unreadable' })).toBe(false);
+    act(() => ref.current!.zoomToFit({ start: '2023-01-01', end: 'later' }));
+    expect(onScroll).not.toHaveBeenCalled();
+    expect(onZoom).not.toHaveBeenCalled();
+  });
+
+  it('selects and deselects an event', () => {
+    const ref = createRef<TimelineHandle>();
+    const onSelect = vi.fn();
+    render(<Timeline ref={ref} data={sampleData} onSelect={onSelect} />);
+
+    act(() => {
+      ref.current!.selectEvent('Test Event 1');
+    });
+    expect(screen.getByRole('dialog')).toHaveTextContent('Test Event 1');
+
+    act(() => {
+      ref.current!.selectEvent(null);
+    });
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+    expect(onSelect).toHaveBeenLastCalledWith(null);
+  });
+
+  it('animates to a date over the given duration', () => {
+    vi.useFakeTimers();
+    const ref = createRef<TimelineHandle>();
+    const onScroll = vi.fn();
+    render(<Timeline ref={ref} data={sampleData} onScroll={onScroll} />);
+    const target = new Date(2024, 0, 1);
+
+    act(() => ref.current!.animateTo(target, { duration: 300 }));
+    act(() => {
+      vi.advanceTimersByTime(100);
+    });
+    expect(onScroll).toHaveBeenCalled();
+    expect(midpoint(ref.current!.getVisibleRange())).not.toBe(target.getTime());
+
+    act(() => {
+      vi.advanceTimersByTime(400);
+    });
+    expect(midpoint(ref.current!.getVisibleRange())).toBe(target.getTime());
+  });
+
+  it('animates jumps by default', () => {
+    vi.useFakeTimers();
+    const ref = createRef<TimelineHandle>();
+    render(<Timeline ref={ref} data={sampleData} />);
+    const target = new Date(2024, 0, 1);
+
+    act(() => ref.current!.jumpToDate(target));
+    expect(midpoint(ref.current!.getVisibleRange())).not.toBe(target.getTime());
+    act(() => {
+      vi.advanceTimersByTime(600);
+    });
+    expect(midpoint(ref.current!.getVisibleRange())).toBe(target.getTime());
+  });
+
+  it('zooms to fit a range in one transition', () => {
+    vi.useFakeTimers();
+    vi.spyOn(HTMLElement.prototype, 'clientWidth', 'get').mockReturnValue(800);
+    const ref = createRef<TimelineHandle>();
+    render(<Timeline ref={ref} data={sampleData} />);
+    const start = new Date(2023, 0, 1);
+    const end = new Date(2023, 0, 11);
+
+    act(() => ref.current!.zoomToFit({ start, end }, { duration: 300 }));
+    act(() => {
+      vi.advanceTimersByTime(400);
+    });
+    const range = ref.current!.getVisibleRange();
+    expect(midpoint(range)).toBe((start.getTime() + end.getTime()) / 2);
+    expect(range.end.getTime() - range.start.getTime()).toBeCloseTo(end.getTime() - start.getTime(), -3);
+  });
+
+  it('cancels an animation when the timeline is panned', () => {
+    vi.useFakeTimers();
+    const ref = createRef<TimelineHandle>();
+    render(<Timeline ref={ref} data={sampleData} />);
+    const target = new Date(2024, 0, 1);
+
+    act(() => ref.current!.animateTo(target, { duration: 300 }));
+    act(() => ref.current!.jumpToDate(new Date(2023, 2, 1), { duration: 0 }));
+    act(() => {
+      vi.advanceTimersByTime(500);
+    });
+    expect(midpoint(ref.current!.getVisibleRange())).toBe(new Date(2023, 2, 1).getTime());
+  });
+
+  it('exports all events, or those in view, as iCalendar', () => {
+    vi.spyOn(HTMLElement.prototype, 'clientWidth', 'get').mockReturnValue(800);
+    const ref = createRef<TimelineHandle>();
+    const data: TimelineData = {
+      events: [
+        { id: 'near', start: '2023-03-01', title: 'Near' },
+        { id: 'far', start: '2030-03-01', title: 'Far' },
+      ],
+    };
+    render(<Timeline ref={ref} data={data} centerDate={new Date('2023-03-01')} animationDuration={0} />);
+
+    const uids = (ics: string) => ics.split('\r\n').filter(line => line.startsWith('UID:'));
+    expect(uids(ref.current!.exportIcs())).toEqual(['UID:near', 'UID:far']);
+    expect(uids(ref.current!.exportIcs({ visibleOnly: true }))).toEqual(['UID:near']);
+  });
+});
+
+describe('Timeline pinned track layout', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const teams: TimelineData = {
+    events: [
+      { start: '2023-01-10', title: 'Kickoff', classname: 'ops' },
+      { start: '2023-03-01', title: 'Mockups', classname: 'design' },
+      { start: '2023-03-02', title: 'Rollout', classname: 'ops' },
+    ],
+  };
+
+  const topOf = (title: string) =>
+    screen.getByRole('button', { name: new RegExp(`^${title}`) }).style.top;
+
+  it('keeps each group on its own track as the view pans', () => {
+    vi.spyOn(HTMLElement.prototype, 'clientWidth', 'get').mockReturnValue(800);
+    const bands = [{ id: 'detail', timeUnit: 'month' as const, intervalPixels: 200, layout: 'grouped' as const, groupBy: 'classname' }];
+    const { rerender } = render(
+      <Timeline data={teams} bands={bands} centerDate={new Date('2023-02-01')} />
+    );
+    const opsTop = topOf('Kickoff');
+    expect(topOf('Rollout')).toBe(opsTop);
+    expect(topOf('Mockups')).not.toBe(opsTop);
+
+    // Greedy layout would stack Rollout under Mockups, which starts first
+    rerender(<Timeline data={teams} bands={bands} centerDate={new Date('2023-03-20')} />);
+    expect(screen.queryByRole('button', { name: /^Kickoff/ })).toBeNull();
+    expect(topOf('Rollout')).toBe(opsTop);
+  });
+});
+
+describe('Timeline swimlanes', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const releases: TimelineData = {
+    events: [
+      { start: '2023-03-01', title: 'Web launch', classname: 'web' },
+      { start: '2023-03-05', title: 'App launch', classname: 'app' },
+      { start: '2023-03-10', title: 'Web patch', classname: 'web', color: 'red' },
+      { start: '2023-03-12', title: 'Press day' },
+    ],
+  };
+
+  const lanes = [
+    { id: 'web', label: 'Website', color: 'green', filter: (e: TimelineEvent) => e.classname === 'web' },
+    { id: 'app', label: 'Mobile app', filter: (e: TimelineEvent) => e.classname === 'app' },
+  ];
+
+  it('draws a row with a header per lane, each holding its own events', () => {
+    vi.spyOn(HTMLElement.prototype, 'clientWidth', 'get').mockReturnValue(800);
+    const { container } = render(
+      <Timeline
+        data={releases}
+        bands={[{ id: 'detail', timeUnit: 'month', intervalPixels: 400, lanes }]}
+        centerDate={new Date('2023-03-07')}
+      />
+    );
+    const rows = container.querySelectorAll<HTMLElement>('.timeline-lane');
+    expect([...rows].map(row => row.dataset.laneId)).toEqual(['web', 'app']);
+    expect(rows[0].querySelector('.timeline-lane__header')).toHaveTextContent('Website');
+
+    const web = screen.getByRole('group', { name: 'Website events, 2 in view' });
+    expect(within(web).getByRole('button', { name: /^Web launch/ })).toBeInTheDocument();
+    expect(within(web).getByRole('button', { name: /^Web patch/ })).toBeInTheDocument();
+    expect(screen.getByRole('group', { name: 'Mobile app events, 1 in view' })).toBeInTheDocument();
+    // An event in no lane is not drawn
+    expect(screen.queryByRole('button', { name: /^Press day/ })).toBeNull();
+  });
+
+  it('colors a lane\'s events that set no color of their own', () => {
+    vi.spyOn(HTMLElement.prototype, 'clientWidth', 'get').mockReturnValue(800);
+    render(
+      <Timeline
+        data={releases}
+        bands={[{ id: 'detail', timeUnit: 'month', intervalPixels: 400, lanes }]}
+        centerDate={new Date('2023-03-07')}
+      />
+    );
+    const dotOf = (title: string) =>
+      screen.getByRole('button', { name: new RegExp(`^${title}`) }).querySelector<HTMLElement>('.timeline-event__dot');
+    expect(dotOf('Web launch')?.style.backgroundColor).toBe('green');
+    expect(dotOf('Web patch')?.style.backgroundColor).toBe('red');
+  });
+
+  it('stacks no more tracks in a lane than fit its share of the band', () => {
+    vi.spyOn(HTMLElement.prototype, 'clientWidth', 'get').mockReturnValue(800);
+    // Two lanes of 30px each hold one 24px track
+    vi.spyOn(HTMLElement.prototype, 'clientHeight', 'get').mockReturnValue(60);
+    const crowded: TimelineData = {
+      events: ['Web one', 'Web two', 'Web three'].map(title => ({ start: '2023-03-01', title, classname: 'web' })),
+    };
+    render(
+      <Timeline
+        data={crowded}
+        bands={[{ id: 'detail', timeUnit: 'month', intervalPixels: 400, lanes }]}
+        centerDate={new Date('2023-03-07')}
+      />
+    );
+    const tops = ['Web one', 'Web two', 'Web three'].map(title =>
+      screen.getByRole('button', { name: new RegExp(`^${title}`) }).style.top
+    );
+    expect(new Set(tops).size).toBe(1);
+  });
+});
+
+describe('Timeline keyboard panning', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  function pressArrow() {
+    const band = screen.getByRole('group', { name: /^Timeline\. Use/ });
+    act(() => band.focus());
+    fireEvent.keyDown(band, { key: 'ArrowRight' });
+  }
+
+  it('glides an arrow-key pan instead of jumping', () => {
+    vi.useFakeTimers();
+    vi.spyOn(HTMLElement.prototype, 'clientWidth', 'get').mockReturnValue(800);
+    const onScroll = vi.fn();
+    render(<Timeline data={sampleData} animationDuration={400} onScroll={onScroll} />);
+    pressArrow();
+    expect(onScroll).not.toHaveBeenCalled();
+
+    act(() => {
+      vi.advanceTimersByTime(600);
+    });
+    expect(onScroll.mock.calls.length).toBeGreaterThan(2);
+    const [first, last] = [onScroll.mock.calls[0][0], onScroll.mock.calls.at(-1)![0]];
+    expect(last.getTime()).toBeGreaterThan(first.getTime());
+  });
+
+  it('pans at once when the user prefers reduced motion', () => {
+    vi.stubGlobal('matchMedia', (query: string) => ({ matches: query.includes('reduce') }));
+    vi.spyOn(HTMLElement.prototype, 'clientWidth', 'get').mockReturnValue(800);
+    const onScroll = vi.fn();
+    render(<Timeline data={sampleData} animationDuration={400} onScroll={onScroll} />);
+    pressArrow();
+    expect(onScroll).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('Timeline data warnings', () => {
+  const flawed = {
+    events: [
+      { start: '2023-01-01', title: 'Fine' },
+      { start: 'someday', title: 'Unreadable' },
+      { start: '2023-03-01', end: '2023-02-01', title: 'Backwards' },
+    ],
+  };
+
+  it('reports problems with the data once per change', () => {
+    const onDataWarning = vi.fn();
+    const { rerender } = render(<Timeline data={flawed} onDataWarning={onDataWarning} />);
+    expect(onDataWarning).toHaveBeenCalledTimes(1);
+    expect(onDataWarning.mock.calls[0][0]).toEqual([
+      expect.objectContaining({ index: 1, field: 'start', reason: 'unparseable-date', skipped: true }),
+      expect.objectContaining({ index: 2, field: 'end', reason: 'end-before-start', skipped: false }),
+    ]);
+
+    rerender(<Timeline data={flawed} onDataWarning={() => onDataWarning()} />);
+    expect(onDataWarning).toHaveBeenCalledTimes(1);
+    rerender(<Timeline data={sampleData} onDataWarning={onDataWarning} />);
+    expect(onDataWarning).toHaveBeenCalledTimes(1);
+  });
+
+  it('lists skipped events first in the overlay until dismissed', () => {
+    render(<Timeline data={flawed} showDataWarnings />);
+    const overlay = screen.getByRole('complementary', { name: 'Data warnings' });
+    expect(overlay).toHaveTextContent('1 of 3 events skipped, 2 data warnings');
+    const items = within(overlay).getAllByRole('listitem');
+    expect(items[0]).toHaveTextContent('events[1] "Unreadable": Unparseable start date "someday" (skipped)');
+    expect(items[1]).toHaveTextContent('events[2] "Backwards": End date "2023-02-01" is before start date "2023-03-01"');
+
+    fireEvent.click(within(overlay).getByRole('button', { name: 'Dismiss data warnings' }));
+    expect(screen.queryByRole('complementary', { name: 'Data warnings' })).toBeNull();
+  });
+
+  it('draws the rest of the data around an entry that is not an event', () => {
+    const onDataWarning = vi.fn();
+    const events = [null, { start: '2023-03-15', title: 'Launch' }] as unknown as TimelineEvent[];
+    render(<Timeline data={{ events }} centerDate={new Date('2023-03-15')} onDataWarning={onDataWarning} />);
+    expect(screen.getByRole('button', { name: /^Launch/ })).toBeInTheDocument();
+    expect(onDataWarning).toHaveBeenCalledWith([
+      { index: 0, field: '', reason: 'invalid-type', message: 'Event is not an object', skipped: true },
+    ]);
+  });
+
+  it('reports CSV rows left out of a fetched file', async () => {
+    global.fetch = vi.fn(() => Promise.resolve(new Response('start,title\n2023-01-01,Fine\nlater,Vague\n')));
+    const onDataWarning = vi.fn();
+    render(<Timeline dataUrl="/releases.csv" onDataWarning={onDataWarning} showDataWarnings />);
+
+    const overlay = await screen.findByRole('complementary', { name: 'Data warnings' });
+    expect(overlay).toHaveTextContent('1 of 2 events skipped, 1 data warnings');
+    expect(within(overlay).getByRole('listitem')).toHaveTextContent(
+      '/releases.csv line 3: Unparseable start date "later" (skipped)'
+    );
+    expect(onDataWarning).toHaveBeenCalledWith([
+      expect.objectContaining({ index: -1, line: 3, source: '/releases.csv', reason: 'unparseable-date', skipped: true }),
+    ]);
+  });
+
+  it('shows no overlay for clean data', () => {
+    render(<Timeline data={sampleData} showDataWarnings />);
+    expect(screen.queryByRole('complementary', { name: 'Data warnings' })).toBeNull();
   });
 });
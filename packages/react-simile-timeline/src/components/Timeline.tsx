@@ -1,9 +1,14 @@
-import React, { useEffect, useState, useRef } from 'react';
-import type { TimelineProps, TimelineData, BrandingConfig } from '../types';
+import React, { forwardRef, useEffect, useImperativeHandle, useMemo, useState, useRef } from 'react';
+import type { TimelineProps, TimelineData, TimelineEvent, TimelineHandle, BrandingConfig, DataDiagnostic } from '../types';
 import { tryParseDate } from '../utils/dateUtils';
+import { readTimelineData } from '../utils/dataSource';
+import { toIcs } from '../utils/icalendar';
+import { filterVisiblePrepared } from '../utils/layoutEngine';
+import { validateTimelineData } from '../utils/validation';
 import { TimelineProvider, useTimelineContext } from './TimelineProvider';
 import { Band } from './Band';
 import { EventPopup } from './EventPopup';
+import { ClusterPopup } from './ClusterPopup';
 import '../styles/timeline.css';
 
 /**
@@ -32,6 +37,67 @@ function TimelineBands() {
   );
 }
 
+/**
+ * Inner component that exposes the imperative handle from context
+ */
+function TimelineHandleBridge({ handleRef }: { handleRef: React.ForwardedRef<TimelineHandle> }) {
+  const { state, actions, events, eventStore } = useTimelineContext();
+
+  useImperativeHandle(handleRef, () => {
+    // Strings that do not parse come back null, so a bad date from the
+    // caller leaves the view as it is rather than throwing
+    const toDate = (date: Date | string) => (date instanceof Date ? date : tryParseDate(date));
+    // Events are identified by id, as on their markers, or failing that by title
+    const findEvent = (event: TimelineEvent | string): TimelineEvent | null =>
+      typeof event === 'string'
+        ? eventStore.byId.get(event)?.event ?? events.find(e => e.title === event) ?? null
+        : event;
+
+    return {
+      jumpToDate: (date, options) => actions.jumpToDate(date, undefined, options),
+      zoomTo: (level, options) => actions.zoomTo(level, options),
+      zoomToFit: (range, options) => {
+        const start = toDate(range.start);
+        const end = toDate(range.end);
+        if (start && end) actions.zoomToFit(start, end, options);
+      },
+      scrollToEvent: (event, options) => {
+        const found = findEvent(event);
+        const start = found && tryParseDate(found.start);
+        if (!start) return false;
+        // An end that does not parse centers on the start, as the event is drawn
+        const endMs = tryParseDate(found.end)?.getTime() ?? start.getTime();
+        actions.jumpToDate(new Date((start.getTime() + endMs) / 2), undefined, options);
+        return true;
+      },
+      selectEvent: event => {
+        if (event === null) {
+          actions.setSelectedEvent(null);
+          return true;
+        }
+        const found = findEvent(event);
+        if (!found) return false;
+        actions.setSelectedEvent(found);
+        return true;
+      },
+      getVisibleRange: () => ({ ...state.visibleRange }),
+      animateTo: (date, options) => actions.animateTo(date, options),
+      addEvents: added => actions.addEvents(added),
+      updateEvent: (id, update) => actions.updateEvent(id, update),
+      removeEvent: id => actions.removeEvent(id),
+      exportIcs: ({ visibleOnly = false, calendarName } = {}) =>
+        toIcs(
+          visibleOnly
+            ? filterVisiblePrepared(eventStore.prepared, state.visibleRange, 0).map(p => p.event)
+            : events,
+          calendarName
+        ),
+    };
+  }, [state, actions, events, eventStore]);
+
+  return null;
+}
+
 /**
  * Timeline component - A modern React implementation of MIT SIMILE Timeline
  *
@@ -43,6 +109,9 @@ function TimelineBands() {
  * // With URL data source
  * <Timeline dataUrl="/api/events.json" />
  *
+ * // With a legacy Simile XML event source
+ * <Timeline dataUrl="/archive/events.xml" />
+ *
  * // With custom bands
  * <Timeline
  *   data={data}
@@ -51,6 +120,11 @@ function TimelineBands() {
  *     { id: 'overview', height: '20%', timeUnit: 'year', overview: true, syncWith: 'main' }
  *   ]}
  * />
+ *
+ * // Driven through a ref
+ * const timelineRef = useRef<TimelineHandle>(null);
+ * <Timeline ref={timelineRef} data={data} />
+ * timelineRef.current?.animateTo('1969-07-20');
  * ```
  */
 /**
@@ -111,29 +185,157 @@ function TimelineBranding({ config }: { config: BrandingConfig }) {
   );
 }
 
-export function Timeline({
+/** Most diagnostics the data warnings overlay lists */
+const MAX_LISTED_WARNINGS = 100;
+
+/** No diagnostics, for data that is not validated */
+const NO_DIAGNOSTICS: DataDiagnostic[] = [];
+
+/**
+ * Development overlay listing what validateTimelineData found and the rows
+ * of fetched files left out, skipped events first. Dismissing it hides these
+ * diagnostics; new ones show it again.
+ */
+function DataWarnings({ diagnostics, events }: { diagnostics: DataDiagnostic[]; events: TimelineEvent[] }) {
+  const [dismissed, setDismissed] = useState<DataDiagnostic[] | null>(null);
+  if (diagnostics.length === 0 || dismissed === diagnostics) return null;
+
+  // Rows left out of a fetched file never became events, so count apart
+  const dropped = diagnostics.filter(d => d.index < 0).length;
+  const skipped = new Set(diagnostics.filter(d => d.skipped && d.index >= 0).map(d => d.index)).size + dropped;
+  const listed = [...diagnostics].sort((a, b) => Number(b.skipped) - Number(a.skipped)).slice(0, MAX_LISTED_WARNINGS);
+  const nameOf = (d: DataDiagnostic) => {
+    if (d.index < 0) return `${d.source ? `${d.source} ` : ''}line ${d.line}`;
+    const title = (events[d.index] as Partial<TimelineEvent> | null)?.title;
+    return `events[${d.index}]${typeof title === 'string' && title ? ` "${title}"` : ''}`;
+  };
+
+  return (
+    <aside
+      className="timeline-data-warnings"
+      aria-label="Data warnings"
+      style={{
+        position: 'absolute',
+        top: 8,
+        right: 8,
+        zIndex: 101,
+        maxWidth: 'min(420px, calc(100% - 16px))',
+        maxHeight: 'calc(100% - 16px)',
+        overflow: 'auto',
+        padding: '8px 12px',
+        fontSize: '12px',
+        fontFamily: 'var(--timeline-font-family, system-ui, sans-serif)',
+        color: 'var(--popup-text-color, #333)',
+        backgroundColor: 'var(--popup-bg, #fff)',
+        border: '1px solid var(--popup-border, #ccc)',
+        borderRadius: 4,
+        boxShadow: 'var(--popup-shadow, 0 4px 16px rgba(0, 0, 0, 0.15))',
+      }}
+    >
+      <div style={{ display: 'flex', alignItems: 'baseline', gap: 8 }}>
+        <strong style={{ flex: 1 }}>
+          {skipped} of {events.length + dropped} events skipped, {diagnostics.length} data warnings
+        </strong>
+        <button
+          type="button"
+          className="timeline-data-warnings__close"
+          aria-label="Dismiss data warnings"
+          onClick={() => setDismissed(diagnostics)}
+          style={{
+            border: 'none',
+            background: 'none',
+            cursor: 'pointer',
+            fontSize: '16px',
+            lineHeight: 1,
+            color: 'var(--popup-close-color, #666)',
+          }}
+        >
+          ×
+        </button>
+      </div>
+      <ul style={{ margin: '6px 0 0', paddingLeft: 16 }}>
+        {listed.map(d => (
+          <li
+            key={`${d.source}-${d.line}-${d.index}-${d.field}-${d.reason}`}
+            className={`timeline-data-warnings__item${d.skipped ? ' timeline-data-warnings__item--skipped' : ''}`}
+          >
+            {nameOf(d)}: {d.message}{d.skipped ? ' (skipped)' : ''}
+          </li>
+        ))}
+      </ul>
+      {diagnostics.length > listed.length && <div>and {diagnostics.length - listed.length} more</div>}
+    </aside>
+  );
+}
+
+export const Timeline = forwardRef<TimelineHandle, TimelineProps>(function Timeline({
   data,
   dataUrl,
   dataUrls,
+  dataFormat,
+  csvMapping,
+  icsWindow,
   bands,
   hotZones,
   theme = 'classic',
   centerDate,
+  zoomLevel,
+  selectedEvent,
+  controlled = false,
+  minZoom,
+  maxZoom,
+  minDate,
+  maxDate,
+  bounds,
+  animationDuration,
+  offloadLayout,
   width = '100%',
   height = 400,
   onEventClick,
   onEventHover,
   onScroll,
-  onZoom: _onZoom, // Reserved for Sprint 2
+  onZoom,
+  onSelect,
+  onDataWarning,
+  showDataWarnings = false,
   className,
   style,
   branding,
-}: TimelineProps) {
+}, ref) {
   const [timelineData, setTimelineData] = useState<TimelineData | null>(data || null);
+  // Rows of fetched files left out while reading them
+  const [loadDiagnostics, setLoadDiagnostics] = useState<DataDiagnostic[]>(NO_DIAGNOSTICS);
   const [loading, setLoading] = useState(!!dataUrl || (dataUrls && dataUrls.length > 0));
   const [error, setError] = useState<string | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
 
+  // Latest CSV columns and iCalendar window, read when a response arrives:
+  // an inline object is a new one each render and must not refetch
+  const csvMappingRef = useRef(csvMapping);
+  const icsWindowRef = useRef(icsWindow);
+  useEffect(() => {
+    csvMappingRef.current = csvMapping;
+    icsWindowRef.current = icsWindow;
+  }, [csvMapping, icsWindow]);
+
+  const onDataWarningRef = useRef(onDataWarning);
+  useEffect(() => {
+    onDataWarningRef.current = onDataWarning;
+  }, [onDataWarning]);
+
+  // Validation is a second pass over the dates, so it runs only for a
+  // consumer of its results
+  const wantsDiagnostics = onDataWarning !== undefined || showDataWarnings;
+  const diagnostics = useMemo(() => {
+    if (!wantsDiagnostics || !timelineData?.events) return NO_DIAGNOSTICS;
+    const found = validateTimelineData(timelineData);
+    return loadDiagnostics.length > 0 ? [...loadDiagnostics, ...found] : found;
+  }, [timelineData, loadDiagnostics, wantsDiagnostics]);
+
+  useEffect(() => {
+    if (diagnostics.length > 0) onDataWarningRef.current?.(diagnostics);
+  }, [diagnostics]);
+
   // Fetch data from single URL if provided
   useEffect(() => {
     if (!dataUrl) return;
@@ -149,10 +351,11 @@ export function Timeline({
         if (!response.ok) {
           throw new Error(`Failed to fetch timeline data: ${response.statusText}`);
         }
-        return response.json();
+        return readTimelineData(response, dataUrl, dataFormat, csvMappingRef.current, icsWindowRef.current);
       })
-      .then((json: TimelineData) => {
-        setTimelineData(json);
+      .then(({ data: loaded, diagnostics: rows }) => {
+        setTimelineData(loaded);
+        setLoadDiagnostics(rows);
         setLoading(false);
       })
       .catch((err) => {
@@ -162,7 +365,7 @@ export function Timeline({
       });
 
     return () => controller.abort();
-  }, [dataUrl]);
+  }, [dataUrl, dataFormat]);
 
   // Fetch and merge data from multiple URLs if provided
   useEffect(() => {
@@ -179,19 +382,20 @@ export function Timeline({
             if (!response.ok) {
               throw new Error(`Failed to fetch from ${url}: ${response.statusText}`);
             }
-            return response.json() as Promise<TimelineData>;
+            return readTimelineData(response, url, dataFormat, csvMappingRef.current, icsWindowRef.current);
           })
       )
     )
       .then((results) => {
         // Merge all events from multiple sources
-        const mergedEvents = results.flatMap(result => result.events || []);
+        const mergedEvents = results.flatMap(result => result.data.events || []);
         // Use the first result's metadata as base
         const mergedData: TimelineData = {
-          ...results[0],
+          ...results[0].data,
           events: mergedEvents,
         };
         setTimelineData(mergedData);
+        setLoadDiagnostics(results.flatMap(result => result.diagnostics));
         setLoading(false);
       })
       .catch((err) => {
@@ -201,12 +405,13 @@ export function Timeline({
       });
 
     return () => controller.abort();
-  }, [dataUrls]);
+  }, [dataUrls, dataFormat]);
 
   // Update data when prop changes
   useEffect(() => {
     if (data) {
       setTimelineData(data);
+      setLoadDiagnostics(NO_DIAGNOSTICS);
     }
   }, [data]);
 
@@ -289,10 +494,16 @@ export function Timeline({
   // midnight and lands a day early at negative offsets. An unparseable value
   // yields undefined so the timeline falls back to the median event date
   // instead of centering on an Invalid Date.
-  const initialCenterDate = centerDate
+  const resolvedCenterDate = centerDate
     ? (centerDate instanceof Date ? centerDate : tryParseDate(centerDate) ?? undefined)
     : undefined;
 
+  // Value props only seed the timeline, as `centerDate` always has, unless
+  // the view is controlled
+  const isCenterControlled = controlled && resolvedCenterDate !== undefined;
+  const isZoomControlled = controlled && zoomLevel !== undefined;
+  const isSelectionControlled = controlled && selectedEvent !== undefined;
+
   // Resolve branding config
   const brandingConfig: BrandingConfig | null = branding === true
     ? {} // Default branding
@@ -315,19 +526,39 @@ export function Timeline({
         events={timelineData.events}
         bands={bandConfigs}
         hotZones={hotZones}
-        initialCenterDate={initialCenterDate}
+        initialCenterDate={isCenterControlled ? undefined : resolvedCenterDate}
+        initialZoomLevel={isZoomControlled ? undefined : zoomLevel}
+        initialSelectedEvent={isSelectionControlled ? undefined : selectedEvent}
+        centerDate={isCenterControlled ? resolvedCenterDate : undefined}
+        zoomLevel={isZoomControlled ? zoomLevel : undefined}
+        selectedEvent={isSelectionControlled ? selectedEvent : undefined}
+        minZoom={minZoom}
+        maxZoom={maxZoom}
+        minDate={minDate}
+        maxDate={maxDate}
+        bounds={bounds}
+        animationDuration={animationDuration}
+        offloadLayout={offloadLayout}
         onScroll={onScroll}
+        onZoom={onZoom}
+        onSelect={onSelect}
         onEventClick={onEventClick}
         onEventHover={onEventHover}
       >
+        <TimelineHandleBridge handleRef={ref} />
         <TimelineBands />
         <EventPopup
           containerRef={containerRef}
           themeAttr={themeAttr}
           themeStyles={themeStyles as React.CSSProperties}
         />
+        <ClusterPopup
+          themeAttr={themeAttr}
+          themeStyles={themeStyles as React.CSSProperties}
+        />
       </TimelineProvider>
       {brandingConfig && <TimelineBranding config={brandingConfig} />}
+      {showDataWarnings && <DataWarnings diagnostics={diagnostics} events={timelineData.events} />}
     </div>
   );
-}
+});
@@ -1,5 +1,5 @@
-import { describe, it, expect, vi } from 'vitest';
-import type { ReactNode } from 'react';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { StrictMode, type ReactNode } from 'react';
 import { render, renderHook, act } from '@testing-library/react';
 import {
   TimelineProvider,
@@ -7,6 +7,8 @@ import {
   DEFAULT_BANDS,
 } from './TimelineProvider';
 import type { TimelineEvent } from '../types';
+import { dateToPixel, prepareHotZones } from '../utils/dateUtils';
+import { linear } from '../utils/animation';
 
 const events: TimelineEvent[] = [
   { start: '2023-01-01', title: 'A' },
@@ -14,12 +16,15 @@ const events: TimelineEvent[] = [
   { start: '2023-12-31', title: 'C' },
 ];
 
-/** Render the context hook inside a TimelineProvider with the given props. */
+/**
+ * Render the context hook inside a TimelineProvider with the given props.
+ * Actions apply at once unless a test opts into animation.
+ */
 function renderContext(
   props: Partial<React.ComponentProps<typeof TimelineProvider>> = {}
 ) {
   const wrapper = ({ children }: { children: ReactNode }) => (
-    <TimelineProvider events={events} {...props}>
+    <TimelineProvider events={events} animationDuration={0} {...props}>
       {children}
     </TimelineProvider>
   );
@@ -135,6 +140,36 @@ describe('TimelineProvider — actions', () => {
     expect(onScroll).toHaveBeenCalled();
   });
 
+  it('reports each pan and zoom once under StrictMode', () => {
+    const onScroll = vi.fn();
+    const onZoom = vi.fn();
+    const { result } = renderHook(() => useTimelineContext(), {
+      wrapper: ({ children }: { children: ReactNode }) => (
+        <StrictMode>
+          <TimelineProvider events={events} animationDuration={0} onScroll={onScroll} onZoom={onZoom}>
+            {children}
+          </TimelineProvider>
+        </StrictMode>
+      ),
+    });
+    act(() => result.current.actions.pan(1000));
+    act(() => result.current.actions.zoom(2));
+    expect(onScroll).toHaveBeenCalledTimes(1);
+    expect(onZoom).toHaveBeenCalledTimes(1);
+  });
+
+  it('builds on earlier updates in the same handler', () => {
+    const onScroll = vi.fn();
+    const { result } = renderContext({ initialCenterDate: new Date(2020, 0, 1), onScroll });
+    const before = result.current.state.centerDate.getTime();
+    act(() => {
+      result.current.actions.pan(1000);
+      result.current.actions.pan(1000);
+    });
+    expect(result.current.state.centerDate.getTime()).toBe(before + 2000);
+    expect(onScroll).toHaveBeenLastCalledWith(new Date(before + 2000));
+  });
+
   it('setSelectedEvent stores the event and fires onEventClick', () => {
     const onEventClick = vi.fn();
     const { result } = renderContext({ onEventClick });
@@ -211,3 +246,464 @@ describe('TimelineProvider — reactive center date', () => {
     expect(captured!.getFullYear()).toBe(2025);
   });
 });
+
+describe('TimelineProvider — band synchronization', () => {
+  const dayMs = 24 * 60 * 60 * 1000;
+  const center = new Date(2020, 0, 1);
+  const bands = [
+    { id: 'main' },
+    { id: 'locked', syncWith: 'main', syncOffset: -dayMs },
+    { id: 'context', syncWith: 'main', syncRatio: 0.5 },
+    { id: 'free', independent: true },
+  ];
+
+  it('seeds each band center from its sync offset', () => {
+    const { result } = renderContext({ bands, initialCenterDate: center });
+    const { bandCenters } = result.current.state;
+    expect(bandCenters.main.getTime()).toBe(center.getTime());
+    expect(bandCenters.locked.getTime()).toBe(center.getTime() - dayMs);
+  });
+
+  it('carries a primary pan to synced bands at their ratio', () => {
+    const { result } = renderContext({ bands, initialCenterDate: center });
+    act(() => result.current.actions.pan(10 * dayMs));
+    const { bandCenters } = result.current.state;
+    expect(bandCenters.locked.getTime()).toBe(center.getTime() + 9 * dayMs);
+    expect(bandCenters.context.getTime()).toBe(center.getTime() + 5 * dayMs);
+    expect(bandCenters.free.getTime()).toBe(center.getTime());
+  });
+
+  it('scrolls an independent band on its own without firing onScroll', () => {
+    const onScroll = vi.fn();
+    const { result } = renderContext({ bands, initialCenterDate: center, onScroll });
+    act(() => result.current.actions.pan(3 * dayMs, 'free'));
+    const { state } = result.current;
+    expect(state.bandCenters.free.getTime()).toBe(center.getTime() + 3 * dayMs);
+    expect(state.centerDate.getTime()).toBe(center.getTime());
+    expect(onScroll).not.toHaveBeenCalled();
+  });
+
+  it('jumps a follower band and drives its leader by the inverse ratio', () => {
+    const { result } = renderContext({ bands, initialCenterDate: center });
+    act(() => result.current.actions.jumpToDate(new Date(center.getTime() + dayMs), 'context'));
+    const { state } = result.current;
+    expect(state.bandCenters.context.getTime()).toBe(center.getTime() + dayMs);
+    expect(state.centerDate.getTime()).toBe(center.getTime() + 2 * dayMs);
+  });
+});
+
+describe('TimelineProvider — controlled props', () => {
+  const dayMs = 24 * 60 * 60 * 1000;
+
+  it('renders a controlled center and only reports pans through onScroll', () => {
+    const onScroll = vi.fn();
+    const center = new Date(2020, 0, 1);
+    const { result } = renderContext({ centerDate: center, onScroll });
+    act(() => result.current.actions.pan(dayMs));
+    expect(onScroll).toHaveBeenCalledWith(new Date(center.getTime() + dayMs));
+    expect(result.current.state.centerDate.getTime()).toBe(center.getTime());
+  });
+
+  it('follows a controlled center when the parent passes it back', () => {
+    let captured: Date | null = null;
+    function Probe() {
+      captured = useTimelineContext().state.centerDate;
+      return null;
+    }
+    const { rerender } = render(
+      <TimelineProvider events={events} centerDate={new Date(2020, 0, 1)} onScroll={() => {}}>
+        <Probe />
+      </TimelineProvider>
+    );
+    rerender(
+      <TimelineProvider events={events} centerDate={new Date(2024, 0, 1)} onScroll={() => {}}>
+        <Probe />
+      </TimelineProvider>
+    );
+    expect(captured!.getFullYear()).toBe(2024);
+  });
+
+  it('fires onZoom with the new level in uncontrolled mode', () => {
+    const onZoom = vi.fn();
+    const { result } = renderContext({ onZoom });
+    act(() => result.current.actions.zoom(2));
+    expect(onZoom).toHaveBeenCalledWith(2);
+    expect(result.current.state.zoomLevel).toBe(2);
+  });
+
+  it('reports a controlled zoom without applying it', () => {
+    const onZoom = vi.fn();
+    const { result } = renderContext({ zoomLevel: 3, onZoom });
+    act(() => result.current.actions.zoom(2));
+    expect(onZoom).toHaveBeenCalledWith(6);
+    expect(result.current.state.zoomLevel).toBe(3);
+  });
+
+  it('starts from initialZoomLevel', () => {
+    const { result } = renderContext({ initialZoomLevel: 4 });
+    expect(result.current.state.zoomLevel).toBe(4);
+  });
+
+  it('reports selection through onSelect, including deselection', () => {
+    const onSelect = vi.fn();
+    const { result } = renderContext({ onSelect });
+    act(() => result.current.actions.setSelectedEvent(events[0]));
+    act(() => result.current.actions.setSelectedEvent(null));
+    expect(onSelect.mock.calls).toEqual([[events[0]], [null]]);
+  });
+
+  it('keeps a controlled selection until the parent changes it', () => {
+    const onSelect = vi.fn();
+    const { result } = renderContext({ selectedEvent: events[1], onSelect });
+    expect(result.current.state.selectedEvent).toBe(events[1]);
+    act(() => result.current.actions.setSelectedEvent(null));
+    expect(onSelect).toHaveBeenCalledWith(null);
+    expect(result.current.state.selectedEvent).toBe(events[1]);
+  });
+});
+
+describe('TimelineProvider — anchored zoom', () => {
+  const dayMs = 24 * 60 * 60 * 1000;
+  const center = new Date(2020, 0, 15);
+  const bands = [
+    { id: 'main', timeUnit: 'day' as const, intervalPixels: 100 },
+    { id: 'overview', timeUnit: 'month' as const, overview: true, syncWith: 'main' },
+  ];
+
+  it('zooms about the center without an anchor', () => {
+    const { result } = renderContext({ bands, initialCenterDate: center });
+    act(() => result.current.actions.zoom(2));
+    expect(result.current.state.centerDate.getTime()).toBe(center.getTime());
+  });
+
+  it('holds the anchor date at its pixel', () => {
+    const onScroll = vi.fn();
+    const { result } = renderContext({ bands, initialCenterDate: center, onScroll });
+    const anchor = new Date(center.getTime() + 10 * dayMs);
+    act(() => result.current.actions.zoom(2, anchor));
+    expect(result.current.state.zoomLevel).toBe(2);
+    expect(result.current.state.centerDate.getTime()).toBe(center.getTime() + 5 * dayMs);
+    expect(onScroll).toHaveBeenCalledWith(new Date(center.getTime() + 5 * dayMs));
+  });
+
+  it('holds the anchor on a magnified axis', () => {
+    const hotZones = [{ start: '2020-01-10', end: '2020-01-20', magnify: 4 }];
+    const zones = prepareHotZones(hotZones);
+    const { result } = renderContext({ bands, hotZones, initialCenterDate: center });
+    const anchor = new Date(2020, 0, 25);
+    const pixelOf = () => {
+      const { state } = result.current;
+      return dateToPixel(anchor, state.centerDate, state.pixelsPerMillisecond, zones);
+    };
+
+    const before = pixelOf();
+    act(() => result.current.actions.zoom(1.5, anchor));
+    expect(pixelOf()).toBeCloseTo(before, 6);
+  });
+
+  it('anchors on the given band and carries the scroll to its partners', () => {
+    const { result } = renderContext({ bands, initialCenterDate: center });
+    const anchor = new Date(center.getTime() + 30 * dayMs);
+    act(() => result.current.actions.zoom(3, anchor, 'overview'));
+    const { bandCenters } = result.current.state;
+    expect(bandCenters.overview.getTime()).toBe(center.getTime() + 20 * dayMs);
+    expect(bandCenters.main.getTime()).toBe(center.getTime() + 20 * dayMs);
+  });
+
+  it('leaves the center alone when the zoom is already at its limit', () => {
+    const { result } = renderContext({ bands, initialCenterDate: center, initialZoomLevel: 10 });
+    act(() => result.current.actions.zoom(2, new Date(center.getTime() + dayMs)));
+    expect(result.current.state.centerDate.getTime()).toBe(center.getTime());
+  });
+});
+
+describe('TimelineProvider — zoom limits and steps', () => {
+  // 100px per day, so the default 800px viewport shows 8 days at level 1
+  const bands = [{ id: 'main', timeUnit: 'day' as const, intervalPixels: 100 }];
+
+  it('limits zoom to the minZoom and maxZoom spans', () => {
+    const { result } = renderContext({
+      bands,
+      minZoom: { unit: 'day', count: 4 },
+      maxZoom: { unit: 'day', count: 16 },
+    });
+    act(() => result.current.actions.zoom(10));
+    expect(result.current.state.zoomLevel).toBeCloseTo(2);
+    act(() => result.current.actions.zoomTo(0.01));
+    expect(result.current.state.zoomLevel).toBeCloseTo(0.5);
+  });
+
+  it('steps through a band\'s zoom steps one at a time', () => {
+    const stepped = [{
+      ...bands[0],
+      zoomSteps: [
+        { unit: 'week' as const, intervalPixels: 100 },
+        { unit: 'day' as const, intervalPixels: 100 },
+        { unit: 'hour' as const, intervalPixels: 25 },
+      ],
+    }];
+    const { result } = renderContext({ bands: stepped });
+    act(() => result.current.actions.zoom(1.15));
+    expect(result.current.state.zoomLevel).toBe(6);
+    act(() => result.current.actions.zoom(0.87));
+    act(() => result.current.actions.zoom(0.87));
+    expect(result.current.state.zoomLevel).toBeCloseTo(1 / 7);
+  });
+
+  it('snaps zoomTo to the nearest step', () => {
+    const stepped = [{
+      ...bands[0],
+      zoomSteps: [
+        { unit: 'day' as const, intervalPixels: 100 },
+        { unit: 'day' as const, intervalPixels: 400 },
+      ],
+    }];
+    const { result } = renderContext({ bands: stepped });
+    act(() => result.current.actions.zoomTo(3));
+    expect(result.current.state.zoomLevel).toBe(4);
+  });
+});
+
+describe('TimelineProvider — pan bounds', () => {
+  const dayMs = 24 * 60 * 60 * 1000;
+  // 100px per day: the default 800px viewport shows 8 days, 4 each side
+  const bands = [{ id: 'main', timeUnit: 'day' as const, intervalPixels: 100 }];
+  const minDate = new Date(2020, 0, 1);
+  const maxDate = new Date(2020, 1, 1);
+
+  it('stops a jump so the visible window stays inside the bounds', () => {
+    const { result } = renderContext({ bands, minDate, maxDate });
+    act(() => result.current.actions.jumpToDate(new Date(2020, 5, 1)));
+    expect(result.current.state.visibleRange.end.getTime()).toBe(maxDate.getTime());
+    act(() => result.current.actions.pan(-365 * dayMs));
+    expect(result.current.state.visibleRange.start.getTime()).toBe(minDate.getTime());
+  });
+
+  it('lets an elastic pan past the bounds and reports the overscroll', () => {
+    const { result } = renderContext({ bands, minDate, maxDate, initialCenterDate: new Date(2020, 0, 5) });
+    act(() => result.current.actions.pan(-2 * dayMs, 'main', true));
+    const limits = result.current.state.bandPanLimits.main;
+    expect(limits.min).toBe(2 * dayMs);
+    expect(limits.max).toBeGreaterThan(0);
+  });
+
+  it('bounds by the data extent', () => {
+    const { result } = renderContext({ bands, bounds: 'data' });
+    act(() => result.current.actions.jumpToDate(new Date(2030, 0, 1)));
+    expect(result.current.state.visibleRange.end.getTime()).toBe(new Date(2023, 11, 31).getTime());
+  });
+
+  it('stops zooming out once the bounds fill the viewport', () => {
+    // 31 days of bounds fill 800px at level 8/31
+    const { result } = renderContext({ bands, minDate, maxDate });
+    act(() => result.current.actions.zoom(0.1));
+    expect(result.current.state.zoomLevel).toBeCloseTo(8 / 31);
+    const { start, end } = result.current.state.visibleRange;
+    expect(start.getTime()).toBeCloseTo(minDate.getTime(), -3);
+    expect(end.getTime()).toBeCloseTo(maxDate.getTime(), -3);
+  });
+
+  it('leaves unbounded timelines without pan limits', () => {
+    const { result } = renderContext({ bands });
+    expect(result.current.state.bandPanLimits).toEqual({});
+  });
+});
+
+describe('TimelineProvider — animation', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  const advance = (ms: number) =>
+    act(() => {
+      vi.advanceTimersByTime(ms);
+    });
+
+  it('animates a jump along the easing curve', () => {
+    vi.useFakeTimers();
+    const onScroll = vi.fn();
+    const from = new Date(2023, 0, 1);
+    const to = new Date(2023, 0, 11);
+    const { result } = renderContext({ initialCenterDate: from, animationDuration: 400, onScroll });
+
+    act(() => result.current.actions.jumpToDate(to, undefined, { easing: linear }));
+    expect(result.current.state.centerDate).toEqual(from);
+
+    // Frames run every 16ms; the first only records the start time, so the
+    // halfway frame lands within a frame of 200ms
+    advance(16 + 200);
+    const progress = (result.current.state.centerDate.getTime() - from.getTime()) / (to.getTime() - from.getTime());
+    expect(progress).toBeGreaterThan(0.45);
+    expect(progress).toBeLessThan(0.55);
+    advance(400);
+    expect(result.current.state.centerDate).toEqual(to);
+    expect(onScroll.mock.calls.length).toBeGreaterThan(2);
+  });
+
+  it('starts from the view a pan in the same handler left, under StrictMode', () => {
+    vi.useFakeTimers();
+    const from = new Date(2023, 0, 1);
+    const to = new Date(2023, 0, 11);
+    const dayMs = 24 * 60 * 60 * 1000;
+    const { result } = renderHook(() => useTimelineContext(), {
+      wrapper: ({ children }: { children: ReactNode }) => (
+        <StrictMode>
+          <TimelineProvider events={events} initialCenterDate={from} animationDuration={400}>
+            {children}
+          </TimelineProvider>
+        </StrictMode>
+      ),
+    });
+
+    act(() => {
+      result.current.actions.pan(dayMs);
+      result.current.actions.jumpToDate(to, undefined, { easing: linear });
+    });
+    advance(16 + 200);
+    // Halfway from the panned center, January 2, to January 11
+    const progress = (result.current.state.centerDate.getTime() - from.getTime() - dayMs) / (to.getTime() - from.getTime() - dayMs);
+    expect(progress).toBeGreaterThan(0.45);
+    expect(progress).toBeLessThan(0.55);
+    advance(400);
+    expect(result.current.state.centerDate).toEqual(to);
+  });
+
+  it('stops where a pan interrupts it', () => {
+    vi.useFakeTimers();
+    const { result } = renderContext({ animationDuration: 400 });
+    act(() => result.current.actions.jumpToDate('2030-01-01'));
+    advance(200);
+    act(() => result.current.actions.pan(0));
+    const stopped = result.current.state.centerDate;
+    advance(400);
+    expect(result.current.state.centerDate).toBe(stopped);
+    expect(stopped.getFullYear()).toBeLessThan(2030);
+  });
+
+  it('jumps at once when the user prefers reduced motion', () => {
+    vi.stubGlobal('matchMedia', (query: string) => ({ matches: query.includes('reduce') }));
+    const { result } = renderContext({ animationDuration: 400 });
+    act(() => result.current.actions.jumpToDate(new Date(2030, 0, 1)));
+    expect(result.current.state.centerDate).toEqual(new Date(2030, 0, 1));
+  });
+
+  it('glides a pan, adding what an interrupted glide had left to go', () => {
+    vi.useFakeTimers();
+    const from = new Date(2023, 0, 1);
+    const dayMs = 24 * 60 * 60 * 1000;
+    const { result } = renderContext({ initialCenterDate: from, animationDuration: 400 });
+    const movedDays = () => (result.current.state.centerDate.getTime() - from.getTime()) / dayMs;
+
+    act(() => result.current.actions.pan(dayMs, undefined, false, { easing: linear }));
+    expect(movedDays()).toBe(0);
+    advance(16 + 200);
+    expect(movedDays()).toBeGreaterThan(0.45);
+    expect(movedDays()).toBeLessThan(0.55);
+
+    act(() => result.current.actions.pan(dayMs, undefined, false, { easing: linear }));
+    advance(600);
+    expect(movedDays()).toBeCloseTo(2);
+  });
+
+  it('pans at once when the user prefers reduced motion', () => {
+    vi.stubGlobal('matchMedia', (query: string) => ({ matches: query.includes('reduce') }));
+    const from = new Date(2023, 0, 1);
+    const dayMs = 24 * 60 * 60 * 1000;
+    const { result } = renderContext({ initialCenterDate: from, animationDuration: 400 });
+    act(() => result.current.actions.pan(dayMs, undefined, false, {}));
+    expect(result.current.state.centerDate).toEqual(new Date(from.getTime() + dayMs));
+  });
+
+  it('zooms geometrically and holds the anchor on every frame', () => {
+    vi.useFakeTimers();
+    const center = new Date(2023, 5, 1);
+    const anchor = new Date(2023, 6, 1);
+    const { result } = renderContext({ initialCenterDate: center, animationDuration: 400 });
+    const anchorPx = () =>
+      (anchor.getTime() - result.current.state.centerDate.getTime()) *
+      result.current.state.pixelsPerMillisecond;
+    const startPx = anchorPx();
+
+    act(() => result.current.actions.zoom(4, anchor, undefined, { easing: linear }));
+    advance(16 + 200);
+    // Halfway through in time is halfway in scale: about 2x
+    expect(result.current.state.zoomLevel).toBeGreaterThan(1.8);
+    expect(result.current.state.zoomLevel).toBeLessThan(2.2);
+    expect(anchorPx()).toBeCloseTo(startPx, 3);
+    advance(400);
+    expect(result.current.state.zoomLevel).toBe(4);
+    expect(anchorPx()).toBeCloseTo(startPx, 3);
+  });
+
+  it('moves and zooms together with zoomTo and a center date', () => {
+    vi.useFakeTimers();
+    const target = new Date(2023, 8, 1);
+    const { result } = renderContext({ animationDuration: 400 });
+    act(() => result.current.actions.zoomTo(2, undefined, target));
+    advance(600);
+    expect(result.current.state.zoomLevel).toBe(2);
+    expect(result.current.state.centerDate).toEqual(target);
+  });
+});
+
+describe('TimelineProvider — event identity', () => {
+  function renderSelection(data: TimelineEvent[]) {
+    let captured: ReturnType<typeof useTimelineContext> | null = null;
+    function Probe() {
+      captured = useTimelineContext();
+      return null;
+    }
+    const view = render(
+      <TimelineProvider events={data}>
+        <Probe />
+      </TimelineProvider>
+    );
+    const rerender = (next: TimelineEvent[]) =>
+      view.rerender(
+        <TimelineProvider events={next}>
+          <Probe />
+        </TimelineProvider>
+      );
+    return { context: () => captured!, rerender };
+  }
+
+  it('keeps the selection on the same id when the data is replaced', () => {
+    const data: TimelineEvent[] = [{ id: 'a', start: '2023-01-01', title: 'Old title' }];
+    const { context, rerender } = renderSelection(data);
+    act(() => context().actions.setSelectedEvent(data[0]));
+
+    const updated: TimelineEvent[] = [{ id: 'a', start: '2023-01-01', title: 'New title' }];
+    rerender(updated);
+    expect(context().state.selectedEventId).toBe('a');
+    expect(context().state.selectedEvent).toBe(updated[0]);
+  });
+
+  it('ends the selection when its event leaves the data', () => {
+    const data: TimelineEvent[] = [{ id: 'a', start: '2023-01-01', title: 'A' }];
+    const { context, rerender } = renderSelection(data);
+    act(() => context().actions.setSelectedEvent(data[0]));
+    rerender([{ id: 'b', start: '2023-01-01', title: 'B' }]);
+    expect(context().state.selectedEvent).toBeNull();
+  });
+
+  it('tells duplicate events apart', () => {
+    const event: TimelineEvent = { start: '2023-01-01', title: 'Twin' };
+    const data = [event, { ...event }];
+    const { context } = renderSelection(data);
+    act(() => context().actions.setSelectedEvent(data[1]));
+    expect(context().state.selectedEventId).toBe('Twin|2023-01-01|#2');
+    expect(context().state.selectedEvent).toBe(data[1]);
+  });
+
+  it('reports the event in the current data to onEventClick', () => {
+    const onEventClick = vi.fn();
+    const { result } = renderContext({
+      events: [{ id: 'a', start: '2023-01-01', title: 'Current' }],
+      onEventClick,
+    });
+    // A stale copy of the event, as a marker from an earlier render holds
+    act(() => result.current.actions.setSelectedEvent({ id: 'a', start: '2023-01-01', title: 'Stale' }));
+    expect(onEventClick).toHaveBeenCalledWith(expect.objectContaining({ title: 'Current' }));
+  });
+});
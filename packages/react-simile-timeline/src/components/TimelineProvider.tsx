@@ -8,8 +8,49 @@ import {
   useEffect,
   type ReactNode,
 } from 'react';
-import type { TimelineEvent, BandConfig, HotZone } from '../types';
-import { getVisibleRange, getMedianDate, TIME_UNITS, type TimeUnit, parseDate, tryParseDate } from '../utils/dateUtils';
+import type { TimelineEvent, BandConfig, HotZone, AnimateOptions, TimeSpan } from '../types';
+import {
+  getVisibleRange,
+  getMedianDate,
+  TIME_UNITS,
+  type TimeUnit,
+  parseDate,
+  tryParseDate,
+  prepareHotZones,
+  magnifiedDistance,
+  magnifiedTimeAt,
+  type MagnifiedZone,
+} from '../utils/dateUtils';
+import {
+  buildSyncGraph,
+  getBandKey,
+  propagateScroll,
+  type BandSyncGraph,
+} from '../utils/bandSync';
+import { generateEventId, isEventObject } from '../utils/layoutEngine';
+import {
+  addStoreEvents,
+  createEventStore,
+  removeStoreEvent,
+  updateStoreEvent,
+  type EventStore,
+} from '../utils/eventStore';
+import { createLayoutPipeline, decodePreparedEvents, type LayoutPipeline } from '../utils/layoutWorker';
+import { canUseLayoutWorker, createLayoutWorker } from '../workers/createLayoutWorker';
+import { easeInOutCubic, prefersReducedMotion } from '../utils/animation';
+import {
+  getBoundsZoomLevel,
+  getCenterRange,
+  getOverscroll,
+  resolvePanBounds,
+  type PanBounds,
+} from '../utils/boundsUtils';
+import {
+  getZoomLimits,
+  getZoomStepLevels,
+  snapZoomLevel,
+  stepZoomLevel,
+} from '../utils/zoomUtils';
 
 /**
  * Click position for popup positioning
@@ -19,22 +60,54 @@ export interface ClickPosition {
   y: number;
 }
 
+/**
+ * An event cluster opened as a list (see EventCluster)
+ */
+export interface ExpandedCluster {
+  /** The cluster's id */
+  id: string;
+  /** Its events with their ids, left to right */
+  events: { id: string; event: TimelineEvent }[];
+  /** Earliest start among them, epoch ms */
+  startMs: number;
+  /** Latest end (or start) among them, epoch ms */
+  endMs: number;
+  /** Where the badge was clicked, for positioning the list */
+  clickPosition: ClickPosition | null;
+}
+
 /**
  * Timeline state interface
  */
 export interface TimelineState {
-  /** Current center date of the timeline viewport */
+  /** Current center date of the timeline viewport (the primary band's center) */
   centerDate: Date;
+  /** Center date of every band, keyed by band id (or `band-<index>`) */
+  bandCenters: Record<string, Date>;
+  /**
+   * How far each band can pan before the visible window reaches the pan
+   * bounds, in that band's ms: `min` back (<= 0), `max` forward (>= 0). A
+   * band dragged past the bounds has one limit across zero. Bands that are
+   * unbounded, or do not carry the primary band, are absent.
+   */
+  bandPanLimits: Record<string, PanLimits>;
   /** Pixels per millisecond (zoom level) */
   pixelsPerMillisecond: number;
   /** Width of the timeline viewport in pixels */
   viewportWidth: number;
-  /** Currently selected event (shown in popup) */
+  /**
+   * Currently selected event (shown in popup). The selection is held by id,
+   * so this is the event with that id in the current data.
+   */
   selectedEvent: TimelineEvent | null;
+  /** Id of the selected event (see getEventIds) */
+  selectedEventId: string | null;
   /** Position where event was clicked (for popup positioning) */
   clickPosition: ClickPosition | null;
   /** Currently hovered event */
   hoveredEvent: TimelineEvent | null;
+  /** Cluster whose events are listed in a popup, if any */
+  expandedCluster: ExpandedCluster | null;
   /** Visible date range */
   visibleRange: { start: Date; end: Date };
   /** Whether currently panning */
@@ -43,26 +116,78 @@ export interface TimelineState {
   zoomLevel: number;
 }
 
+/**
+ * Pan room of a band, in ms (see TimelineState.bandPanLimits)
+ */
+export interface PanLimits {
+  min: number;
+  max: number;
+}
+
 /**
  * Timeline actions interface
  */
 export interface TimelineActions {
-  /** Set the center date */
-  setCenterDate: (date: Date) => void;
-  /** Jump to a specific date (accepts Date object or date string) */
-  jumpToDate: (date: Date | string) => void;
-  /** Pan by milliseconds (positive = forward in time) */
-  pan: (deltaMs: number) => void;
-  /** Set the selected event with optional click position for popup */
+  /** Set the center date of a band (default: the primary band), immediately */
+  setCenterDate: (date: Date, bandId?: string) => void;
+  /**
+   * Move a band (default: the primary band) to a date (a Date object or date
+   * string), animated over `options.duration` (default: the provider's
+   * `animationDuration`).
+   */
+  jumpToDate: (date: Date | string, bandId?: string, options?: AnimateOptions) => void;
+  /**
+   * Pan by milliseconds (positive = forward in time). The scroll starts on
+   * `bandId` (default: the primary band) and carries to every band synced
+   * with it, at each link's ratio. The primary band stops at the pan bounds,
+   * unless `elastic`, which lets a drag pull past them to spring back. With
+   * `options` the pan glides like `jumpToDate`, adding what a glide it
+   * interrupts had left to go; without, it applies at once.
+   */
+  pan: (deltaMs: number, bandId?: string, elastic?: boolean, options?: AnimateOptions) => void;
+  /**
+   * Select an event by object, with an optional click position for the popup.
+   * Reports the event with the same id in the current data.
+   */
   setSelectedEvent: (event: TimelineEvent | null, clickPosition?: ClickPosition) => void;
   /** Set the hovered event */
   setHoveredEvent: (event: TimelineEvent | null) => void;
+  /** Open a cluster's event list, or close it with null */
+  setExpandedCluster: (cluster: ExpandedCluster | null) => void;
   /** Set panning state */
   setIsPanning: (isPanning: boolean) => void;
   /** Set viewport width */
   setViewportWidth: (width: number) => void;
-  /** Zoom by a factor (>1 = zoom in, <1 = zoom out) */
-  zoom: (factor: number) => void;
+  /**
+   * Zoom by a factor (>1 = zoom in, <1 = zoom out), or by one step when the
+   * band has `zoomSteps`. With an anchor date, the
+   * center moves with the zoom so the anchor stays at the same pixel on
+   * `bandId` (default: the primary band); without one, the zoom is about the
+   * center. Animated like `jumpToDate`; gestures pass a duration of 0.
+   */
+  zoom: (factor: number, anchorDate?: Date, bandId?: string, options?: AnimateOptions) => void;
+  /**
+   * Set an absolute zoom level, snapped to the primary band's zoom steps and
+   * clamped to the zoom limits, animated. With a center date, the primary
+   * band moves there in the same animation.
+   */
+  zoomTo: (zoomLevel: number, options?: AnimateOptions, centerDate?: Date) => void;
+  /**
+   * Center and zoom so a range fills the primary band's viewport, in one
+   * animation; a range without length only centers
+   */
+  zoomToFit: (start: Date, end: Date, options?: AnimateOptions) => void;
+  /** Glide the primary band to a date; the same as `jumpToDate` on the primary band */
+  animateTo: (date: Date | string, options?: AnimateOptions) => void;
+  /**
+   * Append events without re-preparing the rest; returns their ids. Changes
+   * made this way last until the `events` prop changes.
+   */
+  addEvents: (events: TimelineEvent[]) => string[];
+  /** Merge changes into the event with an id; false if there is none */
+  updateEvent: (id: string, update: Partial<TimelineEvent>) => boolean;
+  /** Remove the event with an id; false if there is none */
+  removeEvent: (id: string) => boolean;
 }
 
 /**
@@ -71,11 +196,22 @@ export interface TimelineActions {
 export interface TimelineContextValue {
   state: TimelineState;
   actions: TimelineActions;
+  /** Current events: the `events` prop with any incremental updates */
   events: TimelineEvent[];
+  /** Current events with their ids and prepared form */
+  eventStore: EventStore;
+  /**
+   * Worker holding the current events, for whole-dataset track assignment;
+   * null when layout is not offloaded or the events have changed since
+   */
+  layoutPipeline: LayoutPipeline | null;
   bands: BandConfig[];
   hotZones: HotZone[];
 }
 
+/** Default duration of animated navigation, in milliseconds */
+const DEFAULT_ANIMATION_DURATION = 500;
+
 const TimelineContext = createContext<TimelineContextValue | null>(null);
 
 /**
@@ -218,13 +354,126 @@ function calculatePixelsPerMs(band: BandConfig): number {
   return intervalPixels / unitMs;
 }
 
+/**
+ * View position: the primary band's center, each band's offset from it and
+ * the zoom level. Held as one state value so a scroll, or a zoom that also
+ * scrolls to hold its anchor, updates them atomically.
+ */
+interface ViewState {
+  centerDate: Date;
+  bandOffsets: Record<string, number>;
+  zoomLevel: number;
+}
+
+/**
+ * Apply a scroll of `deltaMs` that starts on `sourceKey`. The primary band's
+ * center moves by whatever delta reaches it; every other band's offset absorbs
+ * the difference between its own delta and the primary's, so locked bands
+ * keep their offset and lagging or independent bands drift. Returns `prev`
+ * unchanged when nothing moves.
+ */
+function applyScroll(
+  prev: ViewState,
+  graph: BandSyncGraph,
+  sourceKey: string | undefined,
+  deltaMs: number
+): ViewState {
+  const deltas = propagateScroll(graph, sourceKey ?? graph.primary, deltaMs);
+  const primaryDelta = deltas.get(graph.primary) ?? 0;
+
+  let bandOffsets = prev.bandOffsets;
+  for (const key of Object.keys(graph.offsets)) {
+    if (key === graph.primary) continue;
+    const drift = (deltas.get(key) ?? 0) - primaryDelta;
+    if (drift !== 0) {
+      if (bandOffsets === prev.bandOffsets) bandOffsets = { ...prev.bandOffsets };
+      bandOffsets[key] = (bandOffsets[key] ?? 0) + drift;
+    }
+  }
+
+  const centerDate = primaryDelta !== 0
+    ? new Date(prev.centerDate.getTime() + primaryDelta)
+    : prev.centerDate;
+
+  if (centerDate === prev.centerDate && bandOffsets === prev.bandOffsets) {
+    return prev;
+  }
+  return { ...prev, centerDate, bandOffsets };
+}
+
+/**
+ * Center that keeps `anchorMs` at the same pixel on a band zoomed from
+ * `fromZoom` to `toZoom`. A magnified axis scales its pixel distances with
+ * the zoom like a linear one, so the anchor's distance from the center,
+ * measured at zoom 1, shrinks or grows by the zoom ratio.
+ */
+function getAnchoredCenter(
+  centerMs: number,
+  anchorMs: number,
+  fromZoom: number,
+  toZoom: number,
+  zones: MagnifiedZone[]
+): number {
+  const distance = magnifiedDistance(centerMs, anchorMs, 1, zones);
+  return magnifiedTimeAt(anchorMs, -distance * (fromZoom / toZoom), 1, zones);
+}
+
+/**
+ * Fields of a band list that shape its sync graph, as JSON bands carrying
+ * only those fields. The graph is built from this rather than the band
+ * array, so auto-generated bands, which are rebuilt with every data change,
+ * do not reset each band's scroll position.
+ */
+function getSyncSignature(bands: BandConfig[]): string {
+  return JSON.stringify(
+    bands.map((b, i): BandConfig => ({
+      id: getBandKey(b, i),
+      overview: b.overview,
+      syncWith: b.syncWith,
+      syncRatio: b.syncRatio,
+      syncOffset: b.syncOffset,
+      independent: b.independent,
+    }))
+  );
+}
+
 export interface TimelineProviderProps {
   children: ReactNode;
   events: TimelineEvent[];
   bands?: BandConfig[];
   hotZones?: HotZone[];
   initialCenterDate?: Date | string;
+  /** Initial zoom level, re-applied whenever it changes */
+  initialZoomLevel?: number;
+  /** Initial selection, re-applied whenever it changes */
+  initialSelectedEvent?: TimelineEvent | null;
+  /**
+   * Controlled center date. When set, the primary band always renders this
+   * date: pans report the proposed date through `onScroll` and move nothing
+   * until the parent passes it back.
+   */
+  centerDate?: Date;
+  /** Controlled zoom level; zoom actions only report through `onZoom` */
+  zoomLevel?: number;
+  /** Controlled selection (`null` = none); selection only reports through `onSelect` */
+  selectedEvent?: TimelineEvent | null;
+  /** Narrowest span the primary band may show across its width */
+  minZoom?: TimeSpan;
+  /** Widest span the primary band may show across its width */
+  maxZoom?: TimeSpan;
+  /** Earliest date the primary band may show */
+  minDate?: Date | string;
+  /** Latest date the primary band may show */
+  maxDate?: Date | string;
+  /** Keep the primary band within the data's extent (explicit dates win) */
+  bounds?: 'data';
+  /** Default duration of animated actions in ms (0 = no animation) */
+  animationDuration?: number;
+  /** Prepare events and assign tracks in a Web Worker where workers run */
+  offloadLayout?: boolean;
   onScroll?: (centerDate: Date) => void;
+  onZoom?: (zoomLevel: number) => void;
+  onSelect?: (event: TimelineEvent | null) => void;
   onEventClick?: (event: TimelineEvent) => void;
   onEventHover?: (event: TimelineEvent | null) => void;
 }
@@ -253,27 +502,108 @@ function resolveCenterDate(
   return getMedianDate(fallbackEvents);
 }
 
+/**
+ * Id of an event: by position when it is one of `events` (so repeats of one
+ * event keep their own ids), otherwise its own or generated id
+ */
+function resolveEventId(event: TimelineEvent, events: TimelineEvent[], ids: string[]): string {
+  const index = events.indexOf(event);
+  return index >= 0 ? ids[index] : event.id ?? generateEventId(event);
+}
+
 /**
  * Timeline context provider
  * Manages shared state for all timeline bands
  */
 export function TimelineProvider({
   children,
-  events,
+  events: eventsData,
   bands: bandsProp,
   hotZones: hotZonesProp,
   initialCenterDate,
+  initialZoomLevel,
+  initialSelectedEvent,
+  centerDate: centerDateProp,
+  zoomLevel: zoomLevelProp,
+  selectedEvent: selectedEventProp,
+  minZoom,
+  maxZoom,
+  minDate,
+  maxDate,
+  bounds,
+  animationDuration = DEFAULT_ANIMATION_DURATION,
+  offloadLayout = false,
   onScroll,
+  onZoom,
+  onSelect,
   onEventClick,
   onEventHover,
 }: TimelineProviderProps) {
-  // Generate appropriate bands based on event data if not provided
+  // Entries that are not objects are left off, as validateTimelineData reports
+  const eventsProp = useMemo(() => {
+    const objects = eventsData.filter(isEventObject);
+    return objects.length === eventsData.length ? eventsData : objects;
+  }, [eventsData]);
+
+  // Offloaded layout: a worker prepares each events prop and stays up to
+  // assign tracks over it. Until it answers, the store is the last one it
+  // prepared, so changed data does not blank the bands; on first load it holds
+  // the events unprepared and nothing is drawn. If it fails, they are prepared
+  // here.
+  const offload = offloadLayout && canUseLayoutWorker();
+  const [offloaded, setOffloaded] = useState<{
+    events: TimelineEvent[];
+    store: EventStore;
+    pipeline: LayoutPipeline | null;
+  } | null>(null);
+
+  useEffect(() => {
+    if (!offload) return;
+    const worker = createLayoutWorker();
+    const pipeline = worker && createLayoutPipeline(worker);
+    let current = true;
+    const prepared = pipeline
+      ? pipeline.prepare(eventsProp).then(
+          arrays => decodePreparedEvents(arrays, eventsProp),
+          () => null
+        )
+      : Promise.resolve(null);
+    prepared.then(result => {
+      if (!current) return;
+      setOffloaded({
+        events: eventsProp,
+        store: createEventStore(eventsProp, result ?? undefined),
+        pipeline: result ? pipeline : null,
+      });
+    });
+    return () => {
+      current = false;
+      pipeline?.dispose();
+    };
+  }, [offload, eventsProp]);
+
+  // Event data: the events prop, patched by incremental updates until the prop
+  // changes. Patches make new stores, so the memoized one is never changed.
+  const baseStore = useMemo(() => {
+    if (!offload) return createEventStore(eventsProp);
+    return offloaded?.store ?? createEventStore(eventsProp, { points: [], durations: [] });
+  }, [offload, offloaded, eventsProp]);
+  const [patchedStore, setPatchedStore] = useState<{ base: EventStore; store: EventStore } | null>(null);
+  const eventStore = patchedStore?.base === baseStore ? patchedStore.store : baseStore;
+  const eventStoreRef = useRef({ base: baseStore, store: eventStore });
+  useEffect(() => {
+    eventStoreRef.current = { base: baseStore, store: eventStore };
+  }, [baseStore, eventStore]);
+  const events = eventStore.events;
+
+  // Generate appropriate bands based on event data if not provided. Scales
+  // follow the events prop, not each incremental update.
   const bands = useMemo(() => {
     if (bandsProp && bandsProp.length > 0) {
       return bandsProp;
     }
-    return generateDefaultBands(events);
-  }, [bandsProp, events]);
+    return generateDefaultBands(eventsProp);
+  }, [bandsProp, eventsProp]);
 
   // Get primary band (first non-overview band, or first band)
   const primaryBand = bands.find(b => !b.overview) || bands[0];
@@ -281,24 +611,133 @@ export function TimelineProvider({
 
   // Helper to compute center date from props
   const computeCenterDate = useCallback(
-    () => resolveCenterDate(initialCenterDate, events),
-    [initialCenterDate, events]
+    () => resolveCenterDate(initialCenterDate, eventsProp),
+    [initialCenterDate, eventsProp]
   );
 
-  // State - use lazy initialization for centerDate
-  const [centerDate, setCenterDateState] = useState<Date>(() =>
-    resolveCenterDate(initialCenterDate, events)
+  // Sync graph between bands, rebuilt only when a sync setting changes
+  const syncSignature = getSyncSignature(bands);
+  const syncGraph = useMemo(() => buildSyncGraph(JSON.parse(syncSignature) as BandConfig[]), [syncSignature]);
+  const syncGraphRef = useRef(syncGraph);
+
+  // Hot zones with default empty array
+  const hotZones = useMemo(() => hotZonesProp || [], [hotZonesProp]);
+
+  // Magnified zones on each band's axis (overview bands stay linear)
+  const bandZones = useMemo(() => {
+    const zones = prepareHotZones(hotZones);
+    const byBand: Record<string, MagnifiedZone[]> = {};
+    bands.forEach((band, index) => {
+      byBand[getBandKey(band, index)] = band.overview ? [] : zones;
+    });
+    return byBand;
+  }, [bands, hotZones]);
+  const bandZonesRef = useRef(bandZones);
+  useEffect(() => {
+    bandZonesRef.current = bandZones;
+  }, [bandZones]);
+
+  // Magnified zones on the primary band's axis
+  const primaryZones = useMemo(
+    () => bandZones[syncGraph.primary] ?? [],
+    [bandZones, syncGraph.primary]
+  );
+
+  // Range the primary band's visible window is kept inside
+  const panBounds = useMemo(
+    () => resolvePanBounds(events, bounds, minDate, maxDate),
+    [events, bounds, minDate, maxDate]
   );
+
+  // Zoom levels of each band's zoom steps
+  const bandZoomSteps = useMemo(() => {
+    const byBand: Record<string, number[]> = {};
+    bands.forEach((band, index) => {
+      byBand[getBandKey(band, index)] = getZoomStepLevels(band.zoomSteps, calculatePixelsPerMs(band));
+    });
+    return byBand;
+  }, [bands]);
+  const bandZoomStepsRef = useRef(bandZoomSteps);
+  useEffect(() => {
+    bandZoomStepsRef.current = bandZoomSteps;
+  }, [bandZoomSteps]);
+
+  // State - use lazy initialization for centerDate
+  const [view, setViewState] = useState<ViewState>(() => ({
+    centerDate: resolveCenterDate(initialCenterDate, eventsProp),
+    bandOffsets: syncGraph.offsets,
+    zoomLevel: initialZoomLevel ?? 1.0,
+  }));
+
+  // Latest view, with updates not yet rendered. Every view change goes
+  // through setView, from handlers and effects, which computes it here rather
+  // than in a state updater, so updates in one handler build on each other
+  // and what they report is reported once.
+  const viewRef = useRef(view);
+  const setView = useCallback((update: (prev: ViewState) => ViewState) => {
+    const next = update(viewRef.current);
+    if (next === viewRef.current) return;
+    viewRef.current = next;
+    setViewState(next);
+  }, []);
   const [viewportWidth, setViewportWidth] = useState<number>(800);
-  const [selectedEvent, setSelectedEventState] = useState<TimelineEvent | null>(null);
+  const [selectedEventIdState, setSelectedEventIdState] = useState<string | null>(() =>
+    initialSelectedEvent ? resolveEventId(initialSelectedEvent, events, eventStore.ids) : null
+  );
   const [clickPosition, setClickPosition] = useState<ClickPosition | null>(null);
   const [hoveredEvent, setHoveredEventState] = useState<TimelineEvent | null>(null);
+  const [expandedCluster, setExpandedCluster] = useState<ExpandedCluster | null>(null);
   const [isPanning, setIsPanning] = useState<boolean>(false);
-  const [zoomLevel, setZoomLevel] = useState<number>(1.0);
 
-  // Min/max zoom constraints
-  const MIN_ZOOM = 0.1;
-  const MAX_ZOOM = 10.0;
+  // Controlled props win over internal state. Internal state keeps running
+  // underneath (band offsets in particular are never controlled), so
+  // dropping a controlled prop resumes from where the timeline last was.
+  const centerDate = centerDateProp ?? view.centerDate;
+  const bandOffsets = view.bandOffsets;
+  const zoomLevel = zoomLevelProp ?? view.zoomLevel;
+  // A controlled selection outside the data still shows; an uncontrolled one
+  // ends when its event leaves the data
+  const selectedEventId = selectedEventProp !== undefined
+    ? selectedEventProp && resolveEventId(selectedEventProp, events, eventStore.ids)
+    : selectedEventIdState;
+  const selectedEvent = selectedEventId === null
+    ? null
+    : eventStore.byId.get(selectedEventId)?.event ?? selectedEventProp ?? null;
+
+  // Latest controlled values, read by the actions below
+  const controlledRef = useRef({ centerDateProp, zoomLevelProp, selectedEventProp });
+  useEffect(() => {
+    controlledRef.current = { centerDateProp, zoomLevelProp, selectedEventProp };
+  }, [centerDateProp, zoomLevelProp, selectedEventProp]);
+
+  const animationDurationRef = useRef(animationDuration);
+  useEffect(() => {
+    animationDurationRef.current = animationDuration;
+  }, [animationDuration]);
+
+  // Zoom limits: the spans the primary band may show across its width, and
+  // never wider than the pan bounds
+  const zoomLimits = useMemo(() => {
+    const limits = getZoomLimits(pixelsPerMs, viewportWidth, minZoom, maxZoom);
+    if (!panBounds) return limits;
+    const min = Math.max(limits.min, getBoundsZoomLevel(panBounds, viewportWidth, pixelsPerMs, primaryZones));
+    return { min, max: Math.max(limits.max, min) };
+  }, [pixelsPerMs, viewportWidth, minZoom, maxZoom, panBounds, primaryZones]);
+  const zoomLimitsRef = useRef(zoomLimits);
+  useEffect(() => {
+    zoomLimitsRef.current = zoomLimits;
+  }, [zoomLimits]);
+
+  // Range of primary centers inside the pan bounds at a zoom level
+  const getCenterRangeAt = useCallback(
+    (level: number): PanBounds | null =>
+      panBounds && getCenterRange(panBounds, viewportWidth, pixelsPerMs * level, primaryZones),
+    [panBounds, viewportWidth, pixelsPerMs, primaryZones]
+  );
+  const getCenterRangeAtRef = useRef(getCenterRangeAt);
+  useEffect(() => {
+    getCenterRangeAtRef.current = getCenterRangeAt;
+  }, [getCenterRangeAt]);
 
   // Track if first render has completed
   const isFirstRenderRef = useRef(true);
@@ -311,42 +750,187 @@ export function TimelineProvider({
     }
     // Only update if initialCenterDate is explicitly provided
     if (initialCenterDate !== undefined) {
-      setCenterDateState(computeCenterDate());
+      const next = computeCenterDate();
+      setView(prev => ({ ...prev, centerDate: next }));
+    }
+  }, [initialCenterDate, computeCenterDate, setView]);
+
+  // Re-apply the initial zoom level and selection when they change
+  useEffect(() => {
+    if (initialZoomLevel !== undefined) {
+      setView(prev => ({ ...prev, zoomLevel: initialZoomLevel }));
     }
-  }, [initialCenterDate, computeCenterDate]);
+  }, [initialZoomLevel, setView]);
+
+  useEffect(() => {
+    if (initialSelectedEvent !== undefined) {
+      const { store } = eventStoreRef.current;
+      setSelectedEventIdState(
+        initialSelectedEvent && resolveEventId(initialSelectedEvent, store.events, store.ids)
+      );
+    }
+  }, [initialSelectedEvent]);
+
+  // Re-seed band offsets when the sync configuration changes
+  useEffect(() => {
+    if (syncGraphRef.current === syncGraph) return;
+    syncGraphRef.current = syncGraph;
+    setView(prev => ({ ...prev, bandOffsets: syncGraph.offsets }));
+  }, [syncGraph, setView]);
 
   // Callbacks ref to avoid stale closures
-  const callbacksRef = useRef({ onScroll, onEventClick, onEventHover });
+  const callbacksRef = useRef({ onScroll, onZoom, onSelect, onEventClick, onEventHover });
   useEffect(() => {
-    callbacksRef.current = { onScroll, onEventClick, onEventHover };
-  }, [onScroll, onEventClick, onEventHover]);
+    callbacksRef.current = { onScroll, onZoom, onSelect, onEventClick, onEventHover };
+  }, [onScroll, onZoom, onSelect, onEventClick, onEventHover]);
 
-  // Actions
-  const setCenterDate = useCallback((date: Date) => {
-    setCenterDateState(date);
-    callbacksRef.current.onScroll?.(date);
+  // Actions. Every view change starts from the latest view, controlled
+  // values included, and reports what moved once it is stored: onScroll the
+  // primary band's center, onZoom the zoom level. Controlled values are
+  // reported, never stored. Unless elastic, the result is pulled back inside
+  // the pan bounds.
+  const getBaseView = useCallback((): ViewState => {
+    const prev = viewRef.current;
+    const { centerDateProp: controlledCenter, zoomLevelProp: controlledZoom } = controlledRef.current;
+    return {
+      ...prev,
+      centerDate: controlledCenter ?? prev.centerDate,
+      zoomLevel: controlledZoom ?? prev.zoomLevel,
+    };
   }, []);
 
-  const jumpToDate = useCallback((date: Date | string) => {
-    const parsedDate = date instanceof Date ? date : parseDate(date);
-    setCenterDateState(parsedDate);
-    callbacksRef.current.onScroll?.(parsedDate);
-  }, []);
+  const updateView = useCallback((update: (base: ViewState) => ViewState, elastic = false) => {
+    const prev = viewRef.current;
+    const { centerDateProp: controlledCenter, zoomLevelProp: controlledZoom } = controlledRef.current;
+    const base = getBaseView();
+    const updated = update(base);
+    const range = elastic ? null : getCenterRangeAtRef.current(updated.zoomLevel);
+    const overscroll = range ? getOverscroll(updated.centerDate.getTime(), range) : 0;
+    const next = overscroll === 0
+      ? updated
+      : applyScroll(updated, syncGraphRef.current, syncGraphRef.current.primary, -overscroll);
 
-  const pan = useCallback((deltaMs: number) => {
-    setCenterDateState(prev => {
-      const newDate = new Date(prev.getTime() + deltaMs);
-      callbacksRef.current.onScroll?.(newDate);
-      return newDate;
-    });
+    const stored = {
+      centerDate: controlledCenter ? prev.centerDate : next.centerDate,
+      bandOffsets: next.bandOffsets,
+      zoomLevel: controlledZoom === undefined ? next.zoomLevel : prev.zoomLevel,
+    };
+    const unchanged =
+      stored.centerDate === prev.centerDate &&
+      stored.bandOffsets === prev.bandOffsets &&
+      stored.zoomLevel === prev.zoomLevel;
+    if (!unchanged) setView(() => stored);
+
+    if (next.zoomLevel !== base.zoomLevel) {
+      callbacksRef.current.onZoom?.(next.zoomLevel);
+    }
+    if (next.centerDate !== base.centerDate) {
+      callbacksRef.current.onScroll?.(next.centerDate);
+    }
+  }, [getBaseView, setView]);
+
+  // Animation engine. A transition is a frame function from the view it
+  // started on and eased progress to the view at that point; each animation
+  // frame applies it through updateView. It starts from the latest view, with
+  // every earlier update applied. A new transition,
+  // a pan or a direct set cancels the running one, leaving the view where it
+  // got to. With no duration, or when the user prefers reduced motion, the
+  // transition applies its end state at once.
+  const animationFrameRef = useRef<number | null>(null);
+  // The running pan glide, if the running transition is one, and the time it
+  // has left to scroll
+  const panGlideRef = useRef<{ bandId?: string; leftMs: number } | null>(null);
+  const cancelAnimation = useCallback(() => {
+    panGlideRef.current = null;
+    if (animationFrameRef.current !== null) {
+      cancelAnimationFrame(animationFrameRef.current);
+      animationFrameRef.current = null;
+    }
   }, []);
 
+  useEffect(() => cancelAnimation, [cancelAnimation]);
+
+  const animate = useCallback((
+    frame: (start: ViewState, progress: number) => ViewState,
+    options: AnimateOptions = {}
+  ) => {
+    cancelAnimation();
+    const duration = options.duration ?? animationDurationRef.current;
+    if (duration <= 0 || prefersReducedMotion()) {
+      updateView(base => frame(base, 1));
+      return;
+    }
+
+    const easing = options.easing ?? easeInOutCubic;
+    const start = getBaseView();
+    let startTime: number | null = null;
+
+    const step = (now: number) => {
+      startTime ??= now;
+      const progress = Math.min(1, (now - startTime) / duration);
+      updateView(() => frame(start, progress < 1 ? easing(progress) : 1));
+      animationFrameRef.current = progress < 1 ? requestAnimationFrame(step) : null;
+    };
+    animationFrameRef.current = requestAnimationFrame(step);
+  }, [cancelAnimation, getBaseView, updateView]);
+
+  // Every scroll goes through the sync graph. scrollTo centers a band on a date.
+  const scrollTo = useCallback((date: Date, bandId?: string, options?: AnimateOptions) => {
+    animate((start, progress) => {
+      const offset = bandId ? start.bandOffsets[bandId] ?? 0 : 0;
+      const deltaMs = date.getTime() - (start.centerDate.getTime() + offset);
+      return applyScroll(start, syncGraphRef.current, bandId, deltaMs * progress);
+    }, options);
+  }, [animate]);
+
+  const setCenterDate = useCallback((date: Date, bandId?: string) => {
+    scrollTo(date, bandId, { duration: 0 });
+  }, [scrollTo]);
+
+  const jumpToDate = useCallback((date: Date | string, bandId?: string, options?: AnimateOptions) => {
+    const parsedDate = date instanceof Date ? date : parseDate(date);
+    scrollTo(parsedDate, bandId, options);
+  }, [scrollTo]);
+
+  const pan = useCallback((
+    deltaMs: number,
+    bandId?: string,
+    elastic = false,
+    options?: AnimateOptions
+  ) => {
+    if (!options) {
+      cancelAnimation();
+      updateView(base => applyScroll(base, syncGraphRef.current, bandId, deltaMs), elastic);
+      return;
+    }
+    // A glide takes on what the one it replaces had left, so a held arrow
+    // key moves a whole step per press instead of restarting short of it
+    const interrupted = panGlideRef.current;
+    const totalMs = deltaMs + (interrupted && interrupted.bandId === bandId ? interrupted.leftMs : 0);
+    const glide = { bandId, leftMs: totalMs };
+    animate((start, progress) => {
+      glide.leftMs = totalMs * (1 - progress);
+      return applyScroll(start, syncGraphRef.current, bandId, totalMs * progress);
+    }, options);
+    panGlideRef.current = glide;
+  }, [animate, cancelAnimation, updateView]);
+
+  const animateTo = useCallback((date: Date | string, options?: AnimateOptions) => {
+    jumpToDate(date, undefined, options);
+  }, [jumpToDate]);
+
   const setSelectedEvent = useCallback((event: TimelineEvent | null, position?: ClickPosition) => {
-    setSelectedEventState(event);
-    setClickPosition(event ? (position || null) : null);
-    if (event) {
-      callbacksRef.current.onEventClick?.(event);
+    const { store } = eventStoreRef.current;
+    const id = event && resolveEventId(event, store.events, store.ids);
+    const selected = id === null ? null : store.byId.get(id)?.event ?? event;
+    if (controlledRef.current.selectedEventProp === undefined) {
+      setSelectedEventIdState(id);
+    }
+    setClickPosition(selected ? (position || null) : null);
+    if (selected) {
+      callbacksRef.current.onEventClick?.(selected);
     }
+    callbacksRef.current.onSelect?.(selected);
   }, []);
 
   const setHoveredEvent = useCallback((event: TimelineEvent | null) => {
@@ -354,38 +938,179 @@ export function TimelineProvider({
     callbacksRef.current.onEventHover?.(event);
   }, []);
 
-  // Zoom action - factor > 1 zooms in, < 1 zooms out
-  const zoom = useCallback((factor: number) => {
-    setZoomLevel(prev => {
-      const newZoom = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, prev * factor));
-      return newZoom;
-    });
+  // Zoom actions. Levels stay within the zoom limits and follow the zoom
+  // steps of the band the zoom starts on. An anchored zoom scrolls that band
+  // so the anchor holds its pixel, and the scroll carries to the bands synced
+  // with it. An animated zoom moves the level geometrically, so each frame
+  // scales the view by the same factor, and holds the anchor on every frame.
+  const applyZoom = useCallback((
+    getLevel: (current: number, steps: number[]) => number,
+    anchorDate?: Date,
+    bandId?: string,
+    options?: AnimateOptions,
+    centerDate?: Date
+  ) => {
+    animate((start, progress) => {
+      const graph = syncGraphRef.current;
+      const key = bandId !== undefined && bandId in graph.offsets ? bandId : graph.primary;
+      const targetLevel = getLevel(start.zoomLevel, bandZoomStepsRef.current[key] ?? []);
+      const zoomLevel = progress === 1
+        ? targetLevel
+        : start.zoomLevel * Math.pow(targetLevel / start.zoomLevel, progress);
+      const zoomed = zoomLevel === start.zoomLevel ? start : { ...start, zoomLevel };
+      if (centerDate) {
+        const deltaMs = centerDate.getTime() - start.centerDate.getTime();
+        return applyScroll(zoomed, graph, undefined, deltaMs * progress);
+      }
+      if (!anchorDate || zoomed === start) return zoomed;
+
+      const bandCenterMs = start.centerDate.getTime() + (start.bandOffsets[key] ?? 0);
+      const anchoredCenterMs = getAnchoredCenter(
+        bandCenterMs,
+        anchorDate.getTime(),
+        start.zoomLevel,
+        zoomLevel,
+        bandZonesRef.current[key] ?? []
+      );
+      return applyScroll(zoomed, graph, key, anchoredCenterMs - bandCenterMs);
+    }, options);
+  }, [animate]);
+
+  const zoom = useCallback((
+    factor: number,
+    anchorDate?: Date,
+    bandId?: string,
+    options?: AnimateOptions
+  ) => {
+    applyZoom(
+      (current, steps) => stepZoomLevel(current, factor, steps, zoomLimitsRef.current),
+      anchorDate,
+      bandId,
+      options
+    );
+  }, [applyZoom]);
+
+  const zoomTo = useCallback((level: number, options?: AnimateOptions, centerDate?: Date) => {
+    applyZoom(
+      (_current, steps) => snapZoomLevel(level, steps, zoomLimitsRef.current),
+      undefined,
+      undefined,
+      options,
+      centerDate
+    );
+  }, [applyZoom]);
+
+  // Primary band scale at zoom level 1 and its width, read by zoomToFit
+  const fitRef = useRef({ pixelsPerMs, viewportWidth });
+  useEffect(() => {
+    fitRef.current = { pixelsPerMs, viewportWidth };
+  }, [pixelsPerMs, viewportWidth]);
+
+  const zoomToFit = useCallback((start: Date, end: Date, options?: AnimateOptions) => {
+    const startMs = start.getTime();
+    const endMs = end.getTime();
+    const spanMs = Math.abs(endMs - startMs);
+    const midpoint = new Date((startMs + endMs) / 2);
+    const { pixelsPerMs, viewportWidth } = fitRef.current;
+    if (spanMs > 0 && viewportWidth > 0) {
+      // The level that fits the span, reached in one transition with the
+      // move to the midpoint
+      zoomTo(viewportWidth / (spanMs * pixelsPerMs), options, midpoint);
+    } else {
+      jumpToDate(midpoint, undefined, options);
+    }
+  }, [zoomTo, jumpToDate]);
+
+  // Incremental event updates. Each patches the current store, leaving the
+  // prop's store as it was, and keeps the ref current so several updates in
+  // one handler build on each other.
+  const patchEvents = useCallback((patch: (store: EventStore) => EventStore | null) => {
+    const { base, store } = eventStoreRef.current;
+    const next = patch(store);
+    if (!next) return false;
+    eventStoreRef.current = { base, store: next };
+    setPatchedStore({ base, store: next });
+    return true;
   }, []);
 
+  const addEvents = useCallback((added: TimelineEvent[]) => {
+    let ids: string[] = [];
+    patchEvents(store => {
+      const result = addStoreEvents(store, added);
+      ids = result.ids;
+      return result.store;
+    });
+    return ids;
+  }, [patchEvents]);
+
+  const updateEvent = useCallback((id: string, update: Partial<TimelineEvent>) =>
+    patchEvents(store => updateStoreEvent(store, id, update)), [patchEvents]);
+
+  const removeEvent = useCallback((id: string) =>
+    patchEvents(store => removeStoreEvent(store, id)), [patchEvents]);
+
   // Effective pixels per ms including zoom
   const effectivePixelsPerMs = useMemo(
     () => pixelsPerMs * zoomLevel,
     [pixelsPerMs, zoomLevel]
   );
 
+
   // Computed visible range
   const visibleRange = useMemo(
-    () => getVisibleRange(centerDate, viewportWidth, effectivePixelsPerMs),
-    [centerDate, viewportWidth, effectivePixelsPerMs]
+    () => getVisibleRange(centerDate, viewportWidth, effectivePixelsPerMs, primaryZones),
+    [centerDate, viewportWidth, effectivePixelsPerMs, primaryZones]
   );
 
+  // Absolute center of every band in the sync graph
+  const bandCenters = useMemo(() => {
+    const centers: Record<string, Date> = {};
+    for (const key of Object.keys(syncGraph.offsets)) {
+      const offset = bandOffsets[key] ?? 0;
+      centers[key] = offset === 0 ? centerDate : new Date(centerDate.getTime() + offset);
+    }
+    return centers;
+  }, [syncGraph, centerDate, bandOffsets]);
+
+  // How far a scroll on each band carries to the primary band
+  const primaryRatios = useMemo(() => {
+    const ratios: Record<string, number> = {};
+    for (const key of Object.keys(syncGraph.offsets)) {
+      ratios[key] = propagateScroll(syncGraph, key, 1).get(syncGraph.primary) ?? 0;
+    }
+    return ratios;
+  }, [syncGraph]);
+
+  // Pan room of every band that carries the primary band, in its own ms
+  const bandPanLimits = useMemo(() => {
+    const limits: Record<string, PanLimits> = {};
+    const range = getCenterRangeAt(zoomLevel);
+    if (!range) return limits;
+    const centerMs = centerDate.getTime();
+    for (const [key, ratio] of Object.entries(primaryRatios)) {
+      if (ratio > 0) {
+        limits[key] = { min: (range.minMs - centerMs) / ratio, max: (range.maxMs - centerMs) / ratio };
+      }
+    }
+    return limits;
+  }, [getCenterRangeAt, zoomLevel, centerDate, primaryRatios]);
+
   // Build context value
   const state: TimelineState = useMemo(() => ({
     centerDate,
+    bandCenters,
+    bandPanLimits,
     pixelsPerMillisecond: effectivePixelsPerMs,
     viewportWidth,
     selectedEvent,
+    selectedEventId,
     clickPosition,
     hoveredEvent,
+    expandedCluster,
     visibleRange,
     isPanning,
     zoomLevel,
-  }), [centerDate, effectivePixelsPerMs, viewportWidth, selectedEvent, clickPosition, hoveredEvent, visibleRange, isPanning, zoomLevel]);
+  }), [centerDate, bandCenters, bandPanLimits, effectivePixelsPerMs, viewportWidth, selectedEvent, selectedEventId, clickPosition, hoveredEvent, expandedCluster, visibleRange, isPanning, zoomLevel]);
 
   const actions: TimelineActions = useMemo(() => ({
     setCenterDate,
@@ -393,21 +1118,34 @@ export function TimelineProvider({
     pan,
     setSelectedEvent,
     setHoveredEvent,
+    setExpandedCluster,
     setIsPanning,
     setViewportWidth,
     zoom,
-  }), [setCenterDate, jumpToDate, pan, setSelectedEvent, setHoveredEvent, zoom]);
+    zoomTo,
+    zoomToFit,
+    animateTo,
+    addEvents,
+    updateEvent,
+    removeEvent,
+  }), [setCenterDate, jumpToDate, pan, setSelectedEvent, setHoveredEvent, zoom, zoomTo, zoomToFit, animateTo, addEvents, updateEvent, removeEvent]);
 
-  // Hot zones with default empty array
-  const hotZones = useMemo(() => hotZonesProp || [], [hotZonesProp]);
+  // Worker tracks describe the events the worker prepared, so they only apply
+  // until an incremental update changes them. A store kept from earlier events
+  // has none: its worker is gone.
+  const layoutPipeline = offload && offloaded?.events === eventsProp && offloaded.store === eventStore
+    ? offloaded.pipeline
+    : null;
 
   const contextValue: TimelineContextValue = useMemo(() => ({
     state,
     actions,
     events,
+    eventStore,
+    layoutPipeline,
     bands,
     hotZones,
-  }), [state, actions, events, bands, hotZones]);
+  }), [state, actions, events, eventStore, layoutPipeline, bands, hotZones]);
 
   return (
     <TimelineContext.Provider value={contextValue}>
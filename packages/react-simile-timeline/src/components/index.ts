@@ -1,17 +1,29 @@
 export { Timeline } from './Timeline';
 export { TimelineProvider, DEFAULT_BANDS, useTimelineContext } from './TimelineProvider';
-export type { TimelineProviderProps, TimelineState, TimelineActions, TimelineContextValue } from './TimelineProvider';
+export type { TimelineProviderProps, TimelineState, TimelineActions, TimelineContextValue, PanLimits, ExpandedCluster } from './TimelineProvider';
 export { Band } from './Band';
 export type { BandProps } from './Band';
 export { TimeScale } from './TimeScale';
 export type { TimeScaleProps } from './TimeScale';
 export { EventTrack } from './EventTrack';
 export type { EventTrackProps } from './EventTrack';
+export { BandLanes } from './BandLanes';
+export type { BandLanesProps } from './BandLanes';
 export { EventMarker } from './EventMarker';
 export type { EventMarkerProps } from './EventMarker';
 export { OverviewMarkers } from './OverviewMarkers';
 export type { OverviewMarkersProps } from './OverviewMarkers';
+export { OverviewDensity } from './OverviewDensity';
+export type { OverviewDensityProps } from './OverviewDensity';
+export { OverviewViewport } from './OverviewViewport';
+export type { OverviewViewportProps } from './OverviewViewport';
 export { EventPopup } from './EventPopup';
 export type { EventPopupProps } from './EventPopup';
+export { ClusterBadge } from './ClusterBadge';
+export type { ClusterBadgeProps } from './ClusterBadge';
+export { ClusterPopup } from './ClusterPopup';
+export type { ClusterPopupProps } from './ClusterPopup';
+export { CanvasEventLayer } from './CanvasEventLayer';
+export type { CanvasEventLayerProps } from './CanvasEventLayer';
 export { HotZones } from './HotZones';
 export type { HotZonesProps } from './HotZones';
@@ -1,2 +1,5 @@
 export * from './useTimelineContext';
 export * from './usePan';
+export * from './useLayoutTracks';
+export * from './useModalDialog';
+export * from './useLabelMeasure';
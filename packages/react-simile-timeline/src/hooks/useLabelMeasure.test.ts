@@ -0,0 +1,27 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useLabelMeasure } from './useLabelMeasure';
+
+describe('useLabelMeasure', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('reads the font again when the timeline root is restyled', async () => {
+    const root = document.createElement('div');
+    root.className = 'timeline-root';
+    root.style.setProperty('--event-font-size', '14px');
+    document.body.appendChild(root);
+
+    // jsdom does not inherit custom properties, so this measures the root itself
+    const { result } = renderHook(() => useLabelMeasure({ current: root }));
+    expect(result.current.font).toBe('14px system-ui, sans-serif');
+
+    await act(async () => {
+      root.style.setProperty('--event-font-size', '18px');
+      // MutationObserver callbacks run as a microtask
+      await Promise.resolve();
+    });
+    expect(result.current.font).toBe('18px system-ui, sans-serif');
+  });
+});
@@ -0,0 +1,55 @@
+import { useEffect, useLayoutEffect, useState } from 'react';
+import {
+  clearLabelMeasurements,
+  getLabelMeasurer,
+  readLabelFont,
+  type MeasureText,
+} from '../utils/labelMeasure';
+
+/**
+ * Font of event labels inside an element and a measurer for it (see
+ * getLabelMeasurer). The font is read from the element's CSS variables on
+ * mount and whenever the timeline root's theme, class or style changes, so a
+ * theme change re-measures; widths are re-measured when a web font finishes
+ * loading. `measureText` is undefined where text cannot be measured, as in
+ * jsdom, and layout then estimates label widths.
+ */
+export function useLabelMeasure(
+  elementRef: React.RefObject<Element | null>
+): { font?: string; measureText?: MeasureText } {
+  const [measure, setMeasure] = useState<{ font: string; measureText?: MeasureText }>();
+
+  useLayoutEffect(() => {
+    const element = elementRef.current;
+    if (!element) return;
+    const readFont = () => {
+      const font = readLabelFont(element);
+      setMeasure(prev =>
+        prev?.font === font ? prev : { font, measureText: getLabelMeasurer(font) ?? undefined }
+      );
+    };
+    readFont();
+    // Themes restyle through the root's attributes and CSS variables
+    const observer = new MutationObserver(readFont);
+    observer.observe(element.closest('.timeline-root') ?? element, {
+      attributes: true,
+      attributeFilter: ['style', 'class', 'data-theme'],
+    });
+    return () => observer.disconnect();
+  }, [elementRef]);
+
+  // Labels measured before a web font arrived were measured in its fallback
+  useEffect(() => {
+    // Absent in jsdom, though typed as always present
+    const fonts = document.fonts as FontFaceSet | undefined;
+    if (!fonts) return;
+    const handleLoadingDone = () => {
+      clearLabelMeasurements();
+      setMeasure(prev => prev && { font: prev.font, measureText: getLabelMeasurer(prev.font) ?? undefined });
+    };
+    fonts.addEventListener('loadingdone', handleLoadingDone);
+    return () => fonts.removeEventListener('loadingdone', handleLoadingDone);
+  }, []);
+
+  return measure ?? {};
+}
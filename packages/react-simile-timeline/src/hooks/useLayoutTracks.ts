@@ -0,0 +1,59 @@
+import { useEffect, useState } from 'react';
+import type { MagnifiedZone } from '../utils/dateUtils';
+import type { LayoutPipeline } from '../utils/layoutWorker';
+
+/**
+ * How long the scale must hold before tracks are requested, so a zoom
+ * animation or gesture sends one request when it settles rather than one
+ * per frame
+ */
+const TRACK_REQUEST_DELAY = 100;
+
+/** A linear axis, shared so the default does not change between renders */
+const NO_ZONES: MagnifiedZone[] = [];
+
+/**
+ * Tracks assigned over the whole dataset by the layout worker, for a band's
+ * current scale and magnified zones (see assignTracksPrepared). Undefined
+ * without a worker and while the tracks for this axis are on their way; the
+ * layout then assigns tracks per frame. Labels are measured in `font` where
+ * the worker can.
+ */
+export function useLayoutTracks(
+  pipeline: LayoutPipeline | null,
+  pixelsPerMs: number,
+  showLabels: boolean = true,
+  maxTracks: number = 0,
+  font?: string,
+  zones: MagnifiedZone[] = NO_ZONES
+): Int32Array | undefined {
+  const [result, setResult] = useState<{
+    pipeline: LayoutPipeline;
+    zones: MagnifiedZone[];
+    key: string;
+    tracks: Int32Array;
+  } | null>(null);
+  const key = `${pixelsPerMs}|${showLabels}|${maxTracks}|${font ?? ''}`;
+
+  useEffect(() => {
+    if (!pipeline) return;
+    let current = true;
+    const timer = setTimeout(() => {
+      pipeline.assignTracks(pixelsPerMs, showLabels, maxTracks, font, zones).then(
+        tracks => {
+          if (current) setResult({ pipeline, zones, key, tracks });
+        },
+        // A failed worker leaves the layout to assign tracks per frame
+        () => {}
+      );
+    }, TRACK_REQUEST_DELAY);
+    return () => {
+      current = false;
+      clearTimeout(timer);
+    };
+  }, [pipeline, zones, key, pixelsPerMs, showLabels, maxTracks, font]);
+
+  return result && result.pipeline === pipeline && result.zones === zones && result.key === key
+    ? result.tracks
+    : undefined;
+}
@@ -0,0 +1,116 @@
+import { useEffect, useRef } from 'react';
+
+/** Elements a Tab press can land on */
+const FOCUSABLE_SELECTOR =
+  'a[href], button:not([disabled]), [tabindex]:not([tabindex="-1"]), input:not([disabled]), select:not([disabled]), textarea:not([disabled])';
+
+/**
+ * Behavior of a timeline popup that is a `role="dialog" aria-modal="true"`,
+ * while `openFor` is set: a click outside it closes it, unless on an element
+ * matching `openerSelector` (which handles its own click); keyboard focus
+ * moves into it on open, stays trapped inside while it is open (Tab and
+ * Shift+Tab wrap at the ends), and returns to the element that opened it on
+ * close; Escape closes it. Without the trap a keyboard user tabs into the
+ * page behind the dialog and the arrow/+/- timeline shortcuts keep firing
+ * under the modal. A new `openFor` value reopens the dialog for it.
+ */
+export function useModalDialog(
+  openFor: unknown,
+  dialogRef: React.RefObject<HTMLElement | null>,
+  onClose: () => void,
+  openerSelector: string
+): void {
+  // Latest close handler, so a new one does not reopen the dialog
+  const onCloseRef = useRef(onClose);
+  useEffect(() => {
+    onCloseRef.current = onClose;
+  }, [onClose]);
+
+  // Close on outside click
+  useEffect(() => {
+    if (!openFor) return;
+
+    const handleClickOutside = (e: MouseEvent) => {
+      if (dialogRef.current && !dialogRef.current.contains(e.target as Node)) {
+        // Let the opener handle a click on it
+        const target = e.target as HTMLElement;
+        if (target.closest(openerSelector)) {
+          return;
+        }
+        onCloseRef.current();
+      }
+    };
+
+    // Use setTimeout to avoid catching the click that opened the popup
+    const timeoutId = setTimeout(() => {
+      document.addEventListener('click', handleClickOutside);
+    }, 0);
+
+    return () => {
+      clearTimeout(timeoutId);
+      document.removeEventListener('click', handleClickOutside);
+    };
+  }, [openFor, dialogRef, openerSelector]);
+
+  // Modal focus management
+  useEffect(() => {
+    if (!openFor) return;
+
+    // Remember what had focus (the opener) so it can be restored.
+    const previouslyFocused = document.activeElement as HTMLElement | null;
+
+    // All tabbable elements currently inside the dialog, in DOM order.
+    const getFocusable = (): HTMLElement[] => {
+      const root = dialogRef.current;
+      if (!root) return [];
+      return Array.from(root.querySelectorAll<HTMLElement>(FOCUSABLE_SELECTOR));
+    };
+
+    // Move focus into the dialog once it has rendered. Prefer the first
+    // interactive control (the close button); fall back to the dialog itself.
+    const focusTimer = setTimeout(() => {
+      const focusable = getFocusable();
+      (focusable[0] ?? dialogRef.current)?.focus();
+    }, 0);
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onCloseRef.current();
+        return;
+      }
+      if (e.key !== 'Tab') return;
+
+      // Trap Tab inside the dialog.
+      const focusable = getFocusable();
+      if (focusable.length === 0) {
+        // Nothing tabbable but the dialog — keep focus on it.
+        e.preventDefault();
+        dialogRef.current?.focus();
+        return;
+      }
+      const first = focusable[0];
+      const last = focusable[focusable.length - 1];
+      const active = document.activeElement;
+
+      if (e.shiftKey) {
+        if (active === first || !dialogRef.current?.contains(active)) {
+          e.preventDefault();
+          last.focus();
+        }
+      } else if (active === last || !dialogRef.current?.contains(active)) {
+        e.preventDefault();
+        first.focus();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      clearTimeout(focusTimer);
+      document.removeEventListener('keydown', handleKeyDown);
+      // Restore focus to the opener, if it is still in the document.
+      if (previouslyFocused && document.contains(previouslyFocused)) {
+        previouslyFocused.focus();
+      }
+    };
+  }, [openFor, dialogRef]);
+}
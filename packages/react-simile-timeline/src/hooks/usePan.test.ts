@@ -25,9 +25,11 @@ function pointerDownArg(overrides: Partial<Record<string, unknown>> = {}) {
 }
 
 /** Dispatch a document-level pointer event of the given type. */
-function dispatchPointer(type: string, clientX: number) {
-  const evt = new Event(type) as Event & { clientX?: number };
+function dispatchPointer(type: string, clientX: number, pointerId = 1, clientY = 0) {
+  const evt = new Event(type) as Event & { clientX?: number; clientY?: number; pointerId?: number };
   evt.clientX = clientX;
+  evt.clientY = clientY;
+  evt.pointerId = pointerId;
   act(() => {
     document.dispatchEvent(evt);
   });
@@ -100,6 +102,160 @@ describe('usePan — drag', () => {
   });
 });
 
+describe('usePan — touch gestures', () => {
+  /** Put a finger down at (x, y). */
+  function touchDown(result: { current: ReturnType<typeof usePan> }, pointerId: number, clientX: number, clientY = 0) {
+    act(() =>
+      result.current.panProps.onPointerDown(
+        pointerDownArg({ pointerType: 'touch', pointerId, clientX, clientY })
+      )
+    );
+  }
+
+  it('pinches to zoom about the midpoint of the fingers', () => {
+    const onPan = vi.fn();
+    const onZoom = vi.fn();
+    const { result } = renderHook(() => usePan({ onPan, onZoom, pixelsPerMs: 1 }));
+
+    touchDown(result, 1, 100);
+    touchDown(result, 2, 200);
+    // Spread doubles from 100px to 200px; the midpoint moves from 150 to 200
+    dispatchPointer('pointermove', 300, 2);
+
+    expect(onZoom).toHaveBeenCalledWith(2, 150);
+    // 50px of midpoint travel, measured before a 2x zoom
+    expect(onPan).toHaveBeenCalledWith(-25);
+  });
+
+  it('pans with two fingers moving together', () => {
+    const onPan = vi.fn();
+    const onZoom = vi.fn();
+    const { result } = renderHook(() => usePan({ onPan, onZoom, pixelsPerMs: 1 }));
+
+    touchDown(result, 1, 100);
+    touchDown(result, 2, 200);
+    dispatchPointer('pointermove', 120, 1);
+    dispatchPointer('pointermove', 220, 2);
+
+    // The fingers move one after the other, so the spread dips and recovers
+    // in between and the pan is measured at slightly different scales
+    const totalPan = onPan.mock.calls.reduce((sum, [delta]) => sum + delta, 0);
+    expect(totalPan).toBeGreaterThan(-21);
+    expect(totalPan).toBeLessThan(-19);
+    const totalZoom = onZoom.mock.calls.reduce((product, [factor]) => product * factor, 1);
+    expect(totalZoom).toBeCloseTo(1);
+  });
+
+  it('resumes a one-finger drag when a finger lifts, and ends without momentum', () => {
+    const onPan = vi.fn();
+    const onPanEnd = vi.fn();
+    const rafSpy = vi.spyOn(window, 'requestAnimationFrame').mockImplementation(() => 0);
+    try {
+      const { result } = renderHook(() => usePan({ onPan, onZoom: vi.fn(), onPanEnd, pixelsPerMs: 1 }));
+      touchDown(result, 1, 100);
+      touchDown(result, 2, 200);
+      dispatchPointer('pointerup', 200, 2);
+      expect(onPanEnd).not.toHaveBeenCalled();
+
+      onPan.mockClear();
+      dispatchPointer('pointermove', 130, 1);
+      expect(onPan).toHaveBeenCalledWith(-30);
+
+      dispatchPointer('pointerup', 130, 1);
+      expect(onPanEnd).toHaveBeenCalledOnce();
+      expect(rafSpy).not.toHaveBeenCalled();
+    } finally {
+      rafSpy.mockRestore();
+    }
+  });
+
+  it('zooms in on a double tap', () => {
+    const onZoom = vi.fn();
+    const { result } = renderHook(() =>
+      usePan({ onPan: vi.fn(), onZoom, pixelsPerMs: 1, doubleTapZoomFactor: 3 })
+    );
+
+    touchDown(result, 1, 100);
+    dispatchPointer('pointerup', 100, 1);
+    expect(onZoom).not.toHaveBeenCalled();
+
+    touchDown(result, 2, 104);
+    dispatchPointer('pointerup', 104, 2);
+    expect(onZoom).toHaveBeenCalledWith(3, 104);
+  });
+
+  it('does not treat two mouse clicks as a double tap', () => {
+    const onZoom = vi.fn();
+    const { result } = renderHook(() => usePan({ onPan: vi.fn(), onZoom, pixelsPerMs: 1 }));
+
+    for (const pointerId of [1, 2]) {
+      act(() => result.current.panProps.onPointerDown(pointerDownArg({ pointerId })));
+      dispatchPointer('pointerup', 100, pointerId);
+    }
+    expect(onZoom).not.toHaveBeenCalled();
+  });
+});
+
+describe('usePan — pan bounds', () => {
+  it('damps a drag past the bounds', () => {
+    const onPan = vi.fn();
+    // 10ms of room forward
+    const { result } = renderHook(() =>
+      usePan({ onPan, pixelsPerMs: 1, getPanLimits: () => ({ min: -100, max: 10 }) })
+    );
+    act(() => result.current.panProps.onPointerDown(pointerDownArg({ clientX: 100 })));
+    // Dragging left by 40px pans 40ms forward: 10 inside, 30 against the band
+    dispatchPointer('pointermove', 60);
+    expect(onPan).toHaveBeenCalledWith(10 + 30 * 0.3);
+  });
+
+  it('stops keyboard pans at the bounds', () => {
+    const onPan = vi.fn();
+    const { rerender } = renderHook(
+      ({ max }) => usePan({ onPan, pixelsPerMs: 1, keyboardPanAmount: 1000, getPanLimits: () => ({ min: -5000, max }) }),
+      { initialProps: { max: 300 } }
+    );
+    act(() => {
+      window.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowRight' }));
+    });
+    expect(onPan).toHaveBeenCalledWith(300);
+
+    onPan.mockClear();
+    rerender({ max: 0 });
+    act(() => {
+      window.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowRight' }));
+    });
+    expect(onPan).not.toHaveBeenCalled();
+  });
+
+  it('springs back inside the bounds after release', () => {
+    const frames: FrameRequestCallback[] = [];
+    const rafSpy = vi.spyOn(window, 'requestAnimationFrame').mockImplementation(cb => {
+      frames.push(cb);
+      return frames.length;
+    });
+    try {
+      // Pulled 100ms past the forward bound; every pan moves the view
+      let overscroll = 100;
+      const onPan = vi.fn((deltaMs: number) => {
+        overscroll += deltaMs;
+      });
+      const { result } = renderHook(() =>
+        usePan({ onPan, pixelsPerMs: 1, getPanLimits: () => ({ min: -1000, max: -overscroll }) })
+      );
+      act(() => result.current.panProps.onPointerDown(pointerDownArg({ clientX: 100 })));
+      dispatchPointer('pointerup', 100);
+
+      for (let i = 0; i < 100 && frames.length > 0; i++) {
+        frames.shift()!(performance.now());
+      }
+      expect(overscroll).toBe(0);
+    } finally {
+      rafSpy.mockRestore();
+    }
+  });
+});
+
 describe('usePan — keyboard', () => {
   function pressKey(key: string, target?: EventTarget) {
     const evt = new KeyboardEvent('keydown', { key });
@@ -127,6 +283,17 @@ describe('usePan — keyboard', () => {
     expect(onPan).toHaveBeenCalledWith(-1000);
   });
 
+  it('sends arrow-key pans to onKeyPan when given', () => {
+    const onPan = vi.fn();
+    const onKeyPan = vi.fn();
+    renderHook(() =>
+      usePan({ onPan, onKeyPan, pixelsPerMs: 1, keyboardPanAmount: 1000 })
+    );
+    pressKey('ArrowRight');
+    expect(onKeyPan).toHaveBeenCalledWith(1000);
+    expect(onPan).not.toHaveBeenCalled();
+  });
+
   it('ignores arrows while focus is in a text input', () => {
     const onPan = vi.fn();
     renderHook(() => usePan({ onPan, pixelsPerMs: 1 }));
@@ -1,16 +1,45 @@
 import { useCallback, useRef, useEffect } from 'react';
+import { prefersReducedMotion } from '../utils/animation';
 
 export interface UsePanOptions {
   /** Callback when panning occurs (deltaMs = time delta) */
   onPan: (deltaMs: number) => void;
   /** Pixels per millisecond for converting drag distance to time */
   pixelsPerMs: number;
+  /**
+   * Convert a drag distance in pixels to a time delta. Defaults to the linear
+   * `deltaPx / pixelsPerMs`. A band with magnified hot zones supplies its
+   * non-linear axis here, so dragging across a zone moves through less time.
+   */
+  pixelsToMs?: (deltaPx: number) => number;
+  /**
+   * How far the element may pan, in ms, before reaching its bounds: `min`
+   * back (<= 0), `max` forward (>= 0). Read on every move. Keyboard pans stop
+   * at the bounds; a drag pulls past them against a rubber band and springs
+   * back on release, as does momentum that carries past them. `onPan` must
+   * then accept deltas beyond the bounds.
+   */
+  getPanLimits?: () => { min: number; max: number } | null;
+  /**
+   * Callback for touch zoom gestures: a two-finger pinch (factor = change in
+   * finger spread) and a double tap (factor = `doubleTapZoomFactor`).
+   * `anchorX` is the gesture's x position relative to the element's left edge,
+   * the point that should hold still while zooming.
+   */
+  onZoom?: (factor: number, anchorX: number) => void;
+  /** Zoom factor of a double tap (default 2) */
+  doubleTapZoomFactor?: number;
   /** Callback when panning starts */
   onPanStart?: () => void;
   /** Callback when panning ends */
   onPanEnd?: () => void;
   /** Enable keyboard navigation */
   enableKeyboard?: boolean;
+  /**
+   * Callback for arrow-key pans, which can glide rather than jump (default:
+   * `onPan`). The delta is already held within the pan bounds.
+   */
+  onKeyPan?: (deltaMs: number) => void;
   /**
    * When set, keyboard panning only fires while focus is inside this element.
    * Without it the arrow-key handler is global (legacy behavior). Scoping it to
@@ -36,28 +65,64 @@ export interface UsePanResult {
   isPanning: boolean;
 }
 
+/** Position of a tracked pointer */
+interface PointerPosition {
+  x: number;
+  y: number;
+}
+
+/** Spread and midpoint of a two-finger gesture */
+interface GestureFrame {
+  distance: number;
+  midX: number;
+}
+
+/** A touch is a tap when it lifts within this time... */
+const TAP_MAX_DURATION = 300;
+/** ...having moved less than this many pixels */
+const TAP_SLOP = 10;
+/** Two taps make a double tap within this time... */
+const DOUBLE_TAP_INTERVAL = 300;
+/** ...and this distance of each other */
+const DOUBLE_TAP_SLOP = 30;
+
+/** Share of a drag past the pan bounds that moves the view */
+const RUBBER_BAND_RESISTANCE = 0.3;
+/** Extra friction on momentum carrying past the pan bounds */
+const RUBBER_BAND_FRICTION = 0.6;
+/** Share of the overscroll recovered per frame when springing back */
+const RUBBER_BAND_SPRING = 0.2;
+
 /**
- * Whether the user has asked for reduced motion. Guarded for non-browser and
- * jsdom environments where matchMedia may be absent.
+ * Measure the gesture made by the first two tracked pointers
  */
-function prefersReducedMotion(): boolean {
-  return (
-    typeof window !== 'undefined' &&
-    typeof window.matchMedia === 'function' &&
-    window.matchMedia('(prefers-reduced-motion: reduce)').matches
-  );
+function measureGesture(pointers: Map<number, PointerPosition>): GestureFrame {
+  const [a, b] = pointers.values();
+  return {
+    distance: Math.hypot(b.x - a.x, b.y - a.y),
+    midX: (a.x + b.x) / 2,
+  };
 }
 
 /**
  * Hook for handling pan/drag interactions with momentum
  * Uses refs to avoid stale closure issues with event listeners
+ *
+ * Tracks every pointer on the element: one pointer drags, two turn the drag
+ * into a pinch that zooms about the fingers' midpoint while the midpoint's
+ * movement pans, and a quick double tap zooms in on the tap.
  */
 export function usePan({
   onPan,
   pixelsPerMs,
+  pixelsToMs,
+  getPanLimits,
+  onZoom,
+  doubleTapZoomFactor = 2,
   onPanStart,
   onPanEnd,
   enableKeyboard = true,
+  onKeyPan,
   scopeRef,
   keyboardPanAmount = 24 * 60 * 60 * 1000, // 1 day default
   friction = 0.95,
@@ -70,13 +135,26 @@ export function usePan({
   const velocityRef = useRef(0);
   const animationFrameRef = useRef<number | null>(null);
   const elementRef = useRef<HTMLElement | null>(null);
-  const pointerIdRef = useRef<number | null>(null);
+  // Pointers down on the element, in the order they landed
+  const pointersRef = useRef(new Map<number, PointerPosition>());
+  // Last frame of a two-finger gesture, null while fewer fingers are down
+  const gestureRef = useRef<GestureFrame | null>(null);
+  // Whether the current interaction has had more than one pointer down
+  const multiTouchRef = useRef(false);
+  // Where and when the current touch landed, and the last completed tap
+  const touchStartRef = useRef<(PointerPosition & { time: number }) | null>(null);
+  const lastTapRef = useRef<(PointerPosition & { time: number }) | null>(null);
 
   // Store current callback values in refs to avoid stale closures
   const onPanRef = useRef(onPan);
+  const onKeyPanRef = useRef(onKeyPan);
+  const onZoomRef = useRef(onZoom);
+  const doubleTapZoomFactorRef = useRef(doubleTapZoomFactor);
   const onPanStartRef = useRef(onPanStart);
   const onPanEndRef = useRef(onPanEnd);
   const pixelsPerMsRef = useRef(pixelsPerMs);
+  const pixelsToMsRef = useRef(pixelsToMs);
+  const getPanLimitsRef = useRef(getPanLimits);
   const frictionRef = useRef(friction);
   const velocityThresholdRef = useRef(velocityThreshold);
   const scopeRefRef = useRef(scopeRef);
@@ -84,13 +162,45 @@ export function usePan({
   // Update refs when props change
   useEffect(() => {
     onPanRef.current = onPan;
+    onKeyPanRef.current = onKeyPan;
+    onZoomRef.current = onZoom;
+    doubleTapZoomFactorRef.current = doubleTapZoomFactor;
     onPanStartRef.current = onPanStart;
     onPanEndRef.current = onPanEnd;
     pixelsPerMsRef.current = pixelsPerMs;
+    pixelsToMsRef.current = pixelsToMs;
+    getPanLimitsRef.current = getPanLimits;
     frictionRef.current = friction;
     velocityThresholdRef.current = velocityThreshold;
     scopeRefRef.current = scopeRef;
-  }, [onPan, onPanStart, onPanEnd, pixelsPerMs, friction, velocityThreshold, scopeRef]);
+  }, [onPan, onKeyPan, onZoom, doubleTapZoomFactor, onPanStart, onPanEnd, pixelsPerMs, pixelsToMs, getPanLimits, friction, velocityThreshold, scopeRef]);
+
+  // Pixel distance to time delta, through the band's axis when it supplies one
+  const toDeltaMs = useCallback((deltaPx: number) => {
+    const convert = pixelsToMsRef.current;
+    return convert ? convert(deltaPx) : deltaPx / pixelsPerMsRef.current;
+  }, []);
+
+  // How far the view is past its bounds: negative before them, positive after
+  const getOverscroll = useCallback(() => {
+    const limits = getPanLimitsRef.current?.();
+    if (!limits) return 0;
+    if (limits.max < 0) return -limits.max;
+    if (limits.min > 0) return -limits.min;
+    return 0;
+  }, []);
+
+  // A pan with the part past the bounds damped by the rubber band
+  const resistPan = useCallback((deltaMs: number) => {
+    const limits = getPanLimitsRef.current?.();
+    if (!limits) return deltaMs;
+    if (deltaMs > 0) {
+      const inside = Math.min(deltaMs, Math.max(limits.max, 0));
+      return inside + (deltaMs - inside) * RUBBER_BAND_RESISTANCE;
+    }
+    const inside = Math.max(deltaMs, Math.min(limits.min, 0));
+    return inside + (deltaMs - inside) * RUBBER_BAND_RESISTANCE;
+  }, []);
 
   // Cancel any ongoing momentum animation
   const cancelMomentum = useCallback(() => {
@@ -102,25 +212,107 @@ export function usePan({
 
   // Momentum animation - defined once, uses refs for current values
   const animateMomentum = useCallback(() => {
-    if (Math.abs(velocityRef.current) < velocityThresholdRef.current) {
+    const overscroll = getOverscroll();
+    const moving = Math.abs(velocityRef.current) >= velocityThresholdRef.current;
+
+    // Convert velocity (pixels/ms) to time delta
+    const deltaMs = moving ? toDeltaMs(-velocityRef.current * 16) : 0; // 16ms frame
+
+    // Past the bounds, momentum still heading out is braked by the rubber
+    // band; once it stops or turns, the view springs back inside.
+    if (overscroll !== 0 && !(moving && Math.sign(deltaMs) === Math.sign(overscroll))) {
       velocityRef.current = 0;
+      if (Math.abs(overscroll * pixelsPerMsRef.current) < 0.5) {
+        onPanRef.current(-overscroll);
+        animationFrameRef.current = null;
+        return;
+      }
+      onPanRef.current(-overscroll * RUBBER_BAND_SPRING);
+      animationFrameRef.current = requestAnimationFrame(animateMomentum);
       return;
     }
 
-    // Convert velocity (pixels/ms) to time delta
-    const deltaMs = -velocityRef.current * 16 / pixelsPerMsRef.current; // 16ms frame
-    onPanRef.current(deltaMs);
+    if (!moving) {
+      velocityRef.current = 0;
+      animationFrameRef.current = null;
+      return;
+    }
+
+    onPanRef.current(resistPan(deltaMs));
 
-    // Apply friction
-    velocityRef.current *= frictionRef.current;
+    // Apply friction, more of it past the bounds
+    velocityRef.current *= frictionRef.current * (overscroll !== 0 ? RUBBER_BAND_FRICTION : 1);
 
     // Continue animation
     animationFrameRef.current = requestAnimationFrame(animateMomentum);
+  }, [getOverscroll, resistPan, toDeltaMs]);
+
+  // End of a drag: glide on with momentum, or, for a user who prefers reduced
+  // motion, stop dead on release, back inside the bounds if pulled past them.
+  const releasePan = useCallback(() => {
+    if (!prefersReducedMotion()) {
+      animateMomentum();
+      return;
+    }
+    velocityRef.current = 0;
+    const overscroll = getOverscroll();
+    if (overscroll !== 0) {
+      onPanRef.current(-overscroll);
+    }
+  }, [animateMomentum, getOverscroll]);
+
+  // X position relative to the element, the anchor a touch zoom holds still
+  const toElementX = useCallback((clientX: number) => {
+    return clientX - (elementRef.current?.getBoundingClientRect().left ?? 0);
   }, []);
 
+  // Two-finger frame: the spread's change zooms about the previous midpoint,
+  // then the midpoint's movement pans. The pan is measured on the axis as it
+  // was before this frame's zoom, so it is scaled down by the zoom factor.
+  const applyGesture = useCallback(() => {
+    const previous = gestureRef.current;
+    const next = measureGesture(pointersRef.current);
+    gestureRef.current = next;
+    if (!previous) return;
+
+    const factor = previous.distance > 0 && next.distance > 0
+      ? next.distance / previous.distance
+      : 1;
+    if (factor !== 1) {
+      onZoomRef.current?.(factor, toElementX(previous.midX));
+    }
+    const deltaX = next.midX - previous.midX;
+    if (deltaX !== 0) {
+      onPanRef.current(resistPan(toDeltaMs(-deltaX) / factor));
+    }
+  }, [resistPan, toDeltaMs, toElementX]);
+
+  // A touch that lifted quickly without moving; the second in a row zooms in
+  const handleTap = useCallback((position: PointerPosition) => {
+    const now = performance.now();
+    const lastTap = lastTapRef.current;
+    if (
+      lastTap &&
+      now - lastTap.time <= DOUBLE_TAP_INTERVAL &&
+      Math.hypot(position.x - lastTap.x, position.y - lastTap.y) <= DOUBLE_TAP_SLOP
+    ) {
+      lastTapRef.current = null;
+      onZoomRef.current?.(doubleTapZoomFactorRef.current, toElementX(position.x));
+      return;
+    }
+    lastTapRef.current = { ...position, time: now };
+  }, [toElementX]);
+
   // Stable pointer move handler - uses refs for current values
   const handlePointerMove = useCallback((e: PointerEvent) => {
-    if (!isPanningRef.current) return;
+    const pointers = pointersRef.current;
+    if (!isPanningRef.current || !pointers.has(e.pointerId)) return;
+    pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+
+    if (pointers.size > 1) {
+      applyGesture();
+      return;
+    }
 
     const now = performance.now();
     const deltaTime = now - lastTimeRef.current;
@@ -133,40 +325,68 @@ export function usePan({
 
     // Convert pixel delta to time delta
     // Dragging right (positive deltaX) should go back in time (negative deltaMs)
-    const deltaMs = -deltaX / pixelsPerMsRef.current;
-    onPanRef.current(deltaMs);
+    const deltaMs = toDeltaMs(-deltaX);
+    onPanRef.current(resistPan(deltaMs));
 
     lastXRef.current = e.clientX;
     lastTimeRef.current = now;
-  }, []);
+  }, [applyGesture, resistPan, toDeltaMs]);
 
   // Stable pointer up handler - uses refs for current values
-  const handlePointerUp = useCallback(() => {
-    if (!isPanningRef.current) return;
+  const handlePointerUp = useCallback((e: PointerEvent) => {
+    const pointers = pointersRef.current;
+    if (!isPanningRef.current || !pointers.has(e.pointerId)) return;
+    pointers.delete(e.pointerId);
+
+    // Release pointer capture
+    try {
+      elementRef.current?.releasePointerCapture(e.pointerId);
+    } catch {
+      // Pointer capture may already be released
+    }
+
+    if (pointers.size > 1) {
+      // Still pinching with the remaining fingers
+      gestureRef.current = measureGesture(pointers);
+      return;
+    }
+    if (pointers.size === 1) {
+      // Back to a one-finger drag from wherever the remaining finger is
+      const [remaining] = pointers.values();
+      gestureRef.current = null;
+      lastXRef.current = remaining.x;
+      lastTimeRef.current = performance.now();
+      velocityRef.current = 0;
+      return;
+    }
 
     isPanningRef.current = false;
+    gestureRef.current = null;
     onPanEndRef.current?.();
 
-    // Release pointer capture
-    if (elementRef.current && pointerIdRef.current !== null) {
-      try {
-        elementRef.current.releasePointerCapture(pointerIdRef.current);
-      } catch {
-        // Pointer capture may already be released
+    // A gesture ends without momentum: the fingers leave one at a time, so
+    // the last one's velocity says nothing about the gesture as a whole.
+    const start = touchStartRef.current;
+    if (
+      !multiTouchRef.current &&
+      e.type === 'pointerup' &&
+      start &&
+      performance.now() - start.time <= TAP_MAX_DURATION &&
+      Math.hypot(e.clientX - start.x, e.clientY - start.y) <= TAP_SLOP
+    ) {
+      handleTap(start);
+    } else {
+      if (multiTouchRef.current) {
+        velocityRef.current = 0;
       }
-    }
-
-    // Start momentum animation — unless the user prefers reduced motion, in
-    // which case the pan stops dead on release with no inertial glide.
-    if (!prefersReducedMotion()) {
-      animateMomentum();
+      releasePan();
     }
 
     // Remove listeners - these are the SAME function references that were added
     document.removeEventListener('pointermove', handlePointerMove);
     document.removeEventListener('pointerup', handlePointerUp);
     document.removeEventListener('pointercancel', handlePointerUp);
-  }, [animateMomentum, handlePointerMove]);
+  }, [releasePan, handlePointerMove, handleTap]);
 
   // Pointer down handler
   const handlePointerDown = useCallback((e: React.PointerEvent) => {
@@ -179,6 +399,23 @@ export function usePan({
       return;
     }
 
+    const pointers = pointersRef.current;
+    pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    try {
+      (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+    } catch {
+      // Pointer capture may not be supported in all environments
+    }
+    e.preventDefault();
+
+    // A further finger joins the drag in progress and turns it into a pinch
+    if (isPanningRef.current) {
+      multiTouchRef.current = true;
+      velocityRef.current = 0;
+      gestureRef.current = measureGesture(pointers);
+      return;
+    }
+
     // Move keyboard focus to the band so the scoped arrow/zoom keys take effect
     // after a pointer interaction. `preventDefault()` below would otherwise
     // suppress the implicit focus; a no-op on bands that are not focusable.
@@ -192,24 +429,18 @@ export function usePan({
     lastTimeRef.current = performance.now();
     velocityRef.current = 0;
     elementRef.current = e.currentTarget as HTMLElement;
-    pointerIdRef.current = e.pointerId;
+    multiTouchRef.current = false;
+    touchStartRef.current = e.pointerType === 'touch'
+      ? { x: e.clientX, y: e.clientY, time: lastTimeRef.current }
+      : null;
 
     onPanStartRef.current?.();
 
-    // Set pointer capture for smooth tracking
-    try {
-      (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
-    } catch {
-      // Pointer capture may not be supported in all environments
-    }
-
     // Add document-level listeners for move and up
     // These are stable references that won't change between renders
     document.addEventListener('pointermove', handlePointerMove);
     document.addEventListener('pointerup', handlePointerUp);
     document.addEventListener('pointercancel', handlePointerUp);
-
-    e.preventDefault();
   }, [cancelMomentum, handlePointerMove, handlePointerUp]);
 
   // Keyboard navigation
@@ -228,16 +459,25 @@ export function usePan({
         return;
       }
 
+      // Keyboard pans stop at the bounds rather than stretching past them
+      const panBy = (deltaMs: number) => {
+        cancelMomentum();
+        const limits = getPanLimitsRef.current?.();
+        const clamped = limits
+          ? Math.max(Math.min(limits.min, 0), Math.min(Math.max(limits.max, 0), deltaMs))
+          : deltaMs;
+        if (clamped !== 0) {
+          (onKeyPanRef.current ?? onPanRef.current)(clamped);
+        }
+        e.preventDefault();
+      };
+
       switch (e.key) {
         case 'ArrowLeft':
-          cancelMomentum();
-          onPanRef.current(-keyboardPanAmount);
-          e.preventDefault();
+          panBy(-keyboardPanAmount);
           break;
         case 'ArrowRight':
-          cancelMomentum();
-          onPanRef.current(keyboardPanAmount);
-          e.preventDefault();
+          panBy(keyboardPanAmount);
           break;
       }
     };
@@ -14,9 +14,15 @@ export {
   Band,
   TimeScale,
   EventTrack,
+  BandLanes,
   EventMarker,
   OverviewMarkers,
+  OverviewDensity,
+  OverviewViewport,
+  CanvasEventLayer,
   EventPopup,
+  ClusterBadge,
+  ClusterPopup,
 } from './components';
 
 // Component types
@@ -25,26 +31,46 @@ export type {
   TimelineState,
   TimelineActions,
   TimelineContextValue,
+  PanLimits,
+  ExpandedCluster,
   BandProps,
   TimeScaleProps,
   EventTrackProps,
+  BandLanesProps,
   EventMarkerProps,
   OverviewMarkersProps,
+  OverviewDensityProps,
+  OverviewViewportProps,
+  CanvasEventLayerProps,
   EventPopupProps,
+  ClusterBadgeProps,
+  ClusterPopupProps,
 } from './components';
 
 // Core types
 export type {
   TimelineProps,
+  TimelineHandle,
+  AnimateOptions,
+  EasingFunction,
+  TimeSpan,
+  ZoomStep,
   TimelineEvent,
   TimelineData,
   BandConfig,
+  ClusterOptions,
+  DensityOptions,
+  LaneConfig,
+  DataFormat,
+  CsvMapping,
+  DataDiagnostic,
+  DataDiagnosticReason,
   HotZone,
   Theme,
 } from './types';
 
 // Hooks
-export { usePan } from './hooks';
+export { usePan, useLabelMeasure } from './hooks';
 export type { UsePanOptions, UsePanResult } from './hooks';
 
 // Utilities
@@ -55,6 +81,9 @@ export {
   pixelToDate,
   getVisibleRange,
   getMedianDate,
+  prepareHotZones,
+  positionHotZones,
+  createTimeToPixel,
   TIME_UNITS,
   getScaleConfig,
   alignToUnit,
@@ -63,20 +92,88 @@ export {
   calculateLayout,
   calculateLayoutPrepared,
   prepareEvents,
+  prepareEvent,
+  createEventStore,
+  addStoreEvents,
+  updateStoreEvent,
+  removeStoreEvent,
+  generateEventId,
+  getEventIds,
   filterVisiblePrepared,
   assignTracks,
+  assignTracksClustered,
+  assignPinnedTracks,
+  fixedTrackOf,
+  createGroupTrackOf,
+  partitionPrepared,
+  calculateClusteredLayoutPrepared,
+  binEventDensity,
   filterVisibleEvents,
   estimateLabelWidth,
+  readLabelFont,
+  getLabelMeasurer,
+  clearLabelMeasurements,
+  DEFAULT_LABEL_FONT,
   getTrackCount,
+  getBandKey,
+  buildSyncGraph,
+  propagateScroll,
+  linear,
+  easeOutCubic,
+  easeInOutCubic,
+  getEventHitBoxes,
+  hitTestEvents,
+  drawTimelineCanvas,
+  DEFAULT_CANVAS_THEME,
+  parseSimileXml,
+  parseCsv,
+  parseIcs,
+  toIcs,
+  fromTimelineJs,
+  toTimelineJs,
+  fromVisTimeline,
+  toVisTimeline,
+  detectDataFormat,
+  parseTimelineData,
+  readTimelineData,
+  validateTimelineData,
 } from './utils';
 
 export type {
   TimeUnit,
+  MagnifiedZone,
+  PositionedHotZone,
   ScaleConfig,
   ScaleTick,
   LayoutEvent,
+  LayoutOptions,
+  TrackOf,
+  EventCluster,
+  ClusteredLayout,
+  DensityBin,
+  MeasureText,
   PreparedEvent,
   PreparedEvents,
+  EventStore,
+  EventStoreEntry,
+  EventStoreLookup,
+  BandSyncGraph,
+  SyncLink,
+  EventHitBox,
+  CanvasTheme,
+  CanvasScene,
+  CsvRowError,
+  CsvParseResult,
+  TimelineDataResult,
+  ConvertedTimeline,
+  TimelineJsData,
+  TimelineJsEvent,
+  TimelineJsEra,
+  TimelineJsDate,
+  TimelineJsText,
+  TimelineJsMedia,
+  VisTimelineItem,
+  VisTimelineGroup,
 } from './utils';
 
 // Styles (consumers can import this directly if needed)
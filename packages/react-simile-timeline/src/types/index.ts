@@ -8,6 +8,12 @@
  * Compatible with Simile Timeline JSON event format
  */
 export interface TimelineEvent {
+  /**
+   * Stable identity, unique within the data. Keys markers, holds the selection
+   * across data changes and names the event in updates. Without one, an id is
+   * generated from the title and dates.
+   */
+  id?: string;
   /** Start date/time (ISO 8601 or parseable date string) - REQUIRED */
   start: string;
   /** Display title of the event - REQUIRED */
@@ -38,8 +44,10 @@ export interface TimelineEvent {
   tapeImage?: string;
   /** CSS background-repeat value for tape */
   tapeRepeat?: string;
-  /** Track number for positioning */
+  /** Track to pin the event to (0 = top track) in a band with `layout: 'fixed'` */
   trackNum?: number;
+  /** Group the event belongs to, for `groupBy: 'group'` or a lane's filter */
+  group?: string;
 }
 
 /**
@@ -57,6 +65,57 @@ export interface TimelineData {
   events: TimelineEvent[];
 }
 
+/**
+ * Format of timeline data fetched from a URL: Simile JSON, the original
+ * Simile XML event source (see parseSimileXml), comma- or tab-separated
+ * values with a header row (see parseCsv), or an iCalendar file (see
+ * parseIcs)
+ */
+export type DataFormat = 'json' | 'xml' | 'csv' | 'ics';
+
+/**
+ * Column holding each event field in CSV data, by header, e.g.
+ * `{ title: 'Name', start: 'Release date' }`. A field not named here is read
+ * from a column named after it.
+ */
+export type CsvMapping = Partial<Record<keyof TimelineEvent, string>>;
+
+/**
+ * Why an event field was flagged by validateTimelineData
+ */
+export type DataDiagnosticReason =
+  | 'missing-field'
+  | 'invalid-type'
+  | 'unparseable-date'
+  | 'end-before-start'
+  | 'unknown-field'
+  | 'duplicate-id';
+
+/**
+ * A problem with one field of one event in timeline data
+ */
+export interface DataDiagnostic {
+  /**
+   * Position of the event in `events`; -1 for a row of a fetched file left
+   * out while reading it, which never became an event
+   */
+  index: number;
+  /**
+   * The field at fault, which for `unknown-field` is not a TimelineEvent key;
+   * `''` when the event itself is not an object
+   */
+  field: string;
+  reason: DataDiagnosticReason;
+  /** What is wrong, for people */
+  message: string;
+  /** True if the event is left off the timeline because of it */
+  skipped: boolean;
+  /** Line a row left out of a fetched file starts on (1 = the header) */
+  line?: number;
+  /** URL of the file that row was fetched from */
+  source?: string;
+}
+
 /**
  * Band configuration for timeline visualization
  */
@@ -71,16 +130,143 @@ export interface BandConfig {
   intervalPixels?: number;
   /** Whether this is an overview band (simplified rendering) */
   overview?: boolean;
-  /** ID of the band to synchronize with */
+  /** ID of the band to synchronize with (default: the primary band) */
   syncWith?: string;
+  /**
+   * How far this band scrolls per unit its sync partner scrolls (default 1).
+   * Below 1 the band lags as context; 0 pins it while the partner moves.
+   */
+  syncRatio?: number;
+  /** Offset of this band's center from its sync partner's, in milliseconds */
+  syncOffset?: number;
+  /** Scroll on its own instead of following the primary band (ignored with `syncWith`) */
+  independent?: boolean;
   /** Whether to show event labels */
   showEventLabels?: boolean;
+  /**
+   * Overview bands: draw the range the detail band shows (the `syncWith`
+   * band, else the primary band) as a window to drag, resize or click beside
+   * (default true)
+   */
+  showViewport?: boolean;
   /** Track height for event stacking */
   trackHeight?: number;
   /** Gap between tracks */
   trackGap?: number;
+  /**
+   * Scales zooming snaps to, like Simile's `zoomSteps`. A zoom that starts on
+   * this band moves one step at a time; without steps it is continuous.
+   */
+  zoomSteps?: ZoomStep[];
+  /**
+   * Most tracks events stack on (0 or absent = unlimited). Events that fit
+   * none overlap the least-full track, or with `cluster`, merge into badges.
+   */
+  maxTracks?: number;
+  /**
+   * Merge events that do not fit the tracks into "+N events" badges instead
+   * of overlapping them (see ClusterOptions). Clustering lays out tracks per
+   * viewport; `maxTracks` defaults to 4. Bands drawn with the DOM only; a
+   * canvas band warns that it ignores this.
+   */
+  cluster?: boolean | ClusterOptions;
+  /**
+   * How events are put on tracks. `'greedy'` (default) packs each onto the
+   * first track with room. `'fixed'` pins each event to its `trackNum`, and
+   * `'grouped'` gives each value of `groupBy` a track of its own, in order of
+   * first appearance in the data; either way an event keeps its track as the
+   * view pans and zooms, overlapping the events beside it rather than moving.
+   * Events with no `trackNum` or `groupBy` value are packed onto the tracks
+   * below. `maxTracks` and `cluster` apply to greedy layout only.
+   */
+  layout?: 'greedy' | 'fixed' | 'grouped';
+  /** Event field whose values make the tracks of a `'grouped'` layout, e.g. `'classname'` */
+  groupBy?: keyof TimelineEvent;
+  /**
+   * Overview bands: show how many events fall at each position, binned into
+   * pixel buckets, instead of a tick per event (see DensityOptions). Takes
+   * the place of `cluster`.
+   */
+  density?: boolean | DensityOptions;
+  /**
+   * Split the band into swimlanes, one row per lane with a header at the
+   * left (see LaneConfig). Each event is drawn in the first lane whose
+   * `filter` it passes, and not at all if it passes none. Tracks, `layout`,
+   * `maxTracks` and `cluster` apply within each lane, and lanes share the
+   * band's height equally, a greedy lane stacking only the tracks that fit
+   * its share. Detail bands drawn with the DOM only; a canvas band warns
+   * that it ignores them.
+   */
+  lanes?: LaneConfig[];
+  /**
+   * How events and hot zones are drawn (default `'dom'`, a node per marker).
+   * `'canvas'` draws them on one canvas, for thousands of events in view;
+   * screen readers and the keyboard reach them through a hidden list.
+   * Overview bands always use the DOM.
+   */
+  renderer?: 'dom' | 'canvas';
+}
+
+/**
+ * Thresholds and behavior of a band's event clusters
+ */
+export interface ClusterOptions {
+  /**
+   * Fewest overflowing events that make a badge (default 2). Smaller piles
+   * are drawn as events on the row below the tracks.
+   */
+  minEvents?: number;
+  /**
+   * Overview bands: ticks closer than this many pixels merge into one badge
+   * (default 4). Detail bands cluster by label overlap instead.
+   */
+  gap?: number;
+  /** What clicking a badge does: list its events in a popup (default) or zoom to fit them */
+  onClick?: 'list' | 'zoom';
+}
+
+/**
+ * One swimlane of a band (see BandConfig.lanes)
+ */
+export interface LaneConfig {
+  /** Unique identifier for the lane */
+  id: string;
+  /** Text of the lane's row header */
+  label: string;
+  /** Accent of the header, and color of the lane's events that set none */
+  color?: string;
+  /** Whether an event belongs in this lane */
+  filter: (event: TimelineEvent) => boolean;
 }
 
+/**
+ * How an overview band draws event density
+ */
+export interface DensityOptions {
+  /** Bars as tall as their count (default `'histogram'`), or a `'heatmap'` strip shaded by it */
+  style?: 'histogram' | 'heatmap';
+  /** Bucket width in pixels (default 4) */
+  binWidth?: number;
+  /**
+   * Fill buckets with the theme's density color (default `'count'`), or with
+   * the most common color among the events starting in each (`'event'`)
+   */
+  color?: 'count' | 'event';
+}
+
+/**
+ * One zoom step: `intervalPixels` pixels per `unit`
+ */
+export interface ZoomStep {
+  unit: NonNullable<BandConfig['timeUnit']>;
+  intervalPixels: number;
+}
+
+/**
+ * A span of time: milliseconds, or a count of a time unit (count defaults to 1)
+ */
+export type TimeSpan = number | { unit: NonNullable<BandConfig['timeUnit']>; count?: number };
+
 /**
  * Hot zone configuration for highlighted time periods
  */
@@ -145,18 +331,93 @@ export interface BrandingConfig {
 export interface TimelineProps {
   /** Timeline event data - either inline or URL */
   data?: TimelineData;
-  /** URL to fetch timeline data from */
+  /**
+   * URL to fetch timeline data from, as JSON, Simile XML, CSV or iCalendar
+   * (see `dataFormat`). A recurring iCalendar event expands within
+   * `icsWindow`, or without one, to its first 1000 occurrences.
+   */
   dataUrl?: string;
   /** Multiple URLs to fetch and merge timeline data from */
   dataUrls?: string[];
+  /**
+   * Format of the data at `dataUrl` and `dataUrls`. Detected per response
+   * when absent: XML, CSV or iCalendar if its content type or file
+   * extension says so, else JSON. iCalendar recurrences expand as
+   * `icsWindow` says.
+   */
+  dataFormat?: DataFormat;
+  /**
+   * Columns of fetched CSV data to read event fields from (see parseCsv).
+   * Rows with dates that cannot be read are left out.
+   */
+  csvMapping?: CsvMapping;
+  /**
+   * Range fetched iCalendar recurrences expand within, along with overrides
+   * moved into it (see parseIcs). Without one, each recurring event expands
+   * to its first 1000 occurrences, so a rule with no end stops there.
+   */
+  icsWindow?: { start: Date; end: Date };
   /** Band configurations */
   bands?: BandConfig[];
   /** Hot zone configurations */
   hotZones?: HotZone[];
   /** Theme configuration or theme name */
   theme?: Theme | 'classic' | 'dark';
-  /** Initial center date */
+  /**
+   * Center date: the initial center, re-applied whenever it changes, or with
+   * `controlled`, the center shown
+   */
   centerDate?: string | Date;
+  /**
+   * Zoom level (1 = the band's configured scale): the initial zoom,
+   * re-applied whenever it changes, or with `controlled`, the zoom shown
+   */
+  zoomLevel?: number;
+  /**
+   * Selected event (`null` = none), shown in the popup: the initial
+   * selection, or with `controlled`, the selection shown
+   */
+  selectedEvent?: TimelineEvent | null;
+  /**
+   * Control the view from props. Each of `centerDate`, `zoomLevel` and
+   * `selectedEvent` that is passed is then shown exactly: pans, zooms and
+   * selections are reported through `onScroll`, `onZoom` and `onSelect`
+   * and take effect only when the new value is passed back. Default: false
+   */
+  controlled?: boolean;
+  /**
+   * Narrowest span the primary band may show across its width, the closest it
+   * zooms in (e.g. `{ unit: 'hour' }`). Default: 10x the band's scale.
+   */
+  minZoom?: TimeSpan;
+  /**
+   * Widest span the primary band may show across its width, the furthest it
+   * zooms out (e.g. `{ unit: 'century', count: 5 }`). Default: 10x the band's scale.
+   */
+  maxZoom?: TimeSpan;
+  /** Earliest date the primary band may scroll to show */
+  minDate?: Date | string;
+  /** Latest date the primary band may scroll to show */
+  maxDate?: Date | string;
+  /**
+   * `'data'` keeps the primary band within the events' extent; `minDate` and
+   * `maxDate` override either side. Bounds also stop zooming out past them.
+   */
+  bounds?: 'data';
+  /**
+   * Duration in milliseconds of animated navigation: `jumpToDate`, keyboard
+   * zoom and the ref handle's methods (default 500; 0 turns animation off).
+   * Animation is always off when the user prefers reduced motion.
+   */
+  animationDuration?: number;
+  /**
+   * Parse and sort events, and assign them to tracks, in a Web Worker so a
+   * large dataset does not block input while it loads. Tracks are then
+   * assigned over the whole dataset, so events keep their row as the view
+   * pans. Where workers do not run (server rendering, tests) layout stays on
+   * the main thread.
+   */
+  offloadLayout?: boolean;
   /** Width of the timeline container */
   width?: string | number;
   /** Height of the timeline container */
@@ -169,6 +430,19 @@ export interface TimelineProps {
   onScroll?: (centerDate: Date) => void;
   /** Callback when zoom level changes */
   onZoom?: (zoomLevel: number) => void;
+  /** Callback when the selection changes (`null` when the popup closes) */
+  onSelect?: (event: TimelineEvent | null) => void;
+  /**
+   * Callback with the problems validateTimelineData finds, each time the
+   * data changes and has any: events left off for unreadable dates, ends
+   * before starts, unknown fields and the like
+   */
+  onDataWarning?: (diagnostics: DataDiagnostic[]) => void;
+  /**
+   * Overlay the problems validateTimelineData finds on the timeline, skipped
+   * events first. Meant for development. Default: false
+   */
+  showDataWarnings?: boolean;
   /** CSS class name for the container */
   className?: string;
   /** Inline styles for the container */
@@ -176,3 +450,61 @@ export interface TimelineProps {
   /** Optional branding/watermark configuration */
   branding?: BrandingConfig | boolean;
 }
+
+/**
+ * Maps linear progress in [0, 1] to eased progress, 0 at the start and 1 at
+ * the end
+ */
+export type EasingFunction = (t: number) => number;
+
+/**
+ * Options for an animated scroll or zoom
+ */
+export interface AnimateOptions {
+  /** Duration in milliseconds (default: the timeline's `animationDuration`; 0 jumps straight there) */
+  duration?: number;
+  /** Easing curve (default `easeInOutCubic`) */
+  easing?: EasingFunction;
+}
+
+/**
+ * Imperative handle exposed through a ref on `<Timeline>`.
+ * Events may be passed by object or by id; a string that matches no id is
+ * looked up as a title.
+ */
+export interface TimelineHandle {
+  /** Center the primary band on a date, animated */
+  jumpToDate: (date: Date | string, options?: AnimateOptions) => void;
+  /** Set an absolute zoom level (1 = the band's configured scale), snapped to the zoom steps, animated */
+  zoomTo: (zoomLevel: number, options?: AnimateOptions) => void;
+  /**
+   * Center and zoom so the range fills the primary band's viewport, animated;
+   * no change if either end does not parse
+   */
+  zoomToFit: (range: { start: Date | string; end: Date | string }, options?: AnimateOptions) => void;
+  /**
+   * Center on an event (a duration event on its midpoint), animated; false if
+   * not found or its start does not parse
+   */
+  scrollToEvent: (event: TimelineEvent | string, options?: AnimateOptions) => boolean;
+  /** Select an event and open its popup, or close it with `null`; false if not found */
+  selectEvent: (event: TimelineEvent | string | null) => boolean;
+  /** Date range currently visible on the primary band */
+  getVisibleRange: () => { start: Date; end: Date };
+  /** Glide the primary band to a date; the same as `jumpToDate` */
+  animateTo: (date: Date | string, options?: AnimateOptions) => void;
+  /**
+   * Append events, parsing only the new ones; returns their ids. Updates
+   * last until the data itself changes.
+   */
+  addEvents: (events: TimelineEvent[]) => string[];
+  /** Merge changes into the event with an id (the id itself stays); false if not found */
+  updateEvent: (id: string, update: Partial<TimelineEvent>) => boolean;
+  /** Remove the event with an id; false if not found */
+  removeEvent: (id: string) => boolean;
+  /**
+   * The events as an iCalendar document (see toIcs): all of them, or with
+   * `visibleOnly`, those overlapping the primary band's visible range
+   */
+  exportIcs: (options?: { visibleOnly?: boolean; calendarName?: string }) => string;
+}
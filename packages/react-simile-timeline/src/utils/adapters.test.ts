@@ -0,0 +1,129 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { fromTimelineJs, fromVisTimeline, toTimelineJs, toVisTimeline, type TimelineJsData } from './adapters';
+
+const timelineJs: TimelineJsData = {
+  title: { text: { headline: 'Space race' } },
+  events: [
+    {
+      start_date: { year: '1969', month: '7', day: '20', hour: '20', minute: '17' },
+      text: { headline: 'Apollo 11', text: '<p>First crewed landing</p>' },
+      media: { url: 'https://example.com/eagle.jpg', caption: 'The Eagle' },
+      group: 'NASA',
+      unique_id: 'apollo-11',
+    },
+    { start_date: { year: 1957, month: 10 }, end_date: { year: 1958, month: 1 }, text: { headline: 'Sputnik 1' }, group: 'USSR' },
+    { start_date: { year: -500 }, text: { headline: 'Antiquity' } },
+    { start_date: { year: '' }, text: { headline: 'Undated' } },
+  ],
+  eras: [
+    { start_date: { year: 1955 }, end_date: { year: 1975 }, text: { headline: 'Space race' } },
+  ],
+};
+
+describe('fromTimelineJs', () => {
+  it('converts slides, eras and groups', () => {
+    const { data, hotZones, lanes } = fromTimelineJs(timelineJs);
+
+    expect(data.events).toEqual([
+      {
+        id: 'apollo-11',
+        start: '1969-07-20T20:17:00',
+        title: 'Apollo 11',
+        description: '<p>First crewed landing</p>',
+        image: 'https://example.com/eagle.jpg',
+        caption: 'The Eagle',
+        group: 'NASA',
+      },
+      { start: '1957-10', end: '1958-01', title: 'Sputnik 1', group: 'USSR' },
+      { start: '-500', title: 'Antiquity' },
+    ]);
+    expect(hotZones).toEqual([{ start: '1955', end: '1975', annotation: 'Space race' }]);
+    expect(lanes.map(lane => [lane.id, lane.label])).toEqual([['NASA', 'NASA'], ['USSR', 'USSR']]);
+    expect(data.events.filter(lanes[1].filter).map(e => e.title)).toEqual(['Sputnik 1']);
+  });
+
+  it('round-trips through toTimelineJs', () => {
+    const { data, hotZones } = fromTimelineJs(timelineJs);
+    const back = toTimelineJs(data, hotZones);
+    expect(back.events[0]).toEqual({
+      start_date: { year: 1969, month: 7, day: 20, hour: 20, minute: 17, second: 0 },
+      text: { headline: 'Apollo 11', text: '<p>First crewed landing</p>' },
+      media: { url: 'https://example.com/eagle.jpg', caption: 'The Eagle' },
+      group: 'NASA',
+      unique_id: 'apollo-11',
+    });
+    expect(back.events[2].start_date).toEqual({ year: -500 });
+    expect(back.eras).toEqual([{ start_date: { year: 1955 }, end_date: { year: 1975 }, text: { headline: 'Space race' } }]);
+    expect(fromTimelineJs(back).data).toEqual(data);
+  });
+});
+
+describe('fromVisTimeline', () => {
+  it('converts items, background items and groups', () => {
+    const { data, hotZones, lanes } = fromVisTimeline(
+      [
+        { id: 1, content: '<b>Kickoff</b> &amp; planning', start: '2023-01-10', group: 'ops', title: 'All hands', className: 'urgent' },
+        { id: 2, content: 'Build', start: new Date(Date.UTC(2023, 1, 1)), end: Date.UTC(2023, 2, 1), group: 'dev' },
+        { id: 3, content: 'Review', start: '2023-03-05', end: '2023-03-06', type: 'point' },
+        { content: 'Freeze', start: '2023-03-10', end: '2023-03-20', type: 'background' },
+      ],
+      [{ id: 'dev', content: 'Development' }, { id: 'ops', content: '<i>Operations</i>' }]
+    );
+
+    expect(data.events).toEqual([
+      { id: '1', start: '2023-01-10', title: 'Kickoff & planning', caption: 'All hands', classname: 'urgent', group: 'ops' },
+      { id: '2', start: '2023-02-01T00:00:00.000Z', end: '2023-03-01T00:00:00.000Z', title: 'Build', group: 'dev' },
+      { id: '3', start: '2023-03-05', title: 'Review' },
+    ]);
+    expect(hotZones).toEqual([{ start: '2023-03-10', end: '2023-03-20', annotation: 'Freeze' }]);
+    expect(lanes.map(lane => [lane.id, lane.label])).toEqual([['dev', 'Development'], ['ops', 'Operations']]);
+    expect(data.events.filter(lanes[0].filter).map(e => e.title)).toEqual(['Build']);
+  });
+
+  describe('without a DOM', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('strips markup and decodes references', () => {
+      vi.stubGlobal('DOMParser', undefined);
+      const { data } = fromVisTimeline([
+        { id: 1, content: '<b>Launch</b> &lt;v2&gt; &#38; &#x263A;<script>alert(1)</script>', start: '2023-01-10' },
+      ]);
+      expect(data.events[0].title).toBe('Launch <v2> & \u263A');
+    });
+  });
+
+  it('escapes titles as HTML and reads them back unchanged', () => {
+    const data = { events: [{ id: 'a', start: '2023-01-10', title: 'a <b> c & "d"', group: '<ops>' }] };
+    const { items, groups } = toVisTimeline(data);
+    expect(items[0].content).toBe('a &lt;b&gt; c &amp; &quot;d&quot;');
+    expect(groups).toEqual([{ id: '<ops>', content: '&lt;ops&gt;' }]);
+
+    const back = fromVisTimeline(items, groups);
+    expect(back.data).toEqual(data);
+    expect(back.lanes.map(lane => lane.label)).toEqual(['<ops>']);
+  });
+
+  it('round-trips through toVisTimeline', () => {
+    const data = {
+      events: [
+        { id: 'a', start: '2023-01-10', title: 'Kickoff', group: 'ops', caption: 'All hands' },
+        { id: 'b', start: '2023-02-01', end: '2023-03-01', title: 'Build', group: 'dev', classname: 'urgent' },
+      ],
+    };
+    const hotZones = [{ start: '2023-03-10', end: '2023-03-20', annotation: 'Freeze' }];
+    const { items, groups } = toVisTimeline(data, hotZones);
+
+    expect(items).toEqual([
+      { id: 'a', content: 'Kickoff', start: '2023-01-10', type: 'box', group: 'ops', title: 'All hands' },
+      { id: 'b', content: 'Build', start: '2023-02-01', end: '2023-03-01', type: 'range', group: 'dev', className: 'urgent' },
+      { id: 'zone-0', content: 'Freeze', start: '2023-03-10', end: '2023-03-20', type: 'background' },
+    ]);
+    expect(groups).toEqual([{ id: 'ops', content: 'ops' }, { id: 'dev', content: 'dev' }]);
+
+    const back = fromVisTimeline(items, groups);
+    expect(back.data).toEqual(data);
+    expect(back.hotZones).toEqual(hotZones);
+  });
+});
@@ -0,0 +1,371 @@
+/**
+ * Format adapters
+ * Data from Knight Lab's TimelineJS and from vis-timeline converted to and
+ * from timeline data, hot zones and lanes
+ */
+
+import type { HotZone, LaneConfig, TimelineData, TimelineEvent } from '../types';
+import { tryParseDate } from './dateUtils';
+import { generateEventId } from './layoutEngine';
+
+/**
+ * Timeline data converted from another format, with the hot zones and
+ * swimlanes that format expresses alongside its events
+ */
+export interface ConvertedTimeline {
+  data: TimelineData;
+  /** Periods the source highlights: TimelineJS eras, vis-timeline background items */
+  hotZones: HotZone[];
+  /** A lane per group, for `BandConfig.lanes`; events carry their group in `group` */
+  lanes: LaneConfig[];
+}
+
+/**
+ * A TimelineJS date: year, and optionally finer fields, as numbers or
+ * numeric strings
+ */
+export interface TimelineJsDate {
+  year: number | string;
+  month?: number | string;
+  day?: number | string;
+  hour?: number | string;
+  minute?: number | string;
+  second?: number | string;
+  millisecond?: number | string;
+  display_date?: string;
+}
+
+/**
+ * A TimelineJS slide or era's headline and body
+ */
+export interface TimelineJsText {
+  headline?: string;
+  text?: string;
+}
+
+/**
+ * A TimelineJS slide's media
+ */
+export interface TimelineJsMedia {
+  url: string;
+  caption?: string;
+  credit?: string;
+  thumbnail?: string;
+  alt?: string;
+  title?: string;
+  link?: string;
+}
+
+/**
+ * A TimelineJS event slide
+ */
+export interface TimelineJsEvent {
+  start_date: TimelineJsDate;
+  end_date?: TimelineJsDate;
+  text?: TimelineJsText;
+  media?: TimelineJsMedia;
+  group?: string;
+  display_date?: string;
+  unique_id?: string;
+}
+
+/**
+ * A TimelineJS era: a labelled period behind the events
+ */
+export interface TimelineJsEra {
+  start_date: TimelineJsDate;
+  end_date: TimelineJsDate;
+  text?: TimelineJsText;
+}
+
+/**
+ * A Knight Lab TimelineJS document
+ */
+export interface TimelineJsData {
+  title?: { text?: TimelineJsText; media?: TimelineJsMedia };
+  events: TimelineJsEvent[];
+  eras?: TimelineJsEra[];
+  scale?: 'human' | 'cosmological';
+}
+
+/**
+ * An item of a vis-timeline `DataSet`
+ */
+export interface VisTimelineItem {
+  id?: string | number;
+  /** Label, as text or HTML */
+  content: string;
+  start: Date | number | string;
+  end?: Date | number | string;
+  type?: 'box' | 'point' | 'range' | 'background';
+  group?: string | number;
+  className?: string;
+  /** Tooltip */
+  title?: string;
+  style?: string;
+}
+
+/**
+ * A group (row) of a vis-timeline
+ */
+export interface VisTimelineGroup {
+  id: string | number;
+  /** Label, as text or HTML */
+  content: string;
+  className?: string;
+}
+
+/**
+ * Convert a TimelineJS document. Headlines become titles and body text
+ * descriptions; media URLs become images, with their captions; `unique_id`
+ * becomes the id and `group` is kept, with a lane per group in order of
+ * first appearance. Eras become hot zones annotated with their headlines.
+ * Events whose start has no year are left out. The title slide has no
+ * counterpart and is dropped.
+ */
+export function fromTimelineJs(source: TimelineJsData): ConvertedTimeline {
+  const events: TimelineEvent[] = [];
+  for (const slide of source.events) {
+    const start = fromTimelineJsDate(slide.start_date);
+    if (!start) continue;
+    const event: TimelineEvent = { start, title: slide.text?.headline ?? '' };
+    const end = slide.end_date && fromTimelineJsDate(slide.end_date);
+    if (end) event.end = end;
+    if (slide.unique_id) event.id = slide.unique_id;
+    if (slide.text?.text) event.description = slide.text.text;
+    if (slide.media?.url) event.image = slide.media.url;
+    if (slide.media?.caption) event.caption = slide.media.caption;
+    if (slide.group) event.group = slide.group;
+    events.push(event);
+  }
+
+  const hotZones: HotZone[] = [];
+  for (const era of source.eras ?? []) {
+    const start = fromTimelineJsDate(era.start_date);
+    const end = fromTimelineJsDate(era.end_date);
+    if (!start || !end) continue;
+    const zone: HotZone = { start, end };
+    if (era.text?.headline) zone.annotation = era.text.headline;
+    hotZones.push(zone);
+  }
+
+  const groups = [...new Set(events.flatMap(e => (e.group === undefined ? [] : [e.group])))];
+  return { data: { events }, hotZones, lanes: groups.map(group => groupLane(group, group)) };
+}
+
+/**
+ * Convert timeline data, and any hot zones as eras, to a TimelineJS
+ * document; the reverse of fromTimelineJs. Events whose dates cannot be
+ * read are left out.
+ */
+export function toTimelineJs(data: TimelineData, hotZones: HotZone[] = []): TimelineJsData {
+  const events: TimelineJsEvent[] = [];
+  for (const event of data.events) {
+    const start = toTimelineJsDate(event.start);
+    const end = event.end ? toTimelineJsDate(event.end) : undefined;
+    if (!start || end === null) continue;
+    const text: TimelineJsText = { headline: event.title };
+    if (event.description) text.text = event.description;
+    const slide: TimelineJsEvent = { start_date: start, text };
+    if (end) slide.end_date = end;
+    if (event.id) slide.unique_id = event.id;
+    if (event.image) slide.media = event.caption ? { url: event.image, caption: event.caption } : { url: event.image };
+    if (event.group) slide.group = event.group;
+    events.push(slide);
+  }
+
+  const eras: TimelineJsEra[] = [];
+  for (const zone of hotZones) {
+    const start = toTimelineJsDate(zone.start);
+    const end = toTimelineJsDate(zone.end);
+    if (!start || !end) continue;
+    eras.push(zone.annotation ? { start_date: start, end_date: end, text: { headline: zone.annotation } } : { start_date: start, end_date: end });
+  }
+  return eras.length > 0 ? { events, eras } : { events };
+}
+
+/**
+ * Convert vis-timeline items and groups. Item content, stripped of HTML,
+ * becomes the title and the tooltip the caption; `className` becomes
+ * `classname` and `group` is kept, with a lane per group (labelled by its
+ * content) in the order given. Ranges keep their end and points and boxes
+ * drop it. Background items become hot zones.
+ */
+export function fromVisTimeline(items: VisTimelineItem[], groups: VisTimelineGroup[] = []): ConvertedTimeline {
+  const events: TimelineEvent[] = [];
+  const hotZones: HotZone[] = [];
+  for (const item of items) {
+    const start = fromVisDate(item.start);
+    const end = item.end === undefined ? undefined : fromVisDate(item.end);
+    if (!start) continue;
+
+    if (item.type === 'background') {
+      if (!end) continue;
+      const zone: HotZone = { start, end };
+      const label = stripHtml(item.content);
+      if (label) zone.annotation = label;
+      hotZones.push(zone);
+      continue;
+    }
+
+    const event: TimelineEvent = { start, title: stripHtml(item.content) };
+    // vis-timeline draws an end only on ranges, and an item with one is a range
+    if (end && (item.type === undefined || item.type === 'range')) event.end = end;
+    if (item.id !== undefined) event.id = String(item.id);
+    if (item.title) event.caption = item.title;
+    if (item.className) event.classname = item.className;
+    if (item.group !== undefined) event.group = String(item.group);
+    events.push(event);
+  }
+
+  return {
+    data: { events },
+    hotZones,
+    lanes: groups.map(group => groupLane(String(group.id), stripHtml(group.content))),
+  };
+}
+
+/**
+ * Convert timeline data, and any hot zones as background items, to
+ * vis-timeline items and groups; the reverse of fromVisTimeline. There is a
+ * group per `group` value, labelled by it. Titles, annotations and group
+ * labels are HTML-escaped, as vis-timeline renders content as HTML.
+ */
+export function toVisTimeline(
+  data: TimelineData,
+  hotZones: HotZone[] = []
+): { items: VisTimelineItem[]; groups: VisTimelineGroup[] } {
+  const items: VisTimelineItem[] = data.events.map(event => {
+    const item: VisTimelineItem = {
+      id: event.id ?? generateEventId(event),
+      content: escapeHtml(event.title),
+      start: event.start,
+      type: event.end ? 'range' : 'box',
+    };
+    if (event.end) item.end = event.end;
+    if (event.group !== undefined) item.group = event.group;
+    if (event.classname) item.className = event.classname;
+    if (event.caption) item.title = event.caption;
+    return item;
+  });
+  hotZones.forEach((zone, i) => {
+    items.push({ id: `zone-${i}`, content: escapeHtml(zone.annotation ?? ''), start: zone.start, end: zone.end, type: 'background' });
+  });
+
+  const groups = [...new Set(data.events.flatMap(e => (e.group === undefined ? [] : [e.group])))];
+  return { items, groups: groups.map(group => ({ id: group, content: escapeHtml(group) })) };
+}
+
+/**
+ * A lane holding the events of one group
+ */
+function groupLane(group: string, label: string): LaneConfig {
+  return { id: group, label, filter: event => event.group === group };
+}
+
+/**
+ * A TimelineJS date as a timeline date string, as precise as the fields
+ * given: `'-500'`, `'1969-07'`, `'1969-07-20'` or a local date-time. Null
+ * without a year.
+ */
+function fromTimelineJsDate(date: TimelineJsDate): string | null {
+  const year = toInteger(date.year);
+  if (year === undefined) return null;
+  const month = toInteger(date.month);
+  const day = toInteger(date.day);
+  // Finer fields only in years an ISO date can hold
+  if (month === undefined || year < 0 || year > 9999) return String(year);
+
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  let text = `${pad(year, 4)}-${pad(month)}`;
+  if (day === undefined) return text;
+  text += `-${pad(day)}`;
+
+  const hour = toInteger(date.hour);
+  if (hour === undefined) return text;
+  text += `T${pad(hour)}:${pad(toInteger(date.minute) ?? 0)}:${pad(toInteger(date.second) ?? 0)}`;
+  const millisecond = toInteger(date.millisecond);
+  return millisecond ? `${text}.${pad(millisecond, 3)}` : text;
+}
+
+/**
+ * A timeline date string as a TimelineJS date with the fields it gives, or
+ * null if it cannot be read
+ */
+function toTimelineJsDate(value: string): TimelineJsDate | null {
+  const trimmed = value.trim();
+  if (/^-?\d+$/.test(trimmed)) return { year: Number(trimmed) };
+  const dateOnly = trimmed.match(/^(\d{4})-(\d{2})(?:-(\d{2}))?$/);
+  if (dateOnly) {
+    const [, year, month, day] = dateOnly;
+    return day ? { year: Number(year), month: Number(month), day: Number(day) } : { year: Number(year), month: Number(month) };
+  }
+
+  const date = tryParseDate(trimmed);
+  if (!date) return null;
+  const result: TimelineJsDate = { year: date.getFullYear(), month: date.getMonth() + 1, day: date.getDate() };
+  if (date.getHours() || date.getMinutes() || date.getSeconds() || date.getMilliseconds()) {
+    result.hour = date.getHours();
+    result.minute = date.getMinutes();
+    result.second = date.getSeconds();
+    if (date.getMilliseconds()) result.millisecond = date.getMilliseconds();
+  }
+  return result;
+}
+
+/**
+ * A vis-timeline date as a timeline date string, or null if invalid
+ */
+function fromVisDate(value: Date | number | string): string | null {
+  if (typeof value === 'string') return value.trim() || null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+/**
+ * A whole number from a number or numeric string, else undefined
+ */
+function toInteger(value: number | string | undefined): number | undefined {
+  if (value === undefined || (typeof value === 'string' && value.trim() === '')) return undefined;
+  const number = Number(value);
+  return Number.isInteger(number) ? number : undefined;
+}
+
+/** Named character references decoded in vis-timeline content */
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: '\u00A0',
+};
+
+/**
+ * The text of an HTML fragment: tags, scripts and styles dropped and
+ * character references decoded. Needs no DOM, so it runs on a server too.
+ */
+function stripHtml(html: string): string {
+  if (!/[<&]/.test(html)) return html.trim();
+  return html
+    .replace(/<(script|style)\b[^>]*>[\s\S]*?<\/\1\s*>/gi, '')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (reference, name: string) => {
+      if (name[0] !== '#') return HTML_ENTITIES[name.toLowerCase()] ?? reference;
+      const code = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : Number(name.slice(1));
+      return code <= 0x10ffff ? String.fromCodePoint(code) : reference;
+    })
+    .trim();
+}
+
+/**
+ * Text as HTML that displays it, for vis-timeline content, which is HTML
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
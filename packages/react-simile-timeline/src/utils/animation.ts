@@ -0,0 +1,36 @@
+/**
+ * Animation helpers shared by the provider's transitions and pan momentum
+ */
+
+/**
+ * Whether the user has asked for reduced motion. Guarded for non-browser and
+ * jsdom environments where matchMedia may be absent.
+ */
+export function prefersReducedMotion(): boolean {
+  return (
+    typeof window !== 'undefined' &&
+    typeof window.matchMedia === 'function' &&
+    window.matchMedia('(prefers-reduced-motion: reduce)').matches
+  );
+}
+
+/**
+ * Constant speed over t in [0, 1]
+ */
+export function linear(t: number): number {
+  return t;
+}
+
+/**
+ * Cubic ease-out over t in [0, 1]: fast start, gentle stop
+ */
+export function easeOutCubic(t: number): number {
+  return 1 - Math.pow(1 - t, 3);
+}
+
+/**
+ * Cubic ease-in-out over t in [0, 1]
+ */
+export function easeInOutCubic(t: number): number {
+  return t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+}
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { buildSyncGraph, getBandKey, propagateScroll } from './bandSync';
+import type { BandConfig } from '../types';
+
+describe('getBandKey', () => {
+  it('uses the band id, or its index when it has none', () => {
+    expect(getBandKey({ id: 'main' }, 3)).toBe('main');
+    expect(getBandKey({}, 3)).toBe('band-3');
+  });
+});
+
+describe('buildSyncGraph', () => {
+  it('treats the first detail band as primary', () => {
+    const graph = buildSyncGraph([
+      { id: 'overview', overview: true },
+      { id: 'detail' },
+    ]);
+    expect(graph.primary).toBe('detail');
+  });
+
+  it('links bands without syncWith to the primary band', () => {
+    const graph = buildSyncGraph([{ id: 'a' }, { id: 'b' }]);
+    expect(propagateScroll(graph, 'a', 100).get('b')).toBe(100);
+  });
+
+  it('seeds offsets along syncWith chains', () => {
+    const day = 86400000;
+    const graph = buildSyncGraph([
+      { id: 'main' },
+      { id: 'lag', syncWith: 'main', syncOffset: -day },
+      { id: 'lag2', syncWith: 'lag', syncOffset: -day },
+    ]);
+    expect(graph.offsets).toEqual({ main: 0, lag: -day, lag2: -2 * day });
+  });
+});
+
+describe('propagateScroll', () => {
+  const bands: BandConfig[] = [
+    { id: 'main' },
+    { id: 'context', syncWith: 'main', syncRatio: 0.5 },
+    { id: 'pinned', syncWith: 'main', syncRatio: 0 },
+    { id: 'free', independent: true },
+  ];
+  const graph = buildSyncGraph(bands);
+
+  it('scales a leader scroll by each follower ratio', () => {
+    const deltas = propagateScroll(graph, 'main', 1000);
+    expect(deltas.get('main')).toBe(1000);
+    expect(deltas.get('context')).toBe(500);
+    expect(deltas.get('pinned')).toBe(0);
+  });
+
+  it('drives the leader back by the inverse ratio', () => {
+    const deltas = propagateScroll(graph, 'context', 500);
+    expect(deltas.get('main')).toBe(1000);
+  });
+
+  it('does not carry a pinned band scroll back to its leader', () => {
+    const deltas = propagateScroll(graph, 'pinned', 500);
+    expect(deltas.has('main')).toBe(false);
+  });
+
+  it('leaves independent bands out of every other band scroll', () => {
+    expect(propagateScroll(graph, 'main', 1000).has('free')).toBe(false);
+    const own = propagateScroll(graph, 'free', 1000);
+    expect([...own.keys()]).toEqual(['free']);
+  });
+
+  it('treats an unknown source as the primary band', () => {
+    expect(propagateScroll(graph, 'nope', 10).get('main')).toBe(10);
+  });
+});
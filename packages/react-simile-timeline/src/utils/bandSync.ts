@@ -0,0 +1,129 @@
+/**
+ * Band synchronization graph
+ * Resolves `BandConfig.syncWith` links into a graph that turns a scroll on one
+ * band into the scroll each connected band should make
+ */
+
+import type { BandConfig } from '../types';
+
+/**
+ * One directed sync link: moving `from` by d moves `to` by d * ratio
+ */
+export interface SyncLink {
+  to: string;
+  ratio: number;
+}
+
+/**
+ * Sync graph keyed by band key (see getBandKey)
+ */
+export interface BandSyncGraph {
+  /** Key of the primary band, the root that unlinked bands follow */
+  primary: string;
+  /** Outgoing links per band */
+  links: Map<string, SyncLink[]>;
+  /** Initial center offset of each band from the primary, in ms */
+  offsets: Record<string, number>;
+}
+
+/**
+ * Stable key for a band: its `id`, or its position when it has none
+ */
+export function getBandKey(band: BandConfig, index: number): string {
+  return band.id ?? `band-${index}`;
+}
+
+/**
+ * Index of the primary band: the first detail band, else the first band
+ */
+export function getPrimaryBandIndex(bands: BandConfig[]): number {
+  const index = bands.findIndex(b => !b.overview);
+  return index === -1 ? 0 : index;
+}
+
+/**
+ * Build the sync graph for a band list.
+ *
+ * A band with `syncWith` naming a known band follows that band at its
+ * `syncRatio` (default 1, locked). A band with no `syncWith`, or one naming
+ * an unknown id, follows the primary band, which is how every band shared one
+ * center before per-band scrolling. An `independent` band has no link at all
+ * and scrolls only when dragged itself, unless another band syncs with it.
+ *
+ * Links are bidirectional: scrolling a follower drives its leader by the
+ * inverse ratio, except at ratio 0, where the follower is pinned and carries
+ * nothing back.
+ */
+export function buildSyncGraph(bands: BandConfig[]): BandSyncGraph {
+  const keys = bands.map(getBandKey);
+  const primary = keys[getPrimaryBandIndex(bands)] ?? 'band-0';
+  const known = new Set(keys);
+
+  const links = new Map<string, SyncLink[]>();
+  keys.forEach(key => links.set(key, []));
+
+  // Leader of each band plus the offset it holds from that leader
+  const leaders = new Map<string, { leader: string; offset: number }>();
+
+  bands.forEach((band, index) => {
+    const key = keys[index];
+    if (key === primary && !band.syncWith) return;
+    if (band.independent && !band.syncWith) return;
+
+    const leader = band.syncWith && known.has(band.syncWith) ? band.syncWith : primary;
+    if (leader === key) return;
+
+    const ratio = band.syncRatio ?? 1;
+    links.get(leader)!.push({ to: key, ratio });
+    if (ratio !== 0) {
+      links.get(key)!.push({ to: leader, ratio: 1 / ratio });
+    }
+    leaders.set(key, { leader, offset: band.syncOffset ?? 0 });
+  });
+
+  // Resolve offsets from the primary outward. Bands unreachable from it
+  // (independent islands) start level with the primary plus their own offset.
+  const offsets: Record<string, number> = { [primary]: 0 };
+  const resolve = (key: string, seen: Set<string>): number => {
+    if (key in offsets) return offsets[key];
+    const link = leaders.get(key);
+    if (!link || seen.has(key)) {
+      offsets[key] = bands[keys.indexOf(key)]?.syncOffset ?? 0;
+      return offsets[key];
+    }
+    seen.add(key);
+    offsets[key] = resolve(link.leader, seen) + link.offset;
+    return offsets[key];
+  };
+  keys.forEach(key => resolve(key, new Set()));
+
+  return { primary, links, offsets };
+}
+
+/**
+ * Spread a scroll of `deltaMs` on one band across the graph. Returns the delta
+ * for every band it reaches (the source included); bands not in the result
+ * stay put. Breadth-first, so where a cycle holds conflicting ratios the
+ * shortest path wins. An unknown source is treated as the primary band.
+ */
+export function propagateScroll(
+  graph: BandSyncGraph,
+  sourceKey: string,
+  deltaMs: number
+): Map<string, number> {
+  const source = graph.links.has(sourceKey) ? sourceKey : graph.primary;
+  const deltas = new Map<string, number>([[source, deltaMs]]);
+  const queue = [source];
+
+  while (queue.length > 0) {
+    const key = queue.shift()!;
+    const delta = deltas.get(key)!;
+    for (const { to, ratio } of graph.links.get(key) ?? []) {
+      if (deltas.has(to)) continue;
+      deltas.set(to, delta * ratio);
+      queue.push(to);
+    }
+  }
+
+  return deltas;
+}
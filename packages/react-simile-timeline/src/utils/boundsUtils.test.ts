@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getBoundsZoomLevel,
+  getCenterRange,
+  getDataExtent,
+  getOverscroll,
+  resolvePanBounds,
+} from './boundsUtils';
+import { prepareHotZones } from './dateUtils';
+
+const events = [
+  { start: '2020-03-01', title: 'A' },
+  { start: '2020-01-01', end: '2020-12-31', title: 'B' },
+  { start: 'not a date', title: 'C' },
+];
+
+describe('getDataExtent', () => {
+  it('spans the earliest start to the latest end', () => {
+    expect(getDataExtent(events)).toEqual({
+      minMs: new Date(2020, 0, 1).getTime(),
+      maxMs: new Date(2020, 11, 31).getTime(),
+    });
+  });
+
+  it('is null without a valid date', () => {
+    expect(getDataExtent([{ start: 'nope', title: 'X' }])).toBeNull();
+  });
+});
+
+describe('resolvePanBounds', () => {
+  it('is null when nothing bounds either side', () => {
+    expect(resolvePanBounds(events)).toBeNull();
+  });
+
+  it('lets an explicit date override one side of the data extent', () => {
+    const bounds = resolvePanBounds(events, 'data', undefined, '2021-06-01');
+    expect(bounds).toEqual({
+      minMs: new Date(2020, 0, 1).getTime(),
+      maxMs: new Date(2021, 5, 1).getTime(),
+    });
+  });
+
+  it('leaves an unset side open', () => {
+    const bounds = resolvePanBounds(events, undefined, new Date(2000, 0, 1));
+    expect(bounds!.maxMs).toBe(Infinity);
+  });
+
+  it('swaps bounds given the wrong way round', () => {
+    const bounds = resolvePanBounds([], undefined, '2021-01-01', '2020-01-01');
+    expect(bounds!.minMs).toBeLessThan(bounds!.maxMs);
+  });
+});
+
+describe('getCenterRange', () => {
+  const bounds = { minMs: 0, maxMs: 1000 };
+
+  it('keeps half a viewport inside each bound', () => {
+    expect(getCenterRange(bounds, 200, 1)).toEqual({ minMs: 100, maxMs: 900 });
+  });
+
+  it('meets in the middle when the bounds are narrower than the viewport', () => {
+    expect(getCenterRange(bounds, 2000, 1)).toEqual({ minMs: 500, maxMs: 500 });
+  });
+
+  it('measures half a viewport on the magnified axis', () => {
+    const zones = prepareHotZones([
+      { start: new Date(0).toISOString(), end: new Date(100).toISOString(), magnify: 2 },
+    ]);
+    // The first 100ms take 200px, so half of a 200px viewport covers 50ms
+    expect(getCenterRange(bounds, 200, 1, zones).minMs).toBe(50);
+  });
+});
+
+describe('getOverscroll', () => {
+  it('is signed by the side passed', () => {
+    const range = { minMs: 100, maxMs: 900 };
+    expect(getOverscroll(50, range)).toBe(-50);
+    expect(getOverscroll(500, range)).toBe(0);
+    expect(getOverscroll(950, range)).toBe(50);
+  });
+});
+
+describe('getBoundsZoomLevel', () => {
+  it('is the level at which the bounds fill the viewport', () => {
+    expect(getBoundsZoomLevel({ minMs: 0, maxMs: 1000 }, 500, 1)).toBe(0.5);
+  });
+
+  it('is 0 with an open side', () => {
+    expect(getBoundsZoomLevel({ minMs: 0, maxMs: Infinity }, 500, 1)).toBe(0);
+  });
+});
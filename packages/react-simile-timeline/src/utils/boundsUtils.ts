@@ -0,0 +1,110 @@
+/**
+ * Pan bounds
+ * Resolves `minDate`/`maxDate`/`bounds` into the range the visible window may
+ * cover, and from that the range the center may take and the widest zoom.
+ */
+
+import type { TimelineEvent } from '../types';
+import {
+  magnifiedDistance,
+  magnifiedTimeAt,
+  tryParseDate,
+  type MagnifiedZone,
+} from './dateUtils';
+
+/**
+ * Range the visible window is kept inside, in ms since the epoch
+ */
+export interface PanBounds {
+  minMs: number;
+  maxMs: number;
+}
+
+/**
+ * Earliest start and latest end (or start) across the events, or null when no
+ * event has a valid date
+ */
+export function getDataExtent(events: TimelineEvent[]): PanBounds | null {
+  let minMs = Infinity;
+  let maxMs = -Infinity;
+  for (const event of events) {
+    const start = tryParseDate(event.start);
+    if (!start) continue;
+    const end = event.end ? tryParseDate(event.end) : null;
+    minMs = Math.min(minMs, start.getTime());
+    maxMs = Math.max(maxMs, (end ?? start).getTime());
+  }
+  return minMs <= maxMs ? { minMs, maxMs } : null;
+}
+
+/**
+ * Resolve the pan bounds. Explicit dates win over the data extent, each side
+ * on its own, so `bounds: 'data'` with only `maxDate` bounds the start by the
+ * data. Returns null when unbounded on both sides; an open side is infinite.
+ * Unparseable dates are ignored; bounds given the wrong way round are swapped.
+ */
+export function resolvePanBounds(
+  events: TimelineEvent[],
+  bounds?: 'data',
+  minDate?: Date | string,
+  maxDate?: Date | string
+): PanBounds | null {
+  const toMs = (date: Date | string | undefined) => {
+    if (date === undefined) return null;
+    const parsed = date instanceof Date ? date : tryParseDate(date);
+    return parsed && !isNaN(parsed.getTime()) ? parsed.getTime() : null;
+  };
+
+  const extent = bounds === 'data' ? getDataExtent(events) : null;
+  const minMs = toMs(minDate) ?? extent?.minMs ?? -Infinity;
+  const maxMs = toMs(maxDate) ?? extent?.maxMs ?? Infinity;
+  if (minMs === -Infinity && maxMs === Infinity) return null;
+  return minMs <= maxMs ? { minMs, maxMs } : { minMs: maxMs, maxMs: minMs };
+}
+
+/**
+ * Range of centers that keep the visible window inside the bounds. When the
+ * bounds are narrower than the window, both ends meet at the bounds' middle.
+ */
+export function getCenterRange(
+  bounds: PanBounds,
+  viewportWidth: number,
+  pixelsPerMs: number,
+  zones: MagnifiedZone[] = []
+): PanBounds {
+  const halfWidth = viewportWidth / 2;
+  const minMs = isFinite(bounds.minMs)
+    ? magnifiedTimeAt(bounds.minMs, halfWidth, pixelsPerMs, zones)
+    : bounds.minMs;
+  const maxMs = isFinite(bounds.maxMs)
+    ? magnifiedTimeAt(bounds.maxMs, -halfWidth, pixelsPerMs, zones)
+    : bounds.maxMs;
+  if (minMs <= maxMs) return { minMs, maxMs };
+  const middle = (bounds.minMs + bounds.maxMs) / 2;
+  return { minMs: middle, maxMs: middle };
+}
+
+/**
+ * How far a center is past the range: negative before it, positive after,
+ * 0 inside
+ */
+export function getOverscroll(centerMs: number, range: PanBounds): number {
+  if (centerMs < range.minMs) return centerMs - range.minMs;
+  if (centerMs > range.maxMs) return centerMs - range.maxMs;
+  return 0;
+}
+
+/**
+ * Lowest zoom level at which the bounds still fill the viewport, so zooming
+ * out never shows past them. 0 when a side is open.
+ */
+export function getBoundsZoomLevel(
+  bounds: PanBounds,
+  viewportWidth: number,
+  basePixelsPerMs: number,
+  zones: MagnifiedZone[] = []
+): number {
+  if (!isFinite(bounds.minMs) || !isFinite(bounds.maxMs) || !(viewportWidth > 0)) return 0;
+  const boundsPixels = magnifiedDistance(bounds.minMs, bounds.maxMs, basePixelsPerMs, zones);
+  return boundsPixels > 0 ? viewportWidth / boundsPixels : 0;
+}
@@ -0,0 +1,134 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  DEFAULT_CANVAS_THEME,
+  drawTimelineCanvas,
+  getEventHitBoxes,
+  hitTestEvents,
+  orderHitBoxes,
+  readCanvasTheme,
+} from './canvasRenderer';
+import type { LayoutEvent } from './layoutEngine';
+
+function layoutEvent(id: string, overrides: Partial<LayoutEvent> = {}): LayoutEvent {
+  return {
+    event: { start: '2000-01-01', title: id },
+    id,
+    x: 100,
+    width: 60,
+    track: 0,
+    isDuration: false,
+    ...overrides,
+  };
+}
+
+/** A 2D context that records calls and the text drawn */
+function recordingContext() {
+  const text: string[] = [];
+  const ctx = {
+    fillText: vi.fn((value: string) => text.push(value)),
+    measureText: (value: string) => ({ width: value.length * 7 }),
+  } as Record<string, unknown>;
+  const proxy = new Proxy(ctx, {
+    get: (target, key: string) => (target[key] ??= vi.fn()),
+  });
+  return { ctx: proxy as unknown as CanvasRenderingContext2D, calls: ctx, text };
+}
+
+describe('canvas renderer — hit boxes', () => {
+  it('places each event on its track row, as wide as its layout', () => {
+    const [box] = getEventHitBoxes([layoutEvent('a', { track: 2 })], 24, 4);
+    expect(box).toMatchObject({ left: 100, right: 160, top: 60, bottom: 78 });
+  });
+
+  it('widens a sticky event to its pinned label', () => {
+    const [box] = getEventHitBoxes([
+      layoutEvent('a', { x: -200, width: 80, isSticky: true, stickyX: 8 }),
+    ]);
+    expect(box.left).toBe(-200);
+    expect(box.right).toBe(88);
+  });
+
+  it('stacks sticky events over plain ones and the selection over both', () => {
+    const boxes = getEventHitBoxes([
+      layoutEvent('selected'),
+      layoutEvent('sticky', { isSticky: true, stickyX: 8 }),
+      layoutEvent('plain'),
+    ]);
+    expect(orderHitBoxes(boxes, 'selected').map(b => b.layout.id)).toEqual([
+      'plain',
+      'sticky',
+      'selected',
+    ]);
+  });
+
+  it('hits the topmost event under a point, or none', () => {
+    const boxes = getEventHitBoxes([
+      layoutEvent('under', { width: 100 }),
+      layoutEvent('over', { x: 150 }),
+      layoutEvent('below', { track: 1 }),
+    ]);
+    expect(hitTestEvents(boxes, 160, 10)?.layout.id).toBe('over');
+    expect(hitTestEvents(boxes, 120, 10)?.layout.id).toBe('under');
+    expect(hitTestEvents(boxes, 120, 40)?.layout.id).toBe('below');
+    expect(hitTestEvents(boxes, 50, 10)).toBeNull();
+  });
+});
+
+describe('canvas renderer — drawing', () => {
+  const scene = {
+    width: 800,
+    height: 200,
+    eventAreaHeight: 176,
+    hotZones: [],
+    boxes: getEventHitBoxes([
+      layoutEvent('point'),
+      layoutEvent('span', { isDuration: true, durationWidth: 40, x: 300 }),
+    ]),
+    showLabels: true,
+  };
+
+  it('draws dots, tapes and their labels', () => {
+    const { ctx, calls, text } = recordingContext();
+    drawTimelineCanvas(ctx, scene);
+    expect(calls.arc).toHaveBeenCalledWith(105, 13, 5, 0, Math.PI * 2);
+    expect(calls.roundRect).toHaveBeenCalledWith(300, 4, 40, 18, 3);
+    expect(text).toEqual(['point', 'span']);
+  });
+
+  it('leaves labels off when the band hides them', () => {
+    const { ctx, text } = recordingContext();
+    drawTimelineCanvas(ctx, { ...scene, showLabels: false });
+    expect(text).toEqual([]);
+  });
+
+  it('rings the selected and focused events', () => {
+    const plain = recordingContext();
+    drawTimelineCanvas(plain.ctx, scene);
+    const ringed = recordingContext();
+    drawTimelineCanvas(ringed.ctx, { ...scene, selectedId: 'point', focusedId: 'span' });
+    // Two selection rings and one focus ring
+    expect(ringed.calls.stroke).toHaveBeenCalledTimes(3);
+    expect(plain.calls.stroke).toBeUndefined();
+  });
+
+  it('fills hot zones band-high behind the events, with their annotations', () => {
+    const { ctx, calls, text } = recordingContext();
+    const zone = { start: '2000-01-01', end: '2000-02-01', color: 'pink', annotation: 'Winter' };
+    drawTimelineCanvas(ctx, { ...scene, hotZones: [{ zone, x: 50, width: 200 }] });
+    expect(calls.fillRect).toHaveBeenCalledWith(50, 0, 200, 200);
+    expect(text[0]).toBe('Winter');
+  });
+});
+
+describe('canvas renderer — theme', () => {
+  it('reads colors from CSS variables and falls back to the defaults', () => {
+    const element = document.createElement('div');
+    element.style.setProperty('--event-text-color', '#123456');
+    document.body.appendChild(element);
+    const theme = readCanvasTheme(element);
+    element.remove();
+
+    expect(theme.textColor).toBe('#123456');
+    expect(theme.focusRingColor).toBe(DEFAULT_CANVAS_THEME.focusRingColor);
+  });
+});
@@ -0,0 +1,339 @@
+/**
+ * Canvas renderer
+ * Draws a band's hot zones and laid-out events on a 2D canvas, and finds the
+ * event under a point, from the same layout the DOM markers are placed by
+ */
+
+import type { PositionedHotZone } from './dateUtils';
+import { TAPE_HEIGHT, type LayoutEvent } from './layoutEngine';
+
+/**
+ * The box an event covers on the canvas: its dot or tape and its label
+ */
+export interface EventHitBox {
+  /** The laid-out event */
+  layout: LayoutEvent;
+  left: number;
+  /** Top of the event's row */
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+/**
+ * Colors and font the canvas draws with, read from the timeline's CSS
+ * variables (see readCanvasTheme)
+ */
+export interface CanvasTheme {
+  /** Fallback event dot color */
+  eventColor: string;
+  /** Fallback duration tape color */
+  tapeColor: string;
+  /** Label color */
+  textColor: string;
+  /** Halo behind labels, so they read over tapes and grid lines */
+  haloColor: string;
+  /** Gap between a selected event and its ring */
+  selectedRingColor: string;
+  /** Background of a sticky label */
+  stickyLabelBackground: string;
+  /** Fallback hot zone fill */
+  hotZoneColor: string;
+  /** Hot zone annotation color */
+  hotZoneTextColor: string;
+  /** Hot zone edge color */
+  hotZoneBorderColor: string;
+  /** Keyboard focus ring */
+  focusRingColor: string;
+  fontFamily: string;
+  fontSize: string;
+}
+
+/**
+ * What to draw, in pixels of the canvas' CSS box
+ */
+export interface CanvasScene {
+  width: number;
+  height: number;
+  /** Height events are clipped to, above the time scale's clearance */
+  eventAreaHeight: number;
+  hotZones: PositionedHotZone[];
+  /** Event boxes in drawing order (see orderHitBoxes) */
+  boxes: EventHitBox[];
+  showLabels: boolean;
+  selectedId?: string | null;
+  focusedId?: string | null;
+}
+
+/** Theme matching the DOM markers' defaults and the classic theme's variables */
+export const DEFAULT_CANVAS_THEME: CanvasTheme = {
+  eventColor: '#4a90d9',
+  tapeColor: '#6ba3d6',
+  textColor: '#333',
+  haloColor: '#ffffff',
+  selectedRingColor: 'white',
+  stickyLabelBackground: 'rgba(255, 255, 255, 0.95)',
+  hotZoneColor: 'rgba(255, 220, 100, 0.3)',
+  hotZoneTextColor: '#888',
+  hotZoneBorderColor: 'rgba(0, 0, 0, 0.1)',
+  focusRingColor: '#1a73e8',
+  fontFamily: 'system-ui, sans-serif',
+  fontSize: '12px',
+};
+
+/** CSS variable behind each theme color */
+const THEME_VARIABLES: Partial<Record<keyof CanvasTheme, string>> = {
+  textColor: '--event-text-color',
+  haloColor: '--band-bg',
+  selectedRingColor: '--event-selected-ring-color',
+  stickyLabelBackground: '--sticky-label-bg',
+  hotZoneTextColor: '--hot-zone-text-color',
+  hotZoneBorderColor: '--hot-zone-border-color',
+  focusRingColor: '--focus-ring-color',
+  fontFamily: '--timeline-font-family',
+  fontSize: '--event-font-size',
+};
+
+/** Event dot diameter */
+const DOT_WIDTH = 10;
+/** Padding between a dot or tape and its label */
+const LABEL_PADDING = 6;
+/** Horizontal padding inside a sticky label's background */
+const STICKY_PADDING = 6;
+/** Diameter of the dot ahead of a sticky point event's label */
+const STICKY_INDICATOR = 8;
+/** Corner radius of tapes and sticky labels */
+const CORNER_RADIUS = 3;
+
+/**
+ * Read the canvas theme from the CSS variables in effect on an element,
+ * falling back to the defaults for any that are unset
+ */
+export function readCanvasTheme(element: Element): CanvasTheme {
+  const style = getComputedStyle(element);
+  const theme = { ...DEFAULT_CANVAS_THEME };
+  for (const [key, variable] of Object.entries(THEME_VARIABLES) as [keyof CanvasTheme, string][]) {
+    const value = style.getPropertyValue(variable).trim();
+    if (value) theme[key] = value;
+  }
+  return theme;
+}
+
+/**
+ * Boxes of laid-out events, in layout order. A row is a tape's height, the
+ * dot and label centered in it as the DOM markers are; a sticky label
+ * widens the box to where it is pinned.
+ */
+export function getEventHitBoxes(
+  layoutEvents: LayoutEvent[],
+  trackHeight: number = 24,
+  trackGap: number = 4
+): EventHitBox[] {
+  return layoutEvents.map(layout => {
+    const y = layout.track * (trackHeight + trackGap) + trackGap;
+    let left = layout.x;
+    let right = layout.x + layout.width;
+    if (layout.isSticky && layout.stickyX !== undefined) {
+      left = Math.min(left, layout.stickyX);
+      right = Math.max(right, layout.stickyX + layout.width);
+    }
+    return { layout, left, top: y, right, bottom: y + TAPE_HEIGHT };
+  });
+}
+
+/**
+ * Boxes in drawing order, bottom first: plain events, then sticky ones, then
+ * the selection, as the DOM markers stack
+ */
+export function orderHitBoxes(boxes: EventHitBox[], selectedId?: string | null): EventHitBox[] {
+  const layer = (box: EventHitBox) =>
+    box.layout.id === selectedId ? 2 : box.layout.isSticky ? 1 : 0;
+  return [...boxes].sort((a, b) => layer(a) - layer(b));
+}
+
+/**
+ * The topmost box under a point, given boxes in drawing order; null if none
+ */
+export function hitTestEvents(boxes: EventHitBox[], x: number, y: number): EventHitBox | null {
+  for (let i = boxes.length - 1; i >= 0; i--) {
+    const box = boxes[i];
+    if (x >= box.left && x <= box.right && y >= box.top && y <= box.bottom) return box;
+  }
+  return null;
+}
+
+/**
+ * Draw hot zones, then events, onto a context already scaled to CSS pixels
+ */
+export function drawTimelineCanvas(
+  ctx: CanvasRenderingContext2D,
+  scene: CanvasScene,
+  theme: CanvasTheme = DEFAULT_CANVAS_THEME
+): void {
+  ctx.clearRect(0, 0, scene.width, scene.height);
+  for (const hotZone of scene.hotZones) {
+    drawHotZone(ctx, hotZone, scene.height, theme);
+  }
+
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(0, 0, scene.width, scene.eventAreaHeight);
+  ctx.clip();
+  ctx.textBaseline = 'middle';
+  for (const box of scene.boxes) {
+    drawEvent(ctx, box, scene, theme);
+  }
+  ctx.restore();
+}
+
+/**
+ * A hot zone's band-high fill and edges, with its annotation along the bottom
+ */
+function drawHotZone(
+  ctx: CanvasRenderingContext2D,
+  { zone, x, width }: PositionedHotZone,
+  height: number,
+  theme: CanvasTheme
+): void {
+  ctx.fillStyle = zone.color || theme.hotZoneColor;
+  ctx.fillRect(x, 0, width, height);
+  ctx.fillStyle = theme.hotZoneBorderColor;
+  ctx.fillRect(x, 0, 1, height);
+  ctx.fillRect(x + width - 1, 0, 1, height);
+
+  if (zone.annotation) {
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(x + 4, 0, Math.max(width - 8, 0), height);
+    ctx.clip();
+    ctx.font = `italic 500 10px ${theme.fontFamily}`;
+    ctx.textBaseline = 'bottom';
+    ctx.fillStyle = theme.hotZoneTextColor;
+    ctx.fillText(zone.annotation, x + 4, height - 4);
+    ctx.restore();
+  }
+}
+
+/**
+ * One event: its dot or tape, selection and focus rings, then its label
+ */
+function drawEvent(
+  ctx: CanvasRenderingContext2D,
+  box: EventHitBox,
+  scene: CanvasScene,
+  theme: CanvasTheme
+): void {
+  const { layout, top: y } = box;
+  const { event, x, isSticky = false } = layout;
+  const isSelected = layout.id === scene.selectedId;
+  const tapeWidth = layout.isDuration ? layout.durationWidth : undefined;
+  const color = event.color || (layout.isDuration ? theme.tapeColor : theme.eventColor);
+  const middle = y + TAPE_HEIGHT / 2;
+
+  if (tapeWidth) {
+    ctx.globalAlpha = isSelected ? 1 : 0.85;
+    ctx.fillStyle = color;
+    ctx.beginPath();
+    ctx.roundRect(x, y, tapeWidth, TAPE_HEIGHT, CORNER_RADIUS);
+    ctx.fill();
+    ctx.globalAlpha = 1;
+    if (isSelected) {
+      strokeRing(ctx, theme.selectedRingColor, 2, () =>
+        ctx.roundRect(x - 1, y - 1, tapeWidth + 2, TAPE_HEIGHT + 2, CORNER_RADIUS + 1)
+      );
+      strokeRing(ctx, color, 2, () =>
+        ctx.roundRect(x - 3, y - 3, tapeWidth + 6, TAPE_HEIGHT + 6, CORNER_RADIUS + 3)
+      );
+    }
+  } else if (!isSticky) {
+    const radius = DOT_WIDTH / 2;
+    ctx.fillStyle = color;
+    ctx.beginPath();
+    ctx.arc(x + radius, middle, radius, 0, Math.PI * 2);
+    ctx.fill();
+    if (isSelected) {
+      strokeRing(ctx, theme.selectedRingColor, 2, () =>
+        ctx.arc(x + radius, middle, radius + 1, 0, Math.PI * 2)
+      );
+      strokeRing(ctx, color, 2, () => ctx.arc(x + radius, middle, radius + 3, 0, Math.PI * 2));
+    }
+  }
+
+  if (scene.showLabels) {
+    drawLabel(ctx, layout, middle, isSelected, color, theme);
+  }
+
+  if (layout.id === scene.focusedId) {
+    strokeRing(ctx, theme.focusRingColor, 2, () =>
+      ctx.rect(box.left - 2, box.top - 2, box.right - box.left + 4, box.bottom - box.top + 4)
+    );
+  }
+}
+
+/**
+ * An event's title beside its dot or tape, or pinned at the left edge on a
+ * background when sticky
+ */
+function drawLabel(
+  ctx: CanvasRenderingContext2D,
+  layout: LayoutEvent,
+  middle: number,
+  isSelected: boolean,
+  color: string,
+  theme: CanvasTheme
+): void {
+  const { event, isSticky = false } = layout;
+  ctx.font = `${isSelected || isSticky ? 600 : 400} ${theme.fontSize} ${theme.fontFamily}`;
+  const textColor = event.textColor || theme.textColor;
+
+  if (isSticky && layout.stickyX !== undefined) {
+    const prefix = layout.isDuration ? ctx.measureText('◀ ').width : STICKY_INDICATOR + 6;
+    const width = STICKY_PADDING * 2 + prefix + ctx.measureText(event.title).width;
+    ctx.fillStyle = theme.stickyLabelBackground;
+    ctx.beginPath();
+    ctx.roundRect(layout.stickyX, middle - 9, width, 18, CORNER_RADIUS);
+    ctx.fill();
+
+    const textX = layout.stickyX + STICKY_PADDING;
+    if (layout.isDuration) {
+      ctx.globalAlpha = 0.5;
+      ctx.fillStyle = textColor;
+      ctx.fillText('◀ ', textX, middle);
+      ctx.globalAlpha = 1;
+    } else {
+      ctx.fillStyle = color;
+      ctx.beginPath();
+      ctx.arc(textX + STICKY_INDICATOR / 2, middle, STICKY_INDICATOR / 2, 0, Math.PI * 2);
+      ctx.fill();
+    }
+    ctx.fillStyle = textColor;
+    ctx.fillText(event.title, textX + prefix, middle);
+    return;
+  }
+
+  const markerWidth = layout.isDuration && layout.durationWidth ? layout.durationWidth : DOT_WIDTH;
+  const textX = layout.x + markerWidth + LABEL_PADDING;
+  ctx.lineJoin = 'round';
+  ctx.lineWidth = 3;
+  ctx.strokeStyle = theme.haloColor;
+  ctx.strokeText(event.title, textX, middle);
+  ctx.fillStyle = textColor;
+  ctx.fillText(event.title, textX, middle);
+}
+
+/**
+ * Stroke a path traced by `trace`
+ */
+function strokeRing(
+  ctx: CanvasRenderingContext2D,
+  color: string,
+  lineWidth: number,
+  trace: () => void
+): void {
+  ctx.strokeStyle = color;
+  ctx.lineWidth = lineWidth;
+  ctx.beginPath();
+  trace();
+  ctx.stroke();
+}
+
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { parseCsv } from './csv';
+
+describe('parseCsv', () => {
+  it('reads events from columns named after their fields', () => {
+    const { data, errors } = parseCsv(
+      'Start,End,Title,isDuration,trackNum\n2023-01-01,2023-02-01,Beta,true,1\n2023-03-01,,Launch,,\n'
+    );
+    expect(errors).toEqual([]);
+    expect(data.events).toEqual([
+      { start: '2023-01-01', end: '2023-02-01', title: 'Beta', isDuration: true, trackNum: 1 },
+      { start: '2023-03-01', title: 'Launch' },
+    ]);
+  });
+
+  it('reads the columns a mapping names', () => {
+    const { data } = parseCsv(
+      'Release date,Name,Product\n2023-03-01,Launch,web\n',
+      { start: 'Release date', title: 'name', classname: 'Product' }
+    );
+    expect(data.events).toEqual([{ start: '2023-03-01', title: 'Launch', classname: 'web' }]);
+  });
+
+  it('handles quoted fields with delimiters, quotes and line breaks', () => {
+    const { data } = parseCsv(
+      'start,title,description\r\n2023-03-01,"Launch, v2","Said ""go""\nthen shipped"\r\n'
+    );
+    expect(data.events).toEqual([
+      { start: '2023-03-01', title: 'Launch, v2', description: 'Said "go"\nthen shipped' },
+    ]);
+  });
+
+  it('reads tab-separated values', () => {
+    const { data } = parseCsv('\uFEFFstart\ttitle\n2023-03-01\tLaunch, v2\n');
+    expect(data.events).toEqual([{ start: '2023-03-01', title: 'Launch, v2' }]);
+  });
+
+  it('reports rows whose dates cannot be read, by line', () => {
+    const { data, errors } = parseCsv(
+      'start,end,title,notes\n' +
+      'soon,,Draft,\n' +
+      '2023-03-01,2023-03-05,Launch,"two\nlines"\n' +
+      ',,Untimed,\n' +
+      '\n' +
+      '2023-04-01,whenever,Sale,\n'
+    );
+    expect(data.events.map(e => e.title)).toEqual(['Launch']);
+    expect(errors).toEqual([
+      { line: 2, field: 'start', value: 'soon', message: 'Unparseable start date "soon"' },
+      { line: 5, field: 'start', value: '', message: 'Missing start date' },
+      { line: 7, field: 'end', value: 'whenever', message: 'Unparseable end date "whenever"' },
+    ]);
+  });
+
+  it('throws without a start column', () => {
+    expect(() => parseCsv('title\nLaunch\n')).toThrow('CSV has no "start" column');
+    expect(() => parseCsv('title\nLaunch\n', { start: 'When' })).toThrow('CSV has no "When" column');
+  });
+});
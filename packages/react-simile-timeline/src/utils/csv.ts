@@ -0,0 +1,169 @@
+/**
+ * CSV
+ * Events kept in a spreadsheet, exported as comma- or tab-separated values
+ * with a header row, read into timeline data
+ */
+
+import type { CsvMapping, TimelineData, TimelineEvent } from '../types';
+import { tryParseDate } from './dateUtils';
+import { EVENT_FIELD_TYPES } from './validation';
+
+/**
+ * A row left out of the data, and why
+ */
+export interface CsvRowError {
+  /** Line of the file the row starts on (1 = the header) */
+  line: number;
+  /** Event field whose column could not be read */
+  field: 'start' | 'end';
+  /** The column's text */
+  value: string;
+  /** What is wrong with it */
+  message: string;
+}
+
+/**
+ * Events read from CSV, and the rows left out of them
+ */
+export interface CsvParseResult {
+  data: TimelineData;
+  errors: CsvRowError[];
+}
+
+/**
+ * Parse CSV or TSV with a header row into timeline data. Each event field
+ * is read from the column `mapping` names for it, else from a column named
+ * after the field; headers match ignoring case and surrounding space.
+ * Fields may be quoted, with `""` for a quote, and hold delimiters and line
+ * breaks. The delimiter is a tab if the header has one, else a comma,
+ * unless given.
+ *
+ * Rows whose `start` is missing or whose `start` or `end` parseDate cannot
+ * read are left out and reported in `errors`; blank rows are skipped.
+ * Throws if no column holds `start`.
+ */
+export function parseCsv(text: string, mapping: CsvMapping = {}, delimiter?: string): CsvParseResult {
+  // A spreadsheet may save a byte order mark before the header
+  const source = text.startsWith('\uFEFF') ? text.slice(1) : text;
+  const separator = delimiter ?? (/^[^\r\n]*\t/.test(source) ? '\t' : ',');
+  const [header, ...rows] = readCsvRecords(source, separator);
+
+  const headers = (header?.fields ?? []).map(normalizeHeader);
+  const columns = (Object.keys(EVENT_FIELD_TYPES) as Array<keyof TimelineEvent>)
+    .map(field => ({ field, column: headers.indexOf(normalizeHeader(mapping[field] ?? field)) }))
+    .filter(({ column }) => column !== -1);
+  if (!columns.some(({ field }) => field === 'start')) {
+    throw new Error(`CSV has no "${mapping.start ?? 'start'}" column`);
+  }
+
+  const events: TimelineEvent[] = [];
+  const errors: CsvRowError[] = [];
+  for (const { fields, line } of rows) {
+    if (fields.every(value => value.trim() === '')) continue;
+
+    const values: Record<string, string | boolean | number> = {};
+    for (const { field, column } of columns) {
+      const value = fields[column]?.trim() ?? '';
+      const parsed = value === '' ? undefined : parseValue(value, EVENT_FIELD_TYPES[field]);
+      if (parsed !== undefined) values[field] = parsed;
+    }
+    const event = { start: '', title: '', ...values } as TimelineEvent;
+
+    const error = checkDates(event, line);
+    if (error) {
+      errors.push(error);
+    } else {
+      events.push(event);
+    }
+  }
+
+  return { data: { events }, errors };
+}
+
+/**
+ * The first date of a row that cannot be read, if any
+ */
+function checkDates(event: TimelineEvent, line: number): CsvRowError | null {
+  if (event.start === '') {
+    return { line, field: 'start', value: '', message: 'Missing start date' };
+  }
+  if (!tryParseDate(event.start)) {
+    return { line, field: 'start', value: event.start, message: `Unparseable start date "${event.start}"` };
+  }
+  if (event.end !== undefined && !tryParseDate(event.end)) {
+    return { line, field: 'end', value: event.end, message: `Unparseable end date "${event.end}"` };
+  }
+  return null;
+}
+
+/**
+ * A column's text as a field of a type, or undefined if it is not one
+ */
+function parseValue(value: string, type: 'string' | 'boolean' | 'number'): string | boolean | number | undefined {
+  if (type === 'number') return Number.isFinite(Number(value)) ? Number(value) : undefined;
+  if (type === 'boolean') {
+    const flag = value.toLowerCase();
+    return flag === 'true' ? true : flag === 'false' ? false : undefined;
+  }
+  return value;
+}
+
+/**
+ * Header text as columns are matched by it
+ */
+function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase();
+}
+
+/**
+ * Split CSV text into records of fields, each with the line it starts on.
+ * A quoted field runs to the next lone quote, taking delimiters and line
+ * breaks with it; `""` inside it is a quote.
+ */
+function readCsvRecords(text: string, delimiter: string): Array<{ fields: string[]; line: number }> {
+  const records: Array<{ fields: string[]; line: number }> = [];
+  let fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = () => {
+    fields.push(field);
+    records.push({ fields, line: recordLine });
+    fields = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+    } else if (char === '"' && field.trim() === '') {
+      // A quote opens a field only at its start; elsewhere it is text
+      field = '';
+      quoted = true;
+    } else if (char === delimiter) {
+      fields.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+  // The last record, unless the text ends with a line break
+  if (field !== '' || fields.length > 0) endRecord();
+  return records;
+}
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { detectDataFormat, readTimelineData } from './dataSource';
+
+describe('detectDataFormat', () => {
+  it('goes by the content type when it names a format', () => {
+    expect(detectDataFormat('/events', 'application/xml; charset=utf-8')).toBe('xml');
+    expect(detectDataFormat('/events', 'application/atom+xml')).toBe('xml');
+    expect(detectDataFormat('/events.xml', 'application/json')).toBe('json');
+    expect(detectDataFormat('/events', 'text/csv')).toBe('csv');
+    expect(detectDataFormat('/events', 'text/calendar')).toBe('ics');
+  });
+
+  it('falls back to the file extension, then JSON', () => {
+    expect(detectDataFormat('/archive/events.XML?v=2#top', 'text/plain')).toBe('xml');
+    expect(detectDataFormat('/archive/events.json', null)).toBe('json');
+    expect(detectDataFormat('/sheets/releases.tsv', null)).toBe('csv');
+    expect(detectDataFormat('/calendars/team.ics', 'text/plain')).toBe('ics');
+    expect(detectDataFormat('/api/events')).toBe('json');
+  });
+});
+
+describe('readTimelineData', () => {
+  it('parses a response in the detected or given format', async () => {
+    const xml = '<data><event start="2023" title="A"/></data>';
+    await expect(readTimelineData(new Response(xml), '/events.xml')).resolves.toEqual({
+      data: { events: [{ start: '2023', title: 'A' }] },
+      diagnostics: [],
+    });
+    await expect(readTimelineData(new Response(xml), '/events', 'xml')).resolves.toEqual({
+      data: { events: [{ start: '2023', title: 'A' }] },
+      diagnostics: [],
+    });
+    await expect(readTimelineData(new Response('{"events":[]}'), '/events')).resolves.toEqual({
+      data: { events: [] },
+      diagnostics: [],
+    });
+  });
+
+  it('expands iCalendar recurrences within a window, or to the first 1000', async () => {
+    const ics = [
+      'BEGIN:VCALENDAR',
+      'BEGIN:VEVENT',
+      'DTSTART:20240101T090000Z',
+      'RRULE:FREQ=DAILY',
+      'SUMMARY:Standup',
+      'END:VEVENT',
+      'END:VCALENDAR',
+    ].join('\r\n');
+    const week = { start: new Date('2024-03-01T00:00:00Z'), end: new Date('2024-03-07T23:59:59Z') };
+    const windowed = await readTimelineData(new Response(ics), '/team.ics', undefined, undefined, week);
+    expect(windowed.data.events).toHaveLength(7);
+    expect(windowed.data.events[0].start).toBe('2024-03-01T09:00:00.000Z');
+
+    const unbounded = await readTimelineData(new Response(ics), '/team.ics');
+    expect(unbounded.data.events).toHaveLength(1000);
+  });
+
+  it('reads CSV through a column mapping, reporting the rows it leaves out', async () => {
+    const csv = 'When,Name\n2023-03-01,Launch\nlater,Sale\n,Undated\n';
+    const { data, diagnostics } = await readTimelineData(
+      new Response(csv), '/releases.csv', undefined, { start: 'When', title: 'Name' }
+    );
+    expect(data).toEqual({ events: [{ start: '2023-03-01', title: 'Launch' }] });
+    expect(diagnostics).toEqual([
+      {
+        index: -1,
+        field: 'start',
+        reason: 'unparseable-date',
+        message: 'Unparseable start date "later"',
+        skipped: true,
+        line: 3,
+        source: '/releases.csv',
+      },
+      {
+        index: -1,
+        field: 'start',
+        reason: 'missing-field',
+        message: 'Missing start date',
+        skipped: true,
+        line: 4,
+        source: '/releases.csv',
+      },
+    ]);
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Data sources
+ * Reading timeline data fetched from a URL in whichever format it is in
+ */
+
+import type { CsvMapping, DataDiagnostic, DataFormat, TimelineData } from '../types';
+import { parseSimileXml } from './simileXml';
+import { parseCsv, type CsvRowError } from './csv';
+import { parseIcs } from './icalendar';
+
+/**
+ * Format of data fetched from a URL: the response's content type if it
+ * names XML, CSV, iCalendar or JSON, else the URL's file extension, else JSON
+ */
+export function detectDataFormat(url: string, contentType?: string | null): DataFormat {
+  const mediaType = contentType?.split(';')[0].trim().toLowerCase() ?? '';
+  if (mediaType.endsWith('/xml') || mediaType.endsWith('+xml')) return 'xml';
+  if (mediaType === 'text/csv' || mediaType === 'text/tab-separated-values') return 'csv';
+  if (mediaType === 'text/calendar') return 'ics';
+  if (mediaType.endsWith('/json') || mediaType.endsWith('+json')) return 'json';
+
+  const path = url.split(/[?#]/)[0].toLowerCase();
+  if (path.endsWith('.xml')) return 'xml';
+  if (path.endsWith('.csv') || path.endsWith('.tsv')) return 'csv';
+  if (path.endsWith('.ics')) return 'ics';
+  return 'json';
+}
+
+/**
+ * Timeline data read from text, with a diagnostic for each row left out
+ * because it could not be read (see DataDiagnostic.line)
+ */
+export interface TimelineDataResult {
+  data: TimelineData;
+  diagnostics: DataDiagnostic[];
+}
+
+/**
+ * Parse timeline data in a format. CSV is read through `csvMapping`, and
+ * rows whose dates cannot be read are left out and reported as skipped
+ * diagnostics. Recurring iCalendar events expand within `icsWindow`, or
+ * without one, to their first 1000 occurrences (see parseIcs).
+ */
+export function parseTimelineData(
+  text: string,
+  format: DataFormat,
+  csvMapping?: CsvMapping,
+  icsWindow?: { start: Date; end: Date }
+): TimelineDataResult {
+  switch (format) {
+    case 'xml':
+      return { data: parseSimileXml(text), diagnostics: [] };
+    case 'csv': {
+      const { data, errors } = parseCsv(text, csvMapping);
+      return { data, diagnostics: errors.map(csvRowDiagnostic) };
+    }
+    case 'ics':
+      return { data: parseIcs(text, icsWindow), diagnostics: [] };
+    default:
+      return { data: JSON.parse(text) as TimelineData, diagnostics: [] };
+  }
+}
+
+/**
+ * Timeline data from a fetch response, in `format` or, if absent, the one
+ * detected from the URL and content type (see detectDataFormat). Its
+ * diagnostics name the URL as their `source`.
+ */
+export function readTimelineData(
+  response: Response,
+  url: string,
+  format?: DataFormat,
+  csvMapping?: CsvMapping,
+  icsWindow?: { start: Date; end: Date }
+): Promise<TimelineDataResult> {
+  const resolved = format ?? detectDataFormat(url, response.headers.get('content-type'));
+  return response.text().then(text => {
+    const { data, diagnostics } = parseTimelineData(text, resolved, csvMapping, icsWindow);
+    return { data, diagnostics: diagnostics.map(diagnostic => ({ ...diagnostic, source: url })) };
+  });
+}
+
+/**
+ * A CSV row left out for its dates, as a diagnostic of the event it would
+ * have been
+ */
+function csvRowDiagnostic({ line, field, value, message }: CsvRowError): DataDiagnostic {
+  const reason = value === '' ? 'missing-field' : 'unparseable-date';
+  return { index: -1, field, reason, message, skipped: true, line };
+}
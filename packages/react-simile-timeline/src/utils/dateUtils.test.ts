@@ -7,6 +7,9 @@ import {
   getVisibleRange,
   getMedianDate,
   TIME_UNITS,
+  prepareHotZones,
+  magnifiedDistance,
+  createTimeToPixel,
 } from './dateUtils';
 
 describe('parseDate', () => {
@@ -218,6 +221,75 @@ describe('getVisibleRange', () => {
   });
 });
 
+describe('hot zone magnification', () => {
+  const day = TIME_UNITS.day;
+  const pixelsPerMs = 10 / day; // 10px per day outside zones
+  const launchWeek = prepareHotZones([
+    { start: '2024-03-04', end: '2024-03-11', magnify: 10, unit: 'day' },
+  ]);
+  const zoneStart = parseDate('2024-03-04');
+
+  it('drops decorative and invalid zones, and clips overlaps', () => {
+    const zones = prepareHotZones([
+      { start: '2024-01-01', end: '2024-02-01', color: 'red' },
+      { start: 'not-a-date', end: '2024-02-01', magnify: 3 },
+      { start: '2024-05-01', end: '2024-05-10', magnify: 2 },
+      { start: '2024-05-05', end: '2024-05-20', magnify: 4, unit: 'fortnight' },
+    ]);
+    expect(zones).toHaveLength(2);
+    expect(zones[1].startMs).toBe(zones[0].endMs);
+    expect(zones[1].unit).toBeUndefined();
+  });
+
+  it('stretches a span inside the zone by the magnify factor', () => {
+    const oneDayIn = new Date(zoneStart.getTime() + day);
+    expect(dateToPixel(oneDayIn, zoneStart, pixelsPerMs, launchWeek)).toBeCloseTo(100);
+    // Outside the zone the axis is untouched.
+    const before = new Date(zoneStart.getTime() - day);
+    expect(dateToPixel(before, zoneStart, pixelsPerMs, launchWeek)).toBeCloseTo(-10);
+  });
+
+  it('adds the stretch of every zone a span crosses', () => {
+    const from = zoneStart.getTime() - 2 * day;
+    const to = launchWeek[0].endMs + 2 * day;
+    const zoneDays = (launchWeek[0].endMs - launchWeek[0].startMs) / day;
+    const expected = (4 * 10) + zoneDays * 100;
+    expect(magnifiedDistance(from, to, pixelsPerMs, launchWeek)).toBeCloseTo(expected);
+    expect(magnifiedDistance(to, from, pixelsPerMs, launchWeek)).toBeCloseTo(-expected);
+  });
+
+  it('pixelToDate inverts dateToPixel across zone boundaries', () => {
+    const origin = new Date(zoneStart.getTime() - 3 * day);
+    for (const offsetDays of [-5, 1, 3.5, 6, 12]) {
+      const date = new Date(zoneStart.getTime() + offsetDays * day);
+      const px = dateToPixel(date, origin, pixelsPerMs, launchWeek);
+      expect(pixelToDate(px, origin, pixelsPerMs, launchWeek).getTime()).toBeCloseTo(
+        date.getTime(),
+        -1
+      );
+    }
+  });
+
+  it('narrows the visible range when a zone is in view', () => {
+    const center = new Date(zoneStart.getTime() + 3 * day);
+    const linear = getVisibleRange(center, 800, pixelsPerMs);
+    const magnified = getVisibleRange(center, 800, pixelsPerMs, launchWeek);
+    expect(magnified.end.getTime() - magnified.start.getTime()).toBeLessThan(
+      linear.end.getTime() - linear.start.getTime()
+    );
+  });
+
+  it('createTimeToPixel keeps the center fixed and matches the linear path without zones', () => {
+    const center = new Date(zoneStart.getTime() + 3 * day);
+    const magnified = createTimeToPixel(center, 800, pixelsPerMs, launchWeek);
+    expect(magnified(center.getTime())).toBeCloseTo(400);
+
+    const linear = createTimeToPixel(center, 800, pixelsPerMs);
+    const viewportLeftMs = center.getTime() - 400 / pixelsPerMs;
+    expect(linear(zoneStart.getTime())).toBe((zoneStart.getTime() - viewportLeftMs) * pixelsPerMs);
+  });
+});
+
 describe('getMedianDate', () => {
   it('returns median date for odd number of events', () => {
     const events = [
@@ -3,6 +3,8 @@
  * Supports ISO 8601, legacy Simile formats, year-only, and BCE dates
  */
 
+import type { HotZone } from '../types';
+
 /** ISO 8601 calendar dates carrying no time component: "2023-01-15" or "2023-01". */
 const ISO_DATE_ONLY = /^(\d{4})-(\d{2})(?:-(\d{2}))?$/;
 
@@ -188,40 +190,240 @@ export function formatDate(date: Date, format: string): string {
 }
 
 /**
- * Convert a date to pixel position relative to an origin
+ * A hot zone resolved for the time axis: epoch bounds parsed once, a
+ * magnification factor, and the tick unit to label its interior with.
+ */
+export interface MagnifiedZone {
+  startMs: number;
+  endMs: number;
+  /** Pixel stretch inside the zone relative to the band scale (1 = none) */
+  magnify: number;
+  /** Tick unit used inside the zone, if the zone names one */
+  unit?: TimeUnit;
+}
+
+/**
+ * Resolve hot zones into the sorted, non-overlapping intervals the
+ * magnified axis works from. Zones with unparseable or empty ranges are
+ * dropped, as are purely decorative zones (no `magnify` and no `unit`),
+ * which HotZones still paints but which leave the axis linear. Where two
+ * zones overlap, the earlier one keeps the shared interval.
+ */
+export function prepareHotZones(hotZones: HotZone[]): MagnifiedZone[] {
+  const zones: MagnifiedZone[] = [];
+
+  for (const zone of hotZones) {
+    const start = tryParseDate(zone.start);
+    const end = tryParseDate(zone.end);
+    if (!start || !end || end.getTime() <= start.getTime()) continue;
+
+    const magnify = zone.magnify ?? 1;
+    const unit = zone.unit && zone.unit in TIME_UNITS ? (zone.unit as TimeUnit) : undefined;
+    if (!(magnify > 0) || (magnify === 1 && !unit)) continue;
+
+    zones.push({ startMs: start.getTime(), endMs: end.getTime(), magnify, unit });
+  }
+
+  zones.sort((a, b) => a.startMs - b.startMs);
+
+  const resolved: MagnifiedZone[] = [];
+  for (const zone of zones) {
+    const prev = resolved[resolved.length - 1];
+    const startMs = prev ? Math.max(zone.startMs, prev.endMs) : zone.startMs;
+    if (startMs < zone.endMs) {
+      resolved.push({ ...zone, startMs });
+    }
+  }
+  return resolved;
+}
+
+/**
+ * Pixel distance between two instants on a magnified axis: the linear
+ * distance, plus the extra stretch of every zone the span crosses. Negative
+ * when `toMs` is before `fromMs`.
+ */
+export function magnifiedDistance(
+  fromMs: number,
+  toMs: number,
+  pixelsPerMs: number,
+  zones: MagnifiedZone[]
+): number {
+  const lo = Math.min(fromMs, toMs);
+  const hi = Math.max(fromMs, toMs);
+  let pixels = (hi - lo) * pixelsPerMs;
+
+  for (const zone of zones) {
+    const overlap = Math.min(hi, zone.endMs) - Math.max(lo, zone.startMs);
+    if (overlap > 0) {
+      pixels += overlap * (zone.magnify - 1) * pixelsPerMs;
+    }
+  }
+
+  return toMs >= fromMs ? pixels : -pixels;
+}
+
+/**
+ * Inverse of magnifiedDistance: the instant `pixels` away from `fromMs`.
+ * Walks zone boundaries outward from the origin, spending the pixel budget
+ * at each segment's local scale.
+ */
+export function magnifiedTimeAt(
+  fromMs: number,
+  pixels: number,
+  pixelsPerMs: number,
+  zones: MagnifiedZone[]
+): number {
+  if (zones.length === 0 || pixels === 0) {
+    return fromMs + pixels / pixelsPerMs;
+  }
+
+  const forward = pixels > 0;
+  let remaining = Math.abs(pixels);
+  let cursor = fromMs;
+
+  const ordered = forward ? zones : [...zones].reverse();
+  for (const zone of ordered) {
+    // Skip zones entirely behind the cursor in the direction of travel.
+    if (forward ? zone.endMs <= cursor : zone.startMs >= cursor) continue;
+
+    // Linear stretch up to the zone edge, unless the cursor is already inside.
+    const edge = forward ? zone.startMs : zone.endMs;
+    if (forward ? edge > cursor : edge < cursor) {
+      const gap = Math.abs(edge - cursor) * pixelsPerMs;
+      if (remaining <= gap) {
+        return cursor + (forward ? remaining : -remaining) / pixelsPerMs;
+      }
+      remaining -= gap;
+      cursor = edge;
+    }
+
+    // Magnified stretch across the zone.
+    const far = forward ? zone.endMs : zone.startMs;
+    const scale = pixelsPerMs * zone.magnify;
+    const span = Math.abs(far - cursor) * scale;
+    if (remaining <= span) {
+      return cursor + (forward ? remaining : -remaining) / scale;
+    }
+    remaining -= span;
+    cursor = far;
+  }
+
+  return cursor + (forward ? remaining : -remaining) / pixelsPerMs;
+}
+
+/**
+ * Convert a date to pixel position relative to an origin.
+ * With magnified zones the distance is stretched across each zone crossed.
  */
 export function dateToPixel(
   date: Date,
   origin: Date,
-  pixelsPerMs: number
+  pixelsPerMs: number,
+  zones: MagnifiedZone[] = []
 ): number {
+  if (zones.length > 0) {
+    return magnifiedDistance(origin.getTime(), date.getTime(), pixelsPerMs, zones);
+  }
   const deltaMs = date.getTime() - origin.getTime();
   return deltaMs * pixelsPerMs;
 }
 
 /**
- * Convert a pixel position to date relative to an origin
+ * Convert a pixel position to date relative to an origin.
+ * The inverse of dateToPixel for the same zones.
  */
 export function pixelToDate(
   pixel: number,
   origin: Date,
-  pixelsPerMs: number
+  pixelsPerMs: number,
+  zones: MagnifiedZone[] = []
 ): Date {
+  if (zones.length > 0) {
+    return new Date(magnifiedTimeAt(origin.getTime(), pixel, pixelsPerMs, zones));
+  }
   const deltaMs = pixel / pixelsPerMs;
   return new Date(origin.getTime() + deltaMs);
 }
 
 /**
- * Get the visible date range based on center date and viewport
+ * Build the epoch-ms to viewport-x projection for one band.
+ *
+ * Without zones this is the linear `(ms - viewportLeftMs) * pixelsPerMs` the
+ * layout engine has always used, kept verbatim so unmagnified output does
+ * not drift by a rounding error. With zones, x is measured outward from the
+ * viewport center, which stays fixed while the zones stretch around it.
+ */
+export function createTimeToPixel(
+  centerDate: Date,
+  viewportWidth: number,
+  pixelsPerMs: number,
+  zones: MagnifiedZone[] = []
+): (ms: number) => number {
+  const centerMs = centerDate.getTime();
+  if (zones.length === 0) {
+    const viewportLeftMs = centerMs - (viewportWidth / 2) / pixelsPerMs;
+    return (ms) => (ms - viewportLeftMs) * pixelsPerMs;
+  }
+  const halfWidth = viewportWidth / 2;
+  return (ms) => halfWidth + magnifiedDistance(centerMs, ms, pixelsPerMs, zones);
+}
+
+/**
+ * A hot zone placed on a band's axis
+ */
+export interface PositionedHotZone {
+  zone: HotZone;
+  /** Left edge in pixels from viewport left */
+  x: number;
+  /** Width in pixels; a magnified zone is wider than its linear span */
+  width: number;
+}
+
+/**
+ * Place the hot zones that overlap the visible range, through a band's
+ * projection (see createTimeToPixel). Zones with invalid dates are skipped.
+ */
+export function positionHotZones(
+  hotZones: HotZone[],
+  visibleRange: { start: Date; end: Date },
+  toPixel: (ms: number) => number
+): PositionedHotZone[] {
+  const positioned: PositionedHotZone[] = [];
+  for (const zone of hotZones) {
+    const startTime = tryParseDate(zone.start)?.getTime();
+    const endTime = tryParseDate(zone.end)?.getTime();
+    if (startTime === undefined || endTime === undefined) continue;
+    if (endTime < visibleRange.start.getTime() || startTime > visibleRange.end.getTime()) continue;
+
+    const x = toPixel(startTime);
+    positioned.push({ zone, x, width: toPixel(endTime) - x });
+  }
+  return positioned;
+}
+
+/**
+ * Get the visible date range based on center date and viewport.
+ * Magnified zones in view narrow the range, since they spend more pixels
+ * per millisecond.
  */
 export function getVisibleRange(
   centerDate: Date,
   viewportWidth: number,
-  pixelsPerMs: number
+  pixelsPerMs: number,
+  zones: MagnifiedZone[] = []
 ): { start: Date; end: Date } {
-  const halfWidthMs = (viewportWidth / 2) / pixelsPerMs;
+  const halfWidthPx = viewportWidth / 2;
   const centerMs = centerDate.getTime();
 
+  if (zones.length > 0) {
+    return {
+      start: new Date(magnifiedTimeAt(centerMs, -halfWidthPx, pixelsPerMs, zones)),
+      end: new Date(magnifiedTimeAt(centerMs, halfWidthPx, pixelsPerMs, zones)),
+    };
+  }
+
+  const halfWidthMs = halfWidthPx / pixelsPerMs;
+
   return {
     start: new Date(centerMs - halfWidthMs),
     end: new Date(centerMs + halfWidthMs),
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { binEventDensity } from './eventDensity';
+import { prepareEvents } from './layoutEngine';
+import type { TimelineEvent } from '../types';
+
+const DAY = 24 * 60 * 60 * 1000;
+const t0 = Date.UTC(2023, 0, 1);
+
+/** Count by walking every event, to check the binned counts against */
+function bruteForce(events: TimelineEvent[], startMs: number, endMs: number) {
+  return events.filter(e => {
+    const start = new Date(e.start).getTime();
+    const end = e.end ? new Date(e.end).getTime() : start;
+    return e.end ? start < endMs && end >= startMs : start >= startMs && start < endMs;
+  }).length;
+}
+
+describe('binEventDensity', () => {
+  // A pseudo-random mix of points and durations over 60 days
+  const events: TimelineEvent[] = Array.from({ length: 300 }, (_, i) => {
+    const start = t0 + ((i * 7919) % 60) * DAY + (i % 24) * 3600000;
+    return i % 4 === 0
+      ? { start: new Date(start).toISOString(), end: new Date(start + ((i * 31) % 9) * DAY).toISOString(), title: `D${i}` }
+      : { start: new Date(start).toISOString(), title: `P${i}` };
+  });
+  const prepared = prepareEvents(events);
+
+  it('counts the same events per bin as a walk over all of them', () => {
+    const bins = binEventDensity(prepared, t0 + 5 * DAY, t0 + 50 * DAY, 2 * DAY);
+    expect(bins.length).toBeGreaterThan(20);
+    for (const bin of bins) {
+      expect(bin.count).toBe(bruteForce(events, bin.startMs, bin.endMs));
+    }
+  });
+
+  it('counts a duration in every bin it spans', () => {
+    const bins = binEventDensity(
+      prepareEvents([{ start: '2023-01-02', end: '2023-01-05T12:00:00Z', title: 'Span' }]),
+      t0,
+      t0 + 7 * DAY - 1,
+      DAY
+    );
+    expect(bins.map(bin => bin.count)).toEqual([0, 1, 1, 1, 1, 0, 0]);
+  });
+
+  it('aligns bins to the width, so a pan keeps their bounds and counts', () => {
+    const before = binEventDensity(prepared, t0 + 10 * DAY, t0 + 30 * DAY, DAY);
+    const after = binEventDensity(prepared, t0 + 10.4 * DAY, t0 + 30.4 * DAY, DAY);
+    expect(before[0].startMs).toBe(t0 + 10 * DAY);
+    expect(after[0].startMs).toBe(before[0].startMs);
+    expect(after.slice(0, before.length - 1)).toEqual(before.slice(0, -1));
+  });
+
+  it('colors a bin by its most common event color when asked', () => {
+    const colored = prepareEvents([
+      { start: '2023-01-01T01:00:00Z', title: 'A', color: 'red' },
+      { start: '2023-01-01T02:00:00Z', title: 'B', color: 'blue' },
+      { start: '2023-01-01T03:00:00Z', title: 'C', color: 'blue' },
+      { start: '2023-01-02T01:00:00Z', title: 'D' },
+    ]);
+    const bins = binEventDensity(colored, t0, t0 + 2 * DAY - 1, DAY, true);
+    expect(bins[0]).toMatchObject({ count: 3, color: 'blue' });
+    expect(bins[1].count).toBe(1);
+    expect(bins[1].color).toBeUndefined();
+    expect(binEventDensity(colored, t0, t0 + DAY - 1, DAY)[0].color).toBeUndefined();
+  });
+
+  it('returns no bins for an empty range or width', () => {
+    expect(binEventDensity(prepared, t0 + DAY, t0, DAY)).toEqual([]);
+    expect(binEventDensity(prepared, t0, t0 + DAY, 0)).toEqual([]);
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Event density
+ * Counts of prepared events per time bin, for an overview band's histogram or
+ * heatmap, found by binary search rather than a walk over every event
+ */
+
+import {
+  filterOverlappingDurations,
+  preparedPointIndex,
+  type PreparedEvent,
+  type PreparedEvents,
+} from './layoutEngine';
+
+/**
+ * One time bin and the events in it (see binEventDensity)
+ */
+export interface DensityBin {
+  /** Start of the bin, epoch ms: a whole multiple of the bin width */
+  startMs: number;
+  /** End of the bin, epoch ms (exclusive) */
+  endMs: number;
+  /** Point events starting in the bin, plus duration events overlapping it */
+  count: number;
+  /**
+   * Most common color among events starting in the bin, when binned by
+   * color; undefined when that is the default color or nothing starts there
+   */
+  color?: string;
+}
+
+/**
+ * Count events per bin of `binMs` over [startMs, endMs]. Bins are aligned to
+ * whole multiples of the width rather than to the range, so a pan keeps each
+ * bin's bounds and count and only a change of scale rebins. Point counts cost
+ * a binary search per bin and durations an interval-tree query, so the cost
+ * follows the bins and the durations in range, not the dataset. `byColor`
+ * also finds each bin's most common event color, which walks the events in
+ * range.
+ */
+export function binEventDensity(
+  prepared: PreparedEvents,
+  startMs: number,
+  endMs: number,
+  binMs: number,
+  byColor: boolean = false
+): DensityBin[] {
+  if (!(binMs > 0) || !(endMs >= startMs)) return [];
+
+  const first = Math.floor(startMs / binMs);
+  const last = Math.floor(endMs / binMs);
+  const binCount = last - first + 1;
+  const binStart = (bin: number) => (first + bin) * binMs;
+  const binOf = (ms: number) => Math.floor(ms / binMs) - first;
+
+  // Points: the difference of lower bounds at consecutive bin edges
+  const counts = new Array<number>(binCount + 1).fill(0);
+  let edge = preparedPointIndex(prepared, binStart(0));
+  const firstPoint = edge;
+  for (let bin = 0; bin < binCount; bin++) {
+    const next = preparedPointIndex(prepared, binStart(bin + 1));
+    counts[bin] += next - edge;
+    edge = next;
+  }
+
+  // Durations: +1 where each starts and -1 past where it ends, summed below
+  const durations = filterOverlappingDurations(prepared, binStart(0), binStart(binCount) - 1);
+  const spans = new Array<number>(binCount + 1).fill(0);
+  for (const d of durations) {
+    spans[Math.max(0, binOf(d.startMs))] += 1;
+    spans[Math.min(binCount, binOf(d.endMs ?? d.startMs) + 1)] -= 1;
+  }
+  let overlapping = 0;
+  for (let bin = 0; bin < binCount; bin++) {
+    overlapping += spans[bin];
+    counts[bin] += overlapping;
+  }
+
+  const colors = byColor
+    ? dominantColors(
+        [...prepared.points.slice(firstPoint, edge), ...durations.filter(d => d.startMs >= binStart(0))],
+        binOf,
+        binCount
+      )
+    : undefined;
+
+  return Array.from({ length: binCount }, (_, bin): DensityBin => ({
+    startMs: binStart(bin),
+    endMs: binStart(bin + 1),
+    count: counts[bin],
+    ...(colors?.[bin] ? { color: colors[bin] } : {}),
+  }));
+}
+
+/**
+ * Most common `color` among events per bin; an event without one votes for
+ * the default color (undefined)
+ */
+function dominantColors(
+  events: PreparedEvent[],
+  binOf: (ms: number) => number,
+  binCount: number
+): (string | undefined)[] {
+  const tallies = new Map<number, Map<string | undefined, number>>();
+  for (const { event, startMs } of events) {
+    const bin = binOf(startMs);
+    if (bin < 0 || bin >= binCount) continue;
+    let tally = tallies.get(bin);
+    if (!tally) tallies.set(bin, (tally = new Map()));
+    tally.set(event.color, (tally.get(event.color) ?? 0) + 1);
+  }
+
+  const colors = new Array<string | undefined>(binCount);
+  tallies.forEach((tally, bin) => {
+    let best = 0;
+    tally.forEach((count, color) => {
+      if (count > best) {
+        best = count;
+        colors[bin] = color;
+      }
+    });
+  });
+  return colors;
+}
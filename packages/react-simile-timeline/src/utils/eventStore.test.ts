@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import {
+  addStoreEvents,
+  createEventStore,
+  removeStoreEvent,
+  updateStoreEvent,
+} from './eventStore';
+import { prepareEvents, type PreparedEvents } from './layoutEngine';
+import type { TimelineEvent } from '../types';
+
+const base: TimelineEvent[] = [
+  { id: 'b', start: '2000-01-05', title: 'B' },
+  { id: 'a', start: '2000-01-01', title: 'A' },
+  { id: 'span', start: '1999-01-01', end: '2001-01-01', title: 'Span' },
+  { id: 'bad', start: 'not-a-date', title: 'Invalid' },
+];
+
+/** Prepared lists reduced to ids, in order */
+const order = (prepared: PreparedEvents) => ({
+  points: prepared.points.map(p => p.id),
+  durations: prepared.durations.map(p => p.id),
+});
+
+describe('event store', () => {
+  it('prepares the initial events like prepareEvents', () => {
+    const store = createEventStore(base);
+    expect(order(store.prepared)).toEqual(order(prepareEvents(base)));
+    expect(store.ids).toEqual(['b', 'a', 'span', 'bad']);
+    expect(store.byId.get('bad')?.prepared).toBeNull();
+  });
+
+  it('inserts added events in sorted order, as a full re-prepare would', () => {
+    const added: TimelineEvent[] = [
+      { id: 'c', start: '2000-01-03', title: 'C' },
+      { id: 'a2', start: '2000-01-01', title: 'A again' },
+      { id: 'span2', start: '1990-01-01', end: '1995-01-01', title: 'Span 2' },
+    ];
+    const { store, ids } = addStoreEvents(createEventStore(base), added);
+    expect(ids).toEqual(['c', 'a2', 'span2']);
+    expect(store.events).toEqual([...base, ...added]);
+    expect(order(store.prepared)).toEqual(order(prepareEvents([...base, ...added])));
+  });
+
+  it('suffixes ids already in the store', () => {
+    const { ids } = addStoreEvents(createEventStore(base), [
+      { id: 'a', start: '2000-02-01', title: 'Another A' },
+      { start: '2000-02-02', title: 'No id' },
+    ]);
+    expect(ids).toEqual(['a#2', 'No id|2000-02-02|']);
+  });
+
+  it('moves an updated event to its new place and keeps its id', () => {
+    const store = updateStoreEvent(createEventStore(base), 'a', { start: '2000-01-09', id: 'ignored' });
+    expect(store).not.toBeNull();
+    expect(store!.byId.get('a')?.event).toEqual({ id: 'a', start: '2000-01-09', title: 'A' });
+    expect(store!.events[1]).toBe(store!.byId.get('a')?.event);
+    expect(order(store!.prepared)).toEqual(order(prepareEvents(store!.events)));
+  });
+
+  it('turns a point into a duration and repairs an invalid date', () => {
+    let store = updateStoreEvent(createEventStore(base), 'b', { end: '2000-02-01' })!;
+    store = updateStoreEvent(store, 'bad', { start: '2000-01-02' })!;
+    expect(order(store.prepared)).toEqual(order(prepareEvents(store.events)));
+    expect(order(store.prepared).durations).toEqual(['span', 'b']);
+  });
+
+  it('removes an event from the list and the prepared set', () => {
+    const store = removeStoreEvent(createEventStore(base), 'a');
+    expect(store!.ids).toEqual(['b', 'span', 'bad']);
+    expect(store!.byId.has('a')).toBe(false);
+    expect(order(store!.prepared)).toEqual(order(prepareEvents(store!.events)));
+  });
+
+  it('reports unknown ids', () => {
+    const store = createEventStore(base);
+    expect(updateStoreEvent(store, 'missing', { title: 'X' })).toBeNull();
+    expect(removeStoreEvent(store, 'missing')).toBeNull();
+  });
+
+  it('leaves earlier stores as they were', () => {
+    const original = createEventStore(base);
+    const added = addStoreEvents(original, [{ id: 'c', start: '2000-01-03', title: 'C' }]).store;
+    const updated = updateStoreEvent(added, 'a', { start: '2000-01-09' })!;
+    const removed = removeStoreEvent(updated, 'span')!;
+
+    expect(original.events).toEqual(base);
+    expect(order(original.prepared)).toEqual(order(prepareEvents(base)));
+    expect(original.byId.has('c')).toBe(false);
+    expect(added.byId.get('a')?.event.start).toBe('2000-01-01');
+    expect(order(added.prepared).points).toEqual(['a', 'c', 'b']);
+    expect(updated.ids).toEqual(['b', 'a', 'span', 'bad', 'c']);
+    expect(order(updated.prepared).points).toEqual(['c', 'b', 'a']);
+    expect(order(removed.prepared).durations).toEqual([]);
+    expect(removed.ids).toEqual(['b', 'a', 'bad', 'c']);
+  });
+
+  it('finds an id removed and added again', () => {
+    const removed = removeStoreEvent(createEventStore(base), 'a')!;
+    const { store, ids } = addStoreEvents(removed, [{ id: 'a', start: '2000-03-01', title: 'A back' }]);
+    expect(ids).toEqual(['a']);
+    expect(store.byId.get('a')?.event.title).toBe('A back');
+    expect(store.ids).toEqual(['b', 'span', 'bad', 'a']);
+  });
+});
@@ -0,0 +1,247 @@
+/**
+ * Event store
+ * Holds the event list together with its prepared (parsed and sorted) form,
+ * and patches both for single-event changes instead of re-preparing
+ */
+
+import type { TimelineEvent } from '../types';
+import {
+  generateEventId,
+  getEventIds,
+  prepareEvent,
+  prepareEvents,
+  type PreparedEvent,
+  type PreparedEvents,
+} from './layoutEngine';
+import {
+  treeFind,
+  treeFromSorted,
+  treeInsert,
+  treeRemove,
+  treeToArray,
+  type SortedTree,
+} from './sortedTree';
+
+/**
+ * An event in the store: its id, the event, its original index and, if its
+ * dates parse, its prepared form
+ */
+export interface EventStoreEntry {
+  id: string;
+  event: TimelineEvent;
+  index: number;
+  prepared: PreparedEvent | null;
+}
+
+/**
+ * Entries of a store by id, found in O(log n)
+ */
+export interface EventStoreLookup {
+  get(id: string): EventStoreEntry | undefined;
+  has(id: string): boolean;
+}
+
+/**
+ * Events with their ids and prepared form. A store never changes: a change
+ * returns a new store, in O(log n), that shares all it did not change with
+ * the old one. The lists of a changed store are built when first read, in
+ * O(n) without parsing or sorting.
+ */
+export interface EventStore {
+  /** Events in order: the original data, then additions */
+  readonly events: TimelineEvent[];
+  /** Ids aligned with `events` (see getEventIds) */
+  readonly ids: string[];
+  /** Entry by id */
+  readonly byId: EventStoreLookup;
+  /** Prepared events for layout */
+  readonly prepared: PreparedEvents;
+  /** Original index for the next added event, keeping additions last in order */
+  readonly nextIndex: number;
+}
+
+/**
+ * A store's entries and prepared events as sorted trees, which each change
+ * replaces rather than changes
+ */
+interface StoreTrees {
+  /** Entries by original index, the order of `events` */
+  order: SortedTree<EventStoreEntry>;
+  /** Entries of the original data by id, never changed */
+  initial: ReadonlyMap<string, EventStoreEntry>;
+  /** Entries changed since the original data by id, null once removed */
+  changes: SortedTree<EntryChange>;
+  points: SortedTree<PreparedEvent>;
+  durations: SortedTree<PreparedEvent>;
+  nextIndex: number;
+}
+
+interface EntryChange {
+  id: string;
+  entry: EventStoreEntry | null;
+}
+
+/**
+ * Trees of each store, or how to build them: a store made by
+ * createEventStore builds its trees on its first change, in O(n)
+ */
+const storeTrees = new WeakMap<EventStore, StoreTrees | (() => StoreTrees)>();
+
+const compareIds = (a: string, b: string) => (a < b ? -1 : a > b ? 1 : 0);
+const byIndex = (a: EventStoreEntry, b: EventStoreEntry) => a.index - b.index;
+const byChangedId = (a: EntryChange, b: EntryChange) => compareIds(a.id, b.id);
+// The order prepareEvents sorts in: by start, then original index
+const byStart = (a: PreparedEvent, b: PreparedEvent) => a.startMs - b.startMs || a.index - b.index;
+
+/**
+ * Store over an events array, prepared in full once, or over events already
+ * prepared elsewhere (see decodePreparedEvents)
+ */
+export function createEventStore(
+  events: TimelineEvent[],
+  prepared: PreparedEvents = prepareEvents(events)
+): EventStore {
+  const ids = getEventIds(events);
+  const entries = events.map((event, index): EventStoreEntry => ({ id: ids[index], event, index, prepared: null }));
+  const initial = new Map(entries.map(entry => [entry.id, entry]));
+  for (const item of [...prepared.points, ...prepared.durations]) {
+    initial.get(item.id)!.prepared = item;
+  }
+
+  const store: EventStore = { events, ids, byId: initial, prepared, nextIndex: events.length };
+  storeTrees.set(store, () => ({
+    order: treeFromSorted(entries),
+    initial,
+    changes: null,
+    points: treeFromSorted(prepared.points),
+    durations: treeFromSorted(prepared.durations),
+    nextIndex: events.length,
+  }));
+  return store;
+}
+
+/**
+ * Append events. Ids follow getEventIds, suffixed past any already in the
+ * store; each event is parsed and inserted on its own, O(log n) per event.
+ * The new store's lists are then built on first read, in O(n).
+ */
+export function addStoreEvents(
+  store: EventStore,
+  events: TimelineEvent[]
+): { store: EventStore; ids: string[] } {
+  let trees = treesOf(store);
+  const ids = events.map(event => {
+    const byId = lookupOf(trees);
+    const base = event.id ?? generateEventId(event);
+    let id = base;
+    for (let count = 2; byId.has(id); count++) {
+      id = `${base}#${count}`;
+    }
+    const index = trees.nextIndex;
+    trees = putEntry({ ...trees, nextIndex: index + 1 }, id, { id, event, index, prepared: prepareEvent(event, id, index) });
+    return id;
+  });
+
+  return { store: storeOf(trees), ids };
+}
+
+/**
+ * Replace the event with an id by `update` merged over it, keeping its place
+ * in order; null if no event has the id. The id never changes: an `id` in
+ * the update is ignored.
+ */
+export function updateStoreEvent(
+  store: EventStore,
+  id: string,
+  update: Partial<TimelineEvent>
+): EventStore | null {
+  const entry = store.byId.get(id);
+  if (!entry) return null;
+
+  const event: TimelineEvent = { ...entry.event, ...update };
+  if (entry.event.id === undefined) delete event.id;
+  else event.id = entry.event.id;
+
+  const prepared = prepareEvent(event, id, entry.index);
+  return storeOf(putEntry(treesOf(store), id, { id, event, index: entry.index, prepared }, entry));
+}
+
+/**
+ * Remove the event with an id; null if no event has it
+ */
+export function removeStoreEvent(store: EventStore, id: string): EventStore | null {
+  const entry = store.byId.get(id);
+  if (!entry) return null;
+  return storeOf(putEntry(treesOf(store), id, null, entry));
+}
+
+/**
+ * Trees with the entry for an id set, or removed when null, in place of the
+ * entry it had
+ */
+function putEntry(
+  trees: StoreTrees,
+  id: string,
+  entry: EventStoreEntry | null,
+  previous?: EventStoreEntry
+): StoreTrees {
+  let { order, points, durations } = trees;
+  if (entry) order = treeInsert(order, entry, byIndex);
+  else if (previous) order = treeRemove(order, previous, byIndex);
+
+  if (previous?.prepared) {
+    if (previous.prepared.endMs === undefined) points = treeRemove(points, previous.prepared, byStart);
+    else durations = treeRemove(durations, previous.prepared, byStart);
+  }
+  if (entry?.prepared) {
+    if (entry.prepared.endMs === undefined) points = treeInsert(points, entry.prepared, byStart);
+    else durations = treeInsert(durations, entry.prepared, byStart);
+  }
+
+  const changes = treeInsert(trees.changes, { id, entry }, byChangedId);
+  return { ...trees, order, changes, points, durations };
+}
+
+function treesOf(store: EventStore): StoreTrees {
+  const trees = storeTrees.get(store);
+  if (!trees) throw new Error('Event store not made by createEventStore');
+  if (typeof trees !== 'function') return trees;
+  const built = trees();
+  storeTrees.set(store, built);
+  return built;
+}
+
+function lookupOf({ initial, changes }: StoreTrees): EventStoreLookup {
+  const get = (id: string) => {
+    const change = treeFind(changes, other => compareIds(id, other.id));
+    return change ? change.entry ?? undefined : initial.get(id);
+  };
+  return { get, has: id => get(id) !== undefined };
+}
+
+/**
+ * Store over trees, building each list from them when first read
+ */
+function storeOf(trees: StoreTrees): EventStore {
+  let entries: EventStoreEntry[] | undefined;
+  let events: TimelineEvent[] | undefined;
+  let ids: string[] | undefined;
+  let prepared: PreparedEvents | undefined;
+  const inOrder = () => (entries ??= treeToArray(trees.order));
+
+  const store: EventStore = {
+    get events() {
+      return (events ??= inOrder().map(entry => entry.event));
+    },
+    get ids() {
+      return (ids ??= inOrder().map(entry => entry.id));
+    },
+    byId: lookupOf(trees),
+    get prepared() {
+      return (prepared ??= { points: treeToArray(trees.points), durations: treeToArray(trees.durations) });
+    },
+    nextIndex: trees.nextIndex,
+  };
+  storeTrees.set(store, trees);
+  return store;
+}
@@ -0,0 +1,226 @@
+import { describe, it, expect } from 'vitest';
+import { parseIcs, toIcs } from './icalendar';
+
+/** A calendar around VEVENT lines, CRLF-separated as files are */
+function calendar(...vevents: string[][]): string {
+  return ['BEGIN:VCALENDAR', 'VERSION:2.0', ...vevents.flatMap(lines => ['BEGIN:VEVENT', ...lines, 'END:VEVENT']), 'END:VCALENDAR']
+    .join('\r\n');
+}
+
+describe('parseIcs', () => {
+  it('reads timed, zoned and all-day events', () => {
+    const { events } = parseIcs(calendar(
+      [
+        'UID:standup',
+        'DTSTART:20230315T093000Z',
+        'DTEND:20230315T094500Z',
+        'SUMMARY:Standup\\, daily',
+        'DESCRIPTION:Line one\\nLine two',
+        'URL:https://example.com/standup',
+        'CATEGORIES:ops,meetings',
+        'BEGIN:VALARM',
+        'SUMMARY:Reminder',
+        'END:VALARM',
+      ],
+      ['DTSTART;TZID=America/New_York:20230701T120000', 'SUMMARY:Picnic'],
+      ['DTSTART;VALUE=DATE:20230320', 'DTEND;VALUE=DATE:20230321', 'SUMMARY:Holiday'],
+      ['DTSTART;VALUE=DATE:20230401', 'DTEND;VALUE=DATE:20230404', 'SUMMARY:Offsite'],
+      ['DTSTART:20230501T080000', 'DURATION:PT1H30M', 'SUMMARY:Floating'],
+    ));
+
+    expect(events).toEqual([
+      {
+        id: 'standup',
+        start: '2023-03-15T09:30:00.000Z',
+        end: '2023-03-15T09:45:00.000Z',
+        title: 'Standup, daily',
+        description: 'Line one\nLine two',
+        link: 'https://example.com/standup',
+        classname: 'ops',
+      },
+      // Noon in New York in summer is 16:00 UTC
+      { start: '2023-07-01T16:00:00.000Z', title: 'Picnic' },
+      // One all-day day is a point; longer ones end on their exclusive DTEND
+      { start: '2023-03-20', title: 'Holiday' },
+      { start: '2023-04-01', end: '2023-04-04', title: 'Offsite' },
+      { start: '2023-05-01T08:00:00', end: '2023-05-01T09:30:00', title: 'Floating' },
+    ]);
+  });
+
+  it('unfolds long lines', () => {
+    const { events } = parseIcs('BEGIN:VEVENT\r\nDTSTART:20230315T093000Z\r\nSUMMARY:A very\r\n  long title\r\nEND:VEVENT\r\n');
+    expect(events[0].title).toBe('A very long title');
+  });
+
+  it('expands a weekly rule within a window, skipping EXDATEs', () => {
+    const { events } = parseIcs(
+      calendar([
+        'UID:sync',
+        'DTSTART:20230102T150000Z',
+        'DTEND:20230102T153000Z',
+        'RRULE:FREQ=WEEKLY;BYDAY=MO,TH',
+        'EXDATE:20230119T150000Z',
+        'SUMMARY:Sync',
+      ]),
+      { start: new Date('2023-01-10T00:00:00Z'), end: new Date('2023-01-24T00:00:00Z') }
+    );
+    expect(events.map(e => [e.id, e.start])).toEqual([
+      ['sync#3', '2023-01-12T15:00:00.000Z'],
+      ['sync#4', '2023-01-16T15:00:00.000Z'],
+      ['sync#6', '2023-01-23T15:00:00.000Z'],
+    ]);
+    expect(events[0].end).toBe('2023-01-12T15:30:00.000Z');
+  });
+
+  it('follows COUNT, UNTIL and ordinal weekdays', () => {
+    const lastFriday = parseIcs(calendar([
+      'DTSTART;VALUE=DATE:20230127',
+      'RRULE:FREQ=MONTHLY;BYDAY=-1FR;COUNT=3',
+      'SUMMARY:Demo day',
+    ])).events;
+    expect(lastFriday.map(e => e.start)).toEqual(['2023-01-27', '2023-02-24', '2023-03-31']);
+
+    const yearly = parseIcs(calendar([
+      'DTSTART:20200229T120000Z',
+      'RRULE:FREQ=YEARLY;UNTIL=20290101T000000Z',
+      'SUMMARY:Leap day',
+    ])).events;
+    expect(yearly.map(e => e.start)).toEqual(['2020-02-29T12:00:00.000Z', '2024-02-29T12:00:00.000Z', '2028-02-29T12:00:00.000Z']);
+
+    const thanksgiving = parseIcs(calendar([
+      'DTSTART;VALUE=DATE:20231123',
+      'RRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=4TH;COUNT=2',
+      'SUMMARY:Thanksgiving',
+    ])).events;
+    expect(thanksgiving.map(e => e.start)).toEqual(['2023-11-23', '2024-11-28']);
+  });
+
+  it('keeps local time across a daylight saving change', () => {
+    const { events } = parseIcs(calendar([
+      'DTSTART;TZID=Europe/Berlin:20230324T090000',
+      'RRULE:FREQ=DAILY;INTERVAL=2;COUNT=3',
+      'SUMMARY:Walk',
+    ]));
+    // 09:00 in Berlin is 08:00 UTC before March 26 and 07:00 after
+    expect(events.map(e => e.start)).toEqual([
+      '2023-03-24T08:00:00.000Z',
+      '2023-03-26T07:00:00.000Z',
+      '2023-03-28T07:00:00.000Z',
+    ]);
+  });
+
+  it('replaces an occurrence with its RECURRENCE-ID override', () => {
+    const { events } = parseIcs(calendar(
+      ['UID:retro', 'DTSTART:20230105T100000Z', 'RRULE:FREQ=WEEKLY;COUNT=3', 'SUMMARY:Retro'],
+      ['UID:retro', 'RECURRENCE-ID:20230112T100000Z', 'DTSTART:20230113T140000Z', 'SUMMARY:Retro (moved)'],
+    ));
+    expect(events.map(e => [e.id, e.start, e.title])).toEqual([
+      ['retro#0', '2023-01-05T10:00:00.000Z', 'Retro'],
+      ['retro#1', '2023-01-13T14:00:00.000Z', 'Retro (moved)'],
+      ['retro#2', '2023-01-19T10:00:00.000Z', 'Retro'],
+    ]);
+  });
+
+  it('finds overrides moved into the window from outside it', () => {
+    const { events } = parseIcs(
+      calendar(
+        ['UID:retro', 'DTSTART:20230105T100000Z', 'RRULE:FREQ=WEEKLY;COUNT=4', 'SUMMARY:Retro'],
+        ['UID:retro', 'RECURRENCE-ID:20230126T100000Z', 'DTSTART:20230110T140000Z', 'SUMMARY:Retro (early)'],
+        ['UID:retro', 'RECURRENCE-ID:20230202T100000Z', 'DTSTART:20230111T140000Z', 'SUMMARY:Retro (extra)'],
+      ),
+      { start: new Date('2023-01-01T00:00:00Z'), end: new Date('2023-01-15T00:00:00Z') }
+    );
+    expect(events.map(e => [e.id, e.start, e.title])).toEqual([
+      ['retro#0', '2023-01-05T10:00:00.000Z', 'Retro'],
+      ['retro#1', '2023-01-12T10:00:00.000Z', 'Retro'],
+      ['retro#3', '2023-01-10T14:00:00.000Z', 'Retro (early)'],
+      ['retro#20230202T100000Z', '2023-01-11T14:00:00.000Z', 'Retro (extra)'],
+    ]);
+  });
+
+  it('bounds a rule without an end', () => {
+    const { events } = parseIcs(calendar(['DTSTART:20000101T000000Z', 'RRULE:FREQ=DAILY', 'SUMMARY:Forever']));
+    expect(events).toHaveLength(1000);
+  });
+});
+
+describe('toIcs', () => {
+  const stamp = new Date('2024-01-01T00:00:00Z');
+
+  it('writes events as VEVENTs', () => {
+    const ics = toIcs(
+      [
+        { id: 'launch', start: '2023-03-15T09:30:00Z', end: '2023-03-15T10:00:00Z', title: 'Launch; v2', description: 'Two\nlines', link: 'https://example.com', classname: 'web' },
+        { id: 'holiday', start: '2023-03-20', title: 'Holiday' },
+        { start: 'not a date', title: 'Skipped' },
+      ],
+      'Releases',
+      stamp
+    );
+    expect(ics.split('\r\n')).toEqual([
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//react-simile-timeline//EN',
+      'CALSCALE:GREGORIAN',
+      'X-WR-CALNAME:Releases',
+      'BEGIN:VEVENT',
+      'UID:launch',
+      'DTSTAMP:20240101T000000Z',
+      'DTSTART:20230315T093000Z',
+      'DTEND:20230315T100000Z',
+      'SUMMARY:Launch\\; v2',
+      'DESCRIPTION:Two\\nlines',
+      'URL:https://example.com',
+      'CATEGORIES:web',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:holiday',
+      'DTSTAMP:20240101T000000Z',
+      'DTSTART;VALUE=DATE:20230320',
+      'DTEND;VALUE=DATE:20230321',
+      'SUMMARY:Holiday',
+      'END:VEVENT',
+      'END:VCALENDAR',
+      '',
+    ]);
+  });
+
+  it('folds lines at 75 octets', () => {
+    const ics = toIcs([{ id: 'a', start: '2023-03-15', title: 'é'.repeat(60) }], undefined, stamp);
+    const lines = ics.split('\r\n');
+    const encoder = new TextEncoder();
+    expect(lines.every(line => encoder.encode(line).length <= 75)).toBe(true);
+    expect(lines.some(line => line.startsWith(' '))).toBe(true);
+  });
+
+  it('keeps line breaks in values from starting properties of their own', () => {
+    const ics = toIcs(
+      [{ id: 'a', start: '2023-03-15', title: 'One\rTwo', link: 'https://example.com/\r\nATTENDEE:mailto:x@example.com' }],
+      undefined,
+      stamp
+    );
+    const lines = ics.split('\r\n');
+    expect(lines).toContain('SUMMARY:One\\nTwo');
+    expect(lines).toContain('URL:https://example.com/%0D%0AATTENDEE:mailto:x@example.com');
+    expect(lines.some(line => line.startsWith('ATTENDEE'))).toBe(false);
+    expect(ics.replace(/\r\n/g, '')).not.toMatch(/[\r\n]/);
+  });
+
+  it('folds a long link and reads it back whole', () => {
+    const link = `https://example.com/${'path/'.repeat(30)}`;
+    const ics = toIcs([{ id: 'a', start: '2023-03-15', title: 'A', link }], undefined, stamp);
+    const encoder = new TextEncoder();
+    expect(ics.split('\r\n').every(line => encoder.encode(line).length <= 75)).toBe(true);
+    expect(parseIcs(ics).events[0].link).toBe(link);
+  });
+
+  it('round-trips through parseIcs', () => {
+    const events = [
+      { id: 'launch', start: '2023-03-15T09:30:00.000Z', end: '2023-03-15T10:00:00.000Z', title: 'Launch, v2', description: 'Two\nlines', classname: 'web' },
+      { id: 'offsite', start: '2023-04-01', end: '2023-04-04', title: 'Offsite' },
+      { id: 'holiday', start: '2023-03-20', title: 'Holiday' },
+      { id: 'long', start: '2023-03-21', title: 'x'.repeat(200) },
+    ];
+    expect(parseIcs(toIcs(events, undefined, stamp)).events).toEqual(events);
+  });
+});
@@ -0,0 +1,652 @@
+/**
+ * iCalendar
+ * Calendar files (RFC 5545 `.ics`) read into timeline data, recurring
+ * events expanded, and timeline events written back out as a calendar
+ */
+
+import type { TimelineData, TimelineEvent } from '../types';
+import { tryParseDate } from './dateUtils';
+import { generateEventId } from './layoutEngine';
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+const WEEK = 7 * DAY;
+
+/** Occurrences a recurring event expands to when no window bounds it */
+const MAX_OCCURRENCES = 1000;
+
+/** Periods (days, weeks, months or years) a rule is stepped through at most */
+const MAX_PERIODS = 50000;
+
+/** Octets per line before a line is folded onto the next */
+const LINE_LIMIT = 75;
+
+/** Weekday codes, in the order of Date#getUTCDay */
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+/**
+ * A date or date-time value as written: its wall-clock fields, held as if
+ * they were UTC, and what they are relative to
+ */
+interface IcsDate {
+  /** Wall-clock time, as epoch ms of the same fields in UTC */
+  wall: number;
+  /** A date without a time: an all-day value */
+  allDay: boolean;
+  /** `'utc'`, `'floating'` (the reader's local time) or a TZID */
+  zone: string;
+}
+
+/**
+ * One content line: `NAME;PARAM=value:value`
+ */
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+/**
+ * The parts of an RRULE the expansion follows
+ */
+interface RecurrenceRule {
+  freq: 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+  interval: number;
+  count?: number;
+  until?: IcsDate;
+  byDay?: Array<{ ordinal?: number; weekday: number }>;
+  byMonthDay?: number[];
+  byMonth?: number[];
+}
+
+/**
+ * A VEVENT's properties, before recurrence
+ */
+interface VEvent {
+  uid?: string;
+  start: IcsDate;
+  /** Length, in wall-clock ms, if it has an end or duration */
+  length?: number;
+  rule?: RecurrenceRule;
+  exdates: IcsDate[];
+  recurrenceId?: IcsDate;
+  fields: Pick<TimelineEvent, 'title' | 'description' | 'link' | 'classname'>;
+}
+
+/**
+ * Parse an iCalendar document into timeline data, an event per VEVENT
+ * occurrence. DTSTART and DTEND (or DURATION) give the dates: all-day
+ * values become date-only starts, with a one-day event as a point event;
+ * UTC and TZID times become UTC instants, and floating times stay local.
+ * SUMMARY, DESCRIPTION, URL and the first of CATEGORIES become the title,
+ * description, link and classname, and UID the id.
+ *
+ * An RRULE (FREQ, INTERVAL, COUNT, UNTIL, BYDAY, BYMONTHDAY and BYMONTH) is
+ * expanded to the occurrences overlapping `window`, or without one, to the
+ * first 1000; EXDATEs are skipped and RECURRENCE-ID overrides replace the
+ * occurrence they name, wherever that was. Occurrences are identified as
+ * `UID#n`, n counting from DTSTART; an override of an occurrence the rule
+ * does not make is kept, as `UID#` and its RECURRENCE-ID in UTC.
+ */
+export function parseIcs(text: string, window?: { start: Date; end: Date }): TimelineData {
+  const vevents = readVEvents(text);
+
+  // Overrides of single occurrences, by the series they belong to
+  const overrides = new Map<string, Map<number, VEvent>>();
+  for (const vevent of vevents) {
+    if (!vevent.recurrenceId || vevent.uid === undefined) continue;
+    let series = overrides.get(vevent.uid);
+    if (!series) {
+      series = new Map();
+      overrides.set(vevent.uid, series);
+    }
+    series.set(toInstant(vevent.recurrenceId), vevent);
+  }
+
+  const recurring = new Set(vevents.filter(v => v.rule).map(v => v.uid));
+
+  const events: TimelineEvent[] = [];
+  for (const vevent of vevents) {
+    // An override is emitted in place of the occurrence it replaces
+    if (vevent.recurrenceId && recurring.has(vevent.uid)) continue;
+    const series = vevent.uid === undefined ? undefined : overrides.get(vevent.uid);
+    if (!vevent.rule) {
+      if (overlapsWindow(vevent.start, vevent.length, window)) {
+        events.push(toTimelineEvent(vevent, vevent.start, vevent.uid));
+      }
+      continue;
+    }
+    const excluded = new Set(vevent.exdates.map(toInstant));
+    // Expansion runs on to the last occurrence overridden, so one moved into
+    // the window from past its end is found and keeps its number
+    const unmatched = new Map(series);
+    const through = window && series
+      ? { start: window.start, end: new Date(Math.max(window.end.getTime(), ...series.keys())) }
+      : window;
+    expandRule(vevent.start, vevent.rule, through, (start, n) => {
+      const instant = toInstant(start);
+      unmatched.delete(instant);
+      if (excluded.has(instant)) return;
+      const override = series?.get(instant);
+      const occurrence = override ?? vevent;
+      const occurrenceStart = override ? override.start : start;
+      if (overlapsWindow(occurrenceStart, occurrence.length, window)) {
+        events.push(toTimelineEvent(occurrence, occurrenceStart, vevent.uid === undefined ? undefined : `${vevent.uid}#${n}`));
+      }
+    });
+    // Overrides of no occurrence the rule makes, such as one past its COUNT
+    for (const [instant, override] of unmatched) {
+      if (overlapsWindow(override.start, override.length, window)) {
+        events.push(toTimelineEvent(override, override.start, `${vevent.uid}#${formatUtc(instant)}`));
+      }
+    }
+  }
+  return { events };
+}
+
+/**
+ * Write events as an iCalendar document, a VEVENT each. Date-only starts and
+ * ends are written as all-day dates, and times as UTC; an event's id is its
+ * UID. Text is escaped and links have control characters percent-encoded,
+ * so no value can start a line of its own, and every line is folded. Events
+ * whose dates cannot be read, or fall outside years 0-9999, are left out.
+ * `stamp` is the DTSTAMP every VEVENT needs.
+ */
+export function toIcs(events: TimelineEvent[], calendarName?: string, stamp: Date = new Date()): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//react-simile-timeline//EN',
+    'CALSCALE:GREGORIAN',
+  ];
+  if (calendarName) lines.push(`X-WR-CALNAME:${escapeText(calendarName)}`);
+
+  for (const event of events) {
+    const start = writeDate(event.start);
+    const end = event.end ? writeDate(event.end) : null;
+    if (!start || (event.end && !end)) continue;
+
+    lines.push('BEGIN:VEVENT', `UID:${escapeText(event.id ?? generateEventId(event))}`, `DTSTAMP:${formatUtc(stamp.getTime())}`);
+    lines.push(dateProperty('DTSTART', start));
+    if (end) {
+      lines.push(dateProperty('DTEND', end));
+    } else if (start.allDay) {
+      // An all-day event without an end lasts its day
+      lines.push(dateProperty('DTEND', { allDay: true, wall: start.wall + DAY }));
+    }
+    lines.push(`SUMMARY:${escapeText(event.title)}`);
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    if (event.link) lines.push(`URL:${escapeUri(event.link)}`);
+    if (event.classname) lines.push(`CATEGORIES:${escapeText(event.classname)}`);
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * The VEVENTs of a document, alarms and other nested components skipped
+ */
+function readVEvents(text: string): VEvent[] {
+  const vevents: VEvent[] = [];
+  let current: ContentLine[] | null = null;
+  let nested = 0;
+
+  for (const line of unfoldLines(text)) {
+    const content = parseContentLine(line);
+    if (!content) continue;
+    if (content.name === 'BEGIN') {
+      if (current) {
+        nested++;
+      } else if (content.value.toUpperCase() === 'VEVENT') {
+        current = [];
+      }
+    } else if (content.name === 'END') {
+      if (nested > 0) {
+        nested--;
+      } else if (current && content.value.toUpperCase() === 'VEVENT') {
+        const vevent = toVEvent(current);
+        if (vevent) vevents.push(vevent);
+        current = null;
+      }
+    } else if (current && nested === 0) {
+      current.push(content);
+    }
+  }
+  return vevents;
+}
+
+/**
+ * A VEVENT from its properties, or null without a readable DTSTART
+ */
+function toVEvent(properties: ContentLine[]): VEvent | null {
+  const get = (name: string) => properties.find(p => p.name === name);
+  const startLine = get('DTSTART');
+  const start = startLine && parseIcsDate(startLine);
+  if (!start) return null;
+
+  const endLine = get('DTEND');
+  const end = endLine && parseIcsDate(endLine);
+  const duration = get('DURATION');
+  let length = end ? end.wall - start.wall : duration ? parseDuration(duration.value) : undefined;
+  // An end in another zone is measured between instants instead
+  if (end && end.zone !== start.zone) length = toInstant(end) - toInstant(start);
+  // An all-day event without an end lasts its day (RFC 5545 3.6.1)
+  if (length === undefined && start.allDay) length = DAY;
+
+  const rruleLine = get('RRULE');
+  const recurrenceIdLine = get('RECURRENCE-ID');
+  const summary = get('SUMMARY');
+  const description = get('DESCRIPTION');
+  const url = get('URL');
+  const categories = get('CATEGORIES');
+
+  return {
+    uid: get('UID')?.value,
+    start,
+    length: length !== undefined && length > 0 ? length : undefined,
+    rule: rruleLine ? parseRule(rruleLine.value, start) ?? undefined : undefined,
+    exdates: properties
+      .filter(p => p.name === 'EXDATE')
+      .flatMap(p => p.value.split(',').map(value => parseIcsDate({ ...p, value })))
+      .filter((d): d is IcsDate => d !== null),
+    recurrenceId: (recurrenceIdLine && parseIcsDate(recurrenceIdLine)) || undefined,
+    fields: {
+      title: summary ? unescapeText(summary.value) : '',
+      description: description ? unescapeText(description.value) : undefined,
+      link: url?.value || undefined,
+      classname: categories ? unescapeText(splitText(categories.value)[0] ?? '') || undefined : undefined,
+    },
+  };
+}
+
+/**
+ * An occurrence of a VEVENT as a timeline event
+ */
+function toTimelineEvent(vevent: VEvent, start: IcsDate, id: string | undefined): TimelineEvent {
+  const event: TimelineEvent = { start: formatEventDate(start), title: vevent.fields.title ?? '' };
+  if (id !== undefined) event.id = id;
+  // A single all-day event is a point on its date; longer ones span their days
+  if (vevent.length !== undefined && !(start.allDay && vevent.length <= DAY)) {
+    event.end = formatEventDate({ ...start, wall: start.wall + vevent.length });
+  }
+  if (vevent.fields.description) event.description = vevent.fields.description;
+  if (vevent.fields.link) event.link = vevent.fields.link;
+  if (vevent.fields.classname) event.classname = vevent.fields.classname;
+  return event;
+}
+
+/**
+ * Whether an occurrence overlaps the window, if there is one
+ */
+function overlapsWindow(start: IcsDate, length: number | undefined, window?: { start: Date; end: Date }): boolean {
+  if (!window) return true;
+  const startMs = toInstant(start);
+  const endMs = length === undefined ? startMs : toInstant({ ...start, wall: start.wall + length });
+  return startMs <= window.end.getTime() && endMs >= window.start.getTime();
+}
+
+/**
+ * Call `emit` with each occurrence of a rule, from DTSTART on, with its
+ * number. Stops at COUNT, UNTIL, the end of the window, or without a
+ * window, MAX_OCCURRENCES.
+ */
+function expandRule(
+  dtstart: IcsDate,
+  rule: RecurrenceRule,
+  window: { start: Date; end: Date } | undefined,
+  emit: (start: IcsDate, n: number) => void
+): void {
+  const timeOfDay = mod(dtstart.wall, DAY);
+  const untilMs = rule.until ? toInstant(rule.until) : Infinity;
+  const windowEndMs = window ? window.end.getTime() : Infinity;
+  const limit = rule.count ?? (window ? Infinity : MAX_OCCURRENCES);
+  let n = 0;
+
+  for (let period = 0; period < MAX_PERIODS; period++) {
+    for (const day of candidateDays(dtstart.wall, rule, period)) {
+      const wall = day + timeOfDay;
+      if (wall < dtstart.wall) continue;
+      const start = { ...dtstart, wall };
+      const startMs = toInstant(start);
+      if (startMs > untilMs || startMs > windowEndMs || n >= limit) return;
+      emit(start, n);
+      n++;
+    }
+  }
+}
+
+/**
+ * Days (wall ms at midnight) a rule selects in one of its periods, in order
+ */
+function candidateDays(dtstartWall: number, rule: RecurrenceRule, period: number): number[] {
+  const first = dtstartWall - mod(dtstartWall, DAY);
+  const step = period * rule.interval;
+  const inMonths = (day: number) => !rule.byMonth || rule.byMonth.includes(new Date(day).getUTCMonth() + 1);
+  const date = new Date(first);
+
+  switch (rule.freq) {
+    case 'DAILY': {
+      const day = first + step * DAY;
+      return inMonths(day) && matchesMonthDay(day, rule.byMonthDay) && matchesWeekday(day, rule.byDay) ? [day] : [];
+    }
+    case 'WEEKLY': {
+      // Weeks start on Monday (WKST=MO)
+      const weekStart = first - mod(date.getUTCDay() - 1, 7) * DAY + step * WEEK;
+      const weekdays = rule.byDay?.map(d => d.weekday) ?? [date.getUTCDay()];
+      return Array.from({ length: 7 }, (_, i) => weekStart + i * DAY)
+        .filter(day => weekdays.includes(new Date(day).getUTCDay()) && inMonths(day));
+    }
+    case 'MONTHLY': {
+      const month = date.getUTCMonth() + step;
+      const spanStart = Date.UTC(date.getUTCFullYear(), month, 1);
+      const spanEnd = Date.UTC(date.getUTCFullYear(), month + 1, 1);
+      return inMonths(spanStart) ? daysInSpan(spanStart, spanEnd, rule, date.getUTCDate()) : [];
+    }
+    case 'YEARLY': {
+      const year = date.getUTCFullYear() + step;
+      const months = rule.byMonth ?? (rule.byDay && !rule.byMonthDay ? undefined : [date.getUTCMonth() + 1]);
+      if (!months) {
+        // BYDAY alone counts weekdays through the whole year
+        return daysInSpan(Date.UTC(year, 0, 1), Date.UTC(year + 1, 0, 1), rule, date.getUTCDate());
+      }
+      return months.flatMap(m =>
+        daysInSpan(Date.UTC(year, m - 1, 1), Date.UTC(year, m, 1), rule, date.getUTCDate())
+      );
+    }
+  }
+}
+
+/**
+ * Days of a month or year that BYMONTHDAY and BYDAY select, ordinals
+ * counted within the span; without either, the day of DTSTART's month
+ */
+function daysInSpan(spanStart: number, spanEnd: number, rule: RecurrenceRule, dtstartDay: number): number[] {
+  const days: number[] = [];
+  for (let day = spanStart; day < spanEnd; day += DAY) {
+    if (!rule.byMonthDay && !rule.byDay) {
+      if (new Date(day).getUTCDate() === dtstartDay) days.push(day);
+      continue;
+    }
+    if (!matchesMonthDay(day, rule.byMonthDay)) continue;
+    if (rule.byDay) {
+      const weekday = new Date(day).getUTCDay();
+      const fromStart = Math.floor((day - spanStart) / WEEK) + 1;
+      const fromEnd = -(Math.floor((spanEnd - DAY - day) / WEEK) + 1);
+      const selected = rule.byDay.some(d =>
+        d.weekday === weekday && (d.ordinal === undefined || d.ordinal === fromStart || d.ordinal === fromEnd)
+      );
+      if (!selected) continue;
+    }
+    days.push(day);
+  }
+  return days;
+}
+
+/**
+ * Whether a day is one of the days of the month listed, negatives counted
+ * back from the month's last day
+ */
+function matchesMonthDay(day: number, byMonthDay: number[] | undefined): boolean {
+  if (!byMonthDay) return true;
+  const date = new Date(day);
+  const dayOfMonth = date.getUTCDate();
+  const monthLength = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+  return byMonthDay.some(d => d === dayOfMonth || d === dayOfMonth - monthLength - 1);
+}
+
+/**
+ * Whether a day falls on one of the weekdays listed
+ */
+function matchesWeekday(day: number, byDay: RecurrenceRule['byDay']): boolean {
+  return !byDay || byDay.some(d => d.weekday === new Date(day).getUTCDay());
+}
+
+/**
+ * An RRULE value, or null if its frequency is not one the expansion follows
+ */
+function parseRule(value: string, dtstart: IcsDate): RecurrenceRule | null {
+  const parts = new Map(
+    value.split(';').map(part => {
+      const [key, ...rest] = part.split('=');
+      return [key.trim().toUpperCase(), rest.join('=').trim().toUpperCase()] as const;
+    })
+  );
+  const freq = parts.get('FREQ');
+  if (freq !== 'DAILY' && freq !== 'WEEKLY' && freq !== 'MONTHLY' && freq !== 'YEARLY') return null;
+
+  const numbers = (key: string) => parts.get(key)?.split(',').map(Number).filter(Number.isInteger);
+  const rule: RecurrenceRule = { freq, interval: Math.max(1, Number(parts.get('INTERVAL')) || 1) };
+  const count = Number(parts.get('COUNT'));
+  if (Number.isInteger(count) && count > 0) rule.count = count;
+  const until = parts.get('UNTIL');
+  // UNTIL is in UTC when DTSTART has a zone, and floating otherwise
+  if (until) rule.until = parseIcsDate({ name: 'UNTIL', params: {}, value: until }) ?? undefined;
+  if (rule.until && !rule.until.allDay && rule.until.zone === 'floating') rule.until.zone = dtstart.zone;
+  rule.byMonth = numbers('BYMONTH');
+  rule.byMonthDay = numbers('BYMONTHDAY');
+  rule.byDay = parts.get('BYDAY')?.split(',').flatMap(code => {
+    const match = code.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+    return match ? [{ ordinal: match[1] ? Number(match[1]) : undefined, weekday: WEEKDAYS.indexOf(match[2]) }] : [];
+  });
+  return rule;
+}
+
+/**
+ * A DATE or DATE-TIME value with its TZID, or null if unreadable
+ */
+function parseIcsDate({ params, value }: ContentLine): IcsDate | null {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+  const [, year, month, day, hour, minute, second, utc] = match;
+  const wall = Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hour ?? 0), Number(minute ?? 0), Number(second ?? 0));
+  if (hour === undefined) return { wall, allDay: true, zone: 'floating' };
+  const zone = utc ? 'utc' : params.TZID ? params.TZID : 'floating';
+  return { wall, allDay: false, zone };
+}
+
+/**
+ * A DURATION value in ms, e.g. `P1W`, `PT1H30M`, `-P2D`
+ */
+function parseDuration(value: string): number | undefined {
+  const match = value.trim().match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return undefined;
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const ms = Number(weeks ?? 0) * WEEK + Number(days ?? 0) * DAY +
+    Number(hours ?? 0) * 60 * MINUTE + Number(minutes ?? 0) * MINUTE + Number(seconds ?? 0) * 1000;
+  return sign === '-' ? -ms : ms;
+}
+
+/**
+ * The instant a value names. Floating times are the reader's local time, as
+ * are all-day dates; a TZID the platform does not know is read as floating.
+ */
+function toInstant(date: IcsDate): number {
+  if (date.zone === 'utc') return date.wall;
+  if (date.zone !== 'floating') {
+    const offset = zoneOffset(date.zone);
+    if (offset) {
+      // The offset at the wall time itself, adjusted once across a DST change
+      const guess = date.wall - offset(date.wall);
+      return date.wall - offset(guess);
+    }
+  }
+  const wall = new Date(date.wall);
+  const local = new Date(0);
+  local.setFullYear(wall.getUTCFullYear(), wall.getUTCMonth(), wall.getUTCDate());
+  local.setHours(wall.getUTCHours(), wall.getUTCMinutes(), wall.getUTCSeconds(), 0);
+  return local.getTime();
+}
+
+/** Offset functions by time zone, null for zones the platform does not know */
+const zoneOffsets = new Map<string, ((instant: number) => number) | null>();
+
+/**
+ * Offset of a time zone from UTC at an instant, in ms
+ */
+function zoneOffset(timeZone: string): ((instant: number) => number) | null {
+  if (zoneOffsets.has(timeZone)) return zoneOffsets.get(timeZone)!;
+  let offset: ((instant: number) => number) | null = null;
+  try {
+    const format = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    offset = (instant) => {
+      const parts = Object.fromEntries(format.formatToParts(instant).map(p => [p.type, Number(p.value)]));
+      const wall = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+      return wall - (instant - mod(instant, 1000));
+    };
+  } catch {
+    // An unknown zone: RangeError from Intl
+  }
+  zoneOffsets.set(timeZone, offset);
+  return offset;
+}
+
+/**
+ * A value as a TimelineEvent date: a date for all-day values, an ISO
+ * instant for zoned ones, and a local date-time for floating ones
+ */
+function formatEventDate(date: IcsDate): string {
+  const iso = new Date(date.wall).toISOString();
+  if (date.allDay) return iso.slice(0, 10);
+  if (date.zone === 'floating') return iso.slice(0, 19);
+  return new Date(toInstant(date)).toISOString();
+}
+
+/**
+ * A TimelineEvent date to write, or null if it cannot be written: dates
+ * without a time as all-day wall dates, times as UTC instants
+ */
+function writeDate(value: string): { allDay: boolean; wall: number } | null {
+  const trimmed = value.trim();
+  const parsed = tryParseDate(trimmed);
+  if (!parsed) return null;
+  const year = parsed.getFullYear();
+  if (year < 0 || year > 9999) return null;
+  return /^\d{4}(-\d{2}(-\d{2})?)?$/.test(trimmed)
+    ? { allDay: true, wall: Date.UTC(year, parsed.getMonth(), parsed.getDate()) }
+    : { allDay: false, wall: parsed.getTime() };
+}
+
+/**
+ * A DTSTART or DTEND line for a date to write
+ */
+function dateProperty(name: string, date: { allDay: boolean; wall: number }): string {
+  return date.allDay ? `${name};VALUE=DATE:${formatDateValue(date.wall)}` : `${name}:${formatUtc(date.wall)}`;
+}
+
+/**
+ * Epoch ms as a UTC DATE-TIME value, e.g. `20230315T093000Z`
+ */
+function formatUtc(ms: number): string {
+  return new Date(ms).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Wall ms as a DATE value, e.g. `20230315`
+ */
+function formatDateValue(wall: number): string {
+  return new Date(wall).toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+/**
+ * Lines of a document with folded lines joined back up
+ */
+function unfoldLines(text: string): string[] {
+  return text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+}
+
+/**
+ * Fold a line to at most LINE_LIMIT octets per line, never splitting a
+ * character
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let part = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines lose one octet to their leading space
+    if (octets + size > (parts.length === 0 ? LINE_LIMIT : LINE_LIMIT - 1)) {
+      parts.push(part);
+      part = '';
+      octets = 0;
+    }
+    part += char;
+    octets += size;
+  }
+  parts.push(part);
+  return parts.join('\r\n ');
+}
+
+/**
+ * A content line's name, parameters and value, or null if it has no colon
+ */
+function parseContentLine(line: string): ContentLine | null {
+  // The value starts at the first colon outside a quoted parameter value
+  let quoted = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') quoted = !quoted;
+    else if (line[i] === ':' && !quoted) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) return null;
+
+  const [name, ...paramParts] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  for (const part of paramParts) {
+    const [key, ...rest] = part.split('=');
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+  }
+  return { name: name.trim().toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+/**
+ * Split a list of TEXT values at the commas that are not escaped
+ */
+function splitText(value: string): string[] {
+  return value.split(/(?<!\\),/);
+}
+
+/**
+ * A TEXT value with its escapes read
+ */
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+/**
+ * Text escaped as a TEXT value, a line break of any kind as `\n`
+ */
+function escapeText(value: string): string {
+  return value.replace(/[\\;,]/g, char => `\\${char}`).replace(/\r\n?|\n/g, '\\n');
+}
+
+/**
+ * A URI value with its control characters percent-encoded: a URI may not
+ * hold them, and a CR or LF would end the line and start a property of its own
+ */
+function escapeUri(value: string): string {
+  // eslint-disable-next-line no-control-regex
+  return value.replace(/[\x00-\x1f\x7f]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase().padStart(2, '0')}`);
+}
+
+/**
+ * Remainder that takes the sign of the divisor
+ */
+function mod(value: number, divisor: number): number {
+  return ((value % divisor) + divisor) % divisor;
+}
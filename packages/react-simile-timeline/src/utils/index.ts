@@ -1,3 +1,18 @@
 export * from './dateUtils';
 export * from './scaleUtils';
 export * from './layoutEngine';
+export * from './bandSync';
+export * from './animation';
+export * from './zoomUtils';
+export * from './boundsUtils';
+export * from './eventStore';
+export * from './canvasRenderer';
+export * from './layoutWorker';
+export * from './eventDensity';
+export * from './labelMeasure';
+export * from './simileXml';
+export * from './csv';
+export * from './icalendar';
+export * from './dataSource';
+export * from './adapters';
+export * from './validation';
@@ -0,0 +1,69 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { clearLabelMeasurements, getLabelMeasurer, readLabelFont, DEFAULT_LABEL_FONT } from './labelMeasure';
+
+/** A canvas that measures each character at half the font size */
+function stubOffscreenCanvas() {
+  const measured: string[] = [];
+  class OffscreenCanvasStub {
+    getContext() {
+      return {
+        font: '',
+        measureText(this: { font: string }, text: string) {
+          measured.push(text);
+          return { width: text.length * parseFloat(this.font) / 2 };
+        },
+      };
+    }
+  }
+  vi.stubGlobal('OffscreenCanvas', OffscreenCanvasStub);
+  return measured;
+}
+
+describe('getLabelMeasurer', () => {
+  afterEach(() => {
+    clearLabelMeasurements();
+    vi.unstubAllGlobals();
+  });
+
+  it('is unavailable without OffscreenCanvas, as in jsdom', () => {
+    expect(getLabelMeasurer(DEFAULT_LABEL_FONT)).toBeNull();
+  });
+
+  it('measures in the font and caches each title', () => {
+    const measured = stubOffscreenCanvas();
+    const measure = getLabelMeasurer('20px serif')!;
+    expect(measure('Launch')).toBe(60);
+    expect(measure('Launch')).toBe(60);
+    expect(measured).toEqual(['Launch']);
+
+    // One measurer per font, shared by every caller
+    expect(getLabelMeasurer('20px serif')).toBe(measure);
+    expect(getLabelMeasurer('10px serif')!('Launch')).toBe(30);
+  });
+
+  it('starts over once cleared', () => {
+    const measured = stubOffscreenCanvas();
+    const measure = getLabelMeasurer('20px serif')!;
+    measure('Launch');
+    clearLabelMeasurements();
+    const remeasure = getLabelMeasurer('20px serif')!;
+    expect(remeasure).not.toBe(measure);
+    remeasure('Launch');
+    expect(measured).toEqual(['Launch', 'Launch']);
+  });
+});
+
+describe('readLabelFont', () => {
+  it('reads the label font from the timeline variables', () => {
+    const element = document.createElement('div');
+    element.style.setProperty('--event-font-size', '14px');
+    element.style.setProperty('--timeline-font-family', 'Georgia, serif');
+    document.body.appendChild(element);
+    expect(readLabelFont(element)).toBe('14px Georgia, serif');
+    element.remove();
+  });
+
+  it('falls back to the default font without them', () => {
+    expect(readLabelFont(document.body)).toBe(DEFAULT_LABEL_FONT);
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Label measurement
+ * Widths of event labels in the font they render in, measured on a canvas
+ * and cached per title, for track assignment to pack labels by
+ */
+
+/**
+ * Width of a label's text in pixels
+ */
+export type MeasureText = (text: string) => number;
+
+/** Label font when the timeline's CSS variables are unset, as EventMarker falls back */
+export const DEFAULT_LABEL_FONT = '12px system-ui, sans-serif';
+
+/** Titles cached per font before the cache starts over */
+const CACHE_LIMIT = 10000;
+
+/** Measurer per font, so each font's cache is shared by every band using it */
+const measurers = new Map<string, MeasureText>();
+
+/**
+ * Font event labels render in on an element: the `--event-font-size` and
+ * `--timeline-font-family` variables in effect there, as a CSS font
+ * shorthand
+ */
+export function readLabelFont(element: Element): string {
+  const style = getComputedStyle(element);
+  const size = style.getPropertyValue('--event-font-size').trim();
+  const family = style.getPropertyValue('--timeline-font-family').trim();
+  return size || family
+    ? `${size || '12px'} ${family || 'system-ui, sans-serif'}`
+    : DEFAULT_LABEL_FONT;
+}
+
+/**
+ * Measurer for labels in a font, from an OffscreenCanvas' `measureText`.
+ * Widths are cached per title. Null where there is no OffscreenCanvas with
+ * a 2D context, as in jsdom; layout then falls back to estimateLabelWidth.
+ * Works in a worker as well as on the main thread.
+ */
+export function getLabelMeasurer(font: string): MeasureText | null {
+  const cached = measurers.get(font);
+  if (cached) return cached;
+
+  const ctx = createMeasureContext();
+  if (!ctx) return null;
+  ctx.font = font;
+
+  const widths = new Map<string, number>();
+  const measure: MeasureText = (text) => {
+    let width = widths.get(text);
+    if (width === undefined) {
+      if (widths.size >= CACHE_LIMIT) widths.clear();
+      width = ctx.measureText(text).width;
+      widths.set(text, width);
+    }
+    return width;
+  };
+  measurers.set(font, measure);
+  return measure;
+}
+
+/**
+ * 2D context to measure on, or null without OffscreenCanvas support
+ */
+function createMeasureContext(): OffscreenCanvasRenderingContext2D | null {
+  if (typeof OffscreenCanvas === 'undefined') return null;
+  try {
+    return new OffscreenCanvas(1, 1).getContext('2d');
+  } catch {
+    // A canvas may be unavailable (blocked, or out of memory)
+    return null;
+  }
+}
+
+/**
+ * Forget every cached width, for when a web font finishes loading and
+ * labels measured in its fallback font are the wrong size. Measurers
+ * obtained afterwards are new functions, so layouts memoized on one re-run.
+ */
+export function clearLabelMeasurements(): void {
+  measurers.clear();
+}
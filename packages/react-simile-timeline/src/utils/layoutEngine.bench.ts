@@ -2,8 +2,11 @@ import { bench, describe } from 'vitest';
 import {
   calculateLayout,
   calculateLayoutPrepared,
+  filterVisibleEvents,
+  filterVisiblePrepared,
   prepareEvents,
 } from './layoutEngine';
+import { addStoreEvents, createEventStore } from './eventStore';
 import type { TimelineEvent } from '../types';
 
 // Per-frame layout cost at 1k / 10k / 50k point events. Run with:
@@ -13,7 +16,15 @@ import type { TimelineEvent } from '../types';
 // linear in dataset size. `calculateLayoutPrepared` runs from a set parsed once
 // (as the components now do behind a memo), so its cost is independent of
 // dataset size. The `prepareEvents` benches show where the parse cost moved to:
-// once, at data load, rather than every pan frame.
+// once, at data load, rather than every pan frame. The `addStoreEvents` benches
+// are the live-feed path: one event inserted into the store's trees in
+// O(log n), then, as a band renders it, the store's events and prepared lists
+// read back and laid out. Reading is O(n) but neither parses nor sorts, so an
+// append costs less than re-preparing everything, not O(log n) end to end.
+//
+// The duration benches query a window over durations of mixed lengths:
+// `filterVisibleEvents` scans them all, `filterVisiblePrepared` walks the
+// max-end interval tree, so it grows with the log of the count, not the count.
 
 function pointEvents(n: number): TimelineEvent[] {
   const start = Date.UTC(1900, 0, 1);
@@ -24,6 +35,20 @@ function pointEvents(n: number): TimelineEvent[] {
   }));
 }
 
+function durationEvents(n: number): TimelineEvent[] {
+  const start = Date.UTC(1900, 0, 1);
+  const span = Date.UTC(2100, 0, 1) - start;
+  const day = 24 * 60 * 60 * 1000;
+  return Array.from({ length: n }, (_, i) => {
+    const at = start + ((i * 7919) % n) * (span / n);
+    return {
+      start: new Date(at).toISOString(),
+      end: new Date(at + day * 10 ** (i % 4)).toISOString(),
+      title: `Span ${i}`,
+    };
+  });
+}
+
 const centerDate = new Date(2000, 0, 1);
 const pixelsPerMs = 100 / (24 * 60 * 60 * 1000);
 const viewportWidth = 1200;
@@ -49,5 +74,39 @@ for (const n of [1000, 10000, 50000]) {
     bench('prepareEvents (once, at data load)', () => {
       prepareEvents(events);
     });
+
+    let store = createEventStore(events);
+    let appended = 0;
+    bench('addStoreEvents (append one event)', () => {
+      store = addStoreEvents(store, [{ start: '2000-06-15', title: `Live ${appended++}` }]).store;
+    });
+
+    let readStore = createEventStore(events);
+    bench('addStoreEvents, then read and lay out', () => {
+      readStore = addStoreEvents(readStore, [{ start: '2000-06-15', title: `Live ${appended++}` }]).store;
+      void readStore.events;
+      calculateLayoutPrepared(readStore.prepared, visibleRange, pixelsPerMs, centerDate, viewportWidth);
+    });
+
+    let fed = events;
+    bench('prepareEvents, then lay out (re-prepare on append)', () => {
+      fed = [...fed, { start: '2000-06-15', title: `Live ${appended++}` }];
+      calculateLayoutPrepared(prepareEvents(fed), visibleRange, pixelsPerMs, centerDate, viewportWidth);
+    });
+  });
+}
+
+for (const n of [1000, 10000, 50000]) {
+  const events = durationEvents(n);
+  const prepared = prepareEvents(events);
+
+  describe(`${n} duration events`, () => {
+    bench('filterVisibleEvents (scan every event)', () => {
+      filterVisibleEvents(events, visibleRange);
+    });
+
+    bench('filterVisiblePrepared (interval tree)', () => {
+      filterVisiblePrepared(prepared, visibleRange);
+    });
   });
 }
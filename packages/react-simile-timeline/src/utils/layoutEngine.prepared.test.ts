@@ -5,7 +5,11 @@ import {
   prepareEvents,
   filterVisibleEvents,
   filterVisiblePrepared,
+  assignTracksPrepared,
+  type LayoutOptions,
 } from './layoutEngine';
+import { addStoreEvents, createEventStore, removeStoreEvent } from './eventStore';
+import { prepareHotZones } from './dateUtils';
 import type { TimelineEvent } from '../types';
 
 /** A viewport centered on 2000-01-01 spanning ~viewportWidth/100 days. */
@@ -27,6 +31,22 @@ function pointEvents(n: number): TimelineEvent[] {
   }));
 }
 
+/** Durations of mixed lengths, from a day to a century, in a fixed pseudo-random order. */
+function durationEvents(n: number): TimelineEvent[] {
+  const startBase = Date.UTC(1900, 0, 1);
+  const span = Date.UTC(2100, 0, 1) - startBase;
+  const day = 24 * 60 * 60 * 1000;
+  return Array.from({ length: n }, (_, i) => {
+    const start = startBase + ((i * 7919) % n) * (span / n);
+    const length = day * 10 ** (i % 5);
+    return {
+      start: new Date(start).toISOString(),
+      end: new Date(start + length).toISOString(),
+      title: `Span ${i}`,
+    };
+  });
+}
+
 const mixed: TimelineEvent[] = [
   { start: '1999-12-20', title: 'point-before' },
   { start: '2000-01-01', title: 'point-center' },
@@ -78,6 +98,80 @@ describe('prepared layout — equivalence with the un-prepared path', () => {
   });
 });
 
+describe('prepared layout — duration event queries', () => {
+  const events = durationEvents(5000);
+  const windows = [
+    visibleRange,
+    { start: new Date('1850-01-01'), end: new Date('1900-01-01') },
+    { start: new Date('1950-06-01'), end: new Date('1950-06-02') },
+    { start: new Date('1800-01-01'), end: new Date('2200-01-01') },
+  ];
+
+  it('matches filterVisibleEvents for every window', () => {
+    const prepared = prepareEvents(events);
+    for (const range of windows) {
+      expect(filterVisiblePrepared(prepared, range).map((p) => p.event)).toEqual(
+        filterVisibleEvents(events, range)
+      );
+    }
+  });
+
+  it('still matches after events are added to and removed from a store', () => {
+    const original = createEventStore(events);
+    filterVisiblePrepared(original.prepared, visibleRange);
+
+    const added: TimelineEvent = {
+      start: '1980-01-01',
+      end: '2020-01-01',
+      title: 'added',
+    };
+    const removed = original.prepared.durations[100];
+    const store = removeStoreEvent(addStoreEvents(original, [added]).store, removed.id)!;
+    const current = [...events.filter((e) => e !== removed.event), added];
+
+    for (const range of windows) {
+      expect(filterVisiblePrepared(store.prepared, range).map((p) => p.event)).toEqual(
+        filterVisibleEvents(current, range)
+      );
+    }
+  });
+});
+
+describe('prepared layout — whole-dataset tracks', () => {
+  const events = [...mixed, ...pointEvents(300)];
+  const prepared = prepareEvents(events);
+  const tracks = assignTracksPrepared(prepared, pixelsPerMs);
+  const layout = (range: { start: Date; end: Date }, options = {}) =>
+    calculateLayoutPrepared(prepared, range, pixelsPerMs, centerDate, viewportWidth, true, 0, options);
+
+  it('matches per-frame assignment when every event is in view', () => {
+    const everything = { start: new Date('1800-01-01'), end: new Date('2200-01-01') };
+    expect(layout(everything, { tracks })).toEqual(layout(everything));
+  });
+
+  it('keeps each event on its track as the view pans', () => {
+    const later = {
+      start: new Date(visibleRange.start.getTime() + halfMs),
+      end: new Date(visibleRange.end.getTime() + halfMs),
+    };
+    for (const range of [visibleRange, later]) {
+      for (const { event, track } of layout(range, { tracks })) {
+        expect(track).toBe(tracks[events.indexOf(event)]);
+      }
+    }
+  });
+
+  it('marks events that are not prepared', () => {
+    expect(tracks[mixed.findIndex((e) => e.title === 'invalid')]).toBe(-1);
+  });
+
+  it('assigns per frame when a visible event has no track', () => {
+    const partial = tracks.slice();
+    partial[mixed.findIndex((e) => e.title === 'point-center')] = -1;
+    expect(layout(visibleRange, { tracks: partial })).toEqual(layout(visibleRange));
+  });
+});
+
 describe('prepared layout — viewport culling holds at scale', () => {
   it('renders only the handful of visible events out of 50k', () => {
     const events = pointEvents(50000);
@@ -105,3 +199,39 @@ describe('prepared layout — viewport culling holds at scale', () => {
     }
   });
 });
+
+describe('prepared layout — magnified hot zones', () => {
+  it('stretches positions through a magnified zone and leaves the center fixed', () => {
+    const zones = prepareHotZones([
+      { start: '1999-12-25', end: '2000-01-08', magnify: 4 },
+    ]);
+    const args = [visibleRange, pixelsPerMs, centerDate, viewportWidth] as const;
+    const linear = calculateLayoutPrepared(prepareEvents(mixed), ...args);
+    const magnified = calculateLayoutPrepared(prepareEvents(mixed), ...args, true, 0, { zones });
+
+    const x = (layout: typeof linear, title: string) =>
+      layout.find((e) => e.event.title === title)!.x;
+    // point-after sits 4 days right of center, all inside the zone.
+    expect(x(magnified, 'point-after') - viewportWidth / 2).toBeCloseTo(
+      4 * (x(linear, 'point-after') - viewportWidth / 2)
+    );
+  });
+
+  it('assigns whole-dataset tracks on the magnified axis', () => {
+    const zones = prepareHotZones([
+      { start: '1999-12-25', end: '2000-01-08', magnify: 4 },
+    ]);
+    // A day apart, the labels overlap on the linear axis but not in the zone
+    const prepared = prepareEvents([
+      { start: '2000-01-01', title: 'First long label' },
+      { start: '2000-01-02', title: 'Second long label' },
+    ]);
+    expect(Array.from(assignTracksPrepared(prepared, pixelsPerMs))).toEqual([0, 1]);
+
+    const tracks = assignTracksPrepared(prepared, pixelsPerMs, true, 0, undefined, zones);
+    expect(Array.from(tracks)).toEqual([0, 0]);
+    const layout = (options: LayoutOptions) =>
+      calculateLayoutPrepared(prepared, visibleRange, pixelsPerMs, centerDate, viewportWidth, true, 0, options);
+    expect(layout({ zones, tracks })).toEqual(layout({ zones }));
+  });
+});
@@ -3,8 +3,17 @@ import {
   estimateLabelWidth,
   filterVisibleEvents,
   assignTracks,
+  assignTracksClustered,
+  assignPinnedTracks,
+  fixedTrackOf,
+  createGroupTrackOf,
+  partitionPrepared,
+  calculateClusteredLayoutPrepared,
+  groupOverlapping,
   calculateLayout,
   getTrackCount,
+  getEventIds,
+  prepareEvents,
   type LayoutEvent,
 } from './layoutEngine';
 import type { TimelineEvent } from '../types';
@@ -146,6 +155,154 @@ describe('assignTracks', () => {
   });
 });
 
+describe('groupOverlapping', () => {
+  it('groups items that overlap or come within the gap', () => {
+    const spans = [
+      { start: 0, end: 10 },
+      { start: 15, end: 20 },
+      { start: 40, end: 50 },
+      { start: 45, end: 60 },
+    ];
+    expect(groupOverlapping(spans, s => s, 8)).toEqual([
+      [spans[0], spans[1]],
+      [spans[2], spans[3]],
+    ]);
+    expect(groupOverlapping(spans, s => s, 0)).toHaveLength(3);
+  });
+});
+
+describe('assignTracksClustered', () => {
+  const at = (title: string, x: number, width = 50): LayoutEvent => ({
+    event: { start: '', title },
+    id: title,
+    x,
+    width,
+    track: 0,
+    isDuration: false,
+  });
+
+  it('clusters the events that fit none of the tracks', () => {
+    const { events, clusters } = assignTracksClustered(
+      [at('A', 0), at('B', 10), at('C', 20), at('D', 30), at('E', 200)],
+      2
+    );
+    expect(events.map(e => [e.id, e.track])).toEqual([['A', 0], ['B', 1], ['E', 0]]);
+    expect(clusters.map(group => group.map(e => e.id))).toEqual([['C', 'D']]);
+  });
+
+  it('puts overflow below the cluster threshold on the row under the tracks', () => {
+    const { events, clusters } = assignTracksClustered(
+      [at('A', 0), at('B', 10), at('C', 20), at('D', 300), at('E', 310)],
+      1,
+      3
+    );
+    expect(clusters).toEqual([]);
+    expect(events.map(e => [e.id, e.track])).toEqual([
+      ['A', 0], ['B', 1], ['C', 1], ['D', 0], ['E', 1],
+    ]);
+  });
+
+  it('gives each cluster its events\' time span', () => {
+    const day = 24 * 60 * 60 * 1000;
+    const events: TimelineEvent[] = [
+      { start: '2000-01-10', title: 'A' },
+      { start: '2000-01-10', title: 'B' },
+      { start: '2000-01-10', end: '2000-01-12', title: 'C' },
+      { start: '2000-01-10T12:00:00Z', title: 'D' },
+    ];
+    const { events: placed, clusters } = calculateClusteredLayoutPrepared(
+      prepareEvents(events),
+      { start: new Date('2000-01-01'), end: new Date('2000-01-20') },
+      40 / day,
+      new Date('2000-01-10'),
+      800,
+      true,
+      1
+    );
+    expect(placed.map(e => e.event.title)).toEqual(['A']);
+    expect(clusters).toHaveLength(1);
+    expect(clusters[0]).toMatchObject({
+      id: 'cluster:B|2000-01-10|',
+      track: 1,
+      startMs: Date.parse('2000-01-10'),
+      endMs: Date.parse('2000-01-12'),
+    });
+    expect(clusters[0].events.map(e => e.event.title)).toEqual(['B', 'C', 'D']);
+  });
+});
+
+describe('assignPinnedTracks', () => {
+  const at = (event: Partial<TimelineEvent> & { title: string }, x: number, width = 50): LayoutEvent => ({
+    event: { start: '', ...event },
+    id: event.title,
+    x,
+    width,
+    track: 0,
+    isDuration: false,
+  });
+
+  it('pins events to their trackNum and packs the rest below', () => {
+    const placed = assignPinnedTracks(
+      [
+        at({ title: 'A', trackNum: 2 }, 0),
+        at({ title: 'B', trackNum: 2 }, 10),
+        at({ title: 'C' }, 20),
+        at({ title: 'D' }, 30),
+        at({ title: 'E', trackNum: 0 }, 40),
+      ],
+      fixedTrackOf
+    );
+    // A and B share their lane, overlapping, rather than moving apart
+    expect(placed.map(e => [e.id, e.track])).toEqual([
+      ['A', 2], ['B', 2], ['C', 3], ['D', 4], ['E', 0],
+    ]);
+  });
+
+  it('packs events whose trackNum is not a track', () => {
+    expect(fixedTrackOf({ start: '', title: 'A', trackNum: 1 })).toBe(1);
+    expect(fixedTrackOf({ start: '', title: 'A', trackNum: -1 })).toBeUndefined();
+    expect(fixedTrackOf({ start: '', title: 'A', trackNum: 1.5 })).toBeUndefined();
+    expect(fixedTrackOf({ start: '', title: 'A' })).toBeUndefined();
+  });
+
+  it('gives each value of a field a track, in order of first appearance', () => {
+    const data: TimelineEvent[] = [
+      { start: '', title: 'A', classname: 'ops' },
+      { start: '', title: 'B', classname: 'design' },
+      { start: '', title: 'C' },
+      { start: '', title: 'D', classname: 'ops' },
+    ];
+    const trackOf = createGroupTrackOf(data, 'classname');
+    expect(data.map(trackOf)).toEqual([0, 1, undefined, 0]);
+    // Only the events in view are laid out; lanes still come from all of them
+    const placed = assignPinnedTracks([at(data[1], 0), at(data[2], 100), at(data[3], 200)], trackOf);
+    expect(placed.map(e => [e.id, e.track])).toEqual([['B', 1], ['C', 2], ['D', 0]]);
+    // A value first seen later takes the next track
+    expect(trackOf({ start: '', title: 'E', classname: 'legal' })).toBe(2);
+  });
+});
+
+describe('partitionPrepared', () => {
+  it('splits events by the first filter they pass, keeping their order', () => {
+    const prepared = prepareEvents([
+      { start: '2023-03-01', title: 'Web 2', classname: 'web' },
+      { start: '2023-01-01', end: '2023-02-01', title: 'App beta', classname: 'app' },
+      { start: '2023-01-15', title: 'Web 1', classname: 'web' },
+      { start: '2023-02-01', title: 'Legal review' },
+    ]);
+    const [web, app, all] = partitionPrepared(prepared, [
+      e => e.classname === 'web',
+      e => e.classname === 'app',
+      () => true,
+    ]);
+    expect(web.points.map(p => p.event.title)).toEqual(['Web 1', 'Web 2']);
+    expect(web.durations).toEqual([]);
+    expect(app.durations.map(p => p.event.title)).toEqual(['App beta']);
+    // Events already placed in an earlier lane are not repeated
+    expect(all.points.map(p => p.event.title)).toEqual(['Legal review']);
+  });
+});
+
 describe('getTrackCount', () => {
   it('returns 1 for empty array', () => {
     expect(getTrackCount([])).toBe(1);
@@ -205,4 +362,73 @@ describe('calculateLayout', () => {
     expect(layout[0].track).toBeDefined();
     expect(layout[1].track).toBeDefined();
   });
+  it('packs labels by their measured width when given a measurer', () => {
+    const events: TimelineEvent[] = [
+      { start: '2023-06-15', title: '東京タワー' },
+      { start: '2023-06-16', title: '大阪城' },
+    ];
+    const args = [
+      events,
+      { start: new Date('2023-06-01'), end: new Date('2023-06-30') },
+      100 / (24 * 60 * 60 * 1000), // 100px per day
+      new Date('2023-06-15T12:00:00'),
+      1000,
+    ] as const;
+
+    // Estimated at 7px a character, the first label ends well before the second
+    expect(calculateLayout(...args).map(e => e.track)).toEqual([0, 0]);
+
+    // Measured at a CJK glyph's full em, it runs into the second
+    const measured = calculateLayout(...args, true, 0, { measureText: text => text.length * 18 });
+    expect(measured.map(e => e.track)).toEqual([0, 1]);
+    expect(measured[0].width).toBe(10 + 6 + 5 * 18);
+  });
+});
+
+describe('getEventIds', () => {
+  it('uses explicit ids and generates the rest from title and dates', () => {
+    const events: TimelineEvent[] = [
+      { id: 'launch', start: '2023-01-15', title: 'Launch' },
+      { start: '2023-02-01', end: '2023-03-01', title: 'Beta' },
+    ];
+    expect(getEventIds(events)).toEqual(['launch', 'Beta|2023-02-01|2023-03-01']);
+  });
+
+  it('suffixes repeats so duplicates stay apart', () => {
+    const event: TimelineEvent = { start: '2023-01-15', title: 'Same' };
+    const events = [event, { ...event }, { id: 'x', ...event }, { id: 'x', ...event }];
+    expect(getEventIds(events)).toEqual([
+      'Same|2023-01-15|',
+      'Same|2023-01-15|#2',
+      'x',
+      'x#2',
+    ]);
+  });
+
+  it('skips entries that are not objects', () => {
+    const events = [null, { id: 'a', start: '2023-01-15', title: 'A' }, 'text'] as unknown as TimelineEvent[];
+    expect(getEventIds(events)).toEqual(['null', 'a', 'text']);
+    const prepared = prepareEvents(events);
+    expect(prepared.points.map(p => [p.id, p.index])).toEqual([['a', 1]]);
+    expect(prepared.durations).toEqual([]);
+  });
+
+  it('carries ids through prepared events into the layout', () => {
+    const events: TimelineEvent[] = [
+      { id: 'a', start: '2023-01-15', title: 'A' },
+      { id: 'b', start: '2023-01-15', end: '2023-01-20', title: 'B' },
+    ];
+    const prepared = prepareEvents(events);
+    expect(prepared.points.map(p => p.id)).toEqual(['a']);
+    expect(prepared.durations.map(p => p.id)).toEqual(['b']);
+
+    const layout = calculateLayout(
+      events,
+      { start: new Date(2023, 0, 1), end: new Date(2023, 1, 1) },
+      0.00001,
+      new Date(2023, 0, 15),
+      800
+    );
+    expect(layout.map(e => e.id).sort()).toEqual(['a', 'b']);
+  });
 });
@@ -4,7 +4,8 @@
  */
 
 import type { TimelineEvent } from '../types';
-import { parseDate } from './dateUtils';
+import { parseDate, createTimeToPixel, type MagnifiedZone } from './dateUtils';
+import type { MeasureText } from './labelMeasure';
 
 /**
  * An event with computed layout information
@@ -12,6 +13,8 @@ import { parseDate } from './dateUtils';
 export interface LayoutEvent {
   /** Original event data */
   event: TimelineEvent;
+  /** The event's id (see getEventIds) */
+  id: string;
   /** X position in pixels from viewport left */
   x: number;
   /** Estimated width of the label in pixels */
@@ -30,6 +33,64 @@ export interface LayoutEvent {
   stickyX?: number;
 }
 
+/**
+ * Events that did not fit a band's tracks, merged into one "+N events" badge
+ */
+export interface EventCluster {
+  /** Stable key: `cluster:` and the id of its first event */
+  id: string;
+  /** The events it holds, left to right */
+  events: LayoutEvent[];
+  /** Badge position in pixels from viewport left, pinned on-screen like a sticky label */
+  x: number;
+  /** Right edge of the events it holds, in pixels */
+  endX: number;
+  /** Row the badge sits on: the one below the last track */
+  track: number;
+  /** Earliest start among its events, epoch ms */
+  startMs: number;
+  /** Latest end (or start) among its events, epoch ms */
+  endMs: number;
+}
+
+/**
+ * Layout of a clustering band: the events on tracks, and badges for the rest
+ */
+export interface ClusteredLayout {
+  events: LayoutEvent[];
+  clusters: EventCluster[];
+}
+
+/**
+ * Optional inputs to the layout pass beyond the viewport itself
+ */
+export interface LayoutOptions {
+  /** Magnified hot zones; positions follow the stretched axis through them */
+  zones?: MagnifiedZone[];
+  /**
+   * Track per original event index, assigned over the whole dataset (see
+   * assignTracksPrepared; -1 for none). Used in place of per-frame assignment
+   * when every visible event has one.
+   */
+  tracks?: Int32Array;
+  /**
+   * Width of a label's text in its rendered font (see getLabelMeasurer).
+   * Without it, labels are estimated at an average character width.
+   */
+  measureText?: MeasureText;
+  /**
+   * Track pinned per event (see fixedTrackOf, createGroupTrackOf), in place
+   * of packing; events it gives none are packed onto the tracks below
+   */
+  trackOf?: TrackOf;
+}
+
+/**
+ * Track an event is pinned to, whatever else is in view, or undefined to
+ * pack it greedily
+ */
+export type TrackOf = (event: TimelineEvent) => number | undefined;
+
 /** Average character width in pixels (approximate) */
 const CHAR_WIDTH = 7;
 /** Event dot diameter */
@@ -62,6 +123,28 @@ export function estimateLabelWidth(title: string, showLabel: boolean = true): nu
   return DOT_WIDTH + LABEL_PADDING + (title.length * CHAR_WIDTH);
 }
 
+/**
+ * Width an event takes on its track: a dot or tape (at least the minimum
+ * duration width) plus its label, measured when a measurer is given and
+ * estimated otherwise
+ */
+function measureLayoutWidth(
+  title: string,
+  x: number,
+  endX: number | undefined,
+  showLabels: boolean,
+  measureText?: MeasureText
+): { width: number; durationWidth?: number } {
+  const labelWidth = showLabels
+    ? LABEL_PADDING + (measureText ? measureText(title) : title.length * CHAR_WIDTH)
+    : 0;
+  if (endX === undefined) {
+    return { width: DOT_WIDTH + labelWidth };
+  }
+  const durationWidth = Math.max(endX - x, MIN_DURATION_WIDTH);
+  return { width: durationWidth + labelWidth, durationWidth };
+}
+
 /**
  * Filter events to only those visible in the viewport
  */
@@ -93,6 +176,38 @@ export function filterVisibleEvents(
   });
 }
 
+/**
+ * Whether an entry of events data is an object at all. Data from JSON may
+ * hold anything; entries that are not objects are left off the timeline.
+ */
+export function isEventObject(event: unknown): event is TimelineEvent {
+  return typeof event === 'object' && event !== null && !Array.isArray(event);
+}
+
+/**
+ * Id for an event that has none: its title and dates, what markers were
+ * keyed on before events had ids
+ */
+export function generateEventId(event: TimelineEvent): string {
+  return `${event.title}|${event.start}|${event.end ?? ''}`;
+}
+
+/**
+ * Ids of events, aligned with the array: each event's own `id` or a
+ * generated one. Ids are made unique by suffixing repeats with `#2`, `#3` and
+ * so on, so duplicate events still key and select apart. An entry that is
+ * not an object (see isEventObject) holds its place with its text as id.
+ */
+export function getEventIds(events: TimelineEvent[]): string[] {
+  const seen = new Map<string, number>();
+  return events.map(event => {
+    const id = isEventObject(event) ? event.id ?? generateEventId(event) : String(event);
+    const count = (seen.get(id) ?? 0) + 1;
+    seen.set(id, count);
+    return count === 1 ? id : `${id}#${count}`;
+  });
+}
+
 /**
  * An event with its start/end parsed to epoch milliseconds once, so the
  * per-frame layout never re-parses. `index` is the position in the original
@@ -101,6 +216,8 @@ export function filterVisibleEvents(
  */
 export interface PreparedEvent {
   event: TimelineEvent;
+  /** The event's id (see getEventIds) */
+  id: string;
   index: number;
   startMs: number;
   /** End epoch for duration events; undefined for point events */
@@ -111,14 +228,50 @@ export interface PreparedEvent {
 /**
  * Events parsed and partitioned once, ready for repeated viewport queries.
  * Point events are sorted by start so a visible window is a binary-searchable
- * slice. Duration events are kept apart and scanned: one can start far to the
- * left and still overlap, so a start-sorted binary search cannot bound them.
+ * slice. Duration events are kept apart: one can start far to the left and
+ * still overlap, so a start-sorted binary search alone cannot bound them.
+ * They are also sorted by start, and augmented with the latest end under each
+ * node of an implicit balanced tree over that order (an interval tree), which
+ * lets a query skip every subtree that ends before the window.
  */
 export interface PreparedEvents {
-  /** Point events, ascending by startMs */
+  /** Point events, ascending by startMs, then original order */
   points: PreparedEvent[];
-  /** Duration events, original order */
+  /** Duration events, ascending by startMs, then original order */
   durations: PreparedEvent[];
+  /**
+   * Latest end per tree node over `durations` (see filterVisiblePrepared).
+   * Built on first query, in one linear pass; each event store change makes
+   * a new prepared set, which builds its own.
+   */
+  durationMaxEnd?: Float64Array;
+}
+
+/**
+ * Parse one event for the prepared set, or null if it is not an object or a
+ * date is invalid
+ */
+export function prepareEvent(event: TimelineEvent, id: string, index: number): PreparedEvent | null {
+  if (!isEventObject(event)) return null;
+  let startMs: number;
+  try {
+    startMs = parseDate(event.start).getTime();
+    if (Number.isNaN(startMs)) return null;
+  } catch {
+    return null; // skip invalid dates, as filterVisibleEvents did
+  }
+
+  if (isDurationEvent(event) && event.end) {
+    let endMs: number;
+    try {
+      endMs = parseDate(event.end).getTime();
+      if (Number.isNaN(endMs)) return null;
+    } catch {
+      return null;
+    }
+    return { event, id, index, startMs, endMs, isDuration: true };
+  }
+  return { event, id, index, startMs, isDuration: isDurationEvent(event) };
 }
 
 /**
@@ -130,31 +283,20 @@ export interface PreparedEvents {
 export function prepareEvents(events: TimelineEvent[]): PreparedEvents {
   const points: PreparedEvent[] = [];
   const durations: PreparedEvent[] = [];
+  const ids = getEventIds(events);
 
   events.forEach((event, index) => {
-    let startMs: number;
-    try {
-      startMs = parseDate(event.start).getTime();
-      if (Number.isNaN(startMs)) return;
-    } catch {
-      return; // skip invalid dates, as filterVisibleEvents did
-    }
-
-    if (isDurationEvent(event) && event.end) {
-      let endMs: number;
-      try {
-        endMs = parseDate(event.end).getTime();
-        if (Number.isNaN(endMs)) return;
-      } catch {
-        return;
-      }
-      durations.push({ event, index, startMs, endMs, isDuration: true });
+    const prepared = prepareEvent(event, ids[index], index);
+    if (!prepared) return;
+    if (prepared.endMs !== undefined) {
+      durations.push(prepared);
     } else {
-      points.push({ event, index, startMs, isDuration: isDurationEvent(event) });
+      points.push(prepared);
     }
   });
 
   points.sort((a, b) => a.startMs - b.startMs);
+  durations.sort((a, b) => a.startMs - b.startMs);
   return { points, durations };
 }
 
@@ -172,10 +314,81 @@ function lowerBound(points: PreparedEvent[], target: number): number {
   return lo;
 }
 
+/**
+ * Latest end under each node of the implicit tree over start-sorted
+ * durations: the subtree over [lo, hi) is rooted at its middle, and the
+ * root's slot holds the latest end in the subtree. O(n).
+ */
+function buildDurationMaxEnd(durations: PreparedEvent[]): Float64Array {
+  const maxEnd = new Float64Array(durations.length);
+  const build = (lo: number, hi: number): number => {
+    if (lo >= hi) return -Infinity;
+    const mid = (lo + hi) >>> 1;
+    const d = durations[mid];
+    const max = Math.max(d.endMs ?? d.startMs, build(lo, mid), build(mid + 1, hi));
+    maxEnd[mid] = max;
+    return max;
+  };
+  build(0, durations.length);
+  return maxEnd;
+}
+
+/**
+ * Collect durations overlapping [rangeStart, rangeEnd] from the subtree over
+ * [lo, hi). A subtree that ends before the window is skipped whole, and so is
+ * everything right of a node that starts after it: O(log n + k).
+ */
+function collectOverlapping(
+  durations: PreparedEvent[],
+  maxEnd: Float64Array,
+  rangeStart: number,
+  rangeEnd: number,
+  lo: number,
+  hi: number,
+  result: PreparedEvent[]
+): void {
+  if (lo >= hi) return;
+  const mid = (lo + hi) >>> 1;
+  if (maxEnd[mid] < rangeStart) return;
+
+  collectOverlapping(durations, maxEnd, rangeStart, rangeEnd, lo, mid, result);
+  const d = durations[mid];
+  if (d.startMs > rangeEnd) return;
+  if ((d.endMs ?? d.startMs) >= rangeStart) result.push(d);
+  collectOverlapping(durations, maxEnd, rangeStart, rangeEnd, mid + 1, hi, result);
+}
+
+/**
+ * Index of the first prepared point event starting at or after an epoch ms,
+ * so the points in [a, b) number `preparedPointIndex(b) - preparedPointIndex(a)`.
+ * Binary search, O(log n).
+ */
+export function preparedPointIndex(prepared: PreparedEvents, ms: number): number {
+  return lowerBound(prepared.points, ms);
+}
+
+/**
+ * Duration events overlapping [startMs, endMs], in start order, appended to
+ * `result`: an interval-tree query, O(log n + k). The tree is built on first
+ * use.
+ */
+export function filterOverlappingDurations(
+  prepared: PreparedEvents,
+  startMs: number,
+  endMs: number,
+  result: PreparedEvent[] = []
+): PreparedEvent[] {
+  const { durations } = prepared;
+  prepared.durationMaxEnd ??= buildDurationMaxEnd(durations);
+  collectOverlapping(durations, prepared.durationMaxEnd, startMs, endMs, 0, durations.length, result);
+  return result;
+}
+
 /**
  * Filter prepared events to the visible window. Point events resolve to a
- * binary-searched slice (O(log n + visible)); duration events are scanned for
- * overlap. The result is ordered by original index to match filterVisibleEvents.
+ * binary-searched slice and duration events to an interval-tree query, both
+ * O(log n + visible). The result is ordered by original index to match
+ * filterVisibleEvents.
  */
 export function filterVisiblePrepared(
   prepared: PreparedEvents,
@@ -185,7 +398,7 @@ export function filterVisiblePrepared(
   const rangeStart = visibleRange.start.getTime() - bufferMs;
   const rangeEnd = visibleRange.end.getTime() + bufferMs;
 
-  const { points, durations } = prepared;
+  const { points } = prepared;
   const result: PreparedEvent[] = [];
 
   // Point events: [rangeStart, rangeEnd] is a contiguous slice of the sorted
@@ -195,12 +408,8 @@ export function filterVisiblePrepared(
     result.push(points[i]);
   }
 
-  // Duration events: overlap test, scanned.
-  for (const d of durations) {
-    if (d.startMs <= rangeEnd && (d.endMs ?? d.startMs) >= rangeStart) {
-      result.push(d);
-    }
-  }
+  // Duration events: overlap query on the max-end tree
+  filterOverlappingDurations(prepared, rangeStart, rangeEnd, result);
 
   // Restore original order so track assignment is identical to the old path.
   result.sort((a, b) => a.index - b.index);
@@ -297,6 +506,153 @@ export function assignTracks(events: LayoutEvent[], maxTracks: number = 0): Layo
   return sorted;
 }
 
+/**
+ * Assign each event the track `trackOf` pins it to, and pack the events it
+ * pins nowhere onto the tracks below the pinned ones (see assignTracks).
+ * Pinned events may overlap: a pinned track is a lane that holds still as
+ * the view pans, not room to be shared. Returns the events sorted by x.
+ */
+export function assignPinnedTracks(events: LayoutEvent[], trackOf: TrackOf): LayoutEvent[] {
+  const unpinned: LayoutEvent[] = [];
+  let pinnedTracks = 0;
+  for (const event of events) {
+    const track = trackOf(event.event);
+    if (track === undefined) {
+      unpinned.push(event);
+    } else {
+      event.track = track;
+      pinnedTracks = Math.max(pinnedTracks, track + 1);
+    }
+  }
+  for (const event of assignTracks(unpinned)) {
+    event.track += pinnedTracks;
+  }
+  return [...events].sort((a, b) => a.x - b.x);
+}
+
+/**
+ * Pin events to their `trackNum`, for `layout: 'fixed'`. Events without a
+ * whole, non-negative one are packed.
+ */
+export function fixedTrackOf(event: TimelineEvent): number | undefined {
+  const { trackNum } = event;
+  return trackNum !== undefined && Number.isInteger(trackNum) && trackNum >= 0 ? trackNum : undefined;
+}
+
+/**
+ * Pin events to a track per value of a field, for `layout: 'grouped'`.
+ * Tracks follow the order values first appear in `events`, so they hold
+ * however the view pans; a value first seen later gets the next track.
+ * Events without the field are packed.
+ */
+export function createGroupTrackOf(events: TimelineEvent[], field: keyof TimelineEvent): TrackOf {
+  const lanes = new Map<string, number>();
+  const laneOf = (event: TimelineEvent) => {
+    const value = event[field];
+    if (value === undefined || value === null || value === '') return undefined;
+    const key = String(value);
+    let lane = lanes.get(key);
+    if (lane === undefined) {
+      lane = lanes.size;
+      lanes.set(key, lane);
+    }
+    return lane;
+  };
+  events.forEach(laneOf);
+  return laneOf;
+}
+
+/**
+ * Split prepared events into one set per filter, for a band's swimlanes.
+ * Each event goes to the first filter it passes, or to none, and keeps its
+ * place in the sorted order, so every set is ready for viewport queries.
+ */
+export function partitionPrepared(
+  prepared: PreparedEvents,
+  filters: Array<(event: TimelineEvent) => boolean>
+): PreparedEvents[] {
+  const parts: PreparedEvents[] = filters.map(() => ({ points: [], durations: [] }));
+  const place = (item: PreparedEvent, list: 'points' | 'durations') => {
+    const part = filters.findIndex(filter => filter(item.event));
+    if (part !== -1) parts[part][list].push(item);
+  };
+  for (const item of prepared.points) place(item, 'points');
+  for (const item of prepared.durations) place(item, 'durations');
+  return parts;
+}
+
+/**
+ * Split items ordered by start into runs that overlap, or come within `gap`
+ * of each other: each item joins the run before it if it starts before the
+ * run's right edge plus the gap.
+ */
+export function groupOverlapping<T>(
+  items: T[],
+  extent: (item: T) => { start: number; end: number },
+  gap: number = LABEL_GAP
+): T[][] {
+  const groups: T[][] = [];
+  let groupEnd = -Infinity;
+  for (const item of items) {
+    const { start, end } = extent(item);
+    if (groups.length > 0 && start < groupEnd + gap) {
+      groups[groups.length - 1].push(item);
+      groupEnd = Math.max(groupEnd, end);
+    } else {
+      groups.push([item]);
+      groupEnd = end;
+    }
+  }
+  return groups;
+}
+
+/**
+ * Assign tracks like assignTracks, but an event that fits none of the
+ * `maxTracks` tracks overflows instead of overlapping one. Overflowing events
+ * that overlap each other are grouped; groups of at least `minEvents` are
+ * returned as clusters, and smaller ones go on the row below the tracks
+ * (track `maxTracks`) as events.
+ * @returns The placed events, left to right, and the clustered groups
+ */
+export function assignTracksClustered(
+  events: LayoutEvent[],
+  maxTracks: number,
+  minEvents: number = 2
+): { events: LayoutEvent[]; clusters: LayoutEvent[][] } {
+  const sorted = [...events].sort((a, b) => a.x - b.x);
+  const trackEnds: number[] = [];
+  const placed: LayoutEvent[] = [];
+  const overflow: LayoutEvent[] = [];
+
+  for (const event of sorted) {
+    let assignedTrack = trackEnds.findIndex(end => event.x >= end + LABEL_GAP);
+    if (assignedTrack === -1 && trackEnds.length < maxTracks) {
+      assignedTrack = trackEnds.length;
+    }
+    if (assignedTrack === -1) {
+      overflow.push(event);
+      continue;
+    }
+    event.track = assignedTrack;
+    trackEnds[assignedTrack] = event.x + event.width;
+    placed.push(event);
+  }
+
+  const clusters: LayoutEvent[][] = [];
+  for (const group of groupOverlapping(overflow, e => ({ start: e.x, end: e.x + e.width }))) {
+    if (group.length >= minEvents) {
+      clusters.push(group);
+    } else {
+      group.forEach(event => {
+        event.track = maxTracks;
+        placed.push(event);
+      });
+    }
+  }
+
+  return { events: placed.sort((a, b) => a.x - b.x), clusters };
+}
+
 /**
  * Calculate layout for events in the viewport
  * @param maxTracks - Maximum number of tracks allowed (0 = unlimited)
@@ -308,7 +664,8 @@ export function calculateLayout(
   centerDate: Date,
   viewportWidth: number,
   showLabels: boolean = true,
-  maxTracks: number = 0
+  maxTracks: number = 0,
+  options: LayoutOptions = {}
 ): LayoutEvent[] {
   // Compatibility path: parse on every call. Components use the prepared path
   // (prepareEvents + calculateLayoutPrepared) so the per-frame cost does not
@@ -321,51 +678,39 @@ export function calculateLayout(
     centerDate,
     viewportWidth,
     showLabels,
-    maxTracks
+    maxTracks,
+    options
   );
 }
 
 /**
- * Layout from pre-parsed events. Identical output to calculateLayout, without
- * re-parsing dates: positions are computed straight from the cached epoch
- * milliseconds. This is the per-frame hot path (#36).
+ * Visible prepared events, in original order, with their positions and widths
+ * before track assignment
  */
-export function calculateLayoutPrepared(
+function positionVisiblePrepared(
   prepared: PreparedEvents,
   visibleRange: { start: Date; end: Date },
   pixelsPerMs: number,
   centerDate: Date,
   viewportWidth: number,
-  showLabels: boolean = true,
-  maxTracks: number = 0
-): LayoutEvent[] {
-  // Calculate viewport left edge in time
-  const viewportLeftMs = centerDate.getTime() - (viewportWidth / 2) / pixelsPerMs;
+  showLabels: boolean,
+  { zones, measureText }: LayoutOptions
+): { visible: PreparedEvent[]; positioned: LayoutEvent[] } {
+  // Project epoch ms to viewport x, stretched through any magnified zones
+  const toPixel = createTimeToPixel(centerDate, viewportWidth, pixelsPerMs, zones);
 
-  // Filter to visible events (binary search for points, scan for durations)
+  // Filter to visible events (binary search for points, interval tree for durations)
   const visible = filterVisiblePrepared(prepared, visibleRange);
 
   // Calculate positions from cached epoch milliseconds
-  const positioned: LayoutEvent[] = visible.map(({ event, startMs, endMs, isDuration }) => {
-    const x = (startMs - viewportLeftMs) * pixelsPerMs;
-
-    let width: number;
-    let endX: number | undefined;
-    let durationWidth: number | undefined;
-
-    if (isDuration && endMs !== undefined) {
-      // For duration events, calculate the tape width
-      endX = (endMs - viewportLeftMs) * pixelsPerMs;
-      durationWidth = Math.max(endX - x, MIN_DURATION_WIDTH);
-      // Width for track assignment includes the tape plus label
-      width = durationWidth + (showLabels ? LABEL_PADDING + (event.title.length * CHAR_WIDTH) : 0);
-    } else {
-      // For point events, estimate label width
-      width = estimateLabelWidth(event.title, showLabels);
-    }
+  const positioned: LayoutEvent[] = visible.map(({ event, id, startMs, endMs, isDuration }) => {
+    const x = toPixel(startMs);
+    const endX = isDuration && endMs !== undefined ? toPixel(endMs) : undefined;
+    const { width, durationWidth } = measureLayoutWidth(event.title, x, endX, showLabels, measureText);
 
     return {
       event,
+      id,
       x,
       width,
       track: 0, // Will be assigned by assignTracks
@@ -375,13 +720,137 @@ export function calculateLayoutPrepared(
     };
   });
 
-  // Assign tracks to prevent overlap
-  const tracked = assignTracks(positioned, maxTracks);
+  return { visible, positioned };
+}
+
+/**
+ * Layout from pre-parsed events. Identical output to calculateLayout, without
+ * re-parsing dates: positions are computed straight from the cached epoch
+ * milliseconds. This is the per-frame hot path (#36).
+ */
+export function calculateLayoutPrepared(
+  prepared: PreparedEvents,
+  visibleRange: { start: Date; end: Date },
+  pixelsPerMs: number,
+  centerDate: Date,
+  viewportWidth: number,
+  showLabels: boolean = true,
+  maxTracks: number = 0,
+  options: LayoutOptions = {}
+): LayoutEvent[] {
+  const { visible, positioned } = positionVisiblePrepared(
+    prepared,
+    visibleRange,
+    pixelsPerMs,
+    centerDate,
+    viewportWidth,
+    showLabels,
+    options
+  );
+
+  // Assign tracks to prevent overlap, pin them, or take them from a
+  // whole-dataset assignment when it covers every visible event
+  const { tracks, trackOf } = options;
+  let tracked: LayoutEvent[];
+  if (trackOf) {
+    tracked = assignPinnedTracks(positioned, trackOf);
+  } else if (tracks && visible.every(({ index }) => (tracks[index] ?? -1) >= 0)) {
+    positioned.forEach((event, i) => {
+      event.track = tracks[visible[i].index];
+    });
+    tracked = positioned.sort((a, b) => a.x - b.x);
+  } else {
+    tracked = assignTracks(positioned, maxTracks);
+  }
 
   // Calculate sticky labels for off-left events
   return calculateStickyLabels(tracked);
 }
 
+/**
+ * Layout for a clustering band: at most `maxTracks` tracks of events, with
+ * the events that fit none merged into clusters (see assignTracksClustered).
+ * Tracks are always assigned per viewport.
+ */
+export function calculateClusteredLayoutPrepared(
+  prepared: PreparedEvents,
+  visibleRange: { start: Date; end: Date },
+  pixelsPerMs: number,
+  centerDate: Date,
+  viewportWidth: number,
+  showLabels: boolean,
+  maxTracks: number,
+  minEvents: number = 2,
+  options: LayoutOptions = {}
+): ClusteredLayout {
+  const { visible, positioned } = positionVisiblePrepared(
+    prepared,
+    visibleRange,
+    pixelsPerMs,
+    centerDate,
+    viewportWidth,
+    showLabels,
+    options
+  );
+  const preparedById = new Map(visible.map(item => [item.id, item]));
+  const { events, clusters } = assignTracksClustered(positioned, maxTracks, minEvents);
+
+  return {
+    events: calculateStickyLabels(events),
+    clusters: clusters.map((group): EventCluster => {
+      const endX = Math.max(...group.map(e => e.endX ?? e.x + e.width));
+      const times = group.map(e => preparedById.get(e.id)!);
+      return {
+        id: `cluster:${group[0].id}`,
+        events: group,
+        x: group[0].x < 0 ? Math.min(STICKY_MARGIN, endX) : group[0].x,
+        endX,
+        track: maxTracks,
+        startMs: Math.min(...times.map(t => t.startMs)),
+        endMs: Math.max(...times.map(t => t.endMs ?? t.startMs)),
+      };
+    }),
+  };
+}
+
+/**
+ * Assign tracks over every prepared event at once, on the band's axis at a
+ * scale, rather than over the events in one viewport. Events keep their
+ * track as the view pans, as Simile laid bands out; the cost grows with the
+ * dataset, which is why the layout worker runs it. Labels are measured
+ * with `measureText` when given, and magnified `zones` stretch the axis as
+ * they do per frame (see LayoutOptions). Returns the track per original
+ * event index, -1 for events that are not prepared.
+ */
+export function assignTracksPrepared(
+  prepared: PreparedEvents,
+  pixelsPerMs: number,
+  showLabels: boolean = true,
+  maxTracks: number = 0,
+  measureText?: MeasureText,
+  zones: MagnifiedZone[] = []
+): Int32Array {
+  // Gaps between events do not depend on where the axis is centered, so
+  // any center will do; the epoch keeps the linear axis at ms * pixelsPerMs
+  const timeToPixel = createTimeToPixel(new Date(0), 0, pixelsPerMs, zones);
+  // In original order, as the visible set is per frame: assignTracks sorts
+  // stably by x, so events at the same x keep that order
+  const all = [...prepared.points, ...prepared.durations].sort((a, b) => a.index - b.index);
+  const positioned = all.map(({ event, id, startMs, endMs, isDuration }): LayoutEvent => {
+    const x = timeToPixel(startMs);
+    const endX = isDuration && endMs !== undefined ? timeToPixel(endMs) : undefined;
+    const { width } = measureLayoutWidth(event.title, x, endX, showLabels, measureText);
+    return { event, id, x, width, track: 0, isDuration };
+  });
+  assignTracks(positioned, maxTracks);
+
+  const tracks = new Int32Array(all.length > 0 ? all[all.length - 1].index + 1 : 0).fill(-1);
+  all.forEach(({ index }, i) => {
+    tracks[index] = positioned[i].track;
+  });
+  return tracks;
+}
+
 /**
  * Get the total number of tracks needed for layout
  */
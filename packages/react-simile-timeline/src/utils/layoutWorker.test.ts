@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createLayoutPipeline,
+  decodePreparedEvents,
+  encodePreparedEvents,
+  handleLayoutRequest,
+  type LayoutWorkerRequest,
+  type LayoutWorkerState,
+} from './layoutWorker';
+import { assignTracksPrepared, prepareEvents } from './layoutEngine';
+import type { TimelineEvent } from '../types';
+
+const events: TimelineEvent[] = [
+  { start: '2000-01-05', title: 'Later point' },
+  { start: '2000-01-01', title: 'Earlier point' },
+  { start: '1999-06-01', end: '2000-06-01', title: 'Span' },
+  { start: 'not-a-date', title: 'Invalid' },
+  { start: '2000-01-03', title: 'Flagged', isDuration: true },
+];
+
+/**
+ * A worker that answers in-process on a later task, as a real one would.
+ * `fail` makes it raise an error event instead.
+ */
+function fakeWorker({ fail = false } = {}) {
+  const listeners: Record<string, ((e: unknown) => void)[]> = {};
+  const state: LayoutWorkerState = { prepared: null };
+  const worker = {
+    terminated: false,
+    addEventListener: (type: string, listener: (e: unknown) => void) => {
+      (listeners[type] ??= []).push(listener);
+    },
+    postMessage: (request: LayoutWorkerRequest) => {
+      setTimeout(() => {
+        if (fail) {
+          listeners.error?.forEach(l => l({ message: 'boom', preventDefault: () => {} }));
+          return;
+        }
+        const { response } = handleLayoutRequest(state, request);
+        listeners.message?.forEach(l => l({ data: response }));
+      });
+    },
+    terminate: () => {
+      worker.terminated = true;
+    },
+  };
+  return worker;
+}
+
+describe('layout worker — encoding', () => {
+  it('round-trips prepared events through typed arrays', () => {
+    const prepared = prepareEvents(events);
+    const arrays = encodePreparedEvents(prepared, events.length);
+    expect(decodePreparedEvents(arrays, events)).toEqual(prepared);
+  });
+
+  it('marks events that did not prepare', () => {
+    const arrays = encodePreparedEvents(prepareEvents(events), events.length);
+    expect(arrays.startMs[3]).toBeNaN();
+    expect(Array.from(arrays.points)).toEqual([1, 4, 0]);
+    expect(Array.from(arrays.durations)).toEqual([2]);
+  });
+});
+
+describe('layout worker — requests', () => {
+  it('prepares events, then assigns tracks over them', () => {
+    const state: LayoutWorkerState = { prepared: null };
+    const prepare = handleLayoutRequest(state, { type: 'prepare', id: 1, events });
+    expect(prepare.response.type).toBe('prepare');
+    expect(prepare.transfer).toHaveLength(5);
+
+    const pixelsPerMs = 100 / (24 * 60 * 60 * 1000);
+    const tracks = handleLayoutRequest(state, {
+      type: 'tracks',
+      id: 2,
+      pixelsPerMs,
+      showLabels: true,
+      maxTracks: 0,
+    });
+    expect(tracks.response).toEqual({
+      type: 'tracks',
+      id: 2,
+      tracks: assignTracksPrepared(prepareEvents(events), pixelsPerMs),
+    });
+  });
+
+  it('reports tracks asked for before any events as an error', () => {
+    const { response } = handleLayoutRequest(
+      { prepared: null },
+      { type: 'tracks', id: 7, pixelsPerMs: 1, showLabels: true, maxTracks: 0 }
+    );
+    expect(response).toEqual({ type: 'error', id: 7, message: 'No events have been prepared' });
+  });
+});
+
+describe('layout worker — pipeline', () => {
+  it('resolves each request with its reply', async () => {
+    const pipeline = createLayoutPipeline(fakeWorker() as unknown as Worker);
+    const arrays = await pipeline.prepare(events);
+    expect(decodePreparedEvents(arrays, events)).toEqual(prepareEvents(events));
+
+    const tracks = await pipeline.assignTracks(1e-6, true, 0);
+    expect(tracks).toBeInstanceOf(Int32Array);
+    expect(tracks).toHaveLength(events.length);
+  });
+
+  it('rejects pending and later requests once the worker fails', async () => {
+    const pipeline = createLayoutPipeline(fakeWorker({ fail: true }) as unknown as Worker);
+    await expect(pipeline.prepare(events)).rejects.toThrow('boom');
+    await expect(pipeline.assignTracks(1, true, 0)).rejects.toThrow('boom');
+  });
+
+  it('rejects what is pending and stops the worker when disposed', async () => {
+    const worker = fakeWorker();
+    const pipeline = createLayoutPipeline(worker as unknown as Worker);
+    const pending = pipeline.prepare(events);
+    pipeline.dispose();
+    await expect(pending).rejects.toThrow('disposed');
+    expect(worker.terminated).toBe(true);
+  });
+});
@@ -0,0 +1,238 @@
+/**
+ * Layout worker protocol
+ * Event preparation and whole-dataset track assignment, run in a Web Worker
+ * and sent back as typed arrays the main thread rebuilds without parsing
+ */
+
+import type { TimelineEvent } from '../types';
+import type { MagnifiedZone } from './dateUtils';
+import {
+  assignTracksPrepared,
+  getEventIds,
+  prepareEvents,
+  type PreparedEvent,
+  type PreparedEvents,
+} from './layoutEngine';
+import { getLabelMeasurer } from './labelMeasure';
+
+/**
+ * Prepared events as transferable arrays, indexed by original event index
+ * (see encodePreparedEvents)
+ */
+export interface PreparedArrays {
+  /** Start per event; NaN for events whose dates do not parse */
+  startMs: Float64Array;
+  /** End per event; NaN for events without one */
+  endMs: Float64Array;
+  /** 1 for duration events */
+  isDuration: Uint8Array;
+  /** Indices of point events, in prepared order */
+  points: Int32Array;
+  /** Indices of duration events, in prepared order */
+  durations: Int32Array;
+}
+
+/**
+ * Message to the layout worker. `prepare` replaces the dataset the worker
+ * holds; `tracks` assigns tracks over it at a scale and through the band's
+ * magnified `zones`, measuring labels in `font` where the worker can (see
+ * getLabelMeasurer).
+ */
+export type LayoutWorkerRequest =
+  | { type: 'prepare'; id: number; events: TimelineEvent[] }
+  | {
+      type: 'tracks';
+      id: number;
+      pixelsPerMs: number;
+      showLabels: boolean;
+      maxTracks: number;
+      font?: string;
+      zones?: MagnifiedZone[];
+    };
+
+/**
+ * Reply from the layout worker, matched to its request by id
+ */
+export type LayoutWorkerResponse =
+  | { type: 'prepare'; id: number; arrays: PreparedArrays }
+  | { type: 'tracks'; id: number; tracks: Int32Array }
+  | { type: 'error'; id: number; message: string };
+
+/**
+ * What the worker keeps between messages: the last prepared dataset
+ */
+export interface LayoutWorkerState {
+  prepared: PreparedEvents | null;
+}
+
+/**
+ * Promise-based client over a layout worker (see createLayoutPipeline)
+ */
+export interface LayoutPipeline {
+  /** Parse and sort events off-thread; the worker keeps them for `assignTracks` */
+  prepare: (events: TimelineEvent[]) => Promise<PreparedArrays>;
+  /** Assign tracks over the last prepared events at a scale, labels in a CSS font */
+  assignTracks: (
+    pixelsPerMs: number,
+    showLabels: boolean,
+    maxTracks: number,
+    font?: string,
+    zones?: MagnifiedZone[]
+  ) => Promise<Int32Array>;
+  /** Reject what is pending and stop the worker */
+  dispose: () => void;
+}
+
+/**
+ * Flatten prepared events into typed arrays over `count` original indices
+ */
+export function encodePreparedEvents(prepared: PreparedEvents, count: number): PreparedArrays {
+  const startMs = new Float64Array(count).fill(NaN);
+  const endMs = new Float64Array(count).fill(NaN);
+  const isDuration = new Uint8Array(count);
+  const encode = (list: PreparedEvent[]) =>
+    Int32Array.from(list, item => {
+      startMs[item.index] = item.startMs;
+      endMs[item.index] = item.endMs ?? NaN;
+      isDuration[item.index] = item.isDuration ? 1 : 0;
+      return item.index;
+    });
+  return {
+    startMs,
+    endMs,
+    isDuration,
+    points: encode(prepared.points),
+    durations: encode(prepared.durations),
+  };
+}
+
+/**
+ * Rebuild prepared events from typed arrays and the events they describe,
+ * in one pass and without parsing a date
+ */
+export function decodePreparedEvents(
+  arrays: PreparedArrays,
+  events: TimelineEvent[],
+  ids: string[] = getEventIds(events)
+): PreparedEvents {
+  const decode = (indices: Int32Array) =>
+    Array.from(indices, (index): PreparedEvent => {
+      const endMs = arrays.endMs[index];
+      return {
+        event: events[index],
+        id: ids[index],
+        index,
+        startMs: arrays.startMs[index],
+        ...(Number.isNaN(endMs) ? {} : { endMs }),
+        isDuration: arrays.isDuration[index] === 1,
+      };
+    });
+  return { points: decode(arrays.points), durations: decode(arrays.durations) };
+}
+
+/**
+ * Answer one request, with the buffers to transfer rather than copy
+ */
+export function handleLayoutRequest(
+  state: LayoutWorkerState,
+  request: LayoutWorkerRequest
+): { response: LayoutWorkerResponse; transfer: ArrayBuffer[] } {
+  try {
+    if (request.type === 'prepare') {
+      state.prepared = prepareEvents(request.events);
+      const arrays = encodePreparedEvents(state.prepared, request.events.length);
+      return {
+        response: { type: 'prepare', id: request.id, arrays },
+        transfer: Object.values(arrays).map((array: ArrayBufferView) => array.buffer as ArrayBuffer),
+      };
+    }
+
+    if (!state.prepared) throw new Error('No events have been prepared');
+    const tracks = assignTracksPrepared(
+      state.prepared,
+      request.pixelsPerMs,
+      request.showLabels,
+      request.maxTracks,
+      (request.font && getLabelMeasurer(request.font)) || undefined,
+      request.zones
+    );
+    return {
+      response: { type: 'tracks', id: request.id, tracks },
+      transfer: [tracks.buffer as ArrayBuffer],
+    };
+  } catch (error) {
+    return {
+      response: {
+        type: 'error',
+        id: request.id,
+        message: error instanceof Error ? error.message : String(error),
+      },
+      transfer: [],
+    };
+  }
+}
+
+/**
+ * Client for a worker running handleLayoutRequest. Replies resolve their
+ * request's promise; a worker error rejects everything pending, and later
+ * requests, so callers can fall back to the main thread.
+ */
+export function createLayoutPipeline(worker: Worker): LayoutPipeline {
+  let nextId = 0;
+  let failure: Error | null = null;
+  const pending = new Map<
+    number,
+    { resolve: (response: LayoutWorkerResponse) => void; reject: (error: Error) => void }
+  >();
+
+  const fail = (error: Error) => {
+    failure ??= error;
+    pending.forEach(({ reject }) => reject(error));
+    pending.clear();
+  };
+
+  worker.addEventListener('message', (e: MessageEvent<LayoutWorkerResponse>) => {
+    const response = e.data;
+    const request = pending.get(response.id);
+    if (!request) return;
+    pending.delete(response.id);
+    if (response.type === 'error') {
+      request.reject(new Error(response.message));
+    } else {
+      request.resolve(response);
+    }
+  });
+  worker.addEventListener('error', (e: ErrorEvent) => {
+    e.preventDefault();
+    fail(new Error(e.message || 'Layout worker failed'));
+  });
+
+  const send = (request: LayoutWorkerRequest) =>
+    new Promise<LayoutWorkerResponse>((resolve, reject) => {
+      if (failure) {
+        reject(failure);
+        return;
+      }
+      pending.set(request.id, { resolve, reject });
+      try {
+        worker.postMessage(request);
+      } catch (error) {
+        // Events that cannot be cloned to the worker (a function, a DOM node)
+        pending.delete(request.id);
+        reject(error instanceof Error ? error : new Error(String(error)));
+      }
+    });
+
+  return {
+    prepare: events =>
+      send({ type: 'prepare', id: nextId++, events })
+        .then(response => (response as Extract<LayoutWorkerResponse, { type: 'prepare' }>).arrays),
+    assignTracks: (pixelsPerMs, showLabels, maxTracks, font, zones) =>
+      send({ type: 'tracks', id: nextId++, pixelsPerMs, showLabels, maxTracks, font, zones })
+        .then(response => (response as Extract<LayoutWorkerResponse, { type: 'tracks' }>).tracks),
+    dispose: () => {
+      fail(new Error('Layout worker disposed'));
+      worker.terminate();
+    },
+  };
+}
@@ -1,6 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import { getScaleConfig, generateTicks } from './scaleUtils';
-import { TIME_UNITS } from './dateUtils';
+import { TIME_UNITS, prepareHotZones, parseDate } from './dateUtils';
 
 describe('getScaleConfig', () => {
   it('returns appropriate scale for yearly view', () => {
@@ -134,3 +134,35 @@ describe('generateTicks - label spacing', () => {
     }
   });
 });
+
+describe('generateTicks - magnified hot zones', () => {
+  const pixelsPerMs = 40 / TIME_UNITS.month; // month ticks outside zones
+  const zones = prepareHotZones([
+    { start: '2024-03-01', end: '2024-03-15', magnify: 20, unit: 'day' },
+  ]);
+  const centerDate = parseDate('2024-03-08');
+  const viewportWidth = 1200;
+  const visibleRange = {
+    start: new Date(centerDate.getTime() - 600 / pixelsPerMs),
+    end: new Date(centerDate.getTime() + 600 / pixelsPerMs),
+  };
+
+  it('labels the zone interior with its own unit', () => {
+    const config = getScaleConfig(pixelsPerMs);
+    const ticks = generateTicks(visibleRange, config, pixelsPerMs, centerDate, viewportWidth, zones);
+    const inside = ticks.filter(
+      (t) => t.date.getTime() >= zones[0].startMs && t.date.getTime() < zones[0].endMs
+    );
+    // Daily ticks inside the zone, none of the band's month ticks.
+    expect(inside.length).toBeGreaterThan(5);
+    expect(inside.every((t) => /^Mar \d+$/.test(t.label))).toBe(true);
+  });
+
+  it('returns ticks in ascending x order', () => {
+    const config = getScaleConfig(pixelsPerMs);
+    const ticks = generateTicks(visibleRange, config, pixelsPerMs, centerDate, viewportWidth, zones);
+    for (let i = 1; i < ticks.length; i++) {
+      expect(ticks[i].x).toBeGreaterThan(ticks[i - 1].x);
+    }
+  });
+});
@@ -2,7 +2,13 @@
  * Time scale utilities for generating tick marks and labels
  */
 
-import { TIME_UNITS, type TimeUnit, formatDate } from './dateUtils';
+import {
+  TIME_UNITS,
+  type TimeUnit,
+  type MagnifiedZone,
+  formatDate,
+  createTimeToPixel,
+} from './dateUtils';
 
 /**
  * Scale configuration for rendering time labels
@@ -44,17 +50,44 @@ const LABEL_WIDTHS: Record<string, number> = {
   'yyyy': 40,
 };
 
+const MINUTE = TIME_UNITS.minute;
+const HOUR = TIME_UNITS.hour;
+const DAY = TIME_UNITS.day;
+const MONTH = TIME_UNITS.month;
+const YEAR = TIME_UNITS.year;
+
+/**
+ * Candidate scales, finest to coarsest
+ */
+const SCALE_CONFIGS: ScaleConfig[] = [
+  { unit: 'minute', interval: 1, format: 'HH:mm', tickMs: MINUTE },
+  { unit: 'minute', interval: 5, format: 'HH:mm', tickMs: 5 * MINUTE },
+  { unit: 'minute', interval: 15, format: 'HH:mm', tickMs: 15 * MINUTE },
+  { unit: 'minute', interval: 30, format: 'HH:mm', tickMs: 30 * MINUTE },
+  { unit: 'hour', interval: 1, format: 'HH:mm', tickMs: HOUR },
+  { unit: 'hour', interval: 3, format: 'HH:mm', tickMs: 3 * HOUR },
+  { unit: 'hour', interval: 6, format: 'HH:mm', tickMs: 6 * HOUR },
+  { unit: 'hour', interval: 12, format: 'MMM d HH:mm', tickMs: 12 * HOUR },
+  { unit: 'day', interval: 1, format: 'MMM d', tickMs: DAY },
+  { unit: 'day', interval: 3, format: 'MMM d', tickMs: 3 * DAY },
+  { unit: 'week', interval: 1, format: 'MMM d', tickMs: 7 * DAY },
+  { unit: 'week', interval: 2, format: 'MMM d', tickMs: 14 * DAY },
+  { unit: 'month', interval: 1, format: 'MMM yyyy', tickMs: MONTH },
+  { unit: 'month', interval: 3, format: 'MMM yyyy', tickMs: 3 * MONTH },
+  { unit: 'month', interval: 6, format: 'MMM yyyy', tickMs: 6 * MONTH },
+  { unit: 'year', interval: 1, format: 'yyyy', tickMs: YEAR },
+  { unit: 'year', interval: 2, format: 'yyyy', tickMs: 2 * YEAR },
+  { unit: 'year', interval: 5, format: 'yyyy', tickMs: 5 * YEAR },
+  { unit: 'decade', interval: 1, format: 'yyyy', tickMs: 10 * YEAR },
+  { unit: 'decade', interval: 5, format: 'yyyy', tickMs: 50 * YEAR },
+  { unit: 'century', interval: 1, format: 'yyyy', tickMs: 100 * YEAR },
+];
+
 /**
  * Determine appropriate scale configuration based on zoom level
  * @param pixelsPerMs - Current zoom level
  */
 export function getScaleConfig(pixelsPerMs: number): ScaleConfig {
-  const MINUTE = TIME_UNITS.minute;
-  const HOUR = TIME_UNITS.hour;
-  const DAY = TIME_UNITS.day;
-  const MONTH = TIME_UNITS.month;
-  const YEAR = TIME_UNITS.year;
-
   // Helper to check if a config would have adequate spacing
   const hasAdequateSpacing = (tickMs: number, format: string): boolean => {
     const spacing = tickMs * pixelsPerMs;
@@ -63,40 +96,25 @@ export function getScaleConfig(pixelsPerMs: number): ScaleConfig {
     return spacing >= labelWidth + 10;
   };
 
-  // Try configs from finest to coarsest, picking the first with adequate spacing
-  const configs: ScaleConfig[] = [
-    { unit: 'minute', interval: 1, format: 'HH:mm', tickMs: MINUTE },
-    { unit: 'minute', interval: 5, format: 'HH:mm', tickMs: 5 * MINUTE },
-    { unit: 'minute', interval: 15, format: 'HH:mm', tickMs: 15 * MINUTE },
-    { unit: 'minute', interval: 30, format: 'HH:mm', tickMs: 30 * MINUTE },
-    { unit: 'hour', interval: 1, format: 'HH:mm', tickMs: HOUR },
-    { unit: 'hour', interval: 3, format: 'HH:mm', tickMs: 3 * HOUR },
-    { unit: 'hour', interval: 6, format: 'HH:mm', tickMs: 6 * HOUR },
-    { unit: 'hour', interval: 12, format: 'MMM d HH:mm', tickMs: 12 * HOUR },
-    { unit: 'day', interval: 1, format: 'MMM d', tickMs: DAY },
-    { unit: 'day', interval: 3, format: 'MMM d', tickMs: 3 * DAY },
-    { unit: 'week', interval: 1, format: 'MMM d', tickMs: 7 * DAY },
-    { unit: 'week', interval: 2, format: 'MMM d', tickMs: 14 * DAY },
-    { unit: 'month', interval: 1, format: 'MMM yyyy', tickMs: MONTH },
-    { unit: 'month', interval: 3, format: 'MMM yyyy', tickMs: 3 * MONTH },
-    { unit: 'month', interval: 6, format: 'MMM yyyy', tickMs: 6 * MONTH },
-    { unit: 'year', interval: 1, format: 'yyyy', tickMs: YEAR },
-    { unit: 'year', interval: 2, format: 'yyyy', tickMs: 2 * YEAR },
-    { unit: 'year', interval: 5, format: 'yyyy', tickMs: 5 * YEAR },
-    { unit: 'decade', interval: 1, format: 'yyyy', tickMs: 10 * YEAR },
-    { unit: 'decade', interval: 5, format: 'yyyy', tickMs: 50 * YEAR },
-    { unit: 'century', interval: 1, format: 'yyyy', tickMs: 100 * YEAR },
-  ];
-
   // Find the finest-grained config that has adequate spacing
-  for (const config of configs) {
+  for (const config of SCALE_CONFIGS) {
     if (hasAdequateSpacing(config.tickMs, config.format)) {
       return config;
     }
   }
 
   // Fallback to century if nothing else fits
-  return configs[configs.length - 1];
+  return SCALE_CONFIGS[SCALE_CONFIGS.length - 1];
+}
+
+/**
+ * Scale used inside a magnified zone: the zone's own unit at a single
+ * interval when it names one, otherwise whatever the magnified pixel
+ * density supports.
+ */
+function getZoneScaleConfig(zone: MagnifiedZone, pixelsPerMs: number): ScaleConfig {
+  const named = zone.unit && SCALE_CONFIGS.find(config => config.unit === zone.unit);
+  return named || getScaleConfig(pixelsPerMs * zone.magnify);
 }
 
 /**
@@ -221,23 +239,21 @@ function isMajorTick(date: Date, unit: TimeUnit): boolean {
 }
 
 /**
- * Generate tick marks for a visible range
+ * Generate ticks at one scale across [fromMs, toMs], positioned by `toPixel`
  */
-export function generateTicks(
-  visibleRange: { start: Date; end: Date },
+function generateTicksInRange(
+  fromMs: number,
+  toMs: number,
   scaleConfig: ScaleConfig,
-  pixelsPerMs: number,
-  centerDate: Date,
-  viewportWidth: number
+  toPixel: (ms: number) => number,
+  viewportWidth: number,
+  skip?: (ms: number) => boolean
 ): ScaleTick[] {
   const ticks: ScaleTick[] = [];
 
-  // Calculate the viewport's left edge in time
-  const viewportLeftMs = centerDate.getTime() - (viewportWidth / 2) / pixelsPerMs;
-
-  // Start from aligned position before visible range
+  // Start from aligned position before the range
   let current = alignToUnit(
-    new Date(visibleRange.start.getTime() - scaleConfig.tickMs),
+    new Date(fromMs - scaleConfig.tickMs),
     scaleConfig.unit,
     scaleConfig.interval
   );
@@ -246,12 +262,13 @@ export function generateTicks(
   const maxTicks = 200;
   let tickCount = 0;
 
-  while (current <= visibleRange.end && tickCount < maxTicks) {
+  while (current.getTime() <= toMs && tickCount < maxTicks) {
+    const ms = current.getTime();
     // Calculate x position relative to viewport left
-    const x = (current.getTime() - viewportLeftMs) * pixelsPerMs;
+    const x = toPixel(ms);
 
     // Only include ticks within extended viewport
-    if (x >= -100 && x <= viewportWidth + 100) {
+    if (x >= -100 && x <= viewportWidth + 100 && !skip?.(ms)) {
       ticks.push({
         date: new Date(current),
         label: formatDate(current, scaleConfig.format),
@@ -266,3 +283,53 @@ export function generateTicks(
 
   return ticks;
 }
+
+/**
+ * Generate tick marks for a visible range.
+ *
+ * Magnified zones are labelled at their own scale: band-scale ticks falling
+ * inside a zone are dropped, and the zone interior gets ticks in its `unit`
+ * (or the finer unit its magnification affords), placed on the stretched axis.
+ */
+export function generateTicks(
+  visibleRange: { start: Date; end: Date },
+  scaleConfig: ScaleConfig,
+  pixelsPerMs: number,
+  centerDate: Date,
+  viewportWidth: number,
+  zones: MagnifiedZone[] = []
+): ScaleTick[] {
+  const toPixel = createTimeToPixel(centerDate, viewportWidth, pixelsPerMs, zones);
+  const rangeStart = visibleRange.start.getTime();
+  const rangeEnd = visibleRange.end.getTime();
+
+  if (zones.length === 0) {
+    return generateTicksInRange(rangeStart, rangeEnd, scaleConfig, toPixel, viewportWidth);
+  }
+
+  const insideZone = (ms: number) =>
+    zones.some(zone => ms >= zone.startMs && ms < zone.endMs);
+  const ticks = generateTicksInRange(
+    rangeStart,
+    rangeEnd,
+    scaleConfig,
+    toPixel,
+    viewportWidth,
+    insideZone
+  );
+
+  for (const zone of zones) {
+    if (zone.endMs < rangeStart || zone.startMs > rangeEnd) continue;
+    const zoneTicks = generateTicksInRange(
+      Math.max(zone.startMs, rangeStart),
+      Math.min(zone.endMs, rangeEnd),
+      getZoneScaleConfig(zone, pixelsPerMs),
+      toPixel,
+      viewportWidth,
+      (ms) => ms < zone.startMs || ms >= zone.endMs
+    );
+    ticks.push(...zoneTicks);
+  }
+
+  return ticks.sort((a, b) => a.x - b.x);
+}
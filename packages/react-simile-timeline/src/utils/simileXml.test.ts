@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { parseSimileXml } from './simileXml';
+
+describe('parseSimileXml', () => {
+  it('maps event attributes and text to timeline events', () => {
+    const data = parseSimileXml(`<?xml version="1.0" encoding="UTF-8"?>
+      <data date-time-format="Gregorian" wiki-url="http://example.com/" wiki-section="History">
+        <event start="May 28 2006 09:00:00 GMT" end="Jun 15 2006 09:00:00 GMT"
+               isDuration="true" title="Writing Timeline documentation"
+               image="docs.png" icon="dull-blue-circle.png" link="http://example.com/docs"
+               color="#c41e3a" textColor="white" classname="docs" trackNum="2">
+          A few days to write some &lt;b&gt;documentation&lt;/b&gt;.
+        </event>
+        <event start="Jun 28 2006" title="Release"/>
+      </data>`);
+
+    expect(data.dateTimeFormat).toBe('Gregorian');
+    expect(data.wikiURL).toBe('http://example.com/');
+    expect(data.wikiSection).toBe('History');
+    expect(data.events).toEqual([
+      {
+        start: 'May 28 2006 09:00:00 GMT',
+        end: 'Jun 15 2006 09:00:00 GMT',
+        isDuration: true,
+        title: 'Writing Timeline documentation',
+        image: 'docs.png',
+        icon: 'dull-blue-circle.png',
+        link: 'http://example.com/docs',
+        color: '#c41e3a',
+        textColor: 'white',
+        classname: 'docs',
+        trackNum: 2,
+        description: 'A few days to write some <b>documentation</b>.',
+      },
+      { start: 'Jun 28 2006', title: 'Release' },
+    ]);
+  });
+
+  it('reads a description from a CDATA section', () => {
+    const { events } = parseSimileXml(
+      '<data><event start="1963" title="A"><![CDATA[<i>Dallas</i>]]></event></data>'
+    );
+    expect(events[0].description).toBe('<i>Dallas</i>');
+  });
+
+  it('leaves out boolean and number attributes it cannot read', () => {
+    const { events } = parseSimileXml(
+      '<data><event start="1963" title="A" isDuration="yes" durationEvent="FALSE" trackNum="top"/></data>'
+    );
+    expect(events[0]).toEqual({ start: '1963', title: 'A', durationEvent: false });
+  });
+
+  it('throws on text that is not Simile XML', () => {
+    expect(() => parseSimileXml('<data><event></data>')).toThrow(/Invalid Simile XML/);
+    expect(() => parseSimileXml('<events/>')).toThrow('expected a <data> root, found <events>');
+  });
+});
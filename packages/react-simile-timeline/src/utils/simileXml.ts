@@ -0,0 +1,98 @@
+/**
+ * Simile XML
+ * The original Simile Timeline XML event source: a `<data>` root holding
+ * an `<event>` per event, its fields as attributes and its description as
+ * the element's text
+ */
+
+import type { TimelineData, TimelineEvent } from '../types';
+
+/** Event attributes copied as they are */
+const STRING_ATTRIBUTES = [
+  'id',
+  'end',
+  'color',
+  'textColor',
+  'icon',
+  'image',
+  'link',
+  'caption',
+  'classname',
+  'tapeImage',
+  'tapeRepeat',
+] as const;
+
+/**
+ * Parse Simile XML into timeline data, e.g.
+ * `<data date-time-format="iso8601"><event start="1963-11-22"
+ * title="JFK">Dallas, Texas</event></data>`. Attributes map to the
+ * TimelineEvent fields of the same name; `isDuration` and `durationEvent`
+ * take `"true"` or `"false"`, `trackNum` a number. The root's
+ * `date-time-format`, `wiki-url` and `wiki-section` attributes map to
+ * TimelineData's. Unknown attributes are ignored, and dates are left for
+ * the timeline to parse, as they are in JSON. Throws if the text is not
+ * well-formed XML with a `<data>` root.
+ */
+export function parseSimileXml(text: string): TimelineData {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  const error = doc.getElementsByTagName('parsererror')[0];
+  if (error) {
+    throw new Error(`Invalid Simile XML: ${error.textContent?.trim() || 'not well-formed'}`);
+  }
+  const root = doc.documentElement;
+  if (root.localName !== 'data') {
+    throw new Error(`Invalid Simile XML: expected a <data> root, found <${root.localName}>`);
+  }
+
+  const data: TimelineData = {
+    events: Array.from(root.children)
+      .filter(element => element.localName === 'event')
+      .map(parseEventElement),
+  };
+  const dateTimeFormat = root.getAttribute('date-time-format');
+  const wikiURL = root.getAttribute('wiki-url');
+  const wikiSection = root.getAttribute('wiki-section');
+  if (dateTimeFormat) data.dateTimeFormat = dateTimeFormat;
+  if (wikiURL) data.wikiURL = wikiURL;
+  if (wikiSection) data.wikiSection = wikiSection;
+  return data;
+}
+
+/**
+ * One `<event>` element as a timeline event
+ */
+function parseEventElement(element: Element): TimelineEvent {
+  const event: TimelineEvent = {
+    start: element.getAttribute('start') ?? '',
+    title: element.getAttribute('title') ?? '',
+  };
+  for (const name of STRING_ATTRIBUTES) {
+    const value = element.getAttribute(name);
+    if (value !== null) event[name] = value;
+  }
+
+  const isDuration = parseBoolean(element.getAttribute('isDuration'));
+  const durationEvent = parseBoolean(element.getAttribute('durationEvent'));
+  if (isDuration !== undefined) event.isDuration = isDuration;
+  if (durationEvent !== undefined) event.durationEvent = durationEvent;
+
+  const trackNum = element.getAttribute('trackNum');
+  if (trackNum !== null && trackNum.trim() !== '' && Number.isFinite(Number(trackNum))) {
+    event.trackNum = Number(trackNum);
+  }
+
+  // The description may be HTML, escaped or in a CDATA section
+  const description = element.textContent?.trim();
+  if (description) event.description = description;
+  return event;
+}
+
+/**
+ * An XML boolean attribute, or undefined if absent or neither true nor false
+ */
+function parseBoolean(value: string | null): boolean | undefined {
+  const normalized = value?.trim().toLowerCase();
+  if (normalized === 'true') return true;
+  if (normalized === 'false') return false;
+  return undefined;
+}
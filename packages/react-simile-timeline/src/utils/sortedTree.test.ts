@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import {
+  treeFind,
+  treeFromSorted,
+  treeInsert,
+  treeRemove,
+  treeToArray,
+  type SortedTree,
+} from './sortedTree';
+
+const compare = (a: number, b: number) => a - b;
+
+/** Whether every node's subtrees differ in height by at most one */
+function isBalanced(tree: SortedTree<number>): boolean {
+  if (!tree) return true;
+  const left = tree.left?.height ?? 0;
+  const right = tree.right?.height ?? 0;
+  return Math.abs(left - right) <= 1 && isBalanced(tree.left) && isBalanced(tree.right);
+}
+
+describe('sorted tree', () => {
+  it('keeps values in order and balanced through inserts and removals', () => {
+    let tree: SortedTree<number> = null;
+    const values = Array.from({ length: 200 }, (_, i) => (i * 37) % 200);
+    for (const value of values) tree = treeInsert(tree, value, compare);
+    expect(treeToArray(tree)).toEqual([...values].sort(compare));
+    expect(isBalanced(tree)).toBe(true);
+
+    for (const value of values.filter(v => v % 3 === 0)) tree = treeRemove(tree, value, compare);
+    expect(treeToArray(tree)).toEqual(values.filter(v => v % 3 !== 0).sort(compare));
+    expect(isBalanced(tree)).toBe(true);
+  });
+
+  it('leaves the old tree as it was', () => {
+    const tree = treeFromSorted([1, 2, 3, 4, 5]);
+    const inserted = treeInsert(tree, 6, compare);
+    const removed = treeRemove(inserted, 3, compare);
+    expect(treeToArray(tree)).toEqual([1, 2, 3, 4, 5]);
+    expect(treeToArray(inserted)).toEqual([1, 2, 3, 4, 5, 6]);
+    expect(treeToArray(removed)).toEqual([1, 2, 4, 5, 6]);
+  });
+
+  it('replaces a value with the same key and returns the same tree for a missing one', () => {
+    const tree = treeFromSorted([{ key: 1, name: 'a' }, { key: 2, name: 'b' }]);
+    const byKey = (a: { key: number }, b: { key: number }) => a.key - b.key;
+    const replaced = treeInsert(tree, { key: 2, name: 'c' }, byKey);
+    expect(treeToArray(replaced).map(v => v.name)).toEqual(['a', 'c']);
+    expect(treeRemove(tree, { key: 9, name: '' }, byKey)).toBe(tree);
+    expect(treeFind(replaced, v => 2 - v.key)?.name).toBe('c');
+    expect(treeFind(replaced, v => 3 - v.key)).toBeUndefined();
+  });
+});
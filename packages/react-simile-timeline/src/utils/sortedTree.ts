@@ -0,0 +1,128 @@
+/**
+ * Sorted tree
+ * A persistent AVL tree: inserting or removing returns a new tree that shares
+ * every node off the changed path with the old one, which stays as it was.
+ * Each change is O(log n).
+ */
+
+/**
+ * A node of a sorted tree, never changed once made
+ */
+export interface TreeNode<T> {
+  readonly value: T;
+  readonly left: SortedTree<T>;
+  readonly right: SortedTree<T>;
+  readonly height: number;
+}
+
+/** A sorted tree: its root, or null when empty */
+export type SortedTree<T> = TreeNode<T> | null;
+
+/**
+ * Order of two values: negative if `a` sorts first, positive if `b` does, 0
+ * if they hold the same key
+ */
+export type Compare<T> = (a: T, b: T) => number;
+
+function heightOf<T>(tree: SortedTree<T>): number {
+  return tree ? tree.height : 0;
+}
+
+function node<T>(value: T, left: SortedTree<T>, right: SortedTree<T>): TreeNode<T> {
+  return { value, left, right, height: Math.max(heightOf(left), heightOf(right)) + 1 };
+}
+
+/**
+ * A node over two subtrees whose heights differ by at most two, rotated back
+ * into balance
+ */
+function balance<T>(value: T, left: SortedTree<T>, right: SortedTree<T>): TreeNode<T> {
+  const skew = heightOf(left) - heightOf(right);
+  if (skew > 1 && left) {
+    if (heightOf(left.left) >= heightOf(left.right)) {
+      return node(left.value, left.left, node(value, left.right, right));
+    }
+    const inner = left.right!;
+    return node(inner.value, node(left.value, left.left, inner.left), node(value, inner.right, right));
+  }
+  if (skew < -1 && right) {
+    if (heightOf(right.right) >= heightOf(right.left)) {
+      return node(right.value, node(value, left, right.left), right.right);
+    }
+    const inner = right.left!;
+    return node(inner.value, node(value, left, inner.left), node(right.value, inner.right, right.right));
+  }
+  return node(value, left, right);
+}
+
+/**
+ * Tree over values already in order, balanced, in O(n)
+ */
+export function treeFromSorted<T>(values: readonly T[], lo = 0, hi = values.length): SortedTree<T> {
+  if (lo >= hi) return null;
+  const mid = (lo + hi) >>> 1;
+  return node(values[mid], treeFromSorted(values, lo, mid), treeFromSorted(values, mid + 1, hi));
+}
+
+/**
+ * Tree with a value added, or put in place of the value with the same key
+ */
+export function treeInsert<T>(tree: SortedTree<T>, value: T, compare: Compare<T>): TreeNode<T> {
+  if (!tree) return node(value, null, null);
+  const order = compare(value, tree.value);
+  if (order === 0) return node(value, tree.left, tree.right);
+  return order < 0
+    ? balance(tree.value, treeInsert(tree.left, value, compare), tree.right)
+    : balance(tree.value, tree.left, treeInsert(tree.right, value, compare));
+}
+
+/**
+ * Tree without the value with a key; the same tree if there is none
+ */
+export function treeRemove<T>(tree: SortedTree<T>, value: T, compare: Compare<T>): SortedTree<T> {
+  if (!tree) return null;
+  const order = compare(value, tree.value);
+  if (order < 0) {
+    const left = treeRemove(tree.left, value, compare);
+    return left === tree.left ? tree : balance(tree.value, left, tree.right);
+  }
+  if (order > 0) {
+    const right = treeRemove(tree.right, value, compare);
+    return right === tree.right ? tree : balance(tree.value, tree.left, right);
+  }
+  if (!tree.left) return tree.right;
+  if (!tree.right) return tree.left;
+  let first = tree.right;
+  while (first.left) first = first.left;
+  return balance(first.value, tree.left, removeFirst(tree.right));
+}
+
+function removeFirst<T>(tree: TreeNode<T>): SortedTree<T> {
+  return tree.left ? balance(tree.value, removeFirst(tree.left), tree.right) : tree.right;
+}
+
+/**
+ * The value `probe` matches: `probe` orders the key sought against a value,
+ * as Compare orders its first argument against its second
+ */
+export function treeFind<T>(tree: SortedTree<T>, probe: (value: T) => number): T | undefined {
+  let current = tree;
+  while (current) {
+    const order = probe(current.value);
+    if (order === 0) return current.value;
+    current = order < 0 ? current.left : current.right;
+  }
+  return undefined;
+}
+
+/**
+ * Values of a tree in order, in O(n)
+ */
+export function treeToArray<T>(tree: SortedTree<T>, out: T[] = []): T[] {
+  if (tree) {
+    treeToArray(tree.left, out);
+    out.push(tree.value);
+    treeToArray(tree.right, out);
+  }
+  return out;
+}
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { validateTimelineData } from './validation';
+import { prepareEvents } from './layoutEngine';
+import type { TimelineData, TimelineEvent } from '../types';
+
+describe('validateTimelineData', () => {
+  it('finds nothing wrong with valid data', () => {
+    expect(validateTimelineData({
+      events: [
+        { id: 'a', start: '2023-01-01', title: 'Point' },
+        { id: 'b', start: '2023-01-01', end: '2023-02-01', title: 'Span', isDuration: true, trackNum: 1 },
+        { start: '-500', end: '', title: 'Empty end' },
+      ],
+    })).toEqual([]);
+  });
+
+  it('marks the events prepareEvents skips', () => {
+    const events = [
+      { start: '2023-01-01', title: 'Kept' },
+      { title: 'No start' },
+      { start: 'soon', title: 'Bad start' },
+      { start: '2023-01-01', end: 'later', title: 'Bad end' },
+      { start: 2023, title: 'Numeric start' },
+      null,
+    ] as unknown as TimelineEvent[];
+    const data: TimelineData = { events };
+
+    const diagnostics = validateTimelineData(data);
+    expect(diagnostics.map(d => [d.index, d.field, d.reason, d.skipped])).toEqual([
+      [1, 'start', 'missing-field', true],
+      [2, 'start', 'unparseable-date', true],
+      [3, 'end', 'unparseable-date', true],
+      [4, 'start', 'invalid-type', true],
+      [5, '', 'invalid-type', true],
+    ]);
+    expect(diagnostics[1].message).toBe('Unparseable start date "soon"');
+
+    const { points, durations } = prepareEvents(events.slice(0, 5));
+    const kept = [...points, ...durations].map(p => p.index);
+    expect(kept).toEqual([0]);
+  });
+
+  it('warns about events drawn other than as meant', () => {
+    const events = [
+      { id: 'x', start: '2023-03-01', end: '2023-02-01', title: 'Backwards' },
+      { id: 'x', start: '2023-03-01', titel: 'Typo', trackNum: '2' },
+    ] as unknown as TimelineEvent[];
+
+    expect(validateTimelineData({ events })).toEqual([
+      { index: 0, field: 'end', reason: 'end-before-start', message: 'End date "2023-02-01" is before start date "2023-03-01"', skipped: false },
+      { index: 1, field: 'title', reason: 'missing-field', message: 'Missing title', skipped: false },
+      { index: 1, field: 'titel', reason: 'unknown-field', message: 'Unknown field "titel"', skipped: false },
+      { index: 1, field: 'trackNum', reason: 'invalid-type', message: 'Field "trackNum" has type string, not number', skipped: false },
+      { index: 1, field: 'id', reason: 'duplicate-id', message: 'Id "x" is also used by event 0', skipped: false },
+    ]);
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Data validation
+ * What is wrong with each event of timeline data, and which events the
+ * timeline leaves off because of it
+ */
+
+import type { DataDiagnostic, TimelineData, TimelineEvent } from '../types';
+import { tryParseDate } from './dateUtils';
+
+/** The type of each event field's value */
+export const EVENT_FIELD_TYPES: Record<keyof TimelineEvent, 'string' | 'boolean' | 'number'> = {
+  id: 'string',
+  start: 'string',
+  end: 'string',
+  title: 'string',
+  description: 'string',
+  isDuration: 'boolean',
+  durationEvent: 'boolean',
+  color: 'string',
+  textColor: 'string',
+  icon: 'string',
+  image: 'string',
+  link: 'string',
+  caption: 'string',
+  classname: 'string',
+  tapeImage: 'string',
+  tapeRepeat: 'string',
+  trackNum: 'number',
+  group: 'string',
+};
+
+/**
+ * Check each event of timeline data, in order. Events whose `start` is
+ * missing, or whose `start` or `end` parseDate cannot read, are the ones
+ * prepareEvents leaves off; their diagnostics are marked `skipped`. The rest
+ * are drawn, perhaps not as meant: an end before the start, a missing
+ * title, a field of the wrong type or one TimelineEvent does not have, or an
+ * `id` used by an earlier event.
+ */
+export function validateTimelineData(data: TimelineData): DataDiagnostic[] {
+  const diagnostics: DataDiagnostic[] = [];
+  const firstById = new Map<string, number>();
+
+  data.events.forEach((event: unknown, index) => {
+    if (typeof event !== 'object' || event === null || Array.isArray(event)) {
+      diagnostics.push({ index, field: '', reason: 'invalid-type', message: 'Event is not an object', skipped: true });
+      return;
+    }
+    const fields = event as Record<string, unknown>;
+    const report = (field: string, reason: DataDiagnostic['reason'], message: string, skipped = false) =>
+      diagnostics.push({ index, field, reason, message, skipped });
+
+    const start = checkDate(fields.start);
+    if (start === 'missing') report('start', 'missing-field', 'Missing start date', true);
+    if (start === 'invalid-type') report('start', 'invalid-type', `Start date has type ${typeOf(fields.start)}, not string`, true);
+    if (start === 'unparseable') report('start', 'unparseable-date', `Unparseable start date "${fields.start}"`, true);
+
+    // An empty end is no end, as in isDurationEvent
+    const end = fields.end ? checkDate(fields.end) : 'missing';
+    if (end === 'invalid-type') report('end', 'invalid-type', `End date has type ${typeOf(fields.end)}, not string`, true);
+    if (end === 'unparseable') report('end', 'unparseable-date', `Unparseable end date "${fields.end}"`, true);
+    if (start instanceof Date && end instanceof Date && end.getTime() < start.getTime()) {
+      report('end', 'end-before-start', `End date "${fields.end}" is before start date "${fields.start}"`);
+    }
+
+    if (fields.title === undefined) report('title', 'missing-field', 'Missing title');
+
+    for (const [field, value] of Object.entries(fields)) {
+      if (!Object.prototype.hasOwnProperty.call(EVENT_FIELD_TYPES, field)) {
+        report(field, 'unknown-field', `Unknown field "${field}"`);
+      } else if (field !== 'start' && field !== 'end' && value !== undefined) {
+        const type = EVENT_FIELD_TYPES[field as keyof TimelineEvent];
+        if (typeof value !== type) report(field, 'invalid-type', `Field "${field}" has type ${typeOf(value)}, not ${type}`);
+      }
+    }
+
+    if (typeof fields.id === 'string') {
+      const first = firstById.get(fields.id);
+      if (first === undefined) {
+        firstById.set(fields.id, index);
+      } else {
+        report('id', 'duplicate-id', `Id "${fields.id}" is also used by event ${first}`);
+      }
+    }
+  });
+
+  return diagnostics;
+}
+
+/**
+ * A date field parsed, or what stops it being read
+ */
+function checkDate(value: unknown): Date | 'missing' | 'invalid-type' | 'unparseable' {
+  if (value === undefined || value === null || value === '') return 'missing';
+  if (typeof value !== 'string') return 'invalid-type';
+  return tryParseDate(value) ?? 'unparseable';
+}
+
+/**
+ * The JSON type of a value, for messages
+ */
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  return Array.isArray(value) ? 'array' : typeof value;
+}
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_MAX_ZOOM_LEVEL,
+  DEFAULT_MIN_ZOOM_LEVEL,
+  getZoomLimits,
+  getZoomStepLevels,
+  snapZoomLevel,
+  stepZoomLevel,
+  timeSpanToMs,
+} from './zoomUtils';
+import { TIME_UNITS } from './dateUtils';
+
+// 100px per day
+const dayPixelsPerMs = 100 / TIME_UNITS.day;
+const noLimits = { min: 0, max: Infinity };
+
+describe('timeSpanToMs', () => {
+  it('accepts milliseconds or a count of a unit', () => {
+    expect(timeSpanToMs(5000)).toBe(5000);
+    expect(timeSpanToMs({ unit: 'hour' })).toBe(TIME_UNITS.hour);
+    expect(timeSpanToMs({ unit: 'century', count: 5 })).toBe(5 * TIME_UNITS.century);
+  });
+});
+
+describe('getZoomLimits', () => {
+  it('keeps the default levels without spans', () => {
+    expect(getZoomLimits(dayPixelsPerMs, 800)).toEqual({
+      min: DEFAULT_MIN_ZOOM_LEVEL,
+      max: DEFAULT_MAX_ZOOM_LEVEL,
+    });
+  });
+
+  it('turns spans into the levels that fit them across the viewport', () => {
+    // 800px shows 8 days at level 1
+    const limits = getZoomLimits(dayPixelsPerMs, 800, { unit: 'day' }, { unit: 'day', count: 80 });
+    expect(limits.max).toBeCloseTo(8);
+    expect(limits.min).toBeCloseTo(0.1);
+  });
+
+  it('swaps limits given the wrong way round', () => {
+    const limits = getZoomLimits(dayPixelsPerMs, 800, { unit: 'year' }, { unit: 'day' });
+    expect(limits.min).toBeLessThan(limits.max);
+  });
+
+  it('falls back to the defaults before the viewport is measured', () => {
+    expect(getZoomLimits(dayPixelsPerMs, 0, { unit: 'hour' })).toEqual({
+      min: DEFAULT_MIN_ZOOM_LEVEL,
+      max: DEFAULT_MAX_ZOOM_LEVEL,
+    });
+  });
+});
+
+describe('zoom steps', () => {
+  // Relative to 100px per day: a week at 100px is 1/7, a day at 200px is 2
+  const levels = getZoomStepLevels(
+    [
+      { unit: 'day', intervalPixels: 200 },
+      { unit: 'week', intervalPixels: 100 },
+      { unit: 'day', intervalPixels: 100 },
+      { unit: 'month', intervalPixels: 0 },
+    ],
+    dayPixelsPerMs
+  );
+
+  it('converts steps to ascending levels, skipping invalid ones', () => {
+    expect(levels).toHaveLength(3);
+    expect(levels[0]).toBeCloseTo(1 / 7);
+    expect(levels[1]).toBe(1);
+    expect(levels[2]).toBe(2);
+  });
+
+  it('moves one step in the direction of the factor', () => {
+    expect(stepZoomLevel(1, 1.01, levels, noLimits)).toBe(2);
+    expect(stepZoomLevel(1, 0.99, levels, noLimits)).toBeCloseTo(1 / 7);
+    expect(stepZoomLevel(2, 5, levels, noLimits)).toBe(2);
+  });
+
+  it('multiplies and clamps without steps', () => {
+    expect(stepZoomLevel(1, 3, [], { min: 0.5, max: 2 })).toBe(2);
+  });
+
+  it('skips steps outside the limits', () => {
+    expect(stepZoomLevel(1, 1.5, levels, { min: 0.1, max: 1.5 })).toBe(1);
+  });
+
+  it('snaps a level to the nearest step by ratio', () => {
+    expect(snapZoomLevel(1.3, levels, noLimits)).toBe(1);
+    expect(snapZoomLevel(1.5, levels, noLimits)).toBe(2);
+    expect(snapZoomLevel(3, [], { min: 0.1, max: 2 })).toBe(2);
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Zoom limits and zoom steps
+ * Zoom is a level relative to a band's configured scale (1 = as configured);
+ * these helpers turn time spans and `BandConfig.zoomSteps` into levels.
+ */
+
+import type { TimeSpan, ZoomStep } from '../types';
+import { TIME_UNITS, type TimeUnit } from './dateUtils';
+
+/** Closest zoom level when no `minZoom` span is given */
+export const DEFAULT_MAX_ZOOM_LEVEL = 10;
+/** Furthest zoom level when no `maxZoom` span is given */
+export const DEFAULT_MIN_ZOOM_LEVEL = 0.1;
+
+/**
+ * Range of allowed zoom levels
+ */
+export interface ZoomLimits {
+  min: number;
+  max: number;
+}
+
+/**
+ * Convert a time span to milliseconds. Returns NaN for an unknown unit.
+ */
+export function timeSpanToMs(span: TimeSpan): number {
+  if (typeof span === 'number') return span;
+  const unitMs = TIME_UNITS[span.unit as TimeUnit];
+  return unitMs === undefined ? NaN : unitMs * (span.count ?? 1);
+}
+
+/**
+ * Zoom levels that show `minZoom` (the narrowest span) and `maxZoom` (the
+ * widest) across a viewport. A missing or invalid span keeps the default
+ * limit; limits given the wrong way round are swapped.
+ */
+export function getZoomLimits(
+  basePixelsPerMs: number,
+  viewportWidth: number,
+  minZoom?: TimeSpan,
+  maxZoom?: TimeSpan
+): ZoomLimits {
+  // The level at which `span` fills the viewport
+  const levelFor = (span: TimeSpan | undefined, fallback: number) => {
+    if (span === undefined || !(viewportWidth > 0) || !(basePixelsPerMs > 0)) return fallback;
+    const spanMs = timeSpanToMs(span);
+    return spanMs > 0 ? viewportWidth / (basePixelsPerMs * spanMs) : fallback;
+  };
+
+  const max = levelFor(minZoom, DEFAULT_MAX_ZOOM_LEVEL);
+  const min = levelFor(maxZoom, DEFAULT_MIN_ZOOM_LEVEL);
+  return min <= max ? { min, max } : { min: max, max: min };
+}
+
+/**
+ * Clamp a zoom level to the limits
+ */
+export function clampZoomLevel(level: number, limits: ZoomLimits): number {
+  return Math.max(limits.min, Math.min(limits.max, level));
+}
+
+/**
+ * Zoom levels of a band's zoom steps, ascending. Steps with an unknown unit or
+ * a non-positive interval are skipped.
+ */
+export function getZoomStepLevels(
+  steps: ZoomStep[] | undefined,
+  basePixelsPerMs: number
+): number[] {
+  if (!steps || !(basePixelsPerMs > 0)) return [];
+  const levels = new Set<number>();
+  for (const step of steps) {
+    const unitMs = TIME_UNITS[step.unit as TimeUnit];
+    if (unitMs === undefined || !(step.intervalPixels > 0)) continue;
+    levels.add(step.intervalPixels / unitMs / basePixelsPerMs);
+  }
+  return [...levels].sort((a, b) => a - b);
+}
+
+/** Step levels inside the limits */
+function levelsWithin(levels: number[], limits: ZoomLimits): number[] {
+  return levels.filter(level => level >= limits.min && level <= limits.max);
+}
+
+/** Tolerance for "already on this step", so float noise does not skip a step */
+const STEP_EPSILON = 1e-9;
+
+/**
+ * Zoom by a factor. Without steps this is `current * factor`, clamped; with
+ * steps it moves to the next step in the factor's direction, whatever the
+ * factor's size, and stays put past the last step.
+ */
+export function stepZoomLevel(
+  current: number,
+  factor: number,
+  levels: number[],
+  limits: ZoomLimits
+): number {
+  const steps = levelsWithin(levels, limits);
+  if (steps.length === 0) return clampZoomLevel(current * factor, limits);
+  if (factor > 1) {
+    return steps.find(level => level > current * (1 + STEP_EPSILON)) ?? current;
+  }
+  if (factor < 1) {
+    return [...steps].reverse().find(level => level < current * (1 - STEP_EPSILON)) ?? current;
+  }
+  return current;
+}
+
+/**
+ * The step nearest a zoom level (by ratio, so 2x away counts the same either
+ * way), or the level clamped when there are no steps
+ */
+export function snapZoomLevel(level: number, levels: number[], limits: ZoomLimits): number {
+  const steps = levelsWithin(levels, limits);
+  if (steps.length === 0 || !(level > 0)) return clampZoomLevel(level, limits);
+  let nearest = steps[0];
+  for (const step of steps) {
+    if (Math.abs(Math.log(step / level)) < Math.abs(Math.log(nearest / level))) {
+      nearest = step;
+    }
+  }
+  return nearest;
+}
@@ -0,0 +1,7 @@
+// Vite bundles `?worker&inline` imports into a worker constructor (see
+// workers/createLayoutWorker.ts). This ambient declaration types them for
+// tsc; like css-modules.d.ts it is not part of the emitted declarations.
+declare module '*?worker&inline' {
+  const WorkerConstructor: new () => Worker;
+  export default WorkerConstructor;
+}
@@ -0,0 +1,28 @@
+/**
+ * Layout worker factory
+ * The worker is bundled inline, so it loads with the library from any host
+ * without a separate file to serve
+ */
+
+import LayoutWorker from './layout.worker?worker&inline';
+
+/**
+ * Whether this environment runs workers at all. Server rendering and tests
+ * do not, and keep to the main thread from the first render.
+ */
+export function canUseLayoutWorker(): boolean {
+  return typeof Worker !== 'undefined';
+}
+
+/**
+ * Start a layout worker, or return null if one cannot start (a content
+ * security policy that blocks blob workers, for one)
+ */
+export function createLayoutWorker(): Worker | null {
+  if (!canUseLayoutWorker()) return null;
+  try {
+    return new LayoutWorker();
+  } catch {
+    return null;
+  }
+}
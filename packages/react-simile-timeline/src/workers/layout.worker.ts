@@ -0,0 +1,12 @@
+/**
+ * Layout worker entry: answers LayoutWorkerRequests (see utils/layoutWorker)
+ */
+
+import { handleLayoutRequest, type LayoutWorkerRequest, type LayoutWorkerState } from '../utils/layoutWorker';
+
+const state: LayoutWorkerState = { prepared: null };
+
+self.addEventListener('message', (e: MessageEvent<LayoutWorkerRequest>) => {
+  const { response, transfer } = handleLayoutRequest(state, e.data);
+  self.postMessage(response, { transfer });
+});